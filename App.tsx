@@ -4,16 +4,55 @@ import { Controls } from './components/Controls';
 import { CanvasView } from './components/CanvasView';
 import { BatchModal } from './components/BatchModal';
 import { HelpModal } from './components/HelpModal';
-import { Adjustments, FilmSimulation, LUTContainer, HistogramData, HSLAdjustments, GradingAdjustments, MaskLayer, BrushSettings, LocalAdjustments } from './types';
-import { generateFilmStyleLUT } from './services/lutGenerator';
-import { applyLUT } from './services/imageProcessor';
+import { Adjustments, FilmSimulation, LUTContainer, HistogramData, HSLAdjustments, GradingAdjustments, MaskLayer, MaskType, MaskOperation, GradientMaskParams, LuminanceRange, ColorRange, BrushSettings, LocalAdjustments, ViewportState, ImageRect, ToneCurves, GrainResponse, EditorState, CustomLook, LookSelection, LUTSize, LUTInterpolation, FujiRecipe, FilmProfile, FilmProfileId, DemosaicMethod } from './types';
+import { generateFilmStyleLUT, DEFAULT_LUT_SIZE } from './services/lutGenerator';
+import { runLUTBenchmark, LUTBenchmarkResult } from './services/lutBenchmark';
+import { loadLUTFile } from './services/lutFormats';
+import { fitLUTFromPair, LookFitOptions, LookFitResult } from './services/lookFitter';
+import { matchAdjustments, matchLUT, ColorMatchOptions, ColorMatchTarget } from './services/colorMatch';
+import { bakeLookLUT, formatCube, format3dl, LUTExportFormat, LUTExportSize } from './services/lutExporter';
+import { loadCustomLooks, saveCustomLook, deleteCustomLook, loadCustomProfiles, saveCustomProfile, deleteCustomProfile } from './services/lookStore';
+import { resolveFilmProfile, isBuiltInProfile, cloneProfile, serializeProfile, parseProfileJSON } from './services/filmProfiles';
+import { renderInPool, RenderCancelledError } from './services/renderPool';
+import { getStripeHalo } from './services/imageProcessor';
 import { analyzeImage, prepareImageForAI } from './services/aiService';
-import { loadDNG } from './services/dngLoader';
-import { createEmptyMaskData, drawStroke, canvasToMaskData } from './services/maskingService';
+import { linearToSRGB, loadDNG, RawLoadResult } from './services/dngLoader';
+import { loadRAF } from './services/rafLoader';
+import { ExifData, readExif } from './services/exifReader';
+import { MetadataExportMode, buildExifTIFF, embedExif } from './services/exifWriter';
+import { readFujiMakerNote } from './services/fujiMakerNote';
+import { createEmptyMaskData, createDefaultGradient, createDefaultLuminanceRange, createDefaultColorRange, applyMaskOperation } from './services/maskingService';
+import { createDefaultToneCurves } from './services/toneCurve';
+import { GrainProfile } from './services/filmGrain';
+import { recipeToAdjustments } from './services/fujiRecipe';
+import { EditHistory, createEmptyHistory, createHistoryStep, pushHistoryStep, applyHistoryStep, recordMaskChange } from './services/editHistory';
+import { buildPyramid, buildLinearPyramid, pickPyramidLevel, resampleMask, cropImageData, cropLinear, cropMask, expandRect } from './services/previewPyramid';
+
+// How long adjustments must stay unchanged before the proxy preview is replaced by a full-resolution render
+const IDLE_FULL_RENDER_MS = 700;
+
+// How long edits must stay unchanged before they are committed as one history step (coalesces slider drags)
+const HISTORY_SETTLE_MS = 500;
+// Learn look: working size of the image pair, and how far their aspect ratios may differ
+const LEARN_LOOK_MAX_EDGE = 768;
+const LEARN_LOOK_ASPECT_TOLERANCE = 0.02;
+// Match reference: working size of the reference image (only its colour statistics are used)
+const MATCH_REFERENCE_MAX_EDGE = 768;
+
+const MASK_OPERATION_LABELS: Record<MaskOperation['kind'], string> = {
+  invert: '反相蒙版 (Invert Mask)',
+  feather: '羽化蒙版 (Feather Mask)',
+  expand: '扩展蒙版 (Expand Mask)',
+  combine: '合并蒙版 (Combine Masks)',
+  refine: '边缘优化 (Refine Edge)'
+};
 
 const createDefaultAdjustments = (): Adjustments => ({
-  brightness: 0, contrast: 0, saturation: 0, highlights: 0, shadows: 0,
-  grainAmount: 0, grainSize: 2, vignette: 0, halation: 0, sharpening: 0,
+  brightness: 0, contrast: 0, saturation: 0, highlights: 0, shadows: 0, clarity: 0,
+  curves: createDefaultToneCurves(),
+  colorChrome: 0, colorChromeBlue: 0, monoWarmCool: 0, monoMagentaGreen: 0,
+  grainAmount: 0, grainSize: 2, grainChroma: 0, vignette: 0, halation: 0, sharpening: 0,
+  grainResponse: { shadows: 60, midtones: 100, highlights: 40 },
   whiteBalance: { temp: 0, tint: 0 },
   grading: {
     shadows: { h: 0, s: 0 },
@@ -31,13 +70,57 @@ const createDefaultAdjustments = (): Adjustments => ({
 });
 
 const createDefaultLocalAdjustments = (): LocalAdjustments => ({
-    exposure: 0, contrast: 0, saturation: 0, temperature: 0, tint: 0, sharpness: 0
+    exposure: 0, contrast: 0, saturation: 0, temperature: 0, tint: 0,
+    highlights: 0, shadows: 0, clarity: 0, dehaze: 0, sharpness: 0
 });
 
+// Screen-blended glow. imageWidth is the full image width in this canvas' pixel units (differs when rendering a region).
+const halationBlurRadius = (imageWidth: number) => Math.max(2, imageWidth * 0.02);
+
+const applyHalation = (canvas: HTMLCanvasElement, halation: number, imageWidth: number = canvas.width) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx || halation <= 0) return;
+    const width = canvas.width, height = canvas.height;
+    const halationStr = halation / 100;
+    const scale = 0.25; 
+    const glowCanvas = document.createElement('canvas');
+    glowCanvas.width = width * scale; glowCanvas.height = height * scale;
+    const glowCtx = glowCanvas.getContext('2d');
+    if (glowCtx) {
+        glowCtx.filter = 'contrast(200%) brightness(80%) grayscale(100%)';
+        glowCtx.drawImage(canvas, 0, 0, glowCanvas.width, glowCanvas.height);
+        ctx.save();
+        ctx.globalCompositeOperation = 'screen';
+        ctx.filter = `blur(${halationBlurRadius(imageWidth)}px) opacity(${halationStr})`;
+        ctx.drawImage(glowCanvas, 0, 0, width, height);
+        ctx.restore();
+    }
+};
+
 const App: React.FC = () => {
   const [originalImage, setOriginalImage] = useState<HTMLImageElement | null>(null);
-  const [currentFilm, setCurrentFilm] = useState<FilmSimulation>(FilmSimulation.Provia);
+  const [currentFilm, setCurrentFilm] = useState<FilmProfileId>(FilmSimulation.Provia);
   const [intensity, setIntensity] = useState<number>(1.0);
+  const [customLooks, setCustomLooks] = useState<CustomLook[]>([]);
+  const [look, setLook] = useState<LookSelection | null>(null);
+  const [lookFit, setLookFit] = useState<LookFitResult | null>(null);
+  const [isLearningLook, setIsLearningLook] = useState(false);
+  const [isMatchingReference, setIsMatchingReference] = useState(false);
+  const [customProfiles, setCustomProfiles] = useState<FilmProfile[]>([]);
+  // Profile being edited; previewed in place of the selected film until saved or cancelled
+  const [profileDraft, setProfileDraft] = useState<FilmProfile | null>(null);
+  const [lutSize, setLutSize] = useState<LUTSize>(DEFAULT_LUT_SIZE);
+  const [lutInterpolation, setLutInterpolation] = useState<LUTInterpolation>('tetrahedral');
+  const [rawDemosaic, setRawDemosaic] = useState<DemosaicMethod>('vng');
+  const [rafDevelopSensor, setRafDevelopSensor] = useState(false);
+  const [asShotTemperature, setAsShotTemperature] = useState<number | null>(null);
+  // Settings the camera recorded in its MakerNote, offered as a starting recipe
+  const [cameraRecipe, setCameraRecipe] = useState<FujiRecipe | null>(null);
+  // Source metadata, written back into exported JPEGs per the export mode
+  const [exifData, setExifData] = useState<ExifData | null>(null);
+  const [metadataMode, setMetadataMode] = useState<MetadataExportMode>('all');
+  const [benchmarkResults, setBenchmarkResults] = useState<LUTBenchmarkResult[] | null>(null);
+  const [isBenchmarking, setIsBenchmarking] = useState(false);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [isLoadingFile, setIsLoadingFile] = useState<boolean>(false);
   const [isAIAnalyzing, setIsAIAnalyzing] = useState<boolean>(false);
@@ -52,50 +135,93 @@ const App: React.FC = () => {
   // Masking State
   const [masks, setMasks] = useState<MaskLayer[]>([]);
   const [activeMaskId, setActiveMaskId] = useState<string | null>(null);
-  const [brushSettings, setBrushSettings] = useState<BrushSettings>({ size: 50, hardness: 50, opacity: 50, isEraser: false });
+  const [isPickingColor, setIsPickingColor] = useState(false);
+  const [brushSettings, setBrushSettings] = useState<BrushSettings>({
+      size: 50, hardness: 50, flow: 50, opacity: 100, spacing: 15, isEraser: false, pressureSize: true, pressureFlow: false
+  });
   
-  const maskCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const originalCanvasRef = useRef<HTMLCanvasElement>(null);
   const processedCanvasRef = useRef<HTMLCanvasElement>(null);
   const currentFinalLUT = useRef<LUTContainer | null>(null);
-
-  // History
-  const [pastStates, setPastStates] = useState<Adjustments[]>([]);
-  const [futureStates, setFutureStates] = useState<Adjustments[]>([]);
+  const renderAbortRef = useRef<AbortController | null>(null);
+  const idleRenderTimer = useRef<number | null>(null);
+
+  // Linear sRGB of a developed RAW, which the pipeline renders from instead of the 8-bit decode of the image
+  const sourceLinearRef = useRef<{ image: HTMLImageElement, data: Float32Array } | null>(null);
+  // Preview pyramid of the source image (with its linear levels for RAW), and proxy-sized copies of mask data per pyramid level
+  const pyramidRef = useRef<{ image: HTMLImageElement, levels: ImageData[], linear: Float32Array[] | null } | null>(null);
+  const proxyMaskCache = useRef(new WeakMap<Uint8Array, Map<number, Uint8Array>>());
+  const [viewport, setViewport] = useState<ViewportState>({ scale: 1, visibleRect: null });
+
+  // History: committed states are diffed into labelled steps; slider drags settle into one step
+  const [history, setHistory] = useState<EditHistory>(createEmptyHistory);
+  const historyRef = useRef<EditHistory>(history);
+  const committedRef = useRef<EditorState>({ adjustments, masks, film: currentFilm, intensity, look });
+  const pendingLabelRef = useRef<string | null>(null);
+  const historyCommitTimer = useRef<number | null>(null);
 
   const activeMask = masks.find(m => m.id === activeMaskId);
 
-  const saveSnapshot = () => {
-      setPastStates(prev => [...prev.slice(-20), JSON.parse(JSON.stringify(adjustments))]);
-      setFutureStates([]);
+  const currentEditorState = (): EditorState => ({ adjustments, masks, film: currentFilm, intensity, look });
+
+  const updateHistory = (next: EditHistory) => {
+      historyRef.current = next;
+      setHistory(next);
   };
 
-  const undo = () => {
-      if (pastStates.length === 0) return;
-      const previous = pastStates[pastStates.length - 1];
-      const newPast = pastStates.slice(0, pastStates.length - 1);
-      setFutureStates(prev => [JSON.parse(JSON.stringify(adjustments)), ...prev]);
-      setPastStates(newPast);
-      setAdjustments(previous);
+  const commitHistory = () => {
+      if (historyCommitTimer.current) { clearTimeout(historyCommitTimer.current); historyCommitTimer.current = null; }
+      const current = currentEditorState();
+      const step = createHistoryStep(pendingLabelRef.current, committedRef.current, current, originalImage?.width || 0, originalImage?.height || 0);
+      pendingLabelRef.current = null;
+      committedRef.current = current;
+      if (step) updateHistory(pushHistoryStep(historyRef.current, step));
   };
 
-  const redo = () => {
-      if (futureStates.length === 0) return;
-      const next = futureStates[0];
-      const newFuture = futureStates.slice(1);
-      setPastStates(prev => [...prev, JSON.parse(JSON.stringify(adjustments))]);
-      setFutureStates(newFuture);
-      setAdjustments(next);
+  // Name the next state change; anything still settling is committed as its own step first
+  const labelNextEdit = (label: string) => {
+      commitHistory();
+      pendingLabelRef.current = label;
   };
 
-  const loadGenericImage = async (file: File): Promise<HTMLImageElement> => {
+  useEffect(() => {
+      if (historyCommitTimer.current) clearTimeout(historyCommitTimer.current);
+      if (pendingLabelRef.current) { commitHistory(); return; }
+      historyCommitTimer.current = window.setTimeout(commitHistory, HISTORY_SETTLE_MS);
+  }, [adjustments, masks, currentFilm, intensity, look]);
+
+  const jumpToHistory = (index: number) => {
+      commitHistory();
+      const h = historyRef.current;
+      if (index < 0 || index > h.steps.length || index === h.index) return;
+      const width = originalImage?.width || 0, height = originalImage?.height || 0;
+      let state = committedRef.current;
+      for (let i = h.index; i > index; i--) state = applyHistoryStep(state, h.steps[i - 1], 'undo', width, height);
+      for (let i = h.index; i < index; i++) state = applyHistoryStep(state, h.steps[i], 'redo', width, height);
+      committedRef.current = state;
+      setAdjustments(state.adjustments);
+      setMasks(state.masks);
+      setCurrentFilm(state.film);
+      setIntensity(state.intensity);
+      setLook(state.look);
+      if (!state.masks.some(m => m.id === activeMaskId)) setActiveMaskId(null);
+      updateHistory({ ...h, index });
+  };
+
+  const undo = () => { commitHistory(); jumpToHistory(historyRef.current.index - 1); };
+  const redo = () => { commitHistory(); jumpToHistory(historyRef.current.index + 1); };
+
+  // RAW files are developed from sensor data when possible; linear and color are only set in that case
+  const loadImageFile = async (file: File): Promise<RawLoadResult> => {
       const name = file.name.toLowerCase();
       const ext = name.split('.').pop();
-      const rawExtensions = ['dng', 'tiff', 'tif', 'nef', 'arw', 'cr2', 'orf', 'rw2', 'raf', 'srw', 'pef'];
-      if (ext && rawExtensions.includes(ext)) {
-          return await loadDNG(file);
+      const rawExtensions = ['dng', 'tiff', 'tif', 'nef', 'arw', 'cr2', 'orf', 'rw2', 'srw', 'pef'];
+      if (ext === 'raf') {
+          return await loadRAF(file, { demosaic: rawDemosaic, colorSpace: 'srgb', developSensor: rafDevelopSensor });
+      } else if (ext && rawExtensions.includes(ext)) {
+          return await loadDNG(file, { demosaic: rawDemosaic, colorSpace: 'srgb' });
       } else {
-          return await new Promise((resolve, reject) => {
+          const image = await new Promise<HTMLImageElement>((resolve, reject) => {
               const reader = new FileReader();
               reader.onload = (event) => {
                   const i = new Image();
@@ -105,29 +231,43 @@ const App: React.FC = () => {
               };
               reader.readAsDataURL(file);
           });
+          return { image, linear: null, color: null };
       }
   };
 
+  const loadGenericImage = async (file: File): Promise<HTMLImageElement> => (await loadImageFile(file)).image;
+
+  // Malformed metadata must not fail an image that decoded fine
+  const readFileMetadata = async (file: File): Promise<ExifData | null> => {
+    try {
+      return readExif(await file.arrayBuffer());
+    } catch (err) {
+      console.warn("EXIF: Metadata could not be read.", err);
+      return null;
+    }
+  };
+
   const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
       setIsLoadingFile(true);
       try {
-        const img = await loadGenericImage(file);
+        const { image: img, linear, color } = await loadImageFile(file);
+        sourceLinearRef.current = linear ? { image: img, data: linearToSRGB(linear) } : null;
+        // A developed DNG is rendered at its as-shot white, which is where temp/tint 0 sits
+        setAsShotTemperature(color ? Math.round(color.temperature) : null);
+        const exif = await readFileMetadata(file);
+        setExifData(exif);
+        setCameraRecipe(exif ? readFujiMakerNote(exif) : null);
         setOriginalImage(img);
         setHistogramData(null);
         setAiReasoning(null);
         setSuggestedFilename(null);
         setMasks([]); 
         setActiveMaskId(null);
-        setPastStates([]);
-        setFutureStates([]);
-        
-        const mc = document.createElement('canvas');
-        mc.width = img.width;
-        mc.height = img.height;
-        maskCanvasRef.current = mc;
-
+        committedRef.current = { ...currentEditorState(), masks: [] };
+        pendingLabelRef.current = null;
+        updateHistory(createEmptyHistory());
       } catch (err) {
           alert(`图片加载失败 (Load Failed).\nError: ${(err as Error).message}`);
       } finally {
@@ -136,6 +276,14 @@ const App: React.FC = () => {
     }
   };
 
+  // Encode a rendered canvas, carrying the source metadata over unless the export mode strips it
+  const encodeJPEG = async (canvas: HTMLCanvasElement, quality: number, exif: ExifData | null): Promise<Blob> => {
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+      if (!blob) throw new Error("JPEG encoding failed");
+      const tiff = exif && buildExifTIFF(exif, { mode: metadataMode, width: canvas.width, height: canvas.height });
+      return tiff ? new Blob([embedExif(await blob.arrayBuffer(), tiff)], { type: 'image/jpeg' }) : blob;
+  };
+
   const handleBatchUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
       const fileList = e.target.files;
       if (!fileList || fileList.length === 0) return;
@@ -152,7 +300,7 @@ const App: React.FC = () => {
             setBatchStatus({ current: i + 1, total: files.length, filename: file.name });
             await new Promise(r => setTimeout(r, 50));
             try {
-                const img = await loadGenericImage(file);
+                const { image: img, linear } = await loadImageFile(file);
                 const canvas = document.createElement('canvas');
                 canvas.width = img.width;
                 canvas.height = img.height;
@@ -160,10 +308,12 @@ const App: React.FC = () => {
                 if (!ctx) continue;
                 ctx.drawImage(img, 0, 0);
                 const imageData = ctx.getImageData(0, 0, img.width, img.height);
-                const { imageData: processed } = applyLUT(imageData, currentFinalLUT.current!, adjustments, intensity, []);
+                const { imageData: processed } = await renderInPool(imageData, currentFinalLUT.current!, adjustments, intensity, [], {
+                    linear: linear ? linearToSRGB(linear) : undefined
+                });
                 ctx.putImageData(processed, 0, 0);
-                const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.95));
-                if (blob) zip.file(`pg_ultra_${file.name.split('.')[0]}.jpg`, blob);
+                const blob = await encodeJPEG(canvas, 0.95, await readFileMetadata(file));
+                zip.file(`pg_ultra_${file.name.split('.')[0]}.jpg`, blob);
             } catch(e) { console.error(e); }
         }
         const content = await zip.generateAsync({ type: "blob" });
@@ -174,89 +324,104 @@ const App: React.FC = () => {
       } catch(e) { alert("批量处理失败 (Batch Failed)"); } finally { setIsBatchProcessing(false); }
   };
 
-  const handleAddMask = () => {
-      saveSnapshot();
+  const handleAddMask = (type: MaskType = 'brush') => {
       if (!originalImage) return;
+      labelNextEdit('添加蒙版 (Add Mask)');
+      const label = type === 'linear' ? '线性渐变' : type === 'radial' ? '径向渐变' : '蒙版';
       const newMask: MaskLayer = {
           id: Date.now().toString(),
-          name: `蒙版 ${masks.length + 1}`,
+          name: `${label} ${masks.length + 1}`,
+          type,
           visible: true,
           opacity: 1,
-          data: createEmptyMaskData(originalImage.width, originalImage.height),
+          data: type === 'brush' ? createEmptyMaskData(originalImage.width, originalImage.height) : null,
+          gradient: type === 'brush' ? null : createDefaultGradient(type),
+          luminanceRange: createDefaultLuminanceRange(),
+          colorRange: createDefaultColorRange(),
           adjustments: createDefaultLocalAdjustments()
       };
       setMasks([...masks, newMask]);
       setActiveMaskId(newMask.id);
-      
-      if (maskCanvasRef.current) {
-          const ctx = maskCanvasRef.current.getContext('2d');
-          ctx?.clearRect(0, 0, maskCanvasRef.current.width, maskCanvasRef.current.height);
-      }
   };
 
   const handleDeleteMask = (id: string) => {
-      saveSnapshot();
+      labelNextEdit('删除蒙版 (Delete Mask)');
       setMasks(masks.filter(m => m.id !== id));
       if (activeMaskId === id) setActiveMaskId(null);
   };
 
   const handleToggleMask = (id: string) => {
-      saveSnapshot();
+      labelNextEdit('显示/隐藏蒙版 (Toggle Mask)');
       setMasks(masks.map(m => m.id === id ? { ...m, visible: !m.visible } : m));
   };
 
   const handleSelectMask = (id: string) => {
       setActiveMaskId(id);
-      if (maskCanvasRef.current && originalImage) {
-          const mask = masks.find(m => m.id === id);
-          const ctx = maskCanvasRef.current.getContext('2d');
-          if (mask && mask.data && ctx) {
-              ctx.clearRect(0, 0, originalImage.width, originalImage.height);
-              const idata = ctx.createImageData(originalImage.width, originalImage.height);
-              const d = idata.data;
-              for(let i=0; i<mask.data.length; i++) {
-                  const a = mask.data[i];
-                  d[i*4] = 255; d[i*4+1] = 0; d[i*4+2] = 0; d[i*4+3] = a; 
-              }
-              ctx.putImageData(idata, 0, 0);
-          }
-      }
+      setIsPickingColor(false);
+  };
+
+  const handleDuplicateMask = (id: string) => {
+      const source = masks.find(m => m.id === id);
+      if (!source) return;
+      labelNextEdit('复制蒙版 (Duplicate Mask)');
+      const copy: MaskLayer = { ...source, id: Date.now().toString(), name: `${source.name} 副本`, data: source.data ? source.data.slice() : null };
+      const index = masks.indexOf(source);
+      setMasks([...masks.slice(0, index + 1), copy, ...masks.slice(index + 1)]);
+      setActiveMaskId(copy.id);
+  };
+
+  const handleMaskOperation = (id: string, op: MaskOperation) => {
+      const levels = getPyramid();
+      const target = masks.find(m => m.id === id);
+      if (!levels || !target) return;
+      labelNextEdit(op.kind === 'expand' && op.amount < 0 ? '收缩蒙版 (Contract Mask)' : MASK_OPERATION_LABELS[op.kind]);
+      const updated = applyMaskOperation(target, op, masks, levels[0]);
+      setMasks(masks.map(m => m.id === id ? updated : m));
   };
 
   const handleLocalAdjChange = (id: string, key: keyof LocalAdjustments, val: number) => {
       setMasks(masks.map(m => m.id === id ? { ...m, adjustments: { ...m.adjustments, [key]: val } } : m));
   };
 
-  const handleBrushStroke = (x: number, y: number, lastX: number, lastY: number) => {
-      if (!activeMaskId || !maskCanvasRef.current) return;
-      const ctx = maskCanvasRef.current.getContext('2d');
-      if (!ctx) return;
-      ctx.globalCompositeOperation = brushSettings.isEraser ? 'destination-out' : 'source-over';
-      ctx.strokeStyle = `rgba(255, 0, 0, ${brushSettings.opacity / 100})`; 
-      ctx.fillStyle = `rgba(255, 0, 0, ${brushSettings.opacity / 100})`;
-      drawStroke(ctx, x, y, lastX, lastY, { ...brushSettings, opacity: brushSettings.opacity });
+  const handleGradientChange = (id: string, gradient: GradientMaskParams) => {
+      setMasks(prev => prev.map(m => m.id === id ? { ...m, gradient } : m));
   };
 
-  const handleMouseUp = () => {
-      if (activeMaskId && maskCanvasRef.current) {
-          const newData = canvasToMaskData(maskCanvasRef.current);
-          setMasks(prev => prev.map(m => m.id === activeMaskId ? { ...m, data: newData } : m));
-      }
+  const handleLuminanceRangeChange = (id: string, luminanceRange: LuminanceRange) => {
+      setMasks(prev => prev.map(m => m.id === id ? { ...m, luminanceRange } : m));
   };
 
-  useEffect(() => {
-      window.addEventListener('mouseup', handleMouseUp);
-      return () => window.removeEventListener('mouseup', handleMouseUp);
-  }, [activeMaskId]);
+  const handleColorRangeChange = (id: string, colorRange: ColorRange) => {
+      setMasks(prev => prev.map(m => m.id === id ? { ...m, colorRange } : m));
+  };
+
+  // Eyedropper: a click on the canvas samples the original image into the active layer's color range
+  const handleColorPick = (color: { r: number, g: number, b: number }) => {
+      setIsPickingColor(false);
+      if (!activeMaskId) return;
+      setMasks(prev => prev.map(m => m.id === activeMaskId ? { ...m, colorRange: { ...m.colorRange, enabled: true, color } } : m));
+  };
+
+  // CanvasView runs the brush engine during a stroke and hands over the finished alpha
+  const handleStrokeEnd = (data: Uint8Array, changed: ImageRect | null) => {
+      if (!activeMaskId || !changed) return;
+      labelNextEdit(brushSettings.isEraser ? '擦除 (Erase)' : '画笔 (Brush)');
+      setMasks(prev => prev.map(m => {
+          if (m.id !== activeMaskId || m.type !== 'brush') return m;
+          recordMaskChange(m.data, data, changed);
+          return { ...m, data };
+      }));
+  };
 
   const handleAIAutoAdjust = async (hint: string = '') => {
     if (!originalImage) return;
-    saveSnapshot();
     try {
       setIsAIAnalyzing(true);
       setAiReasoning(null);
       const base64 = await prepareImageForAI(originalImage);
       const result = await analyzeImage(base64, hint);
+      // This closure's state is stale after the await, so only name the step the results produce
+      pendingLabelRef.current = 'AI 自动调整 (AI Auto Adjust)';
       setCurrentFilm(FilmSimulation.None);
       const defaults = createDefaultAdjustments();
       setAdjustments(prev => ({
@@ -269,6 +434,11 @@ const App: React.FC = () => {
           midtones: { ...defaults.grading.midtones, ...result.adjustments.grading.midtones },
           highlights: { ...defaults.grading.highlights, ...result.adjustments.grading.highlights }
         } : prev.grading,
+        curves: result.adjustments.curves ? {
+          ...defaults.curves,
+          ...result.adjustments.curves,
+          parametric: { ...defaults.curves.parametric, ...result.adjustments.curves.parametric }
+        } : prev.curves,
         sharpening: result.adjustments.sharpening ?? prev.sharpening
       }));
       setAiReasoning(result.reasoning);
@@ -277,7 +447,7 @@ const App: React.FC = () => {
   };
 
   const handleApplyPreset = (name: string, presetAdjustments: Partial<Adjustments>) => {
-      saveSnapshot();
+      labelNextEdit(`预设 · ${name}`);
       const defaults = createDefaultAdjustments();
       setCurrentFilm(FilmSimulation.None);
       setAdjustments(prev => ({
@@ -289,33 +459,276 @@ const App: React.FC = () => {
               shadows: { ...defaults.grading.shadows, ...presetAdjustments.grading.shadows },
               midtones: { ...defaults.grading.midtones, ...presetAdjustments.grading.midtones },
               highlights: { ...defaults.grading.highlights, ...presetAdjustments.grading.highlights }
-          } : defaults.grading
+          } : defaults.grading,
+          curves: presetAdjustments.curves ? {
+              ...defaults.curves,
+              ...presetAdjustments.curves,
+              parametric: { ...defaults.curves.parametric, ...presetAdjustments.curves.parametric }
+          } : defaults.curves
       }));
       setIntensity(1.0);
   };
 
+  // A recipe replaces the whole edit, like a preset, but keeps its film simulation
+  const handleApplyRecipe = (recipe: FujiRecipe) => {
+      labelNextEdit(`配方 · ${recipe.name}`);
+      setCurrentFilm(recipe.filmSimulation);
+      setLook(null);
+      setAdjustments(recipeToAdjustments(recipe, createDefaultAdjustments()));
+      setIntensity(1.0);
+  };
+
   const handleAdjustmentChange = (key: keyof Adjustments, val: number) => setAdjustments(prev => ({ ...prev, [key]: val }));
   const handleHSLChange = (c: any, p: any, v: number) => setAdjustments(prev => ({ ...prev, hsl: { ...prev.hsl, [c]: { ...prev.hsl[c], [p]: v } } }));
   const handleWBChange = (p: any, v: number) => setAdjustments(prev => ({ ...prev, whiteBalance: { ...prev.whiteBalance, [p]: v } }));
   const handleGradingChange = (r: any, p: any, v: number) => setAdjustments(prev => ({ ...prev, grading: { ...prev.grading, [r]: { ...prev.grading[r], [p]: v } } }));
-  const handleFilmChange = (film: FilmSimulation) => setCurrentFilm(film);
+  const handleGrainProfileChange = (profile: GrainProfile) => setAdjustments(prev => ({
+      ...prev,
+      grainAmount: profile.amount,
+      grainSize: profile.size,
+      grainChroma: profile.chroma,
+      grainResponse: { ...profile.response }
+  }));
+  const handleGrainResponseChange = (tone: keyof GrainResponse, v: number) => setAdjustments(prev => ({ ...prev, grainResponse: { ...prev.grainResponse, [tone]: v } }));
+  const handleCurvesChange = (curves: ToneCurves) => setAdjustments(prev => ({ ...prev, curves }));
+  const handleFilmChange = (film: FilmProfileId) => { setProfileDraft(null); setCurrentFilm(film); };
   const handleIntensityChange = (val: number) => setIntensity(val);
+
+  // Custom looks: imported LUT files (.cube, .3dl, .csp, Hald PNG), kept in IndexedDB across sessions
+  useEffect(() => {
+      loadCustomLooks().then(setCustomLooks).catch(err => console.warn('Custom looks unavailable', err));
+  }, []);
+
+  const handleImportLook = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const lut = await loadLUTFile(file);
+          const newLook: CustomLook = { id: Date.now().toString(), name: lut.name || file.name, lut, createdAt: Date.now() };
+          setCustomLooks(prev => [...prev, newLook]);
+          setLook({ id: newLook.id, intensity: 1, stackOnFilm: false });
+          await saveCustomLook(newLook).catch(err => console.warn('Custom look not saved', err));
+      } catch (err) {
+          alert(`LUT 导入失败 (Import Failed).\n${(err as Error).message}`);
+      }
+  };
+
+  // Learn a look from a neutral render and the graded version of the same frame, and add it as a custom look
+  const handleLearnLook = async (beforeFile: File, afterFile: File, options: LookFitOptions) => {
+      setIsLearningLook(true);
+      try {
+          const [before, after] = await Promise.all([loadGenericImage(beforeFile), loadGenericImage(afterFile)]);
+          if (Math.abs(before.width / before.height - after.width / after.height) > LEARN_LOOK_ASPECT_TOLERANCE) {
+              throw new Error('两张图片比例不一致 (The images have different aspect ratios)');
+          }
+          // Both drawn at the same, reduced size: the fit needs colour pairs, not detail
+          const scale = Math.min(1, LEARN_LOOK_MAX_EDGE / Math.max(before.width, before.height));
+          const width = Math.max(1, Math.round(before.width * scale)), height = Math.max(1, Math.round(before.height * scale));
+          const toImageData = (img: HTMLImageElement) => {
+              const canvas = document.createElement('canvas');
+              canvas.width = width; canvas.height = height;
+              const ctx = canvas.getContext('2d')!;
+              ctx.drawImage(img, 0, 0, width, height);
+              return ctx.getImageData(0, 0, width, height);
+          };
+          const name = `学习 · ${afterFile.name.replace(/\.[^.]+$/, '')}`;
+          const result = fitLUTFromPair(toImageData(before), toImageData(after), options, name);
+          const newLook: CustomLook = { id: Date.now().toString(), name, lut: result.lut, createdAt: Date.now() };
+          setLookFit(result);
+          setCustomLooks(prev => [...prev, newLook]);
+          setLook({ id: newLook.id, intensity: 1, stackOnFilm: false });
+          await saveCustomLook(newLook).catch(err => console.warn('Custom look not saved', err));
+      } catch (err) {
+          alert(`风格学习失败 (Learn Look Failed).\n${(err as Error).message}`);
+      } finally {
+          setIsLearningLook(false);
+      }
+  };
+
+  // Match the colour of a reference photo, either as editable adjustments or as a new custom look
+  const handleMatchReference = async (referenceFile: File, options: ColorMatchOptions, target: ColorMatchTarget) => {
+      const levels = getPyramid();
+      if (!levels) return;
+      setIsMatchingReference(true);
+      try {
+          const img = await loadGenericImage(referenceFile);
+          const scale = Math.min(1, MATCH_REFERENCE_MAX_EDGE / Math.max(img.width, img.height));
+          const canvas = document.createElement('canvas');
+          canvas.width = Math.max(1, Math.round(img.width * scale));
+          canvas.height = Math.max(1, Math.round(img.height * scale));
+          const ctx = canvas.getContext('2d')!;
+          ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+          const reference = ctx.getImageData(0, 0, canvas.width, canvas.height);
+          const name = `匹配 · ${referenceFile.name.replace(/\.[^.]+$/, '')}`;
+
+          // Statistics come from the unedited image, so the adjustments replace the film and look rather than stacking on them
+          if (target === 'adjustments') {
+              labelNextEdit(name);
+              setCurrentFilm(FilmSimulation.None);
+              setLook(null);
+              setAdjustments(prev => matchAdjustments(levels[0], reference, options, prev));
+          } else {
+              const lut = matchLUT(levels[0], reference, options, lutSize, name);
+              const newLook: CustomLook = { id: Date.now().toString(), name, lut, createdAt: Date.now() };
+              setCustomLooks(prev => [...prev, newLook]);
+              setLook({ id: newLook.id, intensity: 1, stackOnFilm: false });
+              await saveCustomLook(newLook).catch(err => console.warn('Custom look not saved', err));
+          }
+      } catch (err) {
+          alert(`参考匹配失败 (Match Failed).\n${(err as Error).message}`);
+      } finally {
+          setIsMatchingReference(false);
+      }
+  };
+
+  const handleSelectLook = (id: string | null) => {
+      setLook(prev => id === null ? null : { id, intensity: prev?.intensity ?? 1, stackOnFilm: prev?.stackOnFilm ?? false });
+  };
+
+  const handleLookChange = (changes: Partial<Omit<LookSelection, 'id'>>) => setLook(prev => prev ? { ...prev, ...changes } : prev);
+
+  const handleDeleteLook = (id: string) => {
+      setCustomLooks(prev => prev.filter(l => l.id !== id));
+      if (look?.id === id) setLook(null);
+      deleteCustomLook(id).catch(err => console.warn('Custom look not deleted', err));
+  };
   
-  const handleDownload = () => {
-    if (!processedCanvasRef.current) return;
-    const link = document.createElement('a');
-    let filename = `prograde-ultra-${Date.now()}.jpg`;
-    if (suggestedFilename) filename = suggestedFilename.toLowerCase().endsWith('.jpg') ? suggestedFilename : `${suggestedFilename}.jpg`;
-    link.download = filename;
-    link.href = processedCanvasRef.current.toDataURL('image/jpeg', 0.92);
-    link.click();
+  // Film profiles: built-ins plus custom profiles saved from the editor or imported as JSON
+  useEffect(() => {
+      loadCustomProfiles().then(setCustomProfiles).catch(err => console.warn('Film profiles unavailable', err));
+  }, []);
+
+  const activeProfile = profileDraft || resolveFilmProfile(currentFilm, customProfiles);
+
+  const addCustomProfile = async (profile: FilmProfile) => {
+      setCustomProfiles(prev => [...prev.filter(p => p.id !== profile.id), profile]);
+      setCurrentFilm(profile.id);
+      await saveCustomProfile(profile).catch(err => console.warn('Film profile not saved', err));
+  };
+
+  const handleEditProfile = () => {
+      const base = resolveFilmProfile(currentFilm, customProfiles) || resolveFilmProfile(FilmSimulation.Provia, []);
+      // Custom profiles are edited in place; built-ins are edited as a copy
+      setProfileDraft(isBuiltInProfile(base.id) ? cloneProfile(base, `${base.name.split(' / ')[0]} Custom`) : JSON.parse(JSON.stringify(base)));
+  };
+
+  const handleSaveProfile = () => {
+      if (!profileDraft) return;
+      addCustomProfile({ ...profileDraft, createdAt: profileDraft.createdAt || Date.now() });
+      setProfileDraft(null);
+  };
+
+  const handleImportProfile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const parsed = parseProfileJSON(await file.text());
+          // Imports get a fresh id, so neither a built-in nor an existing custom profile with the file's id is replaced
+          const profile = cloneProfile(parsed, parsed.name);
+          setProfileDraft(null);
+          await addCustomProfile(profile);
+      } catch (err) {
+          alert(`胶片配置导入失败 (Import Failed).\n${(err as Error).message}`);
+      }
+  };
+
+  const handleExportProfile = () => {
+      if (!activeProfile) return;
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(new Blob([serializeProfile(activeProfile)], { type: 'application/json' }));
+      link.download = `${activeProfile.name.split(' / ')[0].replace(/[^\w\-]+/g, '_')}.json`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+  };
+
+  const handleDeleteProfile = (id: string) => {
+      setCustomProfiles(prev => prev.filter(p => p.id !== id));
+      if (currentFilm === id) setCurrentFilm(FilmSimulation.Provia);
+      if (profileDraft?.id === id) setProfileDraft(null);
+      deleteCustomProfile(id).catch(err => console.warn('Film profile not deleted', err));
+  };
+  
+  const handleDownload = async () => {
+    const levels = getPyramid();
+    if (!levels || !currentFinalLUT.current) return;
+    setIsProcessing(true);
+    try {
+        // Export always renders the full resolution image, whatever the preview currently shows
+        const { imageData } = await renderInPool(levels[0], currentFinalLUT.current, adjustments, intensity, masks, {
+            linear: pyramidRef.current!.linear?.[0]
+        });
+        const canvas = document.createElement('canvas');
+        canvas.width = imageData.width;
+        canvas.height = imageData.height;
+        canvas.getContext('2d')?.putImageData(imageData, 0, 0);
+        applyHalation(canvas, adjustments.halation);
+
+        const blob = await encodeJPEG(canvas, 0.92, exifData);
+
+        const link = document.createElement('a');
+        let filename = `prograde-ultra-${Date.now()}.jpg`;
+        if (suggestedFilename) filename = suggestedFilename.toLowerCase().endsWith('.jpg') ? suggestedFilename : `${suggestedFilename}.jpg`;
+        link.download = filename;
+        link.href = URL.createObjectURL(blob);
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+    } catch (err) {
+        alert(`导出失败 (Export Failed).\nError: ${(err as Error).message}`);
+    } finally {
+        setIsProcessing(false);
+    }
+  };
+
+  // Film simulation + white balance + grading (+ custom look) as one LUT of the given size
+  const buildFinalLUT = (size: LUTSize): LUTContainer => {
+      const lookLUT = look && customLooks.find(l => l.id === look.id)?.lut;
+      const lookLayer = look && lookLUT ? { lut: lookLUT, intensity: look.intensity, stackOnFilm: look.stackOnFilm } : null;
+      const chrome = { effect: adjustments.colorChrome / 100, blue: adjustments.colorChromeBlue / 100 };
+      const toning = { warmCool: adjustments.monoWarmCool, magentaGreen: adjustments.monoMagentaGreen };
+      return generateFilmStyleLUT(activeProfile, adjustments.whiteBalance, adjustments.grading, lookLayer, size, chrome, toning);
+  };
+
+  // Time each LUT size and interpolation on the frame the preview renders at the current zoom
+  const handleRunBenchmark = async () => {
+      const levels = getPyramid();
+      if (!levels || isBenchmarking) return;
+      setIsBenchmarking(true);
+      setBenchmarkResults(null);
+      try {
+          const level = viewport.scale < 1 ? pickPyramidLevel(levels, viewport.scale * (window.devicePixelRatio || 1)) : 0;
+          const source = levels[level];
+          const layerMasks = level > 0 ? getProxyMasks(level, source.width, source.height) : masks;
+          setBenchmarkResults(await runLUTBenchmark(source, buildFinalLUT, adjustments, intensity, layerMasks));
+      } catch (err) {
+          console.error('Benchmark failed:', err);
+      } finally {
+          setIsBenchmarking(false);
+      }
+  };
+
+  // Export the global look (not masks, vignette or texture) as a LUT for video tools
+  const handleExportLUT = (format: LUTExportFormat, size: LUTExportSize) => {
+      if (!currentFinalLUT.current) return;
+      const lookName = look ? customLooks.find(l => l.id === look.id)?.name : undefined;
+      const title = [activeProfile?.name.split(' / ')[0], lookName].filter(Boolean).join(' + ');
+      const lut = bakeLookLUT(currentFinalLUT.current, adjustments, intensity, size, title);
+      const text = format === 'cube' ? formatCube(lut, title) : format3dl(lut, title);
+      const base = (suggestedFilename || `FujiSim_${title}`).replace(/\.jpe?g$/i, '').replace(/[^\w\-]+/g, '_');
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+      link.download = `${base}_${size}.${format}`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(link.href), 1000);
   };
 
   const handleReset = () => {
-      saveSnapshot();
+      labelNextEdit('重置 (Reset)');
       setAdjustments(createDefaultAdjustments());
       setIntensity(1.0);
       setCurrentFilm(FilmSimulation.Provia);
+      setLook(null);
       setMasks([]);
       setActiveMaskId(null);
   };
@@ -323,64 +736,151 @@ const App: React.FC = () => {
   useEffect(() => {
     setIsProcessing(true);
     const timer = setTimeout(() => {
-        currentFinalLUT.current = generateFilmStyleLUT(currentFilm, adjustments.whiteBalance, adjustments.grading);
+        currentFinalLUT.current = { ...buildFinalLUT(lutSize), interpolation: lutInterpolation };
         triggerProcessing();
     }, 10);
     return () => clearTimeout(timer);
-  }, [currentFilm, adjustments.whiteBalance, adjustments.grading]); 
+  }, [currentFilm, adjustments.whiteBalance, adjustments.grading, adjustments.colorChrome, adjustments.colorChromeBlue, adjustments.monoWarmCool, adjustments.monoMagentaGreen, look, customLooks, customProfiles, profileDraft, lutSize, lutInterpolation]); 
 
   useEffect(() => {
     const timer = setTimeout(() => triggerProcessing(), 15);
     return () => clearTimeout(timer);
-  }, [adjustments, intensity, originalImage, masks]); 
+  }, [adjustments, intensity, originalImage, masks, viewport]); 
+
+  const handleViewChange = (view: ViewportState) => setViewport(prev => {
+      // Below 100% only the zoom picks the proxy level, so panning needs no re-render
+      if (view.scale < 1 && prev.scale === view.scale) return prev;
+      return view;
+  });
+
+  const getPyramid = (): ImageData[] | null => {
+    if (!originalImage || !originalCanvasRef.current) return null;
+    if (pyramidRef.current?.image === originalImage) return pyramidRef.current.levels;
+    const canvas = originalCanvasRef.current;
+    if (canvas.width === 0 || canvas.width !== originalImage.width) return null;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    const levels = buildPyramid(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    const source = sourceLinearRef.current;
+    const linear = source?.image === originalImage ? buildLinearPyramid(source.data, levels) : null;
+    pyramidRef.current = { image: originalImage, levels, linear };
+    return levels;
+  };
 
-  const triggerProcessing = useCallback(() => {
-    if (!originalImage || !originalCanvasRef.current || !processedCanvasRef.current || !currentFinalLUT.current) {
+  const getProxyMasks = (level: number, width: number, height: number): MaskLayer[] => {
+    const full = pyramidRef.current!.levels[0];
+    return masks.map(m => {
+        if (!m.data) return m;
+        let perLevel = proxyMaskCache.current.get(m.data);
+        if (!perLevel) {
+            perLevel = new Map();
+            proxyMaskCache.current.set(m.data, perLevel);
+        }
+        let data = perLevel.get(level);
+        if (!data) {
+            data = resampleMask(m.data, full.width, full.height, width, height);
+            perLevel.set(level, data);
+        }
+        return { ...m, data };
+    });
+  };
+
+  const triggerProcessing = useCallback(async (quality: 'preview' | 'full' = 'preview') => {
+    const levels = getPyramid();
+    if (!levels || !processedCanvasRef.current || !currentFinalLUT.current) {
         setIsProcessing(false);
         return;
     }
-    const origCtx = originalCanvasRef.current.getContext('2d', { willReadFrequently: true });
     const procCtx = processedCanvasRef.current.getContext('2d', { willReadFrequently: true });
-    if (!origCtx || !procCtx) { setIsProcessing(false); return; }
-
-    const width = originalCanvasRef.current.width;
-    const height = originalCanvasRef.current.height;
-    if (width === 0) { setIsProcessing(false); return; }
-
-    const pixelData = origCtx.getImageData(0, 0, width, height);
-    
-    const { imageData: processedData, histogram } = applyLUT(
-        pixelData, 
-        currentFinalLUT.current, 
-        adjustments, 
-        intensity,
-        masks 
-    );
-
-    setHistogramData(histogram);
-    processedCanvasRef.current.width = width;
-    processedCanvasRef.current.height = height;
-    procCtx.putImageData(processedData, 0, 0);
-    
-    if (adjustments.halation > 0) {
-        const halationStr = adjustments.halation / 100;
-        const scale = 0.25; 
-        const glowCanvas = document.createElement('canvas');
-        glowCanvas.width = width * scale; glowCanvas.height = height * scale;
-        const glowCtx = glowCanvas.getContext('2d');
-        if (glowCtx) {
-            glowCtx.filter = 'contrast(200%) brightness(80%) grayscale(100%)';
-            glowCtx.drawImage(processedCanvasRef.current, 0, 0, glowCanvas.width, glowCanvas.height);
-            procCtx.save();
-            procCtx.globalCompositeOperation = 'screen';
-            const blurRadius = Math.max(2, width * 0.02);
-            procCtx.filter = `blur(${blurRadius}px) opacity(${halationStr})`;
-            procCtx.drawImage(glowCanvas, 0, 0, width, height);
-            procCtx.restore();
+    if (!procCtx) { setIsProcessing(false); return; }
+
+    // A newer adjustment supersedes whatever is still rendering
+    renderAbortRef.current?.abort();
+    if (idleRenderTimer.current !== null) clearTimeout(idleRenderTimer.current);
+    idleRenderTimer.current = null;
+    const controller = new AbortController();
+    renderAbortRef.current = controller;
+    setIsProcessing(true);
+
+    // Preview: below 100% zoom render a proxy sized to the screen, above it only the visible region at native size
+    const full = levels[0];
+    let level = 0;
+    let region: ImageRect | null = null;
+    if (quality === 'preview') {
+        const rect = viewport.visibleRect;
+        if (viewport.scale >= 1 && rect && (rect.width < full.width || rect.height < full.height)) region = rect;
+        else if (viewport.scale < 1) level = pickPyramidLevel(levels, viewport.scale * (window.devicePixelRatio || 1));
+    }
+
+    // A region renders with a margin wide enough for the local detail blurs and halation, cropped back afterwards
+    let padded: ImageRect | null = null;
+    if (region) {
+        const margin = Math.max(
+            getStripeHalo(masks, full.width, full.height, adjustments),
+            adjustments.halation > 0 ? Math.ceil(halationBlurRadius(full.width)) : 0
+        );
+        padded = expandRect(region, margin, full.width, full.height);
+    }
+
+    const source = padded ? cropImageData(full, padded) : levels[level];
+    const linearLevels = pyramidRef.current!.linear;
+    const linear = linearLevels ? (padded ? cropLinear(linearLevels[0], full.width, padded) : linearLevels[level]) : undefined;
+    const layerMasks = padded
+        ? masks.map(m => m.data ? { ...m, data: cropMask(m.data, full.width, padded!) } : m)
+        : level > 0 ? getProxyMasks(level, source.width, source.height) : masks;
+
+    let result;
+    try {
+        result = await renderInPool(source, currentFinalLUT.current, adjustments, intensity, layerMasks, {
+            signal: controller.signal,
+            linear,
+            placement: padded ? { offsetX: padded.x, offsetY: padded.y, fullWidth: full.width, fullHeight: full.height } : undefined
+        });
+    } catch (err) {
+        if (err instanceof RenderCancelledError) return;
+        console.error("Render failed:", err);
+        setIsProcessing(false);
+        return;
+    }
+    const canvas = processedCanvasRef.current;
+    if (controller.signal.aborted || !canvas) return;
+    const { imageData: processedData, histogram } = result;
+
+    // The histogram describes the whole frame, so a region crop keeps the last full or proxy one
+    if (!padded) setHistogramData(histogram);
+    if (region && padded) {
+        // Keep the rest of the frame: upscale the previous render to native size, then paint the region over it
+        if (canvas.width !== full.width || canvas.height !== full.height) {
+            const previous = document.createElement('canvas');
+            previous.width = canvas.width;
+            previous.height = canvas.height;
+            previous.getContext('2d')?.drawImage(canvas, 0, 0);
+            canvas.width = full.width;
+            canvas.height = full.height;
+            procCtx.drawImage(previous, 0, 0, full.width, full.height);
         }
+        const regionCanvas = document.createElement('canvas');
+        regionCanvas.width = padded.width;
+        regionCanvas.height = padded.height;
+        regionCanvas.getContext('2d')?.putImageData(processedData, 0, 0);
+        applyHalation(regionCanvas, adjustments.halation, full.width);
+        procCtx.drawImage(
+            regionCanvas,
+            region.x - padded.x, region.y - padded.y, region.width, region.height,
+            region.x, region.y, region.width, region.height
+        );
+    } else {
+        canvas.width = processedData.width;
+        canvas.height = processedData.height;
+        procCtx.putImageData(processedData, 0, 0);
+        applyHalation(canvas, adjustments.halation);
     }
     setIsProcessing(false);
-  }, [adjustments, intensity, originalImage, currentFilm, masks]);
+
+    if (quality === 'preview' && (level > 0 || region)) {
+        idleRenderTimer.current = window.setTimeout(() => triggerProcessing('full'), IDLE_FULL_RENDER_MS);
+    }
+  }, [adjustments, intensity, originalImage, currentFilm, masks, viewport]);
 
   return (
     <div className="flex flex-col lg:flex-row h-screen w-full bg-[#0a0a0a] text-gray-200 font-sans overflow-hidden">
@@ -398,8 +898,12 @@ const App: React.FC = () => {
         processedCanvasRef={processedCanvasRef}
         isMaskingMode={!!activeMaskId}
         brushSettings={brushSettings}
-        activeMaskData={activeMask?.data || null}
-        onStroke={handleBrushStroke}
+        activeMask={activeMask || null}
+        onStrokeEnd={handleStrokeEnd}
+        onGradientChange={handleGradientChange}
+        isPickingColor={isPickingColor}
+        onColorPick={handleColorPick}
+        onViewChange={handleViewChange}
       />
       
       {aiReasoning && (
@@ -416,7 +920,24 @@ const App: React.FC = () => {
         currentFilm={currentFilm} onFilmChange={handleFilmChange}
         adjustments={adjustments} onAdjustmentChange={handleAdjustmentChange}
         onHSLChange={handleHSLChange} onWBChange={handleWBChange} onGradingChange={handleGradingChange}
+        onCurvesChange={handleCurvesChange}
+        onGrainProfileChange={handleGrainProfileChange} onGrainResponseChange={handleGrainResponseChange}
         filterIntensity={intensity} onIntensityChange={handleIntensityChange}
+        customLooks={customLooks} look={look}
+        onExportLUT={handleExportLUT}
+        lutSize={lutSize} onLutSizeChange={setLutSize}
+        lutInterpolation={lutInterpolation} onLutInterpolationChange={setLutInterpolation}
+        rawDemosaic={rawDemosaic} onRawDemosaicChange={setRawDemosaic}
+        rafDevelopSensor={rafDevelopSensor} onRafDevelopSensorChange={setRafDevelopSensor} asShotTemperature={asShotTemperature}
+        benchmarkResults={benchmarkResults} isBenchmarking={isBenchmarking} onRunBenchmark={handleRunBenchmark}
+        onImportLook={handleImportLook} onSelectLook={handleSelectLook} onLookChange={handleLookChange} onDeleteLook={handleDeleteLook}
+        lookFit={lookFit} isLearningLook={isLearningLook} onLearnLook={handleLearnLook}
+        isMatchingReference={isMatchingReference} onMatchReference={handleMatchReference}
+        onApplyRecipe={handleApplyRecipe} cameraRecipe={cameraRecipe}
+        exifData={exifData} metadataMode={metadataMode} onMetadataModeChange={setMetadataMode}
+        customProfiles={customProfiles} activeProfile={activeProfile} profileDraft={profileDraft}
+        onEditProfile={handleEditProfile} onProfileDraftChange={setProfileDraft} onSaveProfile={handleSaveProfile} onCancelProfile={() => setProfileDraft(null)}
+        onImportProfile={handleImportProfile} onExportProfile={handleExportProfile} onDeleteProfile={handleDeleteProfile}
         onUpload={handleUpload} onDownload={handleDownload}
         onBatchUpload={handleBatchUpload}
         onReset={handleReset}
@@ -428,14 +949,24 @@ const App: React.FC = () => {
         activeMaskId={activeMaskId}
         onAddMask={handleAddMask}
         onDeleteMask={handleDeleteMask}
+        onGradientChange={handleGradientChange}
+        onDuplicateMask={handleDuplicateMask}
+        onMaskOperation={handleMaskOperation}
+        onLuminanceRangeChange={handleLuminanceRangeChange}
+        onColorRangeChange={handleColorRangeChange}
+        isPickingColor={isPickingColor}
+        onTogglePickColor={() => setIsPickingColor(v => !v)}
         onToggleMask={handleToggleMask}
         onSelectMask={handleSelectMask}
         onLocalAdjChange={handleLocalAdjChange}
         brushSettings={brushSettings}
         onBrushChange={(k, v) => setBrushSettings(prev => ({...prev, [k]: v}))}
         onUndo={undo} onRedo={redo}
-        canUndo={pastStates.length > 0}
-        canRedo={futureStates.length > 0}
+        canUndo={history.index > 0}
+        canRedo={history.index < history.steps.length}
+        historyLabels={history.steps.map(step => step.label)}
+        historyIndex={history.index}
+        onHistoryJump={jumpToHistory}
       />
       <canvas ref={originalCanvasRef} className="hidden" />
     </div>
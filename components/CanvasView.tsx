@@ -1,6 +1,7 @@
 
 import React, { useRef, useEffect, useState } from 'react';
-import { BrushSettings } from '../types';
+import { BrushPoint, BrushSettings, GradientMaskParams, ImageRect, MaskLayer, ViewportState } from '../types';
+import { rasterizeGradient, applyMaskRange, createBrushStroke, BrushStroke } from '../services/maskingService';
 
 interface CanvasViewProps {
   originalImage: HTMLImageElement | null;
@@ -10,18 +11,120 @@ interface CanvasViewProps {
   // Masking Props
   isMaskingMode: boolean;
   brushSettings: BrushSettings;
-  activeMaskData: Uint8Array | null; // Raw mask data for visualization
-  onStroke: (x: number, y: number, lastX: number, lastY: number) => void;
+  activeMask: MaskLayer | null; // Brush data or gradient parameters for visualization
+  onStrokeEnd: (data: Uint8Array, changed: ImageRect | null) => void; // Active brush layer's alpha after a finished stroke, and the region it changed
+  onGradientChange: (id: string, gradient: GradientMaskParams) => void;
+
+  // Color range eyedropper: while active, a click samples the original image
+  isPickingColor: boolean;
+  onColorPick: (color: { r: number, g: number, b: number }) => void;
+
+  // Lets the renderer size the preview proxy / visible region to what is on screen
+  onViewChange?: (view: ViewportState) => void;
+}
+
+type GradientHandle = 'center' | 'rotate' | 'feather' | 'radiusX' | 'radiusY';
+
+// Long edge of the gradient overlay preview, in pixels
+const GRADIENT_PREVIEW_EDGE = 512;
+
+// Eyedropper averages a (2r+1)^2 pixel block
+const EYEDROPPER_RADIUS = 2;
+
+interface GradientHandlesProps {
+  type: MaskLayer['type'];
+  gradient: GradientMaskParams;
+  imageWidth: number;
+  imageHeight: number;
+  scale: number;
+  onHandleDown: (handle: GradientHandle) => (e: React.PointerEvent) => void;
+  onInvert: () => void;
 }
 
+// SVG overlay in image coordinates; sizes are divided by the zoom so handles keep a constant screen size
+const GradientHandles: React.FC<GradientHandlesProps> = ({ type, gradient, imageWidth, imageHeight, scale, onHandleDown, onInvert }) => {
+  const longEdge = Math.max(imageWidth, imageHeight);
+  const px = 1 / scale;
+  const cx = gradient.x * imageWidth, cy = gradient.y * imageHeight;
+  const a = gradient.angle * Math.PI / 180;
+  const ux = Math.cos(a), uy = Math.sin(a); // Gradient direction (linear) / ellipse X axis (radial)
+  const vx = -uy, vy = ux;                  // Perpendicular
+
+  const handle = (x: number, y: number, kind: GradientHandle, title: string) => (
+    <circle
+      cx={x} cy={y} r={6 * px}
+      fill={kind === 'center' ? '#00d084' : '#ffffff'} stroke="#000" strokeWidth={1.5 * px}
+      className="pointer-events-auto cursor-pointer"
+      onPointerDown={onHandleDown(kind)}
+    >
+      <title>{title}</title>
+    </circle>
+  );
+
+  let shapes: React.ReactNode;
+  let handles: React.ReactNode;
+  if (type === 'linear') {
+    const half = Math.max(0.5, (gradient.feather / 100) * longEdge / 2);
+    const line = (ox: number, oy: number, dashed: boolean) => (
+      <line
+        x1={cx + ox - vx * longEdge * 2} y1={cy + oy - vy * longEdge * 2}
+        x2={cx + ox + vx * longEdge * 2} y2={cy + oy + vy * longEdge * 2}
+        stroke="#fff" strokeWidth={1.5 * px} strokeDasharray={dashed ? `${6 * px} ${4 * px}` : undefined}
+      />
+    );
+    const rotateDist = 60 * px;
+    shapes = <>{line(0, 0, false)}{line(ux * half, uy * half, true)}{line(-ux * half, -uy * half, true)}</>;
+    handles = <>
+      {handle(cx + ux * half, cy + uy * half, 'feather', '羽化 (Feather)')}
+      {handle(cx + vx * rotateDist, cy + vy * rotateDist, 'rotate', '旋转 (Rotate)')}
+    </>;
+  } else {
+    const rx = gradient.radiusX * longEdge, ry = gradient.radiusY * longEdge;
+    const inner = 1 - gradient.feather / 100;
+    shapes = <>
+      <ellipse cx={cx} cy={cy} rx={rx} ry={ry} transform={`rotate(${gradient.angle} ${cx} ${cy})`} fill="none" stroke="#fff" strokeWidth={1.5 * px} />
+      <ellipse cx={cx} cy={cy} rx={rx * inner} ry={ry * inner} transform={`rotate(${gradient.angle} ${cx} ${cy})`} fill="none" stroke="#fff" strokeWidth={1 * px} strokeDasharray={`${6 * px} ${4 * px}`} />
+      <line x1={cx + ux * rx} y1={cy + uy * rx} x2={cx + ux * (rx + 30 * px)} y2={cy + uy * (rx + 30 * px)} stroke="#fff" strokeWidth={1 * px} />
+    </>;
+    handles = <>
+      {handle(cx + ux * rx, cy + uy * rx, 'radiusX', '宽度 (Width)')}
+      {handle(cx + vx * ry, cy + vy * ry, 'radiusY', '高度 (Height)')}
+      {handle(cx - ux * rx * inner, cy - uy * rx * inner, 'feather', '羽化 (Feather)')}
+      {handle(cx + ux * (rx + 30 * px), cy + uy * (rx + 30 * px), 'rotate', '旋转 (Rotate)')}
+    </>;
+  }
+
+  return (
+    <svg
+      className="absolute top-0 left-0 w-full h-full pointer-events-none overflow-visible z-10"
+      viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+      style={{ filter: 'drop-shadow(0 0 1px rgba(0,0,0,0.8))' }}
+    >
+      {shapes}
+      {handles}
+      {handle(cx, cy, 'center', '移动 (Move)')}
+      {/* Invert toggle */}
+      <g className="pointer-events-auto cursor-pointer" onPointerDown={(e) => { e.stopPropagation(); onInvert(); }}>
+        <title>反转 (Invert)</title>
+        <circle cx={cx + 18 * px} cy={cy + 18 * px} r={7 * px} fill={gradient.invert ? '#fff' : '#000'} stroke="#fff" strokeWidth={1.5 * px} />
+        <path d={`M ${cx + 18 * px} ${cy + 11 * px} A ${7 * px} ${7 * px} 0 0 1 ${cx + 18 * px} ${cy + 25 * px} Z`} fill={gradient.invert ? '#000' : '#fff'} />
+      </g>
+    </svg>
+  );
+};
+
 export const CanvasView: React.FC<CanvasViewProps> = ({ 
   originalImage, 
   processedCanvasRef,
   originalCanvasRef,
   isMaskingMode,
   brushSettings,
-  activeMaskData,
-  onStroke
+  activeMask,
+  onStrokeEnd,
+  onGradientChange,
+  isPickingColor,
+  onColorPick,
+  onViewChange
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const overlayRef = useRef<HTMLCanvasElement>(null);
@@ -35,9 +138,24 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
   const [scale, setScale] = useState(1);
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [isPanning, setIsPanning] = useState(false);
-  const [isDrawing, setIsDrawing] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
-  const [lastPoint, setLastPoint] = useState<{x:number, y:number} | null>(null);
+  const strokeRef = useRef<BrushStroke | null>(null); // Brush stroke in progress
+  const [gradientDrag, setGradientDrag] = useState<GradientHandle | null>(null);
+
+  // Original pixels, read once per image for eyedropper samples and range-refined overlays
+  const sourcePixelsRef = useRef<ImageData | null>(null);
+  const getSourcePixels = (): ImageData | null => {
+      const canvas = originalCanvasRef.current;
+      if (!canvas || !originalImage) return null;
+      if (!sourcePixelsRef.current || sourcePixelsRef.current.width !== canvas.width || sourcePixelsRef.current.height !== canvas.height) {
+          sourcePixelsRef.current = canvas.getContext('2d')?.getImageData(0, 0, canvas.width, canvas.height) || null;
+      }
+      return sourcePixelsRef.current;
+  };
+
+  // Painting only applies to brush layers; gradient layers are edited through their handles
+  const isBrushMode = isMaskingMode && activeMask?.type === 'brush' && !isPickingColor;
+  const gradient = isMaskingMode && activeMask && activeMask.type !== 'brush' ? activeMask.gradient : null;
 
   // Fit to screen helper
   const calculateBestFit = () => {
@@ -68,6 +186,7 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
         canvas.height = originalImage.height;
         ctx.drawImage(originalImage, 0, 0);
       }
+      sourcePixelsRef.current = null;
       // Reset overlay dimensions
       if (overlayRef.current) {
           overlayRef.current.width = originalImage.width;
@@ -81,20 +200,41 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
     }
   }, [originalImage, originalCanvasRef]);
 
+  // Report zoom and the visible image region (wrapper is centered in the container, then translated & scaled)
+  useEffect(() => {
+      if (!onViewChange || !originalImage || !containerRef.current) return;
+      const containerW = containerRef.current.clientWidth;
+      const containerH = containerRef.current.clientHeight;
+      const imgW = originalImage.width;
+      const imgH = originalImage.height;
+
+      const left = Math.max(0, Math.floor(imgW / 2 + (-containerW / 2 - position.x) / scale));
+      const top = Math.max(0, Math.floor(imgH / 2 + (-containerH / 2 - position.y) / scale));
+      const right = Math.min(imgW, Math.ceil(imgW / 2 + (containerW / 2 - position.x) / scale));
+      const bottom = Math.min(imgH, Math.ceil(imgH / 2 + (containerH / 2 - position.y) / scale));
+
+      onViewChange({
+          scale,
+          visibleRect: right > left && bottom > top ? { x: left, y: top, width: right - left, height: bottom - top } : null
+      });
+  }, [scale, position, originalImage]);
+
   // --- MASK VISUALIZATION ENGINE ---
   useEffect(() => {
       if (!overlayRef.current || !originalImage) return;
       const ctx = overlayRef.current.getContext('2d');
       if (!ctx) return;
 
-      ctx.clearRect(0, 0, overlayRef.current.width, overlayRef.current.height);
+      const width = overlayRef.current.width;
+      const height = overlayRef.current.height;
+      ctx.clearRect(0, 0, width, height);
 
-      if (isMaskingMode && activeMaskData) {
+      if (isMaskingMode && activeMask?.type === 'brush' && activeMask.data) {
           // Convert Uint8 alpha map to Red Overlay
-          const width = overlayRef.current.width;
-          const height = overlayRef.current.height;
           const imgData = ctx.createImageData(width, height);
           const px = imgData.data;
+          const source = getSourcePixels();
+          const activeMaskData = source ? applyMaskRange(activeMask, activeMask.data, source.data) : activeMask.data;
           
           for (let i = 0; i < activeMaskData.length; i++) {
               const alpha = activeMaskData[i];
@@ -107,8 +247,80 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
               }
           }
           ctx.putImageData(imgData, 0, 0);
+      } else if (isMaskingMode && activeMask?.gradient) {
+          // Gradients are smooth: rasterize a small preview and let the canvas scale it up
+          const previewScale = Math.min(1, GRADIENT_PREVIEW_EDGE / Math.max(width, height));
+          const pw = Math.max(1, Math.round(width * previewScale)), ph = Math.max(1, Math.round(height * previewScale));
+          let alpha = rasterizeGradient(activeMask.type, activeMask.gradient, pw, ph, { offsetX: 0, offsetY: 0, fullWidth: pw, fullHeight: ph });
+          const small = document.createElement('canvas');
+          small.width = pw;
+          small.height = ph;
+          const smallCtx = small.getContext('2d');
+          if (!smallCtx) return;
+          if (originalCanvasRef.current) {
+              // Ranges are measured on the original, so sample it at the preview size
+              smallCtx.drawImage(originalCanvasRef.current, 0, 0, pw, ph);
+              alpha = applyMaskRange(activeMask, alpha, smallCtx.getImageData(0, 0, pw, ph).data);
+              smallCtx.clearRect(0, 0, pw, ph);
+          }
+          const imgData = smallCtx.createImageData(pw, ph);
+          for (let i = 0; i < alpha.length; i++) {
+              imgData.data[i * 4] = 255;
+              imgData.data[i * 4 + 3] = alpha[i] * 0.5;
+          }
+          smallCtx.putImageData(imgData, 0, 0);
+          ctx.drawImage(small, 0, 0, width, height);
+      }
+  }, [activeMask, isMaskingMode, originalImage]);
+
+  // Pointer position in image pixels
+  const toImagePoint = (e: React.MouseEvent) => {
+      const rect = wrapperRef.current!.getBoundingClientRect();
+      return { x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale };
+  };
+
+  const startGradientDrag = (handle: GradientHandle) => (e: React.PointerEvent) => {
+      e.stopPropagation();
+      setGradientDrag(handle);
+  };
+
+  const dragGradient = (e: React.MouseEvent) => {
+      if (!gradientDrag || !gradient || !activeMask || !originalImage || !wrapperRef.current) return;
+      const imgW = originalImage.width, imgH = originalImage.height;
+      const longEdge = Math.max(imgW, imgH);
+      const p = toImagePoint(e);
+      const cx = gradient.x * imgW, cy = gradient.y * imgH;
+      const a = gradient.angle * Math.PI / 180;
+      const ux = Math.cos(a), uy = Math.sin(a);
+      const along = (p.x - cx) * ux + (p.y - cy) * uy;
+      const across = -(p.x - cx) * uy + (p.y - cy) * ux;
+      const next = { ...gradient };
+
+      switch (gradientDrag) {
+          case 'center':
+              next.x = Math.max(0, Math.min(1, p.x / imgW));
+              next.y = Math.max(0, Math.min(1, p.y / imgH));
+              break;
+          case 'rotate': {
+              // Linear rotation handle sits on the midline (90deg from the direction), radial on the X axis
+              const offset = activeMask.type === 'linear' ? 90 : 0;
+              next.angle = Math.round(Math.atan2(p.y - cy, p.x - cx) * 180 / Math.PI - offset);
+              break;
+          }
+          case 'feather':
+              next.feather = Math.round(activeMask.type === 'linear'
+                  ? Math.max(0, Math.min(100, (2 * Math.abs(along) / longEdge) * 100))
+                  : Math.max(0, Math.min(100, (1 - Math.abs(along) / Math.max(1, gradient.radiusX * longEdge)) * 100)));
+              break;
+          case 'radiusX':
+              next.radiusX = Math.max(0.01, Math.abs(along) / longEdge);
+              break;
+          case 'radiusY':
+              next.radiusY = Math.max(0.01, Math.abs(across) / longEdge);
+              break;
       }
-  }, [activeMaskData, isMaskingMode, originalImage]);
+      onGradientChange(activeMask.id, next);
+  };
 
   const handleWheel = (e: React.WheelEvent) => {
     if (!originalImage) return;
@@ -119,67 +331,95 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
     setScale(newScale);
   };
 
-  const handleMouseDown = (e: React.MouseEvent) => {
+  // Average a small neighbourhood of the original so noise doesn't skew the sample
+  const sampleOriginal = (x: number, y: number) => {
+      const source = getSourcePixels();
+      if (!source) return null;
+      const cx = Math.round(x), cy = Math.round(y);
+      let r = 0, g = 0, b = 0, n = 0;
+      for (let sy = cy - EYEDROPPER_RADIUS; sy <= cy + EYEDROPPER_RADIUS; sy++) {
+          for (let sx = cx - EYEDROPPER_RADIUS; sx <= cx + EYEDROPPER_RADIUS; sx++) {
+              if (sx < 0 || sy < 0 || sx >= source.width || sy >= source.height) continue;
+              const i = (sy * source.width + sx) * 4;
+              r += source.data[i]; g += source.data[i + 1]; b += source.data[i + 2]; n++;
+          }
+      }
+      return n > 0 ? { r: Math.round(r / n), g: Math.round(g / n), b: Math.round(b / n) } : null;
+  };
+
+  // Pen pressure and tilt; mice and touch count as full pressure
+  const toBrushPoint = (e: PointerEvent): BrushPoint => {
+      const rect = wrapperRef.current!.getBoundingClientRect();
+      return {
+          x: (e.clientX - rect.left) / scale,
+          y: (e.clientY - rect.top) / scale,
+          pressure: e.pointerType === 'pen' ? Math.max(0.01, e.pressure) : 1,
+          tiltX: e.tiltX || 0,
+          tiltY: e.tiltY || 0
+      };
+  };
+
+  // Live stroke feedback: redraw only the region the last dabs touched
+  const paintOverlayRegion = (rect: ImageRect, data: Uint8Array) => {
+      const canvas = overlayRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      const imgData = ctx.createImageData(rect.width, rect.height);
+      for (let y = 0; y < rect.height; y++) {
+          for (let x = 0; x < rect.width; x++) {
+              const alpha = data[(rect.y + y) * canvas.width + rect.x + x];
+              const idx = (y * rect.width + x) * 4;
+              imgData.data[idx] = 255;
+              imgData.data[idx + 3] = alpha * 0.5;
+          }
+      }
+      ctx.putImageData(imgData, rect.x, rect.y);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
     if (isDraggingSlider) return; 
-    
-    if (isMaskingMode && originalImage && wrapperRef.current) {
-        setIsDrawing(true);
-        const rect = wrapperRef.current.getBoundingClientRect();
-        const x = (e.clientX - rect.left) / scale;
-        const y = (e.clientY - rect.top) / scale;
-        setLastPoint({ x, y });
-        onStroke(x, y, -1, -1); 
-
-        // Immediate visual feedback on overlay
-        const ctx = overlayRef.current?.getContext('2d');
-        if (ctx) {
-            ctx.fillStyle = `rgba(255, 0, 0, ${brushSettings.opacity / 200})`; // Light red dot
-            ctx.beginPath();
-            ctx.arc(x, y, brushSettings.size / 2, 0, Math.PI * 2);
-            ctx.fill();
-        }
 
+    if (isPickingColor && originalImage && wrapperRef.current) {
+        const p = toImagePoint(e);
+        const color = sampleOriginal(p.x, p.y);
+        if (color) onColorPick(color);
+        return;
+    }
+    
+    if (isBrushMode && originalImage && wrapperRef.current && activeMask) {
+        (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+        const stroke = createBrushStroke(activeMask.data, originalImage.width, originalImage.height, brushSettings);
+        strokeRef.current = stroke;
+        const dirty = stroke.addPoint(toBrushPoint(e.nativeEvent));
+        if (dirty) paintOverlayRegion(dirty, stroke.data);
     } else {
         setIsPanning(true);
         setDragStart({ x: e.clientX - position.x, y: e.clientY - position.y });
     }
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (gradientDrag) {
+        dragGradient(e);
+        return;
+    }
+
     // 1. High Performance Cursor Tracking (Direct DOM)
-    if (isMaskingMode && cursorRef.current) {
+    if (isBrushMode && cursorRef.current) {
         cursorRef.current.style.transform = `translate(${e.clientX}px, ${e.clientY}px)`;
         cursorRef.current.style.width = `${brushSettings.size * scale}px`;
         cursorRef.current.style.height = `${brushSettings.size * scale}px`;
     }
 
-    // 2. Drawing Logic
-    if (isDrawing && isMaskingMode && originalImage && wrapperRef.current) {
-        const rect = wrapperRef.current.getBoundingClientRect();
-        const x = (e.clientX - rect.left) / scale;
-        const y = (e.clientY - rect.top) / scale;
-        
-        if (lastPoint) {
-            onStroke(x, y, lastPoint.x, lastPoint.y);
-            
-            // Immediate visual feedback
-            const ctx = overlayRef.current?.getContext('2d');
-            if (ctx) {
-                ctx.lineCap = 'round';
-                ctx.lineJoin = 'round';
-                ctx.lineWidth = brushSettings.size;
-                ctx.strokeStyle = brushSettings.isEraser 
-                    ? 'rgba(0,0,0,1)' // Hack: Eraser viz is hard on single layer, logic handled in data
-                    : `rgba(255, 0, 0, ${brushSettings.opacity / 200})`; 
-                ctx.globalCompositeOperation = brushSettings.isEraser ? 'destination-out' : 'source-over';
-                ctx.beginPath();
-                ctx.moveTo(lastPoint.x, lastPoint.y);
-                ctx.lineTo(x, y);
-                ctx.stroke();
-                ctx.globalCompositeOperation = 'source-over';
-            }
+    // 2. Drawing Logic (coalesced events keep fast pen strokes smooth)
+    const stroke = strokeRef.current;
+    if (stroke && wrapperRef.current) {
+        const native = e.nativeEvent;
+        const samples = native.getCoalescedEvents ? native.getCoalescedEvents() : [];
+        for (const sample of samples.length > 0 ? samples : [native]) {
+            const dirty = stroke.addPoint(toBrushPoint(sample));
+            if (dirty) paintOverlayRegion(dirty, stroke.data);
         }
-        setLastPoint({ x, y });
     } 
     // 3. Panning Logic
     else if (isPanning) {
@@ -190,7 +430,7 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
     }
   };
 
-  const handleWrapperMouseMove = (e: React.MouseEvent) => {
+  const handleWrapperPointerMove = (e: React.PointerEvent) => {
      if (isDraggingSlider && wrapperRef.current) {
          e.stopPropagation();
          const rect = wrapperRef.current.getBoundingClientRect();
@@ -200,14 +440,17 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
      }
   };
 
-  const handleMouseUp = () => {
+  const handlePointerUp = () => {
     setIsPanning(false);
     setIsDraggingSlider(false);
-    setIsDrawing(false);
-    setLastPoint(null);
+    setGradientDrag(null);
+    if (strokeRef.current) {
+        onStrokeEnd(strokeRef.current.data, strokeRef.current.changed());
+        strokeRef.current = null;
+    }
   };
 
-  const startSliderDrag = (e: React.MouseEvent | React.TouchEvent) => {
+  const startSliderDrag = (e: React.PointerEvent | React.TouchEvent) => {
     e.stopPropagation(); 
     setIsDraggingSlider(true);
   };
@@ -235,16 +478,16 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
 
   return (
     <div 
-      className={`flex-1 bg-[#050505] overflow-hidden relative flex items-center justify-center ${isMaskingMode ? 'cursor-none' : 'cursor-grab active:cursor-grabbing'}`}
+      className={`flex-1 bg-[#050505] overflow-hidden relative flex items-center justify-center touch-none ${isBrushMode ? 'cursor-none' : isPickingColor ? 'cursor-crosshair' : 'cursor-grab active:cursor-grabbing'}`}
       ref={containerRef}
       onWheel={handleWheel}
-      onMouseDown={handleMouseDown}
-      onMouseMove={handleMouseMove}
-      onMouseUp={handleMouseUp}
-      onMouseLeave={handleMouseUp}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={handlePointerUp}
     >
       {/* Brush Cursor (Optimized via ref) */}
-      {isMaskingMode && (
+      {isBrushMode && (
           <div 
             ref={cursorRef}
             className="fixed pointer-events-none rounded-full border border-white bg-white/20 z-[100]"
@@ -283,7 +526,7 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
       <div 
         ref={wrapperRef}
         className="relative shadow-2xl transition-transform duration-75 ease-out pointer-events-auto flex-none"
-        onMouseMove={handleWrapperMouseMove}
+        onPointerMove={handleWrapperPointerMove}
         style={{ 
             transform: `translate(${position.x}px, ${position.y}px) scale(${scale})`,
             transformOrigin: 'center',
@@ -305,6 +548,19 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
             style={{ mixBlendMode: 'normal' }}
         />
 
+        {/* Gradient Handles */}
+        {gradient && activeMask && (
+            <GradientHandles
+                type={activeMask.type}
+                gradient={gradient}
+                imageWidth={originalImage.width}
+                imageHeight={originalImage.height}
+                scale={scale}
+                onHandleDown={startGradientDrag}
+                onInvert={() => onGradientChange(activeMask.id, { ...gradient, invert: !gradient.invert })}
+            />
+        )}
+
         {/* Slider Elements */}
         {!isMaskingMode && (
             <>
@@ -315,7 +571,7 @@ export const CanvasView: React.FC<CanvasViewProps> = ({
                 <div 
                     className="absolute top-0 bottom-0 w-16 -ml-8 z-20 flex items-center justify-center cursor-col-resize group"
                     style={{ left: `${sliderPosition}%` }}
-                    onMouseDown={startSliderDrag}
+                    onPointerDown={startSliderDrag}
                     onTouchStart={startSliderDrag}
                 >
                     <div className="w-8 h-8 rounded-full flex items-center justify-center backdrop-blur-sm bg-white/10 border border-white/40 shadow-lg group-hover:scale-110 transition-transform">
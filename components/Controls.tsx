@@ -1,19 +1,75 @@
 
 import React, { useState, useEffect } from 'react';
-import { Adjustments, FilmSimulation, HistogramData, HSLAdjustments, GradingAdjustments, MaskLayer, BrushSettings, LocalAdjustments } from '../types';
+import { Adjustments, FilmSimulation, HistogramData, HSLAdjustments, GradingAdjustments, MaskLayer, MaskType, MaskOperation, MaskCombineMode, GradientMaskParams, LuminanceRange, ColorRange, BrushSettings, LocalAdjustments, ToneCurves, CurveChannel, ParametricCurve, GrainResponse, CustomLook, LookSelection, LUTSize, LUTInterpolation, FujiRecipe, FilmProfile, FilmProfileId, DemosaicMethod } from '../types';
 import { Histogram } from './Histogram';
+import { ToneCurveEditor } from './ToneCurveEditor';
+import { GRAIN_PROFILES, GrainProfile } from '../services/filmGrain';
+import { LUTExportFormat, LUTExportSize } from '../services/lutExporter';
+import { LUT_SIZES, LUT_INTERPOLATIONS, LUTBenchmarkResult } from '../services/lutBenchmark';
+import { DEMOSAIC_METHODS } from '../services/demosaic';
+import { parseRecipeText } from '../services/fujiRecipe';
+import { FilmProfileEditor } from './FilmProfileEditor';
+import { LearnLookPanel } from './LearnLookPanel';
+import { MatchLookPanel } from './MatchLookPanel';
+import { ExifPanel } from './ExifPanel';
+import { ColorMatchOptions, ColorMatchTarget } from '../services/colorMatch';
+import { ExifData } from '../services/exifReader';
+import { MetadataExportMode } from '../services/exifWriter';
+import { LookFitOptions, LookFitResult } from '../services/lookFitter';
 
 interface ControlsProps {
-  currentFilm: FilmSimulation;
-  onFilmChange: (f: FilmSimulation) => void;
+  currentFilm: FilmProfileId;
+  onFilmChange: (f: FilmProfileId) => void;
   adjustments: Adjustments;
   onAdjustmentChange: (key: keyof Adjustments, val: number) => void;
   onHSLChange: (color: keyof HSLAdjustments, param: 'h'|'s'|'l', val: number) => void;
   onWBChange: (param: 'temp'|'tint', val: number) => void;
   onGradingChange: (region: keyof GradingAdjustments, param: 'h'|'s', val: number) => void;
+  onCurvesChange: (curves: ToneCurves) => void;
+  onGrainProfileChange: (profile: GrainProfile) => void;
+  onGrainResponseChange: (tone: keyof GrainResponse, val: number) => void;
   
   filterIntensity: number;
   onIntensityChange: (val: number) => void;
+  customLooks: CustomLook[];
+  look: LookSelection | null;
+  onExportLUT: (format: LUTExportFormat, size: LUTExportSize) => void;
+  lutSize: LUTSize;
+  onLutSizeChange: (size: LUTSize) => void;
+  lutInterpolation: LUTInterpolation;
+  onLutInterpolationChange: (mode: LUTInterpolation) => void;
+  rawDemosaic: DemosaicMethod;
+  onRawDemosaicChange: (method: DemosaicMethod) => void;
+  rafDevelopSensor: boolean;
+  onRafDevelopSensorChange: (develop: boolean) => void;
+  asShotTemperature: number | null; // Colour temperature a developed DNG was rendered at
+  benchmarkResults: LUTBenchmarkResult[] | null;
+  isBenchmarking: boolean;
+  onRunBenchmark: () => void;
+  onImportLook: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onSelectLook: (id: string | null) => void;
+  onLookChange: (changes: Partial<Omit<LookSelection, 'id'>>) => void;
+  onDeleteLook: (id: string) => void;
+  lookFit: LookFitResult | null;
+  isLearningLook: boolean;
+  onLearnLook: (before: File, after: File, options: LookFitOptions) => void;
+  isMatchingReference: boolean;
+  onMatchReference: (reference: File, options: ColorMatchOptions, target: ColorMatchTarget) => void;
+  onApplyRecipe: (recipe: FujiRecipe) => void;
+  cameraRecipe: FujiRecipe | null; // Read from the loaded file's Fujifilm MakerNote
+  exifData: ExifData | null;
+  metadataMode: MetadataExportMode;
+  onMetadataModeChange: (mode: MetadataExportMode) => void;
+  customProfiles: FilmProfile[];
+  activeProfile: FilmProfile | null;
+  profileDraft: FilmProfile | null;
+  onEditProfile: () => void;
+  onProfileDraftChange: (profile: FilmProfile) => void;
+  onSaveProfile: () => void;
+  onCancelProfile: () => void;
+  onImportProfile: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onExportProfile: () => void;
+  onDeleteProfile: (id: string) => void;
   onUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onDownload: () => void;
   onBatchUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
@@ -29,10 +85,17 @@ interface ControlsProps {
   // Masking
   masks: MaskLayer[];
   activeMaskId: string | null;
-  onAddMask: () => void;
+  onAddMask: (type: MaskType) => void;
   onDeleteMask: (id: string) => void;
   onToggleMask: (id: string) => void;
   onSelectMask: (id: string) => void;
+  onGradientChange: (id: string, gradient: GradientMaskParams) => void;
+  onDuplicateMask: (id: string) => void;
+  onMaskOperation: (id: string, op: MaskOperation) => void;
+  onLuminanceRangeChange: (id: string, range: LuminanceRange) => void;
+  onColorRangeChange: (id: string, range: ColorRange) => void;
+  isPickingColor: boolean;
+  onTogglePickColor: () => void;
   onLocalAdjChange: (id: string, key: keyof LocalAdjustments, val: number) => void;
   brushSettings: BrushSettings;
   onBrushChange: (key: keyof BrushSettings, val: any) => void;
@@ -42,6 +105,9 @@ interface ControlsProps {
   onRedo?: () => void;
   canUndo?: boolean;
   canRedo?: boolean;
+  historyLabels?: string[];
+  historyIndex?: number;
+  onHistoryJump?: (index: number) => void;
 }
 
 const Slider = ({ label, value, min, max, onChange, unit = '', bgClass = '' }: { label: string, value: number, min: number, max: number, onChange: (v: number) => void, unit?: string, bgClass?: string }) => (
@@ -77,6 +143,20 @@ const TabButton = ({ active, onClick, label }: { active: boolean, onClick: () =>
   </button>
 );
 
+const RecipeSummary = ({ recipe }: { recipe: FujiRecipe }) => (
+  <div className="grid grid-cols-2 gap-x-2 text-[9px] text-gray-500 font-mono">
+    <span className="col-span-2 text-gray-300 truncate">{recipe.name} · {recipe.filmSimulation.split(' / ')[0]}</span>
+    <span>DR{recipe.dynamicRange}</span>
+    <span>H {recipe.highlightTone} / S {recipe.shadowTone}</span>
+    <span>Color {recipe.color}</span>
+    <span>Sharp {recipe.sharpness} · NR {recipe.noiseReduction}</span>
+    <span>Clarity {recipe.clarity}</span>
+    <span>Grain {recipe.grainEffect.strength}{recipe.grainEffect.strength !== 'off' ? `/${recipe.grainEffect.size}` : ''}</span>
+    <span>CC {recipe.colorChrome} · FXB {recipe.colorChromeBlue}</span>
+    <span>WB {recipe.whiteBalance.kelvin ? `${recipe.whiteBalance.kelvin}K` : recipe.whiteBalance.mode} R{recipe.whiteBalance.red} B{recipe.whiteBalance.blue}</span>
+  </div>
+);
+
 const PRESET_PROMPTS = [
     { label: '🏔️ 专业风光 (Landscape)', value: 'Professional Landscape: High dynamic range, vivid but natural colors, enhance blue skies and green foliage, sharp details.' },
     { label: '👩 电影人像 (Portrait)', value: 'Cinematic Portrait: Flattering skin tones, soft contrast, focus on the subject, slight warm color grading, smooth texture.' },
@@ -102,17 +182,31 @@ const MASTER_PRESETS = [
 ];
 
 export const Controls: React.FC<ControlsProps> = ({
-  currentFilm, onFilmChange, adjustments, onAdjustmentChange, onHSLChange, onWBChange, onGradingChange,
-  filterIntensity, onIntensityChange, onUpload, onDownload, onBatchUpload, onReset, onApplyPreset, onHelp,
+  currentFilm, onFilmChange, adjustments, onAdjustmentChange, onHSLChange, onWBChange, onGradingChange, onCurvesChange,
+  onGrainProfileChange, onGrainResponseChange,
+  filterIntensity, onIntensityChange, customLooks, look, onExportLUT, lutSize, onLutSizeChange, lutInterpolation, onLutInterpolationChange, rawDemosaic, onRawDemosaicChange, rafDevelopSensor, onRafDevelopSensorChange, asShotTemperature, benchmarkResults, isBenchmarking, onRunBenchmark, onImportLook, onSelectLook, onLookChange, onDeleteLook, lookFit, isLearningLook, onLearnLook, isMatchingReference, onMatchReference, onApplyRecipe, cameraRecipe, exifData, metadataMode, onMetadataModeChange,
+  customProfiles, activeProfile, profileDraft, onEditProfile, onProfileDraftChange, onSaveProfile, onCancelProfile, onImportProfile, onExportProfile, onDeleteProfile,
+  onUpload, onDownload, onBatchUpload, onReset, onApplyPreset, onHelp,
   isProcessing, histogramData, isAIAnalyzing, onAIAuto,
-  masks, activeMaskId, onAddMask, onDeleteMask, onToggleMask, onSelectMask, onLocalAdjChange,
+  masks, activeMaskId, onAddMask, onDeleteMask, onToggleMask, onSelectMask, onGradientChange, onDuplicateMask, onMaskOperation, onLocalAdjChange,
+  onLuminanceRangeChange, onColorRangeChange, isPickingColor, onTogglePickColor,
   brushSettings, onBrushChange,
-  onUndo, onRedo, canUndo, canRedo
+  onUndo, onRedo, canUndo, canRedo, historyLabels = [], historyIndex = 0, onHistoryJump
 }) => {
-  const [activeTab, setActiveTab] = useState<'basic' | 'color' | 'grading' | 'fx' | 'local'>('basic');
+  const [activeTab, setActiveTab] = useState<'basic' | 'curve' | 'color' | 'grading' | 'fx' | 'profile' | 'local' | 'history' | 'info'>('basic');
+  const [curveChannel, setCurveChannel] = useState<CurveChannel>('rgb');
+  const [curveMode, setCurveMode] = useState<'point' | 'parametric'>('point');
   const [aiPrompt, setAiPrompt] = useState('');
+  const [exportFormat, setExportFormat] = useState<LUTExportFormat>('cube');
+  const [exportSize, setExportSize] = useState<LUTExportSize>(33);
+  const [recipeText, setRecipeText] = useState('');
+  const [parsedRecipe, setParsedRecipe] = useState<FujiRecipe | null>(null);
   const [selectedPreset, setSelectedPreset] = useState('');
   const [selectedAIStyle, setSelectedAIStyle] = useState('');
+  // Mask operation parameters (full-resolution pixels)
+  const [maskOpRadius, setMaskOpRadius] = useState(20);
+  const [combineMode, setCombineMode] = useState<MaskCombineMode>('union');
+  const [combineWithId, setCombineWithId] = useState('');
 
   const handleMasterPresetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
       const selectedName = e.target.value;
@@ -138,6 +232,33 @@ export const Controls: React.FC<ControlsProps> = ({
 
   const activeMask = masks.find(m => m.id === activeMaskId);
 
+  const handleParametricChange = (key: keyof ParametricCurve, val: number) => {
+      onCurvesChange({ ...adjustments.curves, parametric: { ...adjustments.curves.parametric, [key]: val } });
+  };
+
+  const handleSplitChange = (index: number, val: number) => {
+      const splits = [...adjustments.curves.parametric.splits] as [number, number, number];
+      // Keep the three boundaries ordered with a small gap
+      splits[index] = Math.max(index === 0 ? 5 : splits[index - 1] + 5, Math.min(index === 2 ? 95 : splits[index + 1] - 5, val));
+      onCurvesChange({ ...adjustments.curves, parametric: { ...adjustments.curves.parametric, splits } });
+  };
+
+  // Profile whose settings the current grain matches, if any
+  const activeGrainProfile = GRAIN_PROFILES.find(p =>
+      p.amount === adjustments.grainAmount && p.size === adjustments.grainSize && p.chroma === adjustments.grainChroma &&
+      p.response.shadows === adjustments.grainResponse.shadows &&
+      p.response.midtones === adjustments.grainResponse.midtones &&
+      p.response.highlights === adjustments.grainResponse.highlights
+  );
+
+  const handleCurveChannelReset = () => {
+      if (curveMode === 'parametric') {
+          onCurvesChange({ ...adjustments.curves, parametric: { highlights: 0, lights: 0, darks: 0, shadows: 0, splits: [25, 50, 75] } });
+      } else {
+          onCurvesChange({ ...adjustments.curves, [curveChannel]: [{ x: 0, y: 0 }, { x: 255, y: 255 }] });
+      }
+  };
+
   return (
     <>
       <div className="w-full lg:w-[360px] bg-[#0c0c0c] flex flex-col h-auto lg:h-full border-b lg:border-b-0 lg:border-r border-gray-800/50 shadow-2xl z-20 font-sans">
@@ -238,10 +359,14 @@ export const Controls: React.FC<ControlsProps> = ({
             <div className="bg-[#111] rounded-xl border border-gray-800/50 p-1">
                 <div className="flex p-1 bg-black/40 rounded-lg mb-4 overflow-x-auto no-scrollbar">
                     <TabButton active={activeTab === 'basic'} onClick={() => setActiveTab('basic')} label="基础" />
+                    <TabButton active={activeTab === 'curve'} onClick={() => setActiveTab('curve')} label="曲线" />
                     <TabButton active={activeTab === 'color'} onClick={() => setActiveTab('color')} label="色彩" />
                     <TabButton active={activeTab === 'grading'} onClick={() => setActiveTab('grading')} label="分级" />
                     <TabButton active={activeTab === 'fx'} onClick={() => setActiveTab('fx')} label="特效" />
+                    <TabButton active={activeTab === 'profile'} onClick={() => setActiveTab('profile')} label="胶片" />
                     <TabButton active={activeTab === 'local'} onClick={() => setActiveTab('local')} label="局部" />
+                    <TabButton active={activeTab === 'history'} onClick={() => setActiveTab('history')} label="历史" />
+                    <TabButton active={activeTab === 'info'} onClick={() => setActiveTab('info')} label="信息" />
                 </div>
                 
                 <div className="px-3 pb-3 min-h-[300px]">
@@ -258,6 +383,11 @@ export const Controls: React.FC<ControlsProps> = ({
                                         className="w-full bg-[#161616] text-gray-200 border border-gray-700 rounded-lg px-3 py-2 focus:outline-none focus:border-fuji-accent text-xs font-medium appearance-none shadow-sm"
                                     >
                                         {Object.values(FilmSimulation).map((film) => <option key={film} value={film}>{film}</option>)}
+                                        {customProfiles.length > 0 && (
+                                            <optgroup label="自定义配置 (Custom Profiles)">
+                                                {customProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                            </optgroup>
+                                        )}
                                     </select>
                                     <div className="absolute top-2.5 right-3 pointer-events-none text-gray-500">
                                         <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 9l4-4 4 4m0 6l-4 4-4-4"></path></svg>
@@ -265,6 +395,91 @@ export const Controls: React.FC<ControlsProps> = ({
                                 </div>
                                 <div className="mt-2">
                                     <Slider label="强度 (Intensity)" value={filterIntensity * 100} min={0} max={100} onChange={(v) => onIntensityChange(v / 100)} unit="%" />
+                                    {activeProfile?.monochrome && (
+                                        <>
+                                            <Slider label="冷暖色调 (Warm/Cool)" value={adjustments.monoWarmCool} min={-18} max={18} onChange={(v) => onAdjustmentChange('monoWarmCool', v)} bgClass="bg-gradient-to-r from-blue-900/30 via-gray-700/30 to-yellow-900/30 rounded-full h-1" />
+                                            <Slider label="品绿色调 (Magenta/Green)" value={adjustments.monoMagentaGreen} min={-18} max={18} onChange={(v) => onAdjustmentChange('monoMagentaGreen', v)} bgClass="bg-gradient-to-r from-green-900/30 via-gray-700/30 to-fuchsia-900/30 rounded-full h-1" />
+                                        </>
+                                    )}
+                                </div>
+                                <div className="mt-3 bg-[#0a0a0a] p-3 rounded-lg border border-gray-800">
+                                    <div className="flex justify-between items-center mb-2">
+                                        <h4 className="text-[10px] font-bold text-gray-500 uppercase">自定义 LUT (CUSTOM LOOKS)</h4>
+                                        <label className="text-[10px] bg-fuji-accent/20 text-fuji-accent px-2 py-1 rounded hover:bg-fuji-accent hover:text-black transition-colors cursor-pointer">
+                                            + 导入 LUT
+                                            <input type="file" className="hidden" accept=".cube,.3dl,.csp,.png" onChange={onImportLook} />
+                                        </label>
+                                    </div>
+                                    {customLooks.length === 0 ? (
+                                        <p className="text-[10px] text-gray-600">导入的 LUT 会保存在浏览器中 (Imported LUTs are kept in this browser)</p>
+                                    ) : (
+                                        <div className="space-y-1">
+                                            {customLooks.map(l => (
+                                                <div key={l.id} className={`flex items-center gap-2 px-2 py-1.5 rounded text-[11px] cursor-pointer ${look?.id === l.id ? 'bg-gray-800 text-white border border-fuji-accent/50' : 'text-gray-400 hover:bg-white/5'}`} onClick={() => onSelectLook(look?.id === l.id ? null : l.id)}>
+                                                    <span className="flex-1 truncate">{l.name}</span>
+                                                    <span className="text-[9px] text-gray-600 font-mono">{l.lut.size}³</span>
+                                                    <button type="button" onClick={(e) => { e.stopPropagation(); onDeleteLook(l.id); }} className="text-gray-600 hover:text-red-400 px-1">×</button>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {look && (
+                                        <div className="mt-3">
+                                            <Slider label="LUT 强度 (Look Intensity)" value={look.intensity * 100} min={0} max={100} onChange={(v) => onLookChange({ intensity: v / 100 })} unit="%" />
+                                            <button
+                                                type="button"
+                                                onClick={() => onLookChange({ stackOnFilm: !look.stackOnFilm })}
+                                                className={`w-full py-1 text-[10px] rounded ${look.stackOnFilm ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}
+                                            >
+                                                叠加在胶片模拟上 (Stack on Film)
+                                            </button>
+                                        </div>
+                                    )}
+                                    <LearnLookPanel isLearning={isLearningLook} result={lookFit} onLearn={onLearnLook} />
+                                    <MatchLookPanel isMatching={isMatchingReference} onMatch={onMatchReference} />
+                                </div>
+                                <div className="mt-3 bg-[#0a0a0a] p-3 rounded-lg border border-gray-800">
+                                    <h4 className="text-[10px] font-bold text-gray-500 uppercase mb-2">富士配方 (FUJI RECIPE)</h4>
+                                    {cameraRecipe && (
+                                        <div className="mb-3 pb-3 border-b border-gray-800 space-y-2">
+                                            <div className="text-[10px] text-gray-400">相机设置 (Camera Settings)</div>
+                                            <RecipeSummary recipe={cameraRecipe} />
+                                            <button type="button" onClick={() => onApplyRecipe(cameraRecipe)} className="w-full py-1 text-[10px] rounded bg-fuji-accent/20 text-fuji-accent hover:bg-fuji-accent hover:text-black transition-colors">
+                                                预选相机设置 (Use Camera Settings)
+                                            </button>
+                                            <p className="text-[9px] text-gray-600">JPEG 已含相机风格, 适合 RAW 起步 (A JPEG already has the look baked in; best as a RAW starting point)</p>
+                                        </div>
+                                    )}
+                                    <textarea
+                                        value={recipeText}
+                                        onChange={(e) => { setRecipeText(e.target.value); setParsedRecipe(e.target.value.trim() ? parseRecipeText(e.target.value) : null); }}
+                                        placeholder={"粘贴配方卡片 (Paste a recipe card)\nClassic Chrome\nDynamic Range: DR200\nHighlight: -1\nWhite Balance: 5500K, +2 Red & -4 Blue"}
+                                        rows={5}
+                                        className="w-full bg-[#161616] text-gray-300 border border-gray-700 rounded px-2 py-1.5 text-[10px] font-mono focus:outline-none focus:border-fuji-accent resize-none"
+                                    />
+                                    {parsedRecipe && (
+                                        <div className="mt-2 space-y-2">
+                                            <RecipeSummary recipe={parsedRecipe} />
+                                            <button type="button" onClick={() => onApplyRecipe(parsedRecipe)} className="w-full py-1 text-[10px] rounded bg-fuji-accent/20 text-fuji-accent hover:bg-fuji-accent hover:text-black transition-colors">
+                                                应用配方 (Apply Recipe)
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="mt-3 bg-[#0a0a0a] p-3 rounded-lg border border-gray-800">
+                                    <h4 className="text-[10px] font-bold text-gray-500 uppercase mb-2">导出 LUT (EXPORT LUT)</h4>
+                                    <div className="flex gap-1">
+                                        <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as LUTExportFormat)} className="flex-1 bg-[#161616] text-gray-300 border border-gray-700 rounded px-2 py-1 text-[10px] focus:outline-none focus:border-fuji-accent">
+                                            <option value="cube">.cube (Adobe / Resolve)</option>
+                                            <option value="3dl">.3dl (Autodesk / Lustre)</option>
+                                        </select>
+                                        <select value={exportSize} onChange={(e) => setExportSize(Number(e.target.value) as LUTExportSize)} className="bg-[#161616] text-gray-300 border border-gray-700 rounded px-2 py-1 text-[10px] focus:outline-none focus:border-fuji-accent">
+                                            <option value={33}>33³</option>
+                                            <option value={65}>65³</option>
+                                        </select>
+                                        <button type="button" onClick={() => onExportLUT(exportFormat, exportSize)} className="text-[10px] bg-fuji-accent/20 text-fuji-accent px-2 py-1 rounded hover:bg-fuji-accent hover:text-black transition-colors">导出</button>
+                                    </div>
+                                    <p className="text-[9px] text-gray-600 mt-2">包含 HSL、影调、曲线与胶片；不含蒙版、暗角、锐化与颗粒 (Global color only)</p>
                                 </div>
                                 <button 
                                     type="button" 
@@ -281,14 +496,80 @@ export const Controls: React.FC<ControlsProps> = ({
                             <Slider label="高光 (Highlights)" value={adjustments.highlights} min={-100} max={100} onChange={(v) => onAdjustmentChange('highlights', v)} />
                             <Slider label="阴影 (Shadows)" value={adjustments.shadows} min={-100} max={100} onChange={(v) => onAdjustmentChange('shadows', v)} />
                             <Slider label="饱和度 (Saturation)" value={adjustments.saturation} min={-100} max={100} onChange={(v) => onAdjustmentChange('saturation', v)} />
+                            <Slider label="清晰度 (Clarity)" value={adjustments.clarity} min={-100} max={100} onChange={(v) => onAdjustmentChange('clarity', v)} />
                             
-                            <div className="text-[10px] font-bold text-gray-500 uppercase mb-2 mt-4">白平衡 (WHITE BALANCE)</div>
+                            <div className="flex justify-between items-center mb-2 mt-4">
+                                <div className="text-[10px] font-bold text-gray-500 uppercase">白平衡 (WHITE BALANCE)</div>
+                                {asShotTemperature !== null && <span className="text-[9px] font-mono text-gray-500">拍摄 (As Shot) {asShotTemperature}K</span>}
+                            </div>
                             <Slider label="色温 (Temp)" value={adjustments.whiteBalance.temp} min={-50} max={50} onChange={(v) => onWBChange('temp', v)} bgClass="bg-gradient-to-r from-blue-900/30 via-gray-700/30 to-yellow-900/30 rounded-full h-1" />
                             <Slider label="色调 (Tint)" value={adjustments.whiteBalance.tint} min={-50} max={50} onChange={(v) => onWBChange('tint', v)} bgClass="bg-gradient-to-r from-green-900/30 via-gray-700/30 to-fuchsia-900/30 rounded-full h-1" />
                         </div>
+                    )}
+                    {activeTab === 'curve' && (
+                        <div className="animate-fadeIn space-y-3">
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => setCurveMode('point')}
+                                    className={`flex-1 py-1 text-[10px] rounded ${curveMode === 'point' ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}
+                                >
+                                    点曲线 (Point)
+                                </button>
+                                <button
+                                    onClick={() => setCurveMode('parametric')}
+                                    className={`flex-1 py-1 text-[10px] rounded ${curveMode === 'parametric' ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}
+                                >
+                                    区域 (Parametric)
+                                </button>
+                            </div>
+
+                            {curveMode === 'point' ? (
+                                <>
+                                    <div className="flex p-1 bg-black/40 rounded-lg">
+                                        {([['rgb', 'RGB'], ['red', 'R'], ['green', 'G'], ['blue', 'B'], ['luma', '亮度']] as const).map(([ch, label]) => (
+                                            <React.Fragment key={ch}>
+                                                <TabButton active={curveChannel === ch} onClick={() => setCurveChannel(ch)} label={label} />
+                                            </React.Fragment>
+                                        ))}
+                                    </div>
+                                    <ToneCurveEditor
+                                        channel={curveChannel}
+                                        points={adjustments.curves[curveChannel]}
+                                        histogramData={histogramData}
+                                        onChange={(points) => onCurvesChange({ ...adjustments.curves, [curveChannel]: points })}
+                                    />
+                                </>
+                            ) : (
+                                <div>
+                                    <Slider label="高光 (Highlights)" value={adjustments.curves.parametric.highlights} min={-100} max={100} onChange={(v) => handleParametricChange('highlights', v)} />
+                                    <Slider label="亮部 (Lights)" value={adjustments.curves.parametric.lights} min={-100} max={100} onChange={(v) => handleParametricChange('lights', v)} />
+                                    <Slider label="暗部 (Darks)" value={adjustments.curves.parametric.darks} min={-100} max={100} onChange={(v) => handleParametricChange('darks', v)} />
+                                    <Slider label="阴影 (Shadows)" value={adjustments.curves.parametric.shadows} min={-100} max={100} onChange={(v) => handleParametricChange('shadows', v)} />
+                                    <div className="text-[10px] font-bold text-gray-500 uppercase mb-2 mt-4">分割点 (SPLITS)</div>
+                                    {(['阴影 | 暗部', '暗部 | 亮部', '亮部 | 高光'] as const).map((label, i) => (
+                                        <React.Fragment key={label}>
+                                            <Slider label={label} value={adjustments.curves.parametric.splits[i]} min={5} max={95} onChange={(v) => handleSplitChange(i, v)} unit="%" />
+                                        </React.Fragment>
+                                    ))}
+                                </div>
+                            )}
+
+                            <button
+                                type="button"
+                                onClick={handleCurveChannelReset}
+                                className="w-full py-1.5 text-[10px] bg-gray-800/50 hover:bg-red-900/20 text-gray-500 hover:text-red-400 rounded border border-transparent hover:border-red-900/30 transition-all"
+                            >
+                                重置曲线 (Reset Curve)
+                            </button>
+                        </div>
                     )}
                      {activeTab === 'color' && (
                         <div className="animate-fadeIn space-y-4">
+                           <div className="border-l-2 border-gray-800 pl-3">
+                              <div className="text-[9px] font-bold uppercase text-gray-500 mb-2 tracking-wider">色彩效果 (COLOR CHROME)</div>
+                              <Slider label="色彩效果 (Color Chrome)" value={adjustments.colorChrome} min={0} max={100} onChange={(v) => onAdjustmentChange('colorChrome', v)} />
+                              <Slider label="蓝色效果 (FX Blue)" value={adjustments.colorChromeBlue} min={0} max={100} onChange={(v) => onAdjustmentChange('colorChromeBlue', v)} />
+                           </div>
                            {(['red', 'yellow', 'green', 'cyan', 'blue', 'magenta'] as const).map((color) => (
                               <div key={color} className="border-l-2 border-gray-800 pl-3">
                                  <div className="text-[9px] font-bold uppercase text-gray-500 mb-2 tracking-wider flex items-center gap-2">
@@ -325,8 +606,90 @@ export const Controls: React.FC<ControlsProps> = ({
                           <div>
                               <div className="text-[10px] font-bold text-gray-500 uppercase mb-3">质感 (TEXTURE)</div>
                               <Slider label="锐化 (Sharpening)" value={adjustments.sharpening} min={0} max={100} onChange={(v) => onAdjustmentChange('sharpening', v)} />
+                          </div>
+                          <div>
+                              <div className="text-[10px] font-bold text-gray-500 uppercase mb-3">颗粒 (GRAIN)</div>
+                              <div className="relative mb-3">
+                                  <select
+                                      value={activeGrainProfile?.id ?? ''}
+                                      onChange={(e) => {
+                                          const profile = GRAIN_PROFILES.find(p => p.id === e.target.value);
+                                          if (profile) onGrainProfileChange(profile);
+                                      }}
+                                      className="w-full bg-[#161616] text-gray-200 border border-gray-700 rounded-lg px-3 py-2 focus:outline-none focus:border-fuji-accent text-xs font-medium appearance-none shadow-sm"
+                                  >
+                                      <option value="" disabled>自定义 (Custom)</option>
+                                      {GRAIN_PROFILES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                  </select>
+                                  <div className="absolute top-2.5 right-3 pointer-events-none text-gray-500">
+                                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 9l4-4 4 4m0 6l-4 4-4-4"></path></svg>
+                                  </div>
+                              </div>
                               <Slider label="颗粒强度 (Grain)" value={adjustments.grainAmount} min={0} max={100} onChange={(v) => onAdjustmentChange('grainAmount', v)} />
                               <Slider label="颗粒大小 (Size)" value={adjustments.grainSize} min={1} max={5} onChange={(v) => onAdjustmentChange('grainSize', v)} />
+                              <Slider label="彩色颗粒 (Chroma)" value={adjustments.grainChroma} min={0} max={100} onChange={(v) => onAdjustmentChange('grainChroma', v)} />
+                              <div className="text-[9px] text-gray-600 uppercase tracking-wider mb-2 mt-3">影调响应 (Tone Response)</div>
+                              <Slider label="阴影 (Shadows)" value={adjustments.grainResponse.shadows} min={0} max={100} onChange={(v) => onGrainResponseChange('shadows', v)} />
+                              <Slider label="中间调 (Midtones)" value={adjustments.grainResponse.midtones} min={0} max={100} onChange={(v) => onGrainResponseChange('midtones', v)} />
+                              <Slider label="高光 (Highlights)" value={adjustments.grainResponse.highlights} min={0} max={100} onChange={(v) => onGrainResponseChange('highlights', v)} />
+                          </div>
+                          <div>
+                              <div className="text-[10px] font-bold text-gray-500 uppercase mb-3">LUT 引擎 (LUT ENGINE)</div>
+                              <div className="text-[9px] text-gray-600 uppercase tracking-wider mb-2">精度 (Size)</div>
+                              <div className="flex gap-1 mb-3">
+                                  {LUT_SIZES.map(size => (
+                                      <button key={size} type="button" onClick={() => onLutSizeChange(size)} className={`flex-1 py-1 text-[10px] rounded ${lutSize === size ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}>{size}³</button>
+                                  ))}
+                              </div>
+                              <div className="text-[9px] text-gray-600 uppercase tracking-wider mb-2">插值 (Interpolation)</div>
+                              <div className="flex gap-1 mb-3">
+                                  {LUT_INTERPOLATIONS.map(mode => (
+                                      <button key={mode} type="button" onClick={() => onLutInterpolationChange(mode)} className={`flex-1 py-1 text-[10px] rounded ${lutInterpolation === mode ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}>
+                                          {mode === 'trilinear' ? '三线性 (Trilinear)' : '四面体 (Tetrahedral)'}
+                                      </button>
+                                  ))}
+                              </div>
+                              <button type="button" onClick={onRunBenchmark} disabled={isBenchmarking} className="w-full py-1.5 text-[10px] rounded bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-50">
+                                  {isBenchmarking ? '测试中... (Running)' : '基准测试 (Benchmark)'}
+                              </button>
+                              {benchmarkResults && (
+                                  <table className="w-full mt-2 text-[10px] text-gray-400 font-mono">
+                                      <thead>
+                                          <tr className="text-gray-600 text-left">
+                                              <th className="font-normal">LUT</th><th className="font-normal text-right">生成</th><th className="font-normal text-right">查表</th><th className="font-normal text-right">每帧</th>
+                                          </tr>
+                                      </thead>
+                                      <tbody>
+                                          {benchmarkResults.map(r => (
+                                              <tr key={`${r.size}-${r.interpolation}`} className={r.size === lutSize && r.interpolation === lutInterpolation ? 'text-white' : ''}>
+                                                  <td>{r.size}³ {r.interpolation === 'trilinear' ? 'tri' : 'tetra'}</td>
+                                                  <td className="text-right">{r.buildMs.toFixed(0)}ms</td>
+                                                  <td className="text-right">{r.lookupMs.toFixed(1)}ms</td>
+                                                  <td className="text-right">{r.frameMs.toFixed(0)}ms</td>
+                                              </tr>
+                                          ))}
+                                      </tbody>
+                                  </table>
+                              )}
+                          </div>
+                          <div>
+                              <div className="text-[10px] font-bold text-gray-500 uppercase mb-3">RAW 解码 (RAW DEVELOP)</div>
+                              <div className="text-[9px] text-gray-600 uppercase tracking-wider mb-2">去马赛克 (Demosaic)</div>
+                              <div className="flex gap-1 mb-2">
+                                  {DEMOSAIC_METHODS.map(method => (
+                                      <button key={method} type="button" onClick={() => onRawDemosaicChange(method)} className={`flex-1 py-1 text-[10px] rounded ${rawDemosaic === method ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}>
+                                          {method === 'bilinear' ? '双线性 (Bilinear)' : '自适应 (VNG)'}
+                                      </button>
+                                  ))}
+                              </div>
+                              <button
+                                  type="button"
+                                  onClick={() => onRafDevelopSensorChange(!rafDevelopSensor)}
+                                  className={`w-full py-1 mb-2 text-[10px] rounded ${rafDevelopSensor ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}
+                              >
+                                  RAF 解码传感器数据 (Develop RAF Sensor Data)
+                              </button>
+                              <p className="text-[9px] text-gray-600">下次导入 RAW 时生效; RAF 默认使用机内 JPEG, 传感器色彩未经校准 (Applies to the next RAW import; RAF uses the in-camera JPEG by default, developed sensor colour is not calibrated)</p>
                           </div>
                         </div>
                     )}
@@ -335,7 +698,11 @@ export const Controls: React.FC<ControlsProps> = ({
                             <div className="bg-[#0a0a0a] p-3 rounded-lg border border-gray-800 mb-4">
                                 <div className="flex justify-between items-center mb-3">
                                     <h4 className="text-[10px] font-bold text-gray-500 uppercase">图层 (LAYERS)</h4>
-                                    <button onClick={onAddMask} className="text-[10px] bg-fuji-accent/20 text-fuji-accent px-2 py-1 rounded hover:bg-fuji-accent hover:text-black transition-colors">+ 新建蒙版</button>
+                                    <div className="flex gap-1">
+                                        <button onClick={() => onAddMask('brush')} className="text-[10px] bg-fuji-accent/20 text-fuji-accent px-2 py-1 rounded hover:bg-fuji-accent hover:text-black transition-colors">+ 画笔</button>
+                                        <button onClick={() => onAddMask('linear')} className="text-[10px] bg-fuji-accent/20 text-fuji-accent px-2 py-1 rounded hover:bg-fuji-accent hover:text-black transition-colors">+ 线性</button>
+                                        <button onClick={() => onAddMask('radial')} className="text-[10px] bg-fuji-accent/20 text-fuji-accent px-2 py-1 rounded hover:bg-fuji-accent hover:text-black transition-colors">+ 径向</button>
+                                    </div>
                                 </div>
                                 <div className="space-y-1 max-h-32 overflow-y-auto custom-scrollbar">
                                     {masks.length === 0 && <p className="text-xs text-gray-600 text-center py-2">暂无图层 (No Layers)</p>}
@@ -361,23 +728,151 @@ export const Controls: React.FC<ControlsProps> = ({
                             {activeMask && (
                                 <>
                                     <div className="mb-4">
-                                        <div className="text-[10px] font-bold text-gray-500 uppercase mb-2">画笔 (BRUSH)</div>
-                                        <div className="flex gap-2 mb-2">
-                                            <button 
-                                                onClick={() => onBrushChange('isEraser', false)}
-                                                className={`flex-1 py-1 text-[10px] rounded ${!brushSettings.isEraser ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}
+                                        <div className="text-[10px] font-bold text-gray-500 uppercase mb-2">蒙版操作 (MASK OPS)</div>
+                                        <div className="grid grid-cols-3 gap-1 mb-3">
+                                            <button onClick={() => onMaskOperation(activeMask.id, { kind: 'invert' })} className="py-1 text-[10px] rounded bg-gray-800 text-gray-300 hover:bg-gray-700">反转 (Invert)</button>
+                                            <button onClick={() => onDuplicateMask(activeMask.id)} className="py-1 text-[10px] rounded bg-gray-800 text-gray-300 hover:bg-gray-700">复制 (Copy)</button>
+                                            <button onClick={() => onMaskOperation(activeMask.id, { kind: 'refine', radius: maskOpRadius })} title="按原图边缘优化 (Guided filter)" className="py-1 text-[10px] rounded bg-gray-800 text-gray-300 hover:bg-gray-700">边缘 (Refine)</button>
+                                        </div>
+                                        <Slider label="半径 (Radius)" value={maskOpRadius} min={1} max={200} onChange={setMaskOpRadius} unit="px" />
+                                        <div className="grid grid-cols-3 gap-1 mb-3">
+                                            <button onClick={() => onMaskOperation(activeMask.id, { kind: 'feather', radius: maskOpRadius })} className="py-1 text-[10px] rounded bg-gray-800 text-gray-300 hover:bg-gray-700">羽化 (Feather)</button>
+                                            <button onClick={() => onMaskOperation(activeMask.id, { kind: 'expand', amount: maskOpRadius })} className="py-1 text-[10px] rounded bg-gray-800 text-gray-300 hover:bg-gray-700">扩展 (Expand)</button>
+                                            <button onClick={() => onMaskOperation(activeMask.id, { kind: 'expand', amount: -maskOpRadius })} className="py-1 text-[10px] rounded bg-gray-800 text-gray-300 hover:bg-gray-700">收缩 (Contract)</button>
+                                        </div>
+                                        {masks.length > 1 && (
+                                            <div className="flex gap-1">
+                                                <select
+                                                    value={combineMode}
+                                                    onChange={(e) => setCombineMode(e.target.value as MaskCombineMode)}
+                                                    className="bg-[#161616] text-gray-300 border border-gray-700 rounded px-1 py-1 text-[10px]"
+                                                >
+                                                    <option value="union">并集 (Union)</option>
+                                                    <option value="intersect">交集 (Intersect)</option>
+                                                    <option value="subtract">相减 (Subtract)</option>
+                                                </select>
+                                                <select
+                                                    value={combineWithId}
+                                                    onChange={(e) => setCombineWithId(e.target.value)}
+                                                    className="flex-1 min-w-0 bg-[#161616] text-gray-300 border border-gray-700 rounded px-1 py-1 text-[10px]"
+                                                >
+                                                    <option value="">选择图层 (Layer)...</option>
+                                                    {masks.filter(m => m.id !== activeMask.id).map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                                                </select>
+                                                <button
+                                                    onClick={() => onMaskOperation(activeMask.id, { kind: 'combine', mode: combineMode, otherId: combineWithId })}
+                                                    disabled={!combineWithId || combineWithId === activeMask.id}
+                                                    className="px-2 py-1 text-[10px] rounded bg-fuji-accent/20 text-fuji-accent hover:bg-fuji-accent hover:text-black disabled:opacity-40"
+                                                >
+                                                    合并
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+
+                                    {activeMask.type === 'brush' ? (
+                                        <div className="mb-4">
+                                            <div className="text-[10px] font-bold text-gray-500 uppercase mb-2">画笔 (BRUSH)</div>
+                                            <div className="flex gap-2 mb-2">
+                                                <button 
+                                                    onClick={() => onBrushChange('isEraser', false)}
+                                                    className={`flex-1 py-1 text-[10px] rounded ${!brushSettings.isEraser ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}
+                                                >
+                                                    涂抹 (Paint)
+                                                </button>
+                                                <button 
+                                                    onClick={() => onBrushChange('isEraser', true)}
+                                                    className={`flex-1 py-1 text-[10px] rounded ${brushSettings.isEraser ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}
+                                                >
+                                                    擦除 (Erase)
+                                                </button>
+                                            </div>
+                                            <Slider label="大小 (Size)" value={brushSettings.size} min={10} max={300} onChange={(v) => onBrushChange('size', v)} />
+                                            <Slider label="硬度 (Hardness)" value={brushSettings.hardness} min={0} max={100} onChange={(v) => onBrushChange('hardness', v)} unit="%" />
+                                            <Slider label="流量 (Flow)" value={brushSettings.flow} min={1} max={100} onChange={(v) => onBrushChange('flow', v)} unit="%" />
+                                            <Slider label="不透明度 (Opacity)" value={brushSettings.opacity} min={1} max={100} onChange={(v) => onBrushChange('opacity', v)} unit="%" />
+                                            <Slider label="间距 (Spacing)" value={brushSettings.spacing} min={1} max={100} onChange={(v) => onBrushChange('spacing', v)} unit="%" />
+                                            <div className="flex gap-2">
+                                                <button
+                                                    onClick={() => onBrushChange('pressureSize', !brushSettings.pressureSize)}
+                                                    title="压感控制大小 (Pen pressure sets size)"
+                                                    className={`flex-1 py-1 text-[10px] rounded ${brushSettings.pressureSize ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}
+                                                >
+                                                    压感·大小 (Size)
+                                                </button>
+                                                <button
+                                                    onClick={() => onBrushChange('pressureFlow', !brushSettings.pressureFlow)}
+                                                    title="压感控制流量 (Pen pressure sets flow)"
+                                                    className={`flex-1 py-1 text-[10px] rounded ${brushSettings.pressureFlow ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}
+                                                >
+                                                    压感·流量 (Flow)
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ) : activeMask.gradient && (
+                                        <div className="mb-4">
+                                            <div className="text-[10px] font-bold text-gray-500 uppercase mb-2">{activeMask.type === 'linear' ? '线性渐变 (LINEAR)' : '径向渐变 (RADIAL)'}</div>
+                                            <p className="text-[9px] text-gray-600 mb-3">在画面上拖动控制点调整位置、角度与羽化 (Drag the handles on the canvas)</p>
+                                            <Slider label="羽化 (Feather)" value={activeMask.gradient.feather} min={0} max={100} onChange={(v) => onGradientChange(activeMask.id, { ...activeMask.gradient!, feather: v })} />
+                                            <Slider label="角度 (Angle)" value={activeMask.gradient.angle} min={-180} max={180} onChange={(v) => onGradientChange(activeMask.id, { ...activeMask.gradient!, angle: v })} unit="°" />
+                                            <button
+                                                onClick={() => onGradientChange(activeMask.id, { ...activeMask.gradient!, invert: !activeMask.gradient!.invert })}
+                                                className={`w-full py-1 text-[10px] rounded ${activeMask.gradient.invert ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}
                                             >
-                                                涂抹 (Paint)
+                                                反转 (Invert)
                                             </button>
-                                            <button 
-                                                onClick={() => onBrushChange('isEraser', true)}
-                                                className={`flex-1 py-1 text-[10px] rounded ${brushSettings.isEraser ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}
+                                        </div>
+                                    )}
+
+                                    <div className="border-t border-gray-800 pt-4 mb-4">
+                                        <div className="text-[10px] font-bold text-gray-500 uppercase mb-2">范围 (RANGE)</div>
+                                        <div className="flex justify-between items-center mb-2">
+                                            <span className="text-[10px] text-gray-400">亮度范围 (Luminance)</span>
+                                            <button
+                                                onClick={() => onLuminanceRangeChange(activeMask.id, { ...activeMask.luminanceRange, enabled: !activeMask.luminanceRange.enabled })}
+                                                className={`px-2 py-0.5 text-[10px] rounded ${activeMask.luminanceRange.enabled ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}
                                             >
-                                                擦除 (Erase)
+                                                {activeMask.luminanceRange.enabled ? '开 (On)' : '关 (Off)'}
                                             </button>
                                         </div>
-                                        <Slider label="大小 (Size)" value={brushSettings.size} min={10} max={300} onChange={(v) => onBrushChange('size', v)} />
-                                        <Slider label="流量 (Flow)" value={brushSettings.opacity} min={1} max={100} onChange={(v) => onBrushChange('opacity', v)} unit="%" />
+                                        {activeMask.luminanceRange.enabled && (
+                                            <>
+                                                <Slider label="下限 (Min)" value={activeMask.luminanceRange.min} min={0} max={100} onChange={(v) => onLuminanceRangeChange(activeMask.id, { ...activeMask.luminanceRange, min: Math.min(v, activeMask.luminanceRange.max) })} />
+                                                <Slider label="上限 (Max)" value={activeMask.luminanceRange.max} min={0} max={100} onChange={(v) => onLuminanceRangeChange(activeMask.id, { ...activeMask.luminanceRange, max: Math.max(v, activeMask.luminanceRange.min) })} />
+                                                <Slider label="羽化 (Feather)" value={activeMask.luminanceRange.feather} min={0} max={100} onChange={(v) => onLuminanceRangeChange(activeMask.id, { ...activeMask.luminanceRange, feather: v })} />
+                                            </>
+                                        )}
+                                        <div className="flex justify-between items-center mb-2 mt-3">
+                                            <span className="text-[10px] text-gray-400">色彩范围 (Color)</span>
+                                            <div className="flex items-center gap-1">
+                                                {activeMask.colorRange.color && (
+                                                    <span
+                                                        className="w-4 h-4 rounded border border-gray-600"
+                                                        style={{ backgroundColor: `rgb(${activeMask.colorRange.color.r}, ${activeMask.colorRange.color.g}, ${activeMask.colorRange.color.b})` }}
+                                                    />
+                                                )}
+                                                <button
+                                                    onClick={onTogglePickColor}
+                                                    title="在原图上取色 (Pick from the original)"
+                                                    className={`px-2 py-0.5 text-[10px] rounded ${isPickingColor ? 'bg-fuji-accent text-black' : 'bg-gray-800 text-gray-400'}`}
+                                                >
+                                                    吸管 (Pick)
+                                                </button>
+                                                <button
+                                                    onClick={() => onColorRangeChange(activeMask.id, { ...activeMask.colorRange, enabled: !activeMask.colorRange.enabled })}
+                                                    disabled={!activeMask.colorRange.color}
+                                                    className={`px-2 py-0.5 text-[10px] rounded disabled:opacity-40 ${activeMask.colorRange.enabled ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}
+                                                >
+                                                    {activeMask.colorRange.enabled ? '开 (On)' : '关 (Off)'}
+                                                </button>
+                                            </div>
+                                        </div>
+                                        {activeMask.colorRange.enabled && activeMask.colorRange.color && (
+                                            <>
+                                                <Slider label="容差 (Tolerance)" value={activeMask.colorRange.tolerance} min={0} max={100} onChange={(v) => onColorRangeChange(activeMask.id, { ...activeMask.colorRange, tolerance: v })} />
+                                                <Slider label="羽化 (Feather)" value={activeMask.colorRange.feather} min={0} max={100} onChange={(v) => onColorRangeChange(activeMask.id, { ...activeMask.colorRange, feather: v })} />
+                                            </>
+                                        )}
                                     </div>
 
                                     <div className="border-t border-gray-800 pt-4">
@@ -386,11 +881,79 @@ export const Controls: React.FC<ControlsProps> = ({
                                         <Slider label="对比 (Con)" value={activeMask.adjustments.contrast} min={-100} max={100} onChange={(v) => onLocalAdjChange(activeMask.id, 'contrast', v)} />
                                         <Slider label="饱和 (Sat)" value={activeMask.adjustments.saturation} min={-100} max={100} onChange={(v) => onLocalAdjChange(activeMask.id, 'saturation', v)} />
                                         <Slider label="色温 (Temp)" value={activeMask.adjustments.temperature} min={-100} max={100} onChange={(v) => onLocalAdjChange(activeMask.id, 'temperature', v)} />
+                                        <Slider label="高光 (High)" value={activeMask.adjustments.highlights} min={-100} max={100} onChange={(v) => onLocalAdjChange(activeMask.id, 'highlights', v)} />
+                                        <Slider label="阴影 (Shad)" value={activeMask.adjustments.shadows} min={-100} max={100} onChange={(v) => onLocalAdjChange(activeMask.id, 'shadows', v)} />
+                                        <Slider label="清晰 (Clarity)" value={activeMask.adjustments.clarity} min={-100} max={100} onChange={(v) => onLocalAdjChange(activeMask.id, 'clarity', v)} />
+                                        <Slider label="去雾 (Dehaze)" value={activeMask.adjustments.dehaze} min={-100} max={100} onChange={(v) => onLocalAdjChange(activeMask.id, 'dehaze', v)} />
+                                        <Slider label="锐度 (Sharp)" value={activeMask.adjustments.sharpness} min={-100} max={100} onChange={(v) => onLocalAdjChange(activeMask.id, 'sharpness', v)} />
                                     </div>
                                 </>
                             )}
                         </div>
                     )}
+                    {activeTab === 'profile' && (
+                        <div className="animate-fadeIn">
+                            <div className="flex justify-between items-center mb-2 px-1">
+                                <h4 className="text-[10px] font-bold text-gray-500 uppercase">胶片配置 (FILM PROFILES)</h4>
+                                <label className="text-[10px] bg-fuji-accent/20 text-fuji-accent px-2 py-1 rounded hover:bg-fuji-accent hover:text-black transition-colors cursor-pointer">
+                                    + 导入 JSON
+                                    <input type="file" className="hidden" accept=".json,application/json" onChange={onImportProfile} />
+                                </label>
+                            </div>
+                            <div className="flex items-center gap-2 bg-[#0a0a0a] p-3 rounded-lg border border-gray-800 mb-3">
+                                <span className="flex-1 text-[11px] text-gray-300 truncate">{activeProfile ? activeProfile.name : FilmSimulation.None}</span>
+                                {!profileDraft && (
+                                    <button type="button" onClick={onEditProfile} className="text-[10px] bg-gray-800 text-gray-300 px-2 py-1 rounded hover:bg-gray-700">编辑 (Edit)</button>
+                                )}
+                                <button type="button" onClick={onExportProfile} disabled={!activeProfile} className="text-[10px] bg-gray-800 text-gray-300 px-2 py-1 rounded hover:bg-gray-700 disabled:opacity-30">导出 JSON</button>
+                            </div>
+                            {profileDraft && (
+                                <FilmProfileEditor profile={profileDraft} onChange={onProfileDraftChange} onSave={onSaveProfile} onCancel={onCancelProfile} />
+                            )}
+                            <div className="text-[9px] font-bold uppercase text-gray-500 mb-2 mt-4 tracking-wider px-1">自定义配置 (CUSTOM PROFILES)</div>
+                            {customProfiles.length === 0 ? (
+                                <p className="text-[10px] text-gray-600 px-1">编辑内置胶片并保存即可创建 (Edit a built-in film and save to create one)</p>
+                            ) : (
+                                <div className="space-y-1">
+                                    {customProfiles.map(p => (
+                                        <div key={p.id} className={`flex items-center gap-2 px-2 py-1.5 rounded text-[11px] cursor-pointer ${currentFilm === p.id ? 'bg-gray-800 text-white border border-fuji-accent/50' : 'text-gray-400 hover:bg-white/5'}`} onClick={() => onFilmChange(p.id)}>
+                                            <span className="flex-1 truncate">{p.name}</span>
+                                            <span className="text-[9px] text-gray-600 font-mono">v{p.version}</span>
+                                            <button type="button" onClick={(e) => { e.stopPropagation(); onDeleteProfile(p.id); }} className="text-gray-600 hover:text-red-400 px-1">×</button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {activeTab === 'history' && (
+                        <div className="animate-fadeIn">
+                            <h4 className="text-[10px] font-bold text-gray-500 uppercase mb-2 px-1">历史记录 (HISTORY)</h4>
+                            <div className="space-y-1 max-h-[420px] overflow-y-auto">
+                                {['原始 (Original)', ...historyLabels].map((label, i) => (
+                                    <button
+                                        key={i}
+                                        type="button"
+                                        onClick={() => onHistoryJump?.(i)}
+                                        className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-left text-[11px] transition-colors ${
+                                            i === historyIndex ? 'bg-gray-800 text-white border border-fuji-accent/50'
+                                            : i > historyIndex ? 'text-gray-600 hover:bg-white/5'
+                                            : 'text-gray-400 hover:bg-white/5'
+                                        }`}
+                                    >
+                                        <span className="text-[9px] font-mono text-gray-600 w-5 text-right">{i}</span>
+                                        <span className="truncate">{label}</span>
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-[9px] text-gray-600 mt-2 px-1">单击跳转，之后的编辑会替换灰色步骤 (Click to jump; a new edit replaces the greyed-out steps)</p>
+                        </div>
+                    )}
+
+                    {activeTab === 'info' && (
+                        <ExifPanel exif={exifData} metadataMode={metadataMode} onMetadataModeChange={onMetadataModeChange} />
+                    )}
                 </div>
             </div>
 
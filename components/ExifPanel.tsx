@@ -0,0 +1,47 @@
+import React, { useMemo } from 'react';
+import { ExifData, describeExif } from '../services/exifReader';
+import { MetadataExportMode } from '../services/exifWriter';
+
+interface ExifPanelProps {
+  exif: ExifData | null;
+  metadataMode: MetadataExportMode;
+  onMetadataModeChange: (mode: MetadataExportMode) => void;
+}
+
+const METADATA_MODES: { id: MetadataExportMode, label: string }[] = [
+  { id: 'all', label: '全部 (All)' },
+  { id: 'no-gps', label: '去除位置 (No GPS)' },
+  { id: 'no-personal', label: '去除个人 (No Personal)' }
+];
+
+export const ExifPanel: React.FC<ExifPanelProps> = ({ exif, metadataMode, onMetadataModeChange }) => {
+  const fields = useMemo(() => exif ? describeExif(exif) : [], [exif]);
+
+  return (
+    <div className="animate-fadeIn">
+      <h4 className="text-[10px] font-bold text-gray-500 uppercase mb-2 px-1">元数据 (METADATA)</h4>
+      {fields.length > 0 ? (
+        <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-[10px] px-1">
+          {fields.map(field => (
+            <React.Fragment key={field.label}>
+              <span className="text-gray-500 whitespace-nowrap">{field.label}</span>
+              <span className="text-gray-300 font-mono truncate" title={field.value}>{field.value}</span>
+            </React.Fragment>
+          ))}
+        </div>
+      ) : (
+        <p className="text-[10px] text-gray-600 px-1">{exif ? '没有可显示的字段 (No fields to show)' : '图片不含 EXIF (No EXIF in this image)'}</p>
+      )}
+
+      <div className="mt-4 pt-3 border-t border-gray-800">
+        <h4 className="text-[10px] font-bold text-gray-500 uppercase mb-2 px-1">导出元数据 (EXPORT METADATA)</h4>
+        <div className="flex gap-1">
+          {METADATA_MODES.map(m => (
+            <button key={m.id} type="button" onClick={() => onMetadataModeChange(m.id)} className={`flex-1 py-1 text-[10px] rounded ${metadataMode === m.id ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}>{m.label}</button>
+          ))}
+        </div>
+        <p className="text-[9px] text-gray-600 mt-2 px-1">JPEG 导出保留 EXIF 并将方向重置为正; 去除个人同时去除位置、作者与序列号 (JPEG export keeps the EXIF with the orientation reset to upright; No Personal also drops GPS, author and serial numbers)</p>
+      </div>
+    </div>
+  );
+};
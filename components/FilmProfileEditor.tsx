@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { FilmProfile, ProfileCurve, ProfileTint } from '../types';
+
+interface FilmProfileEditorProps {
+  profile: FilmProfile;
+  onChange: (profile: FilmProfile) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+type CurveTarget = 'rgb' | 'r' | 'g' | 'b';
+
+const CURVE_TARGETS: { id: CurveTarget, label: string }[] = [
+  { id: 'rgb', label: 'RGB' }, { id: 'r', label: 'R' }, { id: 'g', label: 'G' }, { id: 'b', label: 'B' }
+];
+
+const MATRIX_ROWS = ['R', 'G', 'B'];
+
+// Fractional slider for profile parameters
+const Param = ({ label, value, min, max, step, onChange }: { label: string, value: number, min: number, max: number, step: number, onChange: (v: number) => void }) => (
+  <div className="mb-2">
+    <div className="flex justify-between text-[10px] text-gray-500 mb-1 font-medium tracking-wide">
+      <span>{label}</span>
+      <span className="font-mono text-fuji-accent opacity-80">{Number(value.toFixed(3))}</span>
+    </div>
+    <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} className="w-full" />
+  </div>
+);
+
+const SectionTitle = ({ children }: { children: React.ReactNode }) => (
+  <div className="text-[9px] font-bold uppercase text-gray-500 mb-2 mt-4 tracking-wider">{children}</div>
+);
+
+export const FilmProfileEditor: React.FC<FilmProfileEditorProps> = ({ profile, onChange, onSave, onCancel }) => {
+  const [curveTarget, setCurveTarget] = useState<CurveTarget>('rgb');
+
+  const update = (changes: Partial<FilmProfile>) => onChange({ ...profile, ...changes });
+
+  const handleMatrixChange = (index: number, value: number) => {
+      if (!Number.isFinite(value)) return;
+      const matrix = [...profile.matrix];
+      matrix[index] = value;
+      update({ matrix });
+  };
+
+  // RGB edits all three channels to the same value
+  const curve = curveTarget === 'rgb' ? profile.curves.r : profile.curves[curveTarget];
+  const handleCurveChange = (key: keyof ProfileCurve, value: number) => {
+      const channels = curveTarget === 'rgb' ? (['r', 'g', 'b'] as const) : [curveTarget];
+      const curves = { ...profile.curves };
+      for (const c of channels) curves[c] = { ...curves[c], [key]: value };
+      update({ curves });
+  };
+
+  const renderTint = (key: 'shadowTint' | 'highlightTint') => {
+      const tint: ProfileTint = profile[key];
+      const setTint = (changes: Partial<ProfileTint>) => update({ [key]: { ...tint, ...changes } });
+      const setGain = (channel: number, v: number) => {
+          const gain = [...tint.gain] as [number, number, number];
+          gain[channel] = v;
+          setTint({ gain });
+      };
+      return (
+          <>
+              <Param label="红 (R Gain)" value={tint.gain[0]} min={0.8} max={1.2} step={0.005} onChange={(v) => setGain(0, v)} />
+              <Param label="绿 (G Gain)" value={tint.gain[1]} min={0.8} max={1.2} step={0.005} onChange={(v) => setGain(1, v)} />
+              <Param label="蓝 (B Gain)" value={tint.gain[2]} min={0.8} max={1.2} step={0.005} onChange={(v) => setGain(2, v)} />
+              <Param label="阈值 (Threshold)" value={tint.threshold} min={0} max={255} step={1} onChange={(v) => setTint({ threshold: v })} />
+              <Param label="过渡 (Softness)" value={tint.softness} min={0} max={128} step={1} onChange={(v) => setTint({ softness: v })} />
+          </>
+      );
+  };
+
+  return (
+    <div className="bg-[#0a0a0a] p-3 rounded-lg border border-fuji-accent/30">
+      <input
+        type="text"
+        value={profile.name}
+        onChange={(e) => update({ name: e.target.value })}
+        className="w-full bg-[#161616] text-gray-200 border border-gray-700 rounded px-2 py-1.5 text-[11px] focus:outline-none focus:border-fuji-accent"
+      />
+
+      <SectionTitle>矩阵 (MATRIX)</SectionTitle>
+      <div className="grid grid-cols-[12px_1fr_1fr_1fr] gap-1 items-center">
+        {MATRIX_ROWS.map((row, r) => (
+          <React.Fragment key={row}>
+            <span className="text-[9px] text-gray-600 font-mono">{row}</span>
+            {[0, 1, 2].map(c => (
+              <input
+                key={c}
+                type="number"
+                step={0.01}
+                value={profile.matrix[r * 3 + c]}
+                onChange={(e) => handleMatrixChange(r * 3 + c, parseFloat(e.target.value))}
+                className="w-full bg-[#161616] text-gray-300 border border-gray-800 rounded px-1 py-0.5 text-[10px] font-mono focus:outline-none focus:border-fuji-accent"
+              />
+            ))}
+          </React.Fragment>
+        ))}
+      </div>
+
+      <SectionTitle>曲线 (CURVES)</SectionTitle>
+      <div className="flex gap-1 mb-2">
+        {CURVE_TARGETS.map(t => (
+          <button key={t.id} type="button" onClick={() => setCurveTarget(t.id)} className={`flex-1 py-1 text-[10px] rounded ${curveTarget === t.id ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}>{t.label}</button>
+        ))}
+      </div>
+      <Param label="反差 (Contrast)" value={curve.contrast} min={1} max={12} step={0.1} onChange={(v) => handleCurveChange('contrast', v)} />
+      <Param label="中点 (Midpoint)" value={curve.offset} min={-0.3} max={0.3} step={0.01} onChange={(v) => handleCurveChange('offset', v)} />
+      <Param label="黑位 (Black)" value={curve.black} min={0} max={64} step={0.5} onChange={(v) => handleCurveChange('black', v)} />
+      <Param label="白位 (White)" value={curve.white} min={192} max={255} step={0.5} onChange={(v) => handleCurveChange('white', v)} />
+
+      <SectionTitle>暗部色调 (SHADOW TINT)</SectionTitle>
+      {renderTint('shadowTint')}
+
+      <SectionTitle>亮部色调 (HIGHLIGHT TINT)</SectionTitle>
+      {renderTint('highlightTint')}
+
+      <SectionTitle>高光饱和滚降 (SATURATION ROLLOFF)</SectionTitle>
+      <Param label="起点 (Start)" value={profile.saturationRolloff.start} min={0} max={1} step={0.01} onChange={(v) => update({ saturationRolloff: { ...profile.saturationRolloff, start: v } })} />
+      <Param label="强度 (Amount)" value={profile.saturationRolloff.amount} min={0} max={1} step={0.01} onChange={(v) => update({ saturationRolloff: { ...profile.saturationRolloff, amount: v } })} />
+
+      <button
+        type="button"
+        onClick={() => update({ monochrome: !profile.monochrome })}
+        className={`w-full mt-2 py-1 text-[10px] rounded ${profile.monochrome ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}
+      >
+        黑白 (Monochrome · 允许色调调整)
+      </button>
+
+      <div className="flex gap-2 mt-3">
+        <button type="button" onClick={onCancel} className="flex-1 py-1.5 text-[10px] rounded bg-gray-800 text-gray-400 hover:text-white">取消 (Cancel)</button>
+        <button type="button" onClick={onSave} disabled={!profile.name.trim()} className="flex-1 py-1.5 text-[10px] rounded bg-fuji-accent/20 text-fuji-accent hover:bg-fuji-accent hover:text-black transition-colors disabled:opacity-30">保存 (Save)</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LookFitCoverage, LookFitOptions, LookFitResult, LookFitSize } from '../services/lookFitter';
+
+interface LearnLookPanelProps {
+  isLearning: boolean;
+  result: LookFitResult | null;
+  onLearn: (before: File, after: File, options: LookFitOptions) => void;
+}
+
+const FIT_SIZES: LookFitSize[] = [17, 33];
+
+// Coverage of the before image's colours: neutrals on the left, then hue left to right, lightness bottom to top.
+// Covered cells are drawn in their own colour, empty ones stay dark.
+const CoverageMap = ({ coverage }: { coverage: LookFitCoverage }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const { columns, rows, counts } = coverage;
+    const width = ctx.canvas.width, height = ctx.canvas.height;
+    const cw = width / columns, ch = height / rows;
+    let max = 0;
+    for (let i = 0; i < counts.length; i++) max = Math.max(max, counts[i]);
+    ctx.fillStyle = '#0a0a0a';
+    ctx.fillRect(0, 0, width, height);
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        const count = counts[row * columns + col];
+        if (count <= 0) continue;
+        // Log scale so sparse colours are still visible
+        const alpha = 0.25 + 0.75 * Math.log1p(count) / Math.log1p(max);
+        const lightness = Math.round(((row + 0.5) / rows) * 90);
+        const hue = ((col - 1 + 0.5) / (columns - 1)) * 360;
+        ctx.fillStyle = col === 0 ? `hsla(0, 0%, ${lightness}%, ${alpha})` : `hsla(${hue}, 70%, ${lightness}%, ${alpha})`;
+        ctx.fillRect(col * cw, height - (row + 1) * ch, cw - 0.5, ch - 0.5);
+      }
+    }
+  }, [coverage]);
+
+  return <canvas ref={canvasRef} width={250} height={100} className="w-full rounded border border-gray-800" />;
+};
+
+export const LearnLookPanel: React.FC<LearnLookPanelProps> = ({ isLearning, result, onLearn }) => {
+  const [before, setBefore] = useState<File | null>(null);
+  const [after, setAfter] = useState<File | null>(null);
+  const [size, setSize] = useState<LookFitSize>(33);
+  const [smoothness, setSmoothness] = useState(20);
+
+  const fileButton = (label: string, file: File | null, onPick: (f: File | null) => void) => (
+    <label className={`flex-1 min-w-0 text-[10px] px-2 py-1.5 rounded cursor-pointer truncate text-center ${file ? 'bg-gray-800 text-gray-200' : 'bg-gray-800/50 text-gray-500 hover:text-gray-300'}`}>
+      {file ? file.name : label}
+      <input type="file" className="hidden" accept="image/*,.dng,.tif,.tiff" onChange={(e) => { onPick(e.target.files?.[0] || null); e.target.value = ''; }} />
+    </label>
+  );
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-800">
+      <h4 className="text-[10px] font-bold text-gray-500 uppercase mb-2">学习风格 (LEARN LOOK)</h4>
+      <div className="flex gap-1 mb-2">
+        {fileButton('原图 (Before)', before, setBefore)}
+        {fileButton('目标 (After)', after, setAfter)}
+      </div>
+      <div className="flex justify-between text-[10px] text-gray-500 mb-1">
+        <span>平滑 (Smoothness)</span>
+        <span className="font-mono text-fuji-accent opacity-80">{smoothness}</span>
+      </div>
+      <input type="range" min={1} max={100} value={smoothness} onChange={(e) => setSmoothness(Number(e.target.value))} className="w-full mb-2" />
+      <div className="flex gap-1">
+        {FIT_SIZES.map(s => (
+          <button key={s} type="button" onClick={() => setSize(s)} className={`px-2 py-1 text-[10px] rounded ${size === s ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}>{s}³</button>
+        ))}
+        <button
+          type="button"
+          disabled={!before || !after || isLearning}
+          onClick={() => { if (before && after) onLearn(before, after, { size, smoothness: smoothness / 100 }); }}
+          className="flex-1 text-[10px] bg-fuji-accent/20 text-fuji-accent px-2 py-1 rounded hover:bg-fuji-accent hover:text-black transition-colors disabled:opacity-30"
+        >
+          {isLearning ? '拟合中 (Fitting)...' : '拟合 LUT (Fit)'}
+        </button>
+      </div>
+      <p className="text-[9px] text-gray-600 mt-2">两张图需为同一画面且对齐 (Same frame, aligned)</p>
+
+      {result && (
+        <div className="mt-3 space-y-2">
+          <div className="flex justify-between text-[10px] text-gray-400">
+            <span>平均误差 (Mean ΔE)</span>
+            <span className="font-mono text-fuji-accent">{result.meanError.toFixed(2)}</span>
+          </div>
+          <table className="w-full text-[9px] font-mono text-gray-500">
+            <thead>
+              <tr className="text-gray-600"><th className="text-left font-normal">区域</th><th className="text-right font-normal">样本</th><th className="text-right font-normal">ΔE</th><th className="text-right font-normal">P95</th></tr>
+            </thead>
+            <tbody>
+              {result.regions.map(r => (
+                <tr key={r.id} className={r.samples === 0 ? 'opacity-40' : ''}>
+                  <td className="truncate max-w-[110px]">{r.label}</td>
+                  <td className="text-right">{(r.samples / result.samples * 100).toFixed(1)}%</td>
+                  <td className="text-right">{r.samples ? r.meanError.toFixed(2) : '—'}</td>
+                  <td className="text-right">{r.samples ? r.p95Error.toFixed(2) : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex justify-between text-[10px] text-gray-500">
+            <span>色域覆盖 (Coverage)</span>
+            <span className="font-mono">{(result.coverage.nodeCoverage * 100).toFixed(0)}% nodes</span>
+          </div>
+          <CoverageMap coverage={result.coverage} />
+        </div>
+      )}
+    </div>
+  );
+};
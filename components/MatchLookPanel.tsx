@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { ColorMatchMode, ColorMatchOptions, ColorMatchTarget } from '../services/colorMatch';
+
+interface MatchLookPanelProps {
+  isMatching: boolean;
+  onMatch: (reference: File, options: ColorMatchOptions, target: ColorMatchTarget) => void;
+}
+
+const MATCH_MODES: { id: ColorMatchMode, label: string }[] = [
+  { id: 'all', label: '全部 (All)' },
+  { id: 'luminance', label: '仅亮度 (Luma)' },
+  { id: 'color', label: '仅色彩 (Color)' }
+];
+
+export const MatchLookPanel: React.FC<MatchLookPanelProps> = ({ isMatching, onMatch }) => {
+  const [reference, setReference] = useState<File | null>(null);
+  const [strength, setStrength] = useState(80);
+  const [mode, setMode] = useState<ColorMatchMode>('all');
+
+  const match = (target: ColorMatchTarget) => {
+    if (reference) onMatch(reference, { strength: strength / 100, mode }, target);
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-800">
+      <h4 className="text-[10px] font-bold text-gray-500 uppercase mb-2">参考匹配 (MATCH REFERENCE)</h4>
+      <label className={`block text-[10px] px-2 py-1.5 mb-2 rounded cursor-pointer truncate text-center ${reference ? 'bg-gray-800 text-gray-200' : 'bg-gray-800/50 text-gray-500 hover:text-gray-300'}`}>
+        {reference ? reference.name : '选择参考图 (Reference Image)'}
+        <input type="file" className="hidden" accept="image/*,.dng,.tif,.tiff" onChange={(e) => { setReference(e.target.files?.[0] || null); e.target.value = ''; }} />
+      </label>
+      <div className="flex justify-between text-[10px] text-gray-500 mb-1">
+        <span>强度 (Strength)</span>
+        <span className="font-mono text-fuji-accent opacity-80">{strength}%</span>
+      </div>
+      <input type="range" min={0} max={100} value={strength} onChange={(e) => setStrength(Number(e.target.value))} className="w-full mb-2" />
+      <div className="flex gap-1 mb-2">
+        {MATCH_MODES.map(m => (
+          <button key={m.id} type="button" onClick={() => setMode(m.id)} className={`flex-1 py-1 text-[10px] rounded ${mode === m.id ? 'bg-white text-black' : 'bg-gray-800 text-gray-400'}`}>{m.label}</button>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        {(['adjustments', 'lut'] as const).map(target => (
+          <button
+            key={target}
+            type="button"
+            disabled={!reference || isMatching}
+            onClick={() => match(target)}
+            className="flex-1 text-[10px] bg-fuji-accent/20 text-fuji-accent px-2 py-1 rounded hover:bg-fuji-accent hover:text-black transition-colors disabled:opacity-30"
+          >
+            {target === 'adjustments' ? '生成调整 (As Adjustments)' : '生成 LUT (As LUT)'}
+          </button>
+        ))}
+      </div>
+      <p className="text-[9px] text-gray-600 mt-2">调整可继续编辑, LUT 加入自定义风格 (Adjustments stay editable, the LUT joins the custom looks)</p>
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { CurveChannel, CurvePoint, HistogramData } from '../types';
+import { createSpline } from '../services/toneCurve';
+
+interface ToneCurveEditorProps {
+  channel: CurveChannel;
+  points: CurvePoint[];
+  histogramData: HistogramData | null;
+  onChange: (points: CurvePoint[]) => void;
+}
+
+const CHANNEL_COLORS: Record<CurveChannel, string> = {
+  rgb: '#e5e5e5',
+  red: '#ff4d4d',
+  green: '#4dff88',
+  blue: '#4d8bff',
+  luma: '#00d084'
+};
+
+// Grab radius around a control point, in curve units (0-255)
+const HIT_RADIUS = 10;
+
+export const ToneCurveEditor: React.FC<ToneCurveEditorProps> = ({ channel, points, histogramData, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const size = canvas.width;
+    const toPx = (v: number) => (v / 255) * size;
+
+    ctx.clearRect(0, 0, size, size);
+
+    // Histogram backdrop for the edited channel
+    if (histogramData) {
+      const bins = channel === 'red' ? histogramData.r
+        : channel === 'green' ? histogramData.g
+        : channel === 'blue' ? histogramData.b
+        : histogramData.r.map((v, i) => (v + histogramData.g[i] + histogramData.b[i]) / 3);
+      const maxCount = Math.max(...bins) * 1.1 || 1;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.08)';
+      ctx.beginPath();
+      ctx.moveTo(0, size);
+      for (let i = 0; i < 256; i++) ctx.lineTo(toPx(i), size - (bins[i] / maxCount) * size);
+      ctx.lineTo(size, size);
+      ctx.closePath();
+      ctx.fill();
+    }
+
+    // Grid (quarters) and the identity diagonal
+    ctx.strokeStyle = '#2a2a2a';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    [0.25, 0.5, 0.75].forEach(p => {
+      ctx.moveTo(size * p, 0); ctx.lineTo(size * p, size);
+      ctx.moveTo(0, size * p); ctx.lineTo(size, size * p);
+    });
+    ctx.moveTo(0, size); ctx.lineTo(size, 0);
+    ctx.stroke();
+
+    // Curve
+    const spline = createSpline(points);
+    ctx.strokeStyle = CHANNEL_COLORS[channel];
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    for (let i = 0; i <= size; i++) {
+      const y = Math.max(0, Math.min(1, spline(i / size)));
+      if (i === 0) ctx.moveTo(i, size - y * size);
+      else ctx.lineTo(i, size - y * size);
+    }
+    ctx.stroke();
+
+    // Control points
+    points.forEach((p, i) => {
+      ctx.fillStyle = i === dragIndex ? CHANNEL_COLORS[channel] : '#0c0c0c';
+      ctx.strokeStyle = CHANNEL_COLORS[channel];
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.arc(toPx(p.x), size - toPx(p.y), 4, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+    });
+  }, [points, channel, histogramData, dragIndex]);
+
+  // Pointer position in curve units (0-255, y up)
+  const toCurve = (e: React.PointerEvent | React.MouseEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * 255;
+    const y = (1 - (e.clientY - rect.top) / rect.height) * 255;
+    return { x: Math.max(0, Math.min(255, x)), y: Math.max(0, Math.min(255, y)) };
+  };
+
+  const findNearest = (x: number, y: number): number => {
+    let best = -1, bestDist = HIT_RADIUS;
+    points.forEach((p, i) => {
+      const d = Math.hypot(p.x - x, p.y - y);
+      if (d < bestDist) { best = i; bestDist = d; }
+    });
+    return best;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const { x, y } = toCurve(e);
+    let index = findNearest(x, y);
+    // A click at an existing point's input level grabs that point instead of stacking a second one on it
+    if (index === -1) index = points.findIndex(p => p.x === Math.round(x));
+    if (index === -1) {
+      // Insert a new point on the curve at this input level
+      const next = [...points, { x: Math.round(x), y: Math.round(createSpline(points)(x / 255) * 255) }].sort((a, b) => a.x - b.x);
+      index = next.findIndex(p => p.x === Math.round(x));
+      onChange(next);
+    }
+    (e.target as HTMLCanvasElement).setPointerCapture(e.pointerId);
+    setDragIndex(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragIndex === null) return;
+    const { x, y } = toCurve(e);
+    const last = points.length - 1;
+    // End points only move vertically; inner points stay between their neighbours
+    const minX = dragIndex === 0 ? 0 : points[dragIndex - 1].x + 1;
+    const maxX = dragIndex === last ? 255 : points[dragIndex + 1].x - 1;
+    const newX = dragIndex === 0 ? points[0].x : dragIndex === last ? points[last].x : Math.max(minX, Math.min(maxX, Math.round(x)));
+    onChange(points.map((p, i) => i === dragIndex ? { x: newX, y: Math.round(y) } : p));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    (e.target as HTMLCanvasElement).releasePointerCapture(e.pointerId);
+    setDragIndex(null);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    const { x, y } = toCurve(e);
+    const index = findNearest(x, y);
+    if (index > 0 && index < points.length - 1) onChange(points.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="w-full bg-gray-900 border border-gray-700 rounded-md p-2">
+      <canvas
+        ref={canvasRef}
+        width={256}
+        height={256}
+        className="w-full aspect-square cursor-crosshair touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+      />
+      <div className="flex justify-between text-[9px] text-gray-600 mt-1 tracking-wider">
+        <span>单击添加 · 拖动调整</span>
+        <span>双击删除 (Double-click to remove)</span>
+      </div>
+    </div>
+  );
+};
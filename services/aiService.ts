@@ -32,6 +32,16 @@ export const prepareImageForAI = async (img: HTMLImageElement): Promise<string>
   return canvas.toDataURL('image/jpeg', 0.7).split(',')[1];
 };
 
+// Control points of one tone curve, 0-255 on both axes, including the (0,0) / (255,255) end points
+const curvePointsSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER } },
+    required: ["x", "y"]
+  }
+};
+
 // Define the response schema
 const adjustmentsSchema = {
   type: Type.OBJECT,
@@ -56,6 +66,26 @@ const adjustmentsSchema = {
         saturation: { type: Type.NUMBER },
         highlights: { type: Type.NUMBER },
         shadows: { type: Type.NUMBER },
+        curves: {
+          type: Type.OBJECT,
+          description: "Point tone curves (master RGB, per channel, luma) and parametric region sliders (-100 to 100).",
+          properties: {
+            rgb: curvePointsSchema,
+            red: curvePointsSchema,
+            green: curvePointsSchema,
+            blue: curvePointsSchema,
+            luma: curvePointsSchema,
+            parametric: {
+              type: Type.OBJECT,
+              properties: {
+                highlights: { type: Type.NUMBER },
+                lights: { type: Type.NUMBER },
+                darks: { type: Type.NUMBER },
+                shadows: { type: Type.NUMBER }
+              }
+            }
+          }
+        },
         vignette: { type: Type.NUMBER },
         grainAmount: { type: Type.NUMBER },
         sharpening: { type: Type.NUMBER },
@@ -108,7 +138,8 @@ export const analyzeImage = async (base64Image: string, userHint?: string): Prom
 
       CRITICAL RULES:
       1. **NO FILTERS**: You MUST NOT use specific film simulations. Set 'recommendedFilm' to 'None / 原图直出'.
-      2. **MANUAL GRADING**: You must achieve the desired look purely using White Balance, HSL, Tone Curves (Contrast/Shadows/Highlights), and Color Grading (Split Toning).
+      2. **MANUAL GRADING**: You must achieve the desired look purely using White Balance, HSL, Tone (Contrast/Shadows/Highlights), Tone Curves and Color Grading (Split Toning).
+         - Curves: points are 0-255 on both axes and must keep the end points. Use the master RGB curve for contrast shape (e.g. a gentle S or a faded black point), per-channel curves for color casts in shadows/highlights.
       3. **QUALITY**: 
          - Grain: 0 (Digital clean look).
          - Sharpening: 35-50 (High fidelity).
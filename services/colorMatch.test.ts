@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { Adjustments } from '../types';
+import { matchAdjustments, matchLUT } from './colorMatch';
+
+const zeroHSL = { h: 0, s: 0, l: 0 };
+const base = {
+    saturation: 0,
+    whiteBalance: { temp: 0, tint: 0 },
+    hsl: { red: zeroHSL, yellow: zeroHSL, green: zeroHSL, cyan: zeroHSL, blue: zeroHSL, magenta: zeroHSL },
+    curves: {},
+    grading: { shadows: { h: 0, s: 0 }, midtones: { h: 0, s: 0 }, highlights: { h: 0, s: 0 } }
+} as unknown as Adjustments;
+
+// 64x64 image spanning hues and tones, each pixel passed through `f`
+const image = (f: (rgb: number[]) => number[]) => {
+    const data = new Uint8ClampedArray(64 * 64 * 4);
+    for (let p = 0; p < 4096; p++) {
+        const rgb = f([(p % 64) * 4, ((p >> 6) % 64) * 4, 255 - (p % 64) * 2]);
+        for (let c = 0; c < 3; c++) data[p * 4 + c] = rgb[c];
+        data[p * 4 + 3] = 255;
+    }
+    return { data, width: 64, height: 64 } as ImageData;
+};
+
+describe('matchLUT', () => {
+    it('is the identity when source and reference are the same photo', () => {
+        const photo = image(rgb => rgb);
+        const lut = matchLUT(photo, photo, { strength: 1, mode: 'all' }, 9);
+        const max = lut.size - 1;
+        for (let n = 0; n < lut.size ** 3; n++) {
+            const r = n % lut.size, g = Math.floor(n / lut.size) % lut.size, b = Math.floor(n / lut.size / lut.size);
+            expect(lut.data[n * 3]).toBeCloseTo(r / max, 3);
+            expect(lut.data[n * 3 + 1]).toBeCloseTo(g / max, 3);
+            expect(lut.data[n * 3 + 2]).toBeCloseTo(b / max, 3);
+        }
+    });
+
+    it('keeps neutrals neutral in luminance mode', () => {
+        const photo = image(rgb => rgb);
+        const dark = image(rgb => rgb.map(v => v * 0.6));
+        const lut = matchLUT(photo, dark, { strength: 1, mode: 'luminance' }, 9);
+        const mid = (4 + 4 * 9 + 4 * 81) * 3;
+        expect(lut.data[mid]).toBeLessThan(0.5);
+        expect(lut.data[mid + 1]).toBeCloseTo(lut.data[mid], 3);
+        expect(lut.data[mid + 2]).toBeCloseTo(lut.data[mid], 3);
+    });
+});
+
+describe('matchAdjustments', () => {
+    it('leaves the adjustments neutral for the same photo', () => {
+        const photo = image(rgb => rgb);
+        const result = matchAdjustments(photo, photo, { strength: 1, mode: 'all' }, base);
+        expect(result.whiteBalance).toEqual({ temp: 0, tint: 0 });
+        expect(result.saturation).toBe(0);
+        expect(result.grading.shadows.s).toBe(0);
+    });
+
+    it('warms the white balance toward a warmer reference', () => {
+        const photo = image(rgb => rgb);
+        const warm = image(([r, g, b]) => [Math.min(255, r * 1.15), g, b * 0.8]);
+        const result = matchAdjustments(photo, warm, { strength: 1, mode: 'color' }, base);
+        expect(result.whiteBalance.temp).toBeGreaterThan(5);
+        expect(result.curves).toBe(base.curves);
+    });
+
+    it('lifts the luma curve toward a brighter reference', () => {
+        const photo = image(rgb => rgb.map(v => v * 0.7));
+        const bright = image(rgb => rgb);
+        const curve = matchAdjustments(photo, bright, { strength: 1, mode: 'luminance' }, base).curves.luma;
+        const inner = curve.slice(1, -1);
+        expect(inner.length).toBeGreaterThan(0);
+        inner.forEach(p => expect(p.y).toBeGreaterThan(p.x));
+        expect(curve[curve.length - 1]).toEqual({ x: 255, y: 255 });
+    });
+});
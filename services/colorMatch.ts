@@ -0,0 +1,290 @@
+
+import { Adjustments, CurvePoint, HSLAdjustments, LUTContainer } from '../types';
+import { SRGB8_TO_LINEAR, decodeSRGB, encodeSRGB, linearToOklab, oklabToLinear } from './colorSpace';
+
+// --- Match look: transfer the colour statistics of a reference photo onto the current image ---
+// Statistics are gathered in OKLab. The result is either editable Adjustments (white balance, saturation, HSL,
+// shadow/highlight grading and a luma curve) or a LUT doing a mean/deviation transfer in OKLab.
+// Both are estimated from the unedited source, so they replace the matching fields rather than add to them.
+
+export type ColorMatchMode = 'all' | 'luminance' | 'color';
+// What the match produces: editable adjustments or a custom look
+export type ColorMatchTarget = 'adjustments' | 'lut';
+
+export interface ColorMatchOptions {
+    strength: number; // 0-1
+    mode: ColorMatchMode;
+}
+
+// Pixels read per image
+const MAX_SAMPLES = 120000;
+// Luma quantiles that become points of the luma curve
+const CURVE_QUANTILES = [0.05, 0.25, 0.5, 0.75, 0.95];
+// OKLab L zones for the grading wheels
+const SHADOW_L = 0.45, HIGHLIGHT_L = 0.75;
+// HSL saturation below which a pixel counts as neutral for the per-channel statistics
+const MIN_HSL_SATURATION = 0.15;
+// Share of samples a hue channel needs in both images before it is matched
+const MIN_CHANNEL_SHARE = 0.005;
+// OKLab chroma a grade of 100 adds at full mask (soft light of a 0.8-saturation colour over mid grey)
+const GRADE_CHROMA_AT_100 = 0.15;
+
+const HSL_CHANNELS: { key: keyof HSLAdjustments, hue: number }[] = [
+    { key: 'red', hue: 0 }, { key: 'yellow', hue: 60 }, { key: 'green', hue: 120 },
+    { key: 'cyan', hue: 180 }, { key: 'blue', hue: 240 }, { key: 'magenta', hue: 300 }
+];
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Same falloff as the HSL stage of the processor
+const hueWeight = (hue: number, target: number) => {
+    let d = Math.abs(hue - target);
+    if (d > 180) d = 360 - d;
+    if (d >= 45) return 0;
+    const v = 1 - d / 45;
+    return v * v * (3 - 2 * v);
+};
+
+interface ChannelStats {
+    weight: number;
+    hueX: number; hueY: number; // Circular mean accumulators
+    saturation: number;
+    lightness: number;
+}
+
+interface ImageColorStats {
+    count: number;
+    mean: [number, number, number]; // OKLab
+    std: [number, number, number];
+    chroma: number;                 // Mean OKLab chroma
+    shadowAB: [number, number];
+    highlightAB: [number, number];
+    lumaQuantiles: number[];        // OKLab L at CURVE_QUANTILES
+    channels: ChannelStats[];       // In HSL_CHANNELS order, from RGB HSL like the sliders
+    meanRGB: [number, number, number]; // Display-encoded, 0-1
+}
+
+const rgbToHsl = (r: number, g: number, b: number): [number, number, number] => {
+    const max = Math.max(r, g, b), min = Math.min(r, g, b);
+    const l = (max + min) / 2;
+    if (max === min) return [0, 0, l];
+    const d = max - min;
+    const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    let h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+    return [h * 60, s, l];
+};
+
+const gatherStats = (image: ImageData): ImageColorStats => {
+    const { data } = image;
+    const total = image.width * image.height;
+    const stride = Math.max(1, Math.floor(total / MAX_SAMPLES));
+    const lab = [0, 0, 0];
+    const ls: number[] = [];
+    const sum = [0, 0, 0], sq = [0, 0, 0], rgb = [0, 0, 0];
+    const shadow = [0, 0, 0], highlight = [0, 0, 0];
+    const channels: ChannelStats[] = HSL_CHANNELS.map(() => ({ weight: 0, hueX: 0, hueY: 0, saturation: 0, lightness: 0 }));
+    let chroma = 0, count = 0;
+
+    for (let p = 0; p < total; p += stride) {
+        const i = p * 4;
+        if (data[i + 3] < 128) continue;
+        const r8 = data[i], g8 = data[i + 1], b8 = data[i + 2];
+        linearToOklab(SRGB8_TO_LINEAR[r8], SRGB8_TO_LINEAR[g8], SRGB8_TO_LINEAR[b8], lab);
+        for (let c = 0; c < 3; c++) { sum[c] += lab[c]; sq[c] += lab[c] * lab[c]; }
+        rgb[0] += r8; rgb[1] += g8; rgb[2] += b8;
+        chroma += Math.hypot(lab[1], lab[2]);
+        ls.push(lab[0]);
+        if (lab[0] < SHADOW_L) { shadow[0]++; shadow[1] += lab[1]; shadow[2] += lab[2]; }
+        else if (lab[0] > HIGHLIGHT_L) { highlight[0]++; highlight[1] += lab[1]; highlight[2] += lab[2]; }
+
+        const [h, s, l] = rgbToHsl(r8 / 255, g8 / 255, b8 / 255);
+        if (s >= MIN_HSL_SATURATION) {
+            for (let k = 0; k < HSL_CHANNELS.length; k++) {
+                const w = hueWeight(h, HSL_CHANNELS[k].hue);
+                if (w <= 0) continue;
+                const ch = channels[k];
+                ch.weight += w;
+                ch.hueX += w * Math.cos(h * Math.PI / 180);
+                ch.hueY += w * Math.sin(h * Math.PI / 180);
+                ch.saturation += w * s;
+                ch.lightness += w * l;
+            }
+        }
+        count++;
+    }
+    if (count === 0) throw new Error('No opaque pixels');
+
+    const mean = sum.map(v => v / count) as [number, number, number];
+    const std = sq.map((v, c) => Math.sqrt(Math.max(1e-8, v / count - mean[c] * mean[c]))) as [number, number, number];
+    ls.sort((a, b) => a - b);
+    const zoneAB = (z: number[]): [number, number] => z[0] > 0 ? [z[1] / z[0], z[2] / z[0]] : [mean[1], mean[2]];
+
+    return {
+        count,
+        mean,
+        std,
+        chroma: chroma / count,
+        shadowAB: zoneAB(shadow),
+        highlightAB: zoneAB(highlight),
+        lumaQuantiles: CURVE_QUANTILES.map(q => ls[Math.min(ls.length - 1, Math.floor(q * ls.length))]),
+        channels,
+        meanRGB: [rgb[0] / count / 255, rgb[1] / count / 255, rgb[2] / count / 255]
+    };
+};
+
+const encodedToOklab = (r: number, g: number, b: number, out: number[]) => linearToOklab(decodeSRGB(r), decodeSRGB(g), decodeSRGB(b), out);
+
+// Temp/tint whose gains move the source's mean colour by the wanted OKLab a/b shift. The gains act on
+// display-encoded values like the LUT generator's white balance; solved by Newton steps with a numeric Jacobian.
+const solveWhiteBalance = (meanRGB: [number, number, number], da: number, db: number) => {
+    const lab = [0, 0, 0];
+    const shiftAt = (temp: number, tint: number): [number, number] => {
+        const t = temp / 100, tn = tint / 100;
+        encodedToOklab(meanRGB[0] * (1 + t), meanRGB[1] * (1 - tn), meanRGB[2] * (1 - t), lab);
+        return [lab[1], lab[2]];
+    };
+    const [a0, b0] = shiftAt(0, 0);
+    let temp = 0, tint = 0;
+    for (let it = 0; it < 8; it++) {
+        const [a, b] = shiftAt(temp, tint);
+        const ea = a0 + da - a, eb = b0 + db - b;
+        const [aT, bT] = shiftAt(temp + 1, tint), [aN, bN] = shiftAt(temp, tint + 1);
+        const j11 = aT - a, j21 = bT - b, j12 = aN - a, j22 = bN - b;
+        const det = j11 * j22 - j12 * j21;
+        if (Math.abs(det) < 1e-12) break;
+        temp = clamp(temp + (ea * j22 - j12 * eb) / det, -50, 50);
+        tint = clamp(tint + (j11 * eb - ea * j21) / det, -50, 50);
+    }
+    return { temp: Math.round(temp), tint: Math.round(tint) };
+};
+
+// OKLab hue direction of each grading hue (grading tints toward hsl(h, 80%, 50%))
+const GRADE_HUE_ANGLES = (() => {
+    const angles = new Float32Array(360), lab = [0, 0, 0];
+    for (let h = 0; h < 360; h++) {
+        const f = (n: number) => { const k = (n + h / 30) % 12; return 0.5 - 0.4 * Math.max(-1, Math.min(k - 3, 9 - k, 1)); };
+        encodedToOklab(f(0), f(8), f(4), lab);
+        angles[h] = Math.atan2(lab[2], lab[1]);
+    }
+    return angles;
+})();
+
+// Grading wheel (hue, amount) that pushes a zone along the OKLab a/b shift
+const gradeFor = (da: number, db: number, strength: number) => {
+    const c = Math.hypot(da, db);
+    if (c < 0.002) return { h: 0, s: 0 };
+    const angle = Math.atan2(db, da);
+    let best = 0, bestDiff = Infinity;
+    for (let h = 0; h < 360; h++) {
+        let d = Math.abs(GRADE_HUE_ANGLES[h] - angle);
+        if (d > Math.PI) d = 2 * Math.PI - d;
+        if (d < bestDiff) { bestDiff = d; best = h; }
+    }
+    // Zone masks average about half strength
+    return { h: best, s: Math.round(clamp(c / GRADE_CHROMA_AT_100 * 2 * 100 * strength, 0, 60)) };
+};
+
+// Grey output level for an OKLab lightness, as a 0-255 display-encoded value
+const greyLevel = (L: number) => clamp(encodeSRGB(L * L * L), 0, 1) * 255;
+
+const matchLumaCurve = (src: ImageColorStats, ref: ImageColorStats, strength: number): CurvePoint[] => {
+    const points: CurvePoint[] = [{ x: 0, y: 0 }];
+    src.lumaQuantiles.forEach((Ls, i) => {
+        const x = greyLevel(Ls), y = lerp(x, greyLevel(ref.lumaQuantiles[i]), strength);
+        const last = points[points.length - 1];
+        // Curve points must move right and never down (monotone spline)
+        if (x > last.x + 2 && x < 253) points.push({ x: Math.round(x), y: Math.round(Math.max(last.y, y)) });
+    });
+    points.push({ x: 255, y: 255 });
+    return points;
+};
+
+const matchHSL = (src: ImageColorStats, ref: ImageColorStats, saturationRatio: number, strength: number, base: HSLAdjustments): HSLAdjustments => {
+    const hsl = { ...base };
+    HSL_CHANNELS.forEach(({ key }, k) => {
+        const s = src.channels[k], r = ref.channels[k];
+        if (s.weight < src.count * MIN_CHANNEL_SHARE || r.weight < ref.count * MIN_CHANNEL_SHARE) {
+            hsl[key] = { h: 0, s: 0, l: 0 };
+            return;
+        }
+        let dh = (Math.atan2(r.hueY, r.hueX) - Math.atan2(s.hueY, s.hueX)) * 180 / Math.PI;
+        if (dh > 180) dh -= 360;
+        if (dh < -180) dh += 360;
+        const sSat = s.saturation / s.weight, rSat = r.saturation / r.weight;
+        const sL = s.lightness / s.weight, rL = r.lightness / r.weight;
+        // The global saturation slider already covers the overall ratio
+        const ds = (rSat / Math.max(1e-3, sSat)) / saturationRatio - 1;
+        // Inverse of the processor's lightness response (moves half way toward white or black at ±100)
+        const dl = rL > sL ? (rL - sL) / Math.max(1e-3, (1 - sL) * 0.5) : (rL - sL) / Math.max(1e-3, sL * 0.5);
+        hsl[key] = {
+            h: Math.round(clamp(dh * strength, -30, 30)),
+            s: Math.round(clamp(ds * 100 * strength, -100, 100)),
+            l: Math.round(clamp(dl * 100 * strength, -100, 100))
+        };
+    });
+    return hsl;
+};
+
+// Editable adjustments that move the source toward the reference. Fields outside the mode keep their base values.
+export const matchAdjustments = (source: ImageData, reference: ImageData, options: ColorMatchOptions, base: Adjustments): Adjustments => {
+    const src = gatherStats(source), ref = gatherStats(reference);
+    const { strength, mode } = options;
+    const result: Adjustments = { ...base };
+
+    if (mode !== 'color') {
+        result.curves = { ...base.curves, luma: matchLumaCurve(src, ref, strength) };
+    }
+    if (mode !== 'luminance') {
+        const da = (ref.mean[1] - src.mean[1]) * strength, db = (ref.mean[2] - src.mean[2]) * strength;
+        result.whiteBalance = solveWhiteBalance(src.meanRGB, da, db);
+
+        const saturationRatio = ref.chroma / Math.max(1e-3, src.chroma);
+        result.saturation = Math.round(clamp((saturationRatio - 1) * 100 * strength, -60, 60));
+        result.hsl = matchHSL(src, ref, saturationRatio, strength, base.hsl);
+
+        // Whatever cast the shadows and highlights keep beyond the global shift goes to the grading wheels
+        const zone = (s: [number, number], r: [number, number]) =>
+            gradeFor((r[0] - ref.mean[1]) - (s[0] - src.mean[1]), (r[1] - ref.mean[2]) - (s[1] - src.mean[2]), strength);
+        result.grading = {
+            shadows: zone(src.shadowAB, ref.shadowAB),
+            midtones: { h: 0, s: 0 },
+            highlights: zone(src.highlightAB, ref.highlightAB)
+        };
+    }
+    return result;
+};
+
+// Deviation ratios outside this range are more likely content differences than look
+const MIN_STD_RATIO = 0.5, MAX_STD_RATIO = 2;
+
+// A LUT doing the statistical transfer: each OKLab channel is re-centred and re-scaled from the source's
+// mean/deviation to the reference's (L only, a/b only, or all three)
+export const matchLUT = (source: ImageData, reference: ImageData, options: ColorMatchOptions, size = 33, name?: string): LUTContainer => {
+    const src = gatherStats(source), ref = gatherStats(reference);
+    const { strength, mode } = options;
+    const active = [mode !== 'color', mode !== 'luminance', mode !== 'luminance'];
+    const scale = [0, 1, 2].map(c => clamp(ref.std[c] / src.std[c], MIN_STD_RATIO, MAX_STD_RATIO));
+
+    const data = new Float32Array(size * size * size * 3);
+    const lab = [0, 0, 0], lin = [0, 0, 0];
+    const max = size - 1;
+    for (let b = 0; b < size; b++) {
+        for (let g = 0; g < size; g++) {
+            for (let r = 0; r < size; r++) {
+                encodedToOklab(r / max, g / max, b / max, lab);
+                for (let c = 0; c < 3; c++) {
+                    if (!active[c]) continue;
+                    const matched = (lab[c] - src.mean[c]) * scale[c] + ref.mean[c];
+                    lab[c] = lerp(lab[c], matched, strength);
+                }
+                oklabToLinear(lab[0], lab[1], lab[2], lin);
+                const n = (r + g * size + b * size * size) * 3;
+                data[n] = clamp(encodeSRGB(lin[0]), 0, 1);
+                data[n + 1] = clamp(encodeSRGB(lin[1]), 0, 1);
+                data[n + 2] = clamp(encodeSRGB(lin[2]), 0, 1);
+            }
+        }
+    }
+    return { size, data, name, interpolation: 'tetrahedral' };
+};
@@ -0,0 +1,64 @@
+
+// --- sRGB transfer functions (IEC 61966-2-1) ---
+export const srgbToLinear = (v: number): number => v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+export const linearToSrgb = (v: number): number => v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+
+// --- Tabulated versions for per-pixel loops ---
+// Exact formulas are used outside 0-1, so out-of-range float values survive a round trip.
+const TABLE_SIZE = 1024;
+
+// 8-bit sRGB code value -> linear light
+export const SRGB8_TO_LINEAR = (() => {
+    const t = new Float32Array(256);
+    for (let i = 0; i < 256; i++) t[i] = srgbToLinear(i / 255);
+    return t;
+})();
+
+const DECODE_TABLE = (() => {
+    const t = new Float32Array(TABLE_SIZE + 1);
+    for (let i = 0; i <= TABLE_SIZE; i++) t[i] = srgbToLinear(i / TABLE_SIZE);
+    return t;
+})();
+
+// Indexed by sqrt(linear) so the steep part of the curve near black gets most of the samples
+const ENCODE_TABLE = (() => {
+    const t = new Float32Array(TABLE_SIZE + 1);
+    for (let i = 0; i <= TABLE_SIZE; i++) {
+        const s = i / TABLE_SIZE;
+        t[i] = linearToSrgb(s * s);
+    }
+    return t;
+})();
+
+export const decodeSRGB = (v: number): number => {
+    if (v < 0 || v >= 1) return srgbToLinear(v);
+    const p = v * TABLE_SIZE;
+    const i = p | 0;
+    return DECODE_TABLE[i] + (DECODE_TABLE[i + 1] - DECODE_TABLE[i]) * (p - i);
+};
+
+export const encodeSRGB = (v: number): number => {
+    if (v < 0 || v >= 1) return linearToSrgb(v);
+    const p = Math.sqrt(v) * TABLE_SIZE;
+    const i = p | 0;
+    return ENCODE_TABLE[i] + (ENCODE_TABLE[i + 1] - ENCODE_TABLE[i]) * (p - i);
+};
+
+// --- OKLab (Björn Ottosson), to and from linear sRGB ---
+export const linearToOklab = (r: number, g: number, b: number, out: number[]): void => {
+    const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+    const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+    const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+    out[0] = 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s;
+    out[1] = 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s;
+    out[2] = 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s;
+};
+
+export const oklabToLinear = (L: number, a: number, b: number, out: number[]): void => {
+    const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+    const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+    const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * b, 3);
+    out[0] = 4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s;
+    out[1] = -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s;
+    out[2] = -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s;
+};
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { demosaic } from './demosaic';
+
+const BAYER = { rows: 2, cols: 2, colors: [0, 1, 1, 2] };
+
+describe('demosaic', () => {
+    it('keeps a flat field flat through VNG, including the rows written back last', () => {
+        const width = 12, height = 9;
+        const image = demosaic(new Float32Array(width * height).fill(0.25), width, height, BAYER, 'vng');
+        expect(image.data.length).toBe(width * height * 3);
+        expect(Array.from(image.data).every(v => Math.abs(v - 0.25) < 1e-6)).toBe(true);
+    });
+
+    it('develops frames too small for the VNG window from the bilinear pass', () => {
+        const image = demosaic(new Float32Array(3 * 3).fill(0.5), 3, 3, BAYER, 'vng');
+        expect(Array.from(image.data).every(v => Math.abs(v - 0.5) < 1e-6)).toBe(true);
+    });
+});
@@ -0,0 +1,140 @@
+
+import { DemosaicMethod, LinearImage } from '../types';
+
+// --- Demosaic: one colour per photosite (CFA) to full RGB ---
+// Works on any repeating pattern (2x2 Bayer, 6x6 X-Trans). Input is the normalised mosaic (0 = black, 1 = white).
+// Bilinear averages each colour over the 3x3 neighbourhood (5x5 where a colour is missing from it).
+// VNG starts from the bilinear result, measures gradients in 8 directions and fills the missing colours from
+// the directions below a threshold only: the centre sample plus their mean colour difference, so edges do not blur.
+
+export const DEMOSAIC_METHODS: DemosaicMethod[] = ['bilinear', 'vng'];
+
+export interface CFAPattern {
+    rows: number;
+    cols: number;
+    colors: number[]; // Row-major, 0 = red, 1 = green, 2 = blue
+}
+
+export const cfaColorAt = (pattern: CFAPattern, y: number, x: number) =>
+    pattern.colors[(y % pattern.rows) * pattern.cols + (x % pattern.cols)];
+
+// Pattern as seen from a crop origin (the CFA phase shifts with the crop)
+export const shiftCFAPattern = (pattern: CFAPattern, top: number, left: number): CFAPattern => {
+    const colors: number[] = [];
+    for (let y = 0; y < pattern.rows; y++) {
+        for (let x = 0; x < pattern.cols; x++) colors.push(cfaColorAt(pattern, y + top, x + left));
+    }
+    return { rows: pattern.rows, cols: pattern.cols, colors };
+};
+
+// VNG threshold: gradients up to k1 * min + k2 * (max - min) count as smooth
+const VNG_K1 = 1.5, VNG_K2 = 0.5;
+const DIRECTIONS = [[-1, 0], [-1, 1], [0, 1], [1, 1], [1, 0], [1, -1], [0, -1], [-1, -1]];
+
+const bilinear = (mosaic: Float32Array, width: number, height: number, pattern: CFAPattern): Float32Array => {
+    const out = new Float32Array(width * height * 3);
+
+    // Per pattern position: the offsets holding each colour, from the smallest window that has it
+    const offsets: number[][][] = [];
+    for (let py = 0; py < pattern.rows; py++) {
+        for (let px = 0; px < pattern.cols; px++) {
+            const perColor: number[][] = [[], [], []];
+            for (let radius = 1; radius <= 2; radius++) {
+                for (let c = 0; c < 3; c++) {
+                    if (perColor[c].length) continue;
+                    for (let dy = -radius; dy <= radius; dy++) {
+                        for (let dx = -radius; dx <= radius; dx++) {
+                            if (cfaColorAt(pattern, py + pattern.rows * 2 + dy, px + pattern.cols * 2 + dx) === c) perColor[c].push(dy, dx);
+                        }
+                    }
+                }
+            }
+            offsets.push(perColor);
+        }
+    }
+
+    for (let y = 0; y < height; y++) {
+        const interiorY = y >= 2 && y < height - 2;
+        for (let x = 0; x < width; x++) {
+            const own = cfaColorAt(pattern, y, x);
+            const perColor = offsets[(y % pattern.rows) * pattern.cols + (x % pattern.cols)];
+            const o = (y * width + x) * 3;
+            const interior = interiorY && x >= 2 && x < width - 2;
+            for (let c = 0; c < 3; c++) {
+                if (c === own) { out[o + c] = mosaic[y * width + x]; continue; }
+                const list = perColor[c];
+                let sum = 0, count = 0;
+                for (let k = 0; k < list.length; k += 2) {
+                    let sy = y + list[k], sx = x + list[k + 1];
+                    if (!interior) {
+                        // Mirror by a whole pattern period at the border so the colour stays the same
+                        if (sy < 0) sy += pattern.rows * Math.ceil(-sy / pattern.rows);
+                        if (sy >= height) sy -= pattern.rows * Math.ceil((sy - height + 1) / pattern.rows);
+                        if (sx < 0) sx += pattern.cols * Math.ceil(-sx / pattern.cols);
+                        if (sx >= width) sx -= pattern.cols * Math.ceil((sx - width + 1) / pattern.cols);
+                        if (sy < 0 || sx < 0 || sy >= height || sx >= width) continue;
+                    }
+                    sum += mosaic[sy * width + sx];
+                    count++;
+                }
+                out[o + c] = count ? sum / count : 0;
+            }
+        }
+    }
+    return out;
+};
+
+// Refined rows are held back until no later row reads them (two rows down), then written over the
+// bilinear result, so VNG needs three row buffers instead of a second full frame
+const vng = (mosaic: Float32Array, width: number, height: number, pattern: CFAPattern): Float32Array => {
+    const rgb = bilinear(mosaic, width, height, pattern);
+    const gradients = new Float32Array(8);
+    const stride = width * 3;
+    const steps = DIRECTIONS.map(([dy, dx]) => dy * stride + dx * 3);
+    const pending = [0, 1, 2].map(() => new Float32Array(stride));
+    const commit = (y: number) => rgb.set(pending[y % 3], y * stride);
+
+    for (let y = 2; y < height - 2; y++) {
+        const row = pending[y % 3];
+        row.set(rgb.subarray(y * stride, (y + 1) * stride));
+        for (let x = 2; x < width - 2; x++) {
+            const o = y * stride + x * 3, r = x * 3;
+            let min = Infinity, max = 0;
+            for (let d = 0; d < 8; d++) {
+                const n1 = o + steps[d], n2 = n1 + steps[d];
+                let g = 0;
+                for (let c = 0; c < 3; c++) {
+                    g += Math.abs(rgb[n1 + c] - rgb[o + c]) + Math.abs(rgb[n2 + c] - rgb[n1 + c]);
+                }
+                gradients[d] = g;
+                if (g < min) min = g;
+                if (g > max) max = g;
+            }
+            const threshold = VNG_K1 * min + VNG_K2 * (max - min);
+
+            const own = cfaColorAt(pattern, y, x);
+            let d0 = 0, d1 = 0, d2 = 0, count = 0;
+            for (let d = 0; d < 8; d++) {
+                if (gradients[d] > threshold) continue;
+                const n = o + steps[d], base = rgb[n + own];
+                d0 += rgb[n] - base; d1 += rgb[n + 1] - base; d2 += rgb[n + 2] - base;
+                count++;
+            }
+            if (count === 0) continue;
+            const v = mosaic[y * width + x];
+            if (own !== 0) row[r] = Math.max(0, v + d0 / count);
+            if (own !== 1) row[r + 1] = Math.max(0, v + d1 / count);
+            if (own !== 2) row[r + 2] = Math.max(0, v + d2 / count);
+        }
+        if (y >= 4) commit(y - 2);
+    }
+    for (let y = Math.max(2, height - 4); y < height - 2; y++) commit(y);
+    return rgb;
+};
+
+export const demosaic = (mosaic: Float32Array, width: number, height: number, pattern: CFAPattern, method: DemosaicMethod): LinearImage => ({
+    width,
+    height,
+    data: method === 'vng' ? vng(mosaic, width, height, pattern) : bilinear(mosaic, width, height, pattern),
+    space: 'camera'
+});
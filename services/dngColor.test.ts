@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { applyDNGColor, PROPHOTO_TO_SRGB, readDNGColor, xyToTemperature } from './dngColor';
+
+// XYZ (D65) to linear sRGB: a "camera" whose raw values already are linear sRGB
+const XYZ_TO_SRGB = [
+    3.2404542, -1.5371385, -0.4985314,
+    -0.9692660, 1.8760108, 0.0415560,
+    0.0556434, -0.2040259, 1.0572252
+];
+
+const TAG_COLORMATRIX1 = 50721;
+const TAG_ASSHOTNEUTRAL = 50728;
+const TAG_ASSHOTWHITEXY = 50729;
+const TAG_BASELINEEXPOSURE = 50730;
+const TAG_CALIBRATIONILLUMINANT1 = 50778;
+
+const tags = (values: Record<number, number[]>) => (tag: number) => values[tag] || null;
+
+const srgbCamera = (extra: Record<number, number[]> = {}) => readDNGColor(tags({
+    [TAG_COLORMATRIX1]: XYZ_TO_SRGB,
+    [TAG_CALIBRATIONILLUMINANT1]: [21], // D65
+    ...extra
+}))!;
+
+const develop = (pixel: number[], color: ReturnType<typeof readDNGColor>, space: 'srgb' | 'prophoto' = 'srgb') => {
+    const data = new Float32Array(pixel);
+    applyDNGColor(data, color!, space);
+    return Array.from(data);
+};
+
+const expectClose = (actual: number[], expected: number[], digits = 3) => expected.forEach((v, c) => expect(actual[c]).toBeCloseTo(v, digits));
+
+describe('xyToTemperature', () => {
+    it('places D65 and D50 at their correlated colour temperatures', () => {
+        expect(Math.abs(xyToTemperature([0.3127, 0.3290]) - 6504)).toBeLessThan(10);
+        expect(Math.abs(xyToTemperature([0.3457, 0.3585]) - 5003)).toBeLessThan(10);
+    });
+});
+
+describe('readDNGColor', () => {
+    it('is null without a ColorMatrix', () => {
+        expect(readDNGColor(tags({ [TAG_ASSHOTNEUTRAL]: [0.5, 1, 0.7] }))).toBeNull();
+    });
+
+    it('finds the as-shot white from the neutral and normalises the neutral to a maximum of 1', () => {
+        const color = srgbCamera({ [TAG_ASSHOTNEUTRAL]: [0.5, 0.5, 0.5], [TAG_BASELINEEXPOSURE]: [0.5] });
+        expectClose(color.neutral, [1, 1, 1], 6);
+        expectClose(color.whiteXY, [0.3127, 0.3290], 3);
+        expect(Math.abs(color.temperature - 6504)).toBeLessThan(15);
+        expect(color.baselineExposure).toBe(0.5);
+    });
+
+    it('falls back to AsShotWhiteXY, then to D65', () => {
+        expectClose(srgbCamera({ [TAG_ASSHOTWHITEXY]: [0.3457, 0.3585] }).whiteXY, [0.3457, 0.3585], 6);
+        expectClose(srgbCamera().whiteXY, [0.3127, 0.3290], 6);
+    });
+
+    it('maps balanced camera white to D50 with Y = 1', () => {
+        const { cameraToXYZ } = srgbCamera({ [TAG_ASSHOTNEUTRAL]: [0.6, 1, 0.8] });
+        const white = [0, 1, 2].map(r => cameraToXYZ[r * 3] + cameraToXYZ[r * 3 + 1] + cameraToXYZ[r * 3 + 2]);
+        expectClose(white, [0.9642, 1, 0.8251], 3);
+    });
+});
+
+describe('applyDNGColor', () => {
+    it('round-trips a camera that records linear sRGB under a D65 white', () => {
+        const color = srgbCamera({ [TAG_ASSHOTNEUTRAL]: [1, 1, 1] });
+        expectClose(develop([0.2, 0.5, 0.1], color), [0.2, 0.5, 0.1]);
+    });
+
+    it('balances by the neutral so as-shot grey comes out grey', () => {
+        const color = srgbCamera({ [TAG_ASSHOTNEUTRAL]: [0.5, 1, 0.8] });
+        expectClose(develop([0.25, 0.5, 0.4], color), [0.5, 0.5, 0.5]);
+    });
+
+    it('clips each channel at the sensor white so blown highlights stay neutral', () => {
+        const color = srgbCamera({ [TAG_ASSHOTNEUTRAL]: [0.5, 1, 0.8] });
+        expectClose(develop([1, 1, 1], color), [1, 1, 1]);
+    });
+
+    it('applies the baseline exposure', () => {
+        const color = srgbCamera({ [TAG_ASSHOTNEUTRAL]: [1, 1, 1], [TAG_BASELINEEXPOSURE]: [1] });
+        expectClose(develop([0.1, 0.1, 0.1], color), [0.2, 0.2, 0.2]);
+    });
+
+    it('develops to ProPhoto that converts back to the same sRGB', () => {
+        const color = srgbCamera({ [TAG_ASSHOTNEUTRAL]: [1, 1, 1] });
+        const prophoto = develop([0.2, 0.5, 0.1], color, 'prophoto');
+        const m = PROPHOTO_TO_SRGB;
+        const srgb = [0, 1, 2].map(r => m[r * 3] * prophoto[0] + m[r * 3 + 1] * prophoto[1] + m[r * 3 + 2] * prophoto[2]);
+        expectClose(srgb, [0.2, 0.5, 0.1]);
+    });
+});
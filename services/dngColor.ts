@@ -0,0 +1,194 @@
+
+// --- DNG colour: camera RGB to scene-referred XYZ (D50) and on to linear sRGB / ProPhoto ---
+// Follows the DNG specification's "Mapping Camera Color Space to CIE XYZ Space": the white point is found from
+// AsShotNeutral (or AsShotWhiteXY), the ColorMatrix / ForwardMatrix pair is interpolated by inverse colour
+// temperature between the two calibration illuminants, and the as-shot white is adapted to D50 (Bradford).
+
+export type Matrix3 = number[]; // Row-major 3x3
+
+const TAG_COLORMATRIX1 = 50721;
+const TAG_COLORMATRIX2 = 50722;
+const TAG_ASSHOTNEUTRAL = 50728;
+const TAG_ASSHOTWHITEXY = 50729;
+const TAG_BASELINEEXPOSURE = 50730;
+const TAG_CALIBRATIONILLUMINANT1 = 50778;
+const TAG_CALIBRATIONILLUMINANT2 = 50779;
+const TAG_FORWARDMATRIX1 = 50964;
+const TAG_FORWARDMATRIX2 = 50965;
+
+// EXIF LightSource codes used as calibration illuminants, as correlated colour temperatures
+const ILLUMINANT_TEMPERATURES: Record<number, number> = {
+    1: 5500, 2: 4150, 3: 2850, 4: 5500, 9: 5500, 10: 6500, 11: 7500,
+    12: 6430, 13: 5000, 14: 4150, 15: 3450, 17: 2856, 18: 4874, 19: 6774,
+    20: 5503, 21: 6504, 22: 7504, 23: 5003, 24: 3200
+};
+
+const D50_XY: [number, number] = [0.3457, 0.3585];
+const D65_XY: [number, number] = [0.3127, 0.3290];
+
+const BRADFORD: Matrix3 = [
+    0.8951, 0.2664, -0.1614,
+    -0.7502, 1.7135, 0.0367,
+    0.0389, -0.0685, 1.0296
+];
+
+// XYZ (D50) to linear RGB; sRGB includes the Bradford adaptation to its D65 white
+const XYZ_D50_TO_OUTPUT: Record<'srgb' | 'prophoto', Matrix3> = {
+    srgb: [
+        3.1338561, -1.6168667, -0.4906146,
+        -0.9787684, 1.9161415, 0.0334540,
+        0.0719453, -0.2289914, 1.4052427
+    ],
+    prophoto: [
+        1.3459433, -0.2556075, -0.0511118,
+        -0.5445989, 1.5081673, 0.0205351,
+        0.0000000, 0.0000000, 1.2118128
+    ]
+};
+
+const multiplyMatrix = (a: Matrix3, b: Matrix3): Matrix3 => {
+    const out = new Array(9).fill(0);
+    for (let r = 0; r < 3; r++) {
+        for (let c = 0; c < 3; c++) {
+            out[r * 3 + c] = a[r * 3] * b[c] + a[r * 3 + 1] * b[3 + c] + a[r * 3 + 2] * b[6 + c];
+        }
+    }
+    return out;
+};
+
+const invertMatrix = (m: Matrix3): Matrix3 => {
+    const [a, b, c, d, e, f, g, h, i] = m;
+    const A = e * i - f * h, B = f * g - d * i, C = d * h - e * g;
+    const det = a * A + b * B + c * C;
+    if (Math.abs(det) < 1e-12) throw new Error("Colour matrix is singular");
+    return [
+        A / det, (c * h - b * i) / det, (b * f - c * e) / det,
+        B / det, (a * i - c * g) / det, (c * d - a * f) / det,
+        C / det, (b * g - a * h) / det, (a * e - b * d) / det
+    ];
+};
+
+const transform = (m: Matrix3, v: number[]): [number, number, number] => [
+    m[0] * v[0] + m[1] * v[1] + m[2] * v[2],
+    m[3] * v[0] + m[4] * v[1] + m[5] * v[2],
+    m[6] * v[0] + m[7] * v[1] + m[8] * v[2]
+];
+
+const diagonal = (v: number[]): Matrix3 => [v[0], 0, 0, 0, v[1], 0, 0, 0, v[2]];
+
+const xyToXYZ = ([x, y]: [number, number]) => [x / y, 1, (1 - x - y) / y];
+
+const XYZToxy = (XYZ: number[]): [number, number] => {
+    const sum = XYZ[0] + XYZ[1] + XYZ[2];
+    return sum > 0 ? [XYZ[0] / sum, XYZ[1] / sum] : D50_XY;
+};
+
+// McCamy's approximation, good to a few kelvin near the Planckian locus
+export const xyToTemperature = ([x, y]: [number, number]) => {
+    const n = (x - 0.3320) / (0.1858 - y);
+    return 449 * n * n * n + 3525 * n * n + 6823.3 * n + 5520.33;
+};
+
+// Bradford adaptation between two white points
+const adaptation = (fromXY: [number, number], toXY: [number, number]): Matrix3 => {
+    const src = transform(BRADFORD, xyToXYZ(fromXY)), dst = transform(BRADFORD, xyToXYZ(toXY));
+    return multiplyMatrix(invertMatrix(BRADFORD), multiplyMatrix(diagonal([dst[0] / src[0], dst[1] / src[1], dst[2] / src[2]]), BRADFORD));
+};
+
+interface CalibratedMatrix {
+    temperature: number;
+    colorMatrix: Matrix3;        // XYZ to camera
+    forwardMatrix: Matrix3 | null; // White-balanced camera to XYZ (D50)
+}
+
+export interface DNGColorInfo {
+    neutral: [number, number, number]; // Camera values of a neutral grey, largest = 1
+    whiteXY: [number, number];
+    temperature: number;               // As-shot correlated colour temperature, K
+    cameraToXYZ: Matrix3;              // White-balanced camera RGB to XYZ (D50), neutral maps to Y = 1
+    baselineExposure: number;          // EV
+}
+
+// Matrices weighted by inverse temperature, as the DNG spec asks
+const interpolate = (calibrations: CalibratedMatrix[], temperature: number, key: 'colorMatrix' | 'forwardMatrix'): Matrix3 | null => {
+    const usable = calibrations.filter(c => c[key]);
+    if (usable.length === 0) return null;
+    if (usable.length === 1) return usable[0][key];
+    const [low, high] = usable[0].temperature <= usable[1].temperature ? usable : [usable[1], usable[0]];
+    if (temperature <= low.temperature) return low[key];
+    if (temperature >= high.temperature) return high[key];
+    const g = (1 / temperature - 1 / high.temperature) / (1 / low.temperature - 1 / high.temperature);
+    return low[key].map((v, i) => g * v + (1 - g) * high[key][i]);
+};
+
+// Reads the colour tags; `read` returns a tag's numbers (rationals divided out) or null. Null when the file has no ColorMatrix.
+export const readDNGColor = (read: (tag: number) => number[] | null): DNGColorInfo | null => {
+    const calibrations: CalibratedMatrix[] = [];
+    ([[TAG_COLORMATRIX1, TAG_FORWARDMATRIX1, TAG_CALIBRATIONILLUMINANT1], [TAG_COLORMATRIX2, TAG_FORWARDMATRIX2, TAG_CALIBRATIONILLUMINANT2]] as const).forEach(([cmTag, fmTag, illTag]) => {
+        const colorMatrix = read(cmTag);
+        if (!colorMatrix || colorMatrix.length !== 9) return;
+        const forwardMatrix = read(fmTag);
+        calibrations.push({
+            temperature: ILLUMINANT_TEMPERATURES[read(illTag)?.[0] ?? 21] ?? 6504,
+            colorMatrix,
+            forwardMatrix: forwardMatrix && forwardMatrix.length === 9 ? forwardMatrix : null
+        });
+    });
+    if (calibrations.length === 0) return null;
+
+    // White point: from the as-shot neutral by fixed-point iteration (the matrix depends on the temperature it defines)
+    const asShotNeutral = read(TAG_ASSHOTNEUTRAL);
+    const asShotXY = read(TAG_ASSHOTWHITEXY);
+    let whiteXY: [number, number];
+    let neutral: number[];
+    if (asShotNeutral && asShotNeutral.length === 3 && asShotNeutral.every(v => v > 0)) {
+        neutral = asShotNeutral;
+        whiteXY = D50_XY;
+        for (let i = 0; i < 30; i++) {
+            const cm = interpolate(calibrations, xyToTemperature(whiteXY), 'colorMatrix')!;
+            const next = XYZToxy(transform(invertMatrix(cm), neutral));
+            const converged = Math.abs(next[0] - whiteXY[0]) + Math.abs(next[1] - whiteXY[1]) < 1e-7;
+            whiteXY = next;
+            if (converged) break;
+        }
+    } else {
+        whiteXY = asShotXY && asShotXY.length === 2 ? [asShotXY[0], asShotXY[1]] : D65_XY;
+        neutral = transform(interpolate(calibrations, xyToTemperature(whiteXY), 'colorMatrix')!, xyToXYZ(whiteXY));
+    }
+    const maxNeutral = Math.max(...neutral);
+    neutral = neutral.map(v => v / maxNeutral);
+
+    const temperature = xyToTemperature(whiteXY);
+    const forward = interpolate(calibrations, temperature, 'forwardMatrix');
+    let cameraToXYZ = forward
+        ? forward
+        : multiplyMatrix(adaptation(whiteXY, D50_XY), multiplyMatrix(invertMatrix(interpolate(calibrations, temperature, 'colorMatrix')!), diagonal(neutral)));
+    // Neutral camera values (1, 1, 1 once balanced) land on D50 white with Y = 1
+    const whiteY = transform(cameraToXYZ, [1, 1, 1])[1];
+    cameraToXYZ = cameraToXYZ.map(v => v / whiteY);
+
+    return {
+        neutral: neutral as [number, number, number],
+        whiteXY,
+        temperature,
+        cameraToXYZ,
+        baselineExposure: read(TAG_BASELINEEXPOSURE)?.[0] ?? 0
+    };
+};
+
+// Camera RGB to scene-referred linear output RGB, in place (out-of-gamut values are kept). Each channel is balanced by the neutral and clipped
+// at the sensor white so clipped highlights stay neutral instead of turning magenta.
+export const applyDNGColor = (data: Float32Array, color: DNGColorInfo, space: 'srgb' | 'prophoto') => {
+    const m = multiplyMatrix(XYZ_D50_TO_OUTPUT[space], color.cameraToXYZ);
+    const exposure = Math.pow(2, color.baselineExposure);
+    const [nr, ng, nb] = color.neutral;
+    for (let i = 0; i < data.length; i += 3) {
+        const r = Math.min(1, data[i] / nr), g = Math.min(1, data[i + 1] / ng), b = Math.min(1, data[i + 2] / nb);
+        data[i] = (m[0] * r + m[1] * g + m[2] * b) * exposure;
+        data[i + 1] = (m[3] * r + m[4] * g + m[5] * b) * exposure;
+        data[i + 2] = (m[6] * r + m[7] * g + m[8] * b) * exposure;
+    }
+};
+
+// Linear ProPhoto to linear sRGB, for display
+export const PROPHOTO_TO_SRGB: Matrix3 = multiplyMatrix(XYZ_D50_TO_OUTPUT.srgb, invertMatrix(XYZ_D50_TO_OUTPUT.prophoto));
@@ -1,12 +1,48 @@
 
+import { DemosaicMethod, LinearImage } from '../types';
+import { CFAPattern, demosaic } from './demosaic';
+import { encodeSRGB } from './colorSpace';
+import { DNGColorInfo, PROPHOTO_TO_SRGB, applyDNGColor, readDNGColor } from './dngColor';
+import { applyOrientation } from './orientation';
+
 // Access global UTIF via window to avoid TS errors
 const UTIF = (window as any).UTIF;
 
 const TAG_SUBIFDS = 330;
+const TAG_FUJI_IFD = 0xF000; // Fujifilm RAF raw block: the IFD holding the sensor data tags
 const TAG_IMAGEWIDTH = 256;
 const TAG_IMAGELENGTH = 257;
+const TAG_BITSPERSAMPLE = 258;
 const TAG_COMPRESSION = 259;
 const TAG_PHOTOMETRIC = 262;
+const TAG_ORIENTATION = 274;
+const TAG_STRIPOFFSETS = 273;
+const TAG_SAMPLESPERPIXEL = 277;
+const TAG_ROWSPERSTRIP = 278;
+const TAG_STRIPBYTECOUNTS = 279;
+const TAG_TILEWIDTH = 322;
+const TAG_TILELENGTH = 323;
+const TAG_TILEOFFSETS = 324;
+const TAG_TILEBYTECOUNTS = 325;
+const TAG_CFAREPEATPATTERNDIM = 33421;
+const TAG_CFAPATTERN = 33422;
+const TAG_LINEARIZATIONTABLE = 50712;
+const TAG_BLACKLEVELREPEATDIM = 50713;
+const TAG_BLACKLEVEL = 50714;
+const TAG_BLACKLEVELDELTAH = 50715;
+const TAG_BLACKLEVELDELTAV = 50716;
+const TAG_WHITELEVEL = 50717;
+const TAG_DEFAULTCROPORIGIN = 50719;
+const TAG_DEFAULTCROPSIZE = 50720;
+const TAG_ACTIVEAREA = 50829;
+const TAG_ASSHOTNEUTRAL = 50728;
+
+// Photometric interpretations
+const PHOTOMETRIC_CFA = 32803;
+const PHOTOMETRIC_LINEAR_RAW = 34892;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LOSSLESS_JPEG = 7;
 
 // TIFF Data Types and their byte lengths
 const getTypeSize = (type: number): number => {
@@ -23,6 +59,7 @@ const getTypeSize = (type: number): number => {
     case 10: return 8; // SRATIONAL
     case 11: return 4; // FLOAT
     case 12: return 8; // DOUBLE
+    case 13: return 4; // IFD
     default: return 0;
   }
 };
@@ -70,6 +107,7 @@ const parseValue = (
     case 8: // SSHORT
       return readArr((o, l) => data.getInt16(o, l));
     case 4: // LONG
+    case 13: // IFD
       return readArr((o, l) => data.getUint32(o, l));
     case 9: // SLONG
       return readArr((o, l) => data.getInt32(o, l));
@@ -101,10 +139,10 @@ const parseValue = (
 };
 
 // Scan the binary buffer recursively to find all IFDs (including SubIFDs)
-// Generalized for any TIFF-based structure (DNG, NEF, CR2, ARW, ORF, RW2)
-const scanTIFFStructure = (buffer: ArrayBuffer): any[] => {
-  const data = new DataView(buffer);
-  const byteLength = buffer.byteLength;
+// Generalized for any TIFF-based structure (DNG, NEF, CR2, ARW, ORF, RW2); a TIFF embedded in another container
+// is read in place from `base`, and its offsets stay relative to that
+export const scanTIFFStructure = (buffer: ArrayBuffer, base: number = 0, byteLength: number = buffer.byteLength - base): any[] => {
+  const data = new DataView(buffer, base, byteLength);
   
   if (byteLength < 8) throw new Error("File too short");
 
@@ -140,6 +178,7 @@ const scanTIFFStructure = (buffer: ArrayBuffer): any[] => {
     // Read Entry Count
     const numEntries = data.getUint16(offset, littleEndian);
     const ifd: any = {};
+    const tagTypes: Record<number, number> = {};
     const nextOffsetLoc = offset + 2 + numEntries * 12;
 
     if (nextOffsetLoc > byteLength) continue;
@@ -152,10 +191,14 @@ const scanTIFFStructure = (buffer: ArrayBuffer): any[] => {
 
       // Parse and store tag
       ifd["t" + tag] = parseValue(data, entryOffset + 8, type, count, littleEndian);
+      tagTypes[tag] = type;
     }
     
     // UTIF requires 'data' property to point to the raw buffer for decoding
-    ifd.data = new Uint8Array(buffer);
+    ifd.data = new Uint8Array(buffer, base, byteLength);
+    // Kept for our own readers: rationals are stored as flat [num, den] pairs
+    ifd.tagTypes = tagTypes;
+    ifd.littleEndian = littleEndian;
 
     ifds.push(ifd);
 
@@ -174,14 +217,241 @@ const scanTIFFStructure = (buffer: ArrayBuffer): any[] => {
       });
     }
     
+    // Fujifilm keeps its raw IFD behind a private pointer tag
+    const fujiIfd = ifd["t" + TAG_FUJI_IFD];
+    if (Array.isArray(fujiIfd)) queue.push(fujiIfd[0]);
+
     // Some formats (like Olympus) use EXIF offset for pointers too, but usually SubIFD is enough for image data.
   }
 
   return ifds;
 };
 
+// --- RAW development: CFA / LinearRaw IFDs to a linear float buffer ---
+
+// Numeric tag values; rationals are divided out
+export const tagNumbers = (ifd: any, tag: number): number[] | null => {
+  const v = ifd["t" + tag];
+  if (!Array.isArray(v) || v.length === 0) return null;
+  const type = ifd.tagTypes?.[tag];
+  if (type !== 5 && type !== 10) return v;
+  const out = [];
+  for (let i = 0; i + 1 < v.length; i += 2) out.push(v[i + 1] ? v[i] / v[i + 1] : 0);
+  return out;
+};
+
+// Strips or tiles, as rectangles of the image with their byte ranges
+const getDataBlocks = (ifd: any, width: number, height: number) => {
+  const tileW = tagNumbers(ifd, TAG_TILEWIDTH)?.[0];
+  const tileH = tagNumbers(ifd, TAG_TILELENGTH)?.[0];
+  const blocks: { x: number, y: number, w: number, h: number, offset: number, length: number }[] = [];
+  if (tileW && tileH) {
+    const offsets = tagNumbers(ifd, TAG_TILEOFFSETS) || [], counts = tagNumbers(ifd, TAG_TILEBYTECOUNTS) || [];
+    const across = Math.ceil(width / tileW);
+    offsets.forEach((offset, i) => blocks.push({ x: (i % across) * tileW, y: Math.floor(i / across) * tileH, w: tileW, h: tileH, offset, length: counts[i] }));
+  } else {
+    const offsets = tagNumbers(ifd, TAG_STRIPOFFSETS) || [], counts = tagNumbers(ifd, TAG_STRIPBYTECOUNTS) || [];
+    const rows = tagNumbers(ifd, TAG_ROWSPERSTRIP)?.[0] || height;
+    offsets.forEach((offset, i) => blocks.push({ x: 0, y: i * rows, w: width, h: rows, offset, length: counts[i] }));
+  }
+  return blocks;
+};
+
+// Uncompressed samples: 8/16-bit words in file byte order, other depths bit-packed MSB first with byte-aligned rows
+const readUncompressedSamples = (buffer: ArrayBuffer, ifd: any, width: number, height: number, spp: number, bps: number): Uint16Array => {
+  const view = new DataView(buffer);
+  const out = new Uint16Array(width * height * spp);
+  for (const block of getDataBlocks(ifd, width, height)) {
+    const rowBytes = Math.ceil(block.w * spp * bps / 8);
+    for (let row = 0; row < block.h; row++) {
+      const y = block.y + row;
+      if (y >= height) break;
+      const rowStart = block.offset + row * rowBytes;
+      if (rowStart + rowBytes > buffer.byteLength) throw new Error("RAW data is truncated");
+      let bitPos = 0;
+      for (let i = 0; i < block.w * spp; i++) {
+        let v: number;
+        if (bps === 16) v = view.getUint16(rowStart + i * 2, ifd.littleEndian);
+        else if (bps === 8) v = view.getUint8(rowStart + i);
+        else {
+          v = 0;
+          for (let b = 0; b < bps; b++, bitPos++) {
+            v = (v << 1) | ((view.getUint8(rowStart + (bitPos >> 3)) >> (7 - (bitPos & 7))) & 1);
+          }
+        }
+        const x = block.x + Math.floor(i / spp);
+        if (x < width) out[(y * width + x) * spp + (i % spp)] = v;
+      }
+    }
+  }
+  return out;
+};
+
+// Lossless JPEG is decoded by UTIF, which writes 16-bit little-endian words
+const readLosslessJPEGSamples = (buffer: ArrayBuffer, ifd: any, width: number, height: number, spp: number): Uint16Array => {
+  UTIF.decodeImage(buffer, ifd);
+  const bytes: Uint8Array = ifd.data;
+  const count = width * height * spp;
+  if (!bytes || bytes.length < count * 2) throw new Error("Lossless JPEG decode returned no data");
+  const out = new Uint16Array(count);
+  for (let i = 0; i < count; i++) out[i] = bytes[i * 2] | (bytes[i * 2 + 1] << 8);
+  return out;
+};
+
+const readRawSamples = (buffer: ArrayBuffer, ifd: any, width: number, height: number, spp: number, bps: number): Uint16Array => {
+  const compression = tagNumbers(ifd, TAG_COMPRESSION)?.[0] ?? COMPRESSION_NONE;
+  if (compression === COMPRESSION_NONE) return readUncompressedSamples(buffer, ifd, width, height, spp, bps);
+  if (compression === COMPRESSION_LOSSLESS_JPEG) return readLosslessJPEGSamples(buffer, ifd, width, height, spp);
+  throw new Error(`Unsupported RAW compression ${compression}`);
+};
+
+const readCFAPattern = (ifd: any): CFAPattern => {
+  const dim = tagNumbers(ifd, TAG_CFAREPEATPATTERNDIM) || [2, 2];
+  const colors = tagNumbers(ifd, TAG_CFAPATTERN);
+  if (!colors || colors.length !== dim[0] * dim[1]) throw new Error("CFA pattern is missing");
+  if (colors.some(c => c > 2)) throw new Error("Only RGB colour filter arrays are supported");
+  return { rows: dim[0], cols: dim[1], colors };
+};
+
+// Linearise, subtract the black level and scale to the white level, within the active area
+const normalizeSamples = (ifd: any, samples: Uint16Array, width: number, spp: number, bps: number, area: number[]) => {
+  const [top, left, bottom, right] = area;
+  const w = right - left, h = bottom - top;
+  const table = tagNumbers(ifd, TAG_LINEARIZATIONTABLE);
+  const repeat = tagNumbers(ifd, TAG_BLACKLEVELREPEATDIM) || [1, 1];
+  const black = tagNumbers(ifd, TAG_BLACKLEVEL) || [0];
+  const deltaH = tagNumbers(ifd, TAG_BLACKLEVELDELTAH);
+  const deltaV = tagNumbers(ifd, TAG_BLACKLEVELDELTAV);
+  const white = tagNumbers(ifd, TAG_WHITELEVEL) || [table ? table[table.length - 1] : 2 ** bps - 1];
+
+  const out = new Float32Array(w * h * spp);
+  for (let y = 0; y < h; y++) {
+    const dv = deltaV ? deltaV[y] || 0 : 0;
+    for (let x = 0; x < w; x++) {
+      const dh = deltaH ? deltaH[x] || 0 : 0;
+      for (let c = 0; c < spp; c++) {
+        let v = samples[((y + top) * width + x + left) * spp + c];
+        if (table) v = table[Math.min(v, table.length - 1)];
+        const b = black[(((y % repeat[0]) * repeat[1] + (x % repeat[1])) * spp + c) % black.length] + dh + dv;
+        const wl = white[c % white.length];
+        out[(y * w + x) * spp + c] = Math.min(1, Math.max(0, (v - b) / (wl - b)));
+      }
+    }
+  }
+  return out;
+};
+
+// Crop a linear image to the DNG default crop (given relative to the active area), in place:
+// rows only ever move towards the start of the buffer
+const applyDefaultCrop = (ifd: any, image: LinearImage): LinearImage => {
+  const origin = tagNumbers(ifd, TAG_DEFAULTCROPORIGIN), size = tagNumbers(ifd, TAG_DEFAULTCROPSIZE);
+  if (!origin || !size) return image;
+  const left = Math.round(origin[0]), top = Math.round(origin[1]);
+  const w = Math.min(Math.round(size[0]), image.width - left), h = Math.min(Math.round(size[1]), image.height - top);
+  if (w <= 0 || h <= 0 || (w === image.width && h === image.height)) return image;
+  const { data } = image;
+  for (let y = 0; y < h; y++) {
+    const from = ((y + top) * image.width + left) * 3;
+    data.copyWithin(y * w * 3, from, from + w * 3);
+  }
+  return { width: w, height: h, data: data.subarray(0, w * h * 3), space: image.space };
+};
+
+export const isRawIFD = (ifd: any) => {
+  const photo = tagNumbers(ifd, TAG_PHOTOMETRIC)?.[0];
+  return photo === PHOTOMETRIC_CFA || photo === PHOTOMETRIC_LINEAR_RAW;
+};
+
+// White balance camera RGB in place by per-channel gains, clipping at the sensor white so highlights stay neutral
+export const balanceCameraRGB = (data: Float32Array, gains: number[]) => {
+  for (let i = 0; i < data.length; i += 3) {
+    data[i] = Math.min(1, data[i] * gains[0]);
+    data[i + 1] = Math.min(1, data[i + 1] * gains[1]);
+    data[i + 2] = Math.min(1, data[i + 2] * gains[2]);
+  }
+};
+
+// Gains that bring the channel means level with green, for camera RGB without an as-shot white
+const greyWorldGains = (data: Float32Array): number[] => {
+  const mean = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 3) { mean[0] += data[i]; mean[1] += data[i + 1]; mean[2] += data[i + 2]; }
+  return mean.map(v => v > 0 ? mean[1] / v : 1);
+};
+
+// Develop a CFA or LinearRaw IFD to scene-referred linear RGB. The colour tags are looked up on the raw IFD first,
+// then on IFD0 where DNG normally keeps them; without a ColorMatrix the data is white balanced and stays in camera RGB.
+export const developRawIFD = (buffer: ArrayBuffer, ifd: any, mainIFD: any, options: RawLoadOptions): { linear: LinearImage, color: DNGColorInfo | null } => {
+  const width = tagNumbers(ifd, TAG_IMAGEWIDTH)?.[0], height = tagNumbers(ifd, TAG_IMAGELENGTH)?.[0];
+  if (!width || !height) throw new Error("RAW frame has no dimensions");
+  const bps = tagNumbers(ifd, TAG_BITSPERSAMPLE)?.[0] || 16;
+  const cfa = tagNumbers(ifd, TAG_PHOTOMETRIC)?.[0] === PHOTOMETRIC_CFA;
+  const spp = tagNumbers(ifd, TAG_SAMPLESPERPIXEL)?.[0] || 1;
+  if (cfa ? spp !== 1 : spp !== 3) throw new Error(`Unsupported samples per pixel: ${spp}`);
+
+  const area = tagNumbers(ifd, TAG_ACTIVEAREA) || [0, 0, height, width];
+  // Raw samples are not kept referenced, so they can be freed before the demosaic allocates its output
+  const normalized = normalizeSamples(ifd, readRawSamples(buffer, ifd, width, height, spp, bps), width, spp, bps, area);
+  const w = area[3] - area[1], h = area[2] - area[0];
+
+  // The CFA pattern starts at the top left of the active area
+  const image: LinearImage = cfa ? demosaic(normalized, w, h, readCFAPattern(ifd), options.demosaic) : { width: w, height: h, data: normalized, space: 'camera' };
+  const linear = applyDefaultCrop(ifd, image);
+
+  const read = (tag: number) => tagNumbers(ifd, tag) || (mainIFD ? tagNumbers(mainIFD, tag) : null);
+  const color = readDNGColor(read);
+  if (color) {
+    applyDNGColor(linear.data, color, options.colorSpace);
+    linear.space = options.colorSpace;
+  } else {
+    const neutral = read(TAG_ASSHOTNEUTRAL);
+    balanceCameraRGB(linear.data, neutral && neutral.length === 3 && neutral.every(v => v > 0)
+      ? neutral.map(v => neutral[1] / v)
+      : greyWorldGains(linear.data));
+    linear.space = 'camera';
+  }
+  return { linear, color };
+};
+
+// Display rendering: the sRGB curve on linear sRGB (clipped at white). Balanced camera RGB, when the file has no
+// colour matrices, is shown as if it had sRGB primaries.
+export const linearToRGBA8 = (image: LinearImage): Uint8ClampedArray => {
+  const { data } = image;
+  const pixels = image.width * image.height;
+  const m = image.space === 'prophoto' ? PROPHOTO_TO_SRGB : [1, 0, 0, 0, 1, 0, 0, 0, 1];
+  const rgba = new Uint8ClampedArray(pixels * 4);
+  for (let p = 0; p < pixels; p++) {
+    const r = data[p * 3], g = data[p * 3 + 1], b = data[p * 3 + 2];
+    for (let c = 0; c < 3; c++) {
+      const v = m[c * 3] * r + m[c * 3 + 1] * g + m[c * 3 + 2] * b;
+      rgba[p * 4 + c] = Math.round(Math.min(1, Math.max(0, encodeSRGB(v))) * 255);
+    }
+    rgba[p * 4 + 3] = 255;
+  }
+  return rgba;
+};
+
+// Turn a developed image upright by its EXIF orientation
+export const orientLinear = (image: LinearImage, orientation: number): LinearImage => {
+  const { data, width, height } = applyOrientation(image.data, image.width, image.height, 3, orientation);
+  return { width, height, data, space: image.space };
+};
+
+// Linear sRGB for the render pipeline; balanced camera RGB is passed on as it is shown
+export const linearToSRGB = (image: LinearImage): Float32Array => {
+  if (image.space !== 'prophoto') return image.data;
+  const m = PROPHOTO_TO_SRGB, src = image.data;
+  const out = new Float32Array(src.length);
+  for (let i = 0; i < src.length; i += 3) {
+    const r = src[i], g = src[i + 1], b = src[i + 2];
+    out[i] = m[0] * r + m[1] * g + m[2] * b;
+    out[i + 1] = m[3] * r + m[4] * g + m[5] * b;
+    out[i + 2] = m[6] * r + m[7] * g + m[8] * b;
+  }
+  return out;
+};
+
 // Check if image data is not completely transparent/black
-const isImageValid = (rgba: Uint8Array, width: number, height: number): boolean => {
+const isImageValid = (rgba: Uint8Array | Uint8ClampedArray, width: number, height: number): boolean => {
     if (!rgba || rgba.length === 0) return false;
     
     // Check center pixel
@@ -206,7 +476,7 @@ const isImageValid = (rgba: Uint8Array, width: number, height: number): boolean
 }
 
 // Helper to render RGBA to Canvas/Image
-const renderToImage = (rgba: Uint8Array, width: number, height: number): Promise<HTMLImageElement> => {
+export const renderToImage = (rgba: Uint8Array | Uint8ClampedArray, width: number, height: number): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
     try {
       // Ensure dimensions are valid integers and Finite
@@ -227,25 +497,43 @@ const renderToImage = (rgba: Uint8Array, width: number, height: number): Promise
       const ctx = canvas.getContext('2d');
       if (!ctx) throw new Error("Canvas context failed");
       
-      const imgData = ctx.createImageData(w, h);
-      // Copy data safely
-      const len = Math.min(rgba.length, w * h * 4);
-      imgData.data.set(rgba.subarray(0, len));
-      
-      ctx.putImageData(imgData, 0, 0);
-      
-      const img = new Image();
-      img.onload = () => resolve(img);
-      img.onerror = reject;
-      // High quality export
-      img.src = canvas.toDataURL('image/jpeg', 0.95);
+      // Wrap the pixels instead of copying them; only a short buffer is padded into a new one
+      const len = w * h * 4;
+      let pixels: Uint8ClampedArray;
+      if (rgba.length >= len) pixels = new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, len);
+      else {
+        pixels = new Uint8ClampedArray(len);
+        pixels.set(rgba);
+      }
+      ctx.putImageData(new ImageData(pixels, w, h), 0, 0);
+
+      // Lossless, as a blob: the decoded frame is the editing source, and a data URL would hold another base64 copy of it
+      canvas.toBlob(blob => {
+        if (!blob) { reject(new Error("Canvas encode failed")); return; }
+        const url = URL.createObjectURL(blob);
+        const img = new Image();
+        img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+        img.onerror = (err) => { URL.revokeObjectURL(url); reject(err); };
+        img.src = url;
+      }, 'image/png');
     } catch (e) {
       reject(e);
     }
   });
 };
 
-export const loadDNG = async (file: File): Promise<HTMLImageElement> => {
+export interface RawLoadOptions {
+  demosaic: DemosaicMethod;
+  colorSpace: 'srgb' | 'prophoto'; // Primaries of the developed linear buffer
+}
+
+export interface RawLoadResult {
+  image: HTMLImageElement;
+  linear: LinearImage | null;     // Set when developed from sensor data rather than an embedded preview
+  color: DNGColorInfo | null;     // As-shot white and colour matrices of a developed DNG
+}
+
+export const loadDNG = async (file: File, options: RawLoadOptions = { demosaic: 'vng', colorSpace: 'srgb' }): Promise<RawLoadResult> => {
   if (!UTIF) throw new Error("UTIF library not loaded");
 
   return new Promise((resolve, reject) => {
@@ -269,7 +557,8 @@ export const loadDNG = async (file: File): Promise<HTMLImageElement> => {
 
         if (candidates.length === 0) throw new Error("No valid image frames found in RAW");
 
-        // 3. Sort Strategy: Prioritize RGB Previews over Raw CFA data
+        // 3. Sort Strategy: sensor data (CFA / LinearRaw) first, then RGB previews, each largest first.
+        // Previews stay as the fallback for RAW flavours we cannot develop (proprietary compression, non-DNG tags).
         const getVal = (v: any) => Array.isArray(v) ? v[0] : v;
         const getArea = (ifd: any) => {
              const w = getVal(ifd["t" + TAG_IMAGEWIDTH]);
@@ -279,33 +568,21 @@ export const loadDNG = async (file: File): Promise<HTMLImageElement> => {
         };
 
         candidates.sort((a, b) => {
-             const areaA = getArea(a);
-             const areaB = getArea(b);
-             
-             // Photometric: 2 = RGB, 6 = YCbCr, 32803 = CFA (Raw)
-             const photoA = getVal(a["t" + TAG_PHOTOMETRIC]);
-             const photoB = getVal(b["t" + TAG_PHOTOMETRIC]);
-             
-             const isPreviewA = (photoA === 2 || photoA === 6);
-             const isPreviewB = (photoB === 2 || photoB === 6);
-             
-             // If both are large enough (> 0.5 MP), prefer Preview over Raw
-             // This avoids decoding raw bayer data which often fails in JS (black screen)
-             const threshold = 500000; 
-             if (areaA > threshold && areaB > threshold) {
-                 if (isPreviewA && !isPreviewB) return -1;
-                 if (!isPreviewA && isPreviewB) return 1;
-             }
-
-             // Otherwise sort by size
-             return areaB - areaA;
+             const rawA = isRawIFD(a), rawB = isRawIFD(b);
+             if (rawA !== rawB) return rawA ? -1 : 1;
+             return getArea(b) - getArea(a);
         });
 
         console.log(`RAW: Found ${candidates.length} frames. Processing candidates...`);
 
+        // Sensor data and previews are both stored unrotated; IFD0 says how to show them
+        const orientation = tagNumbers(ifds[0], TAG_ORIENTATION)?.[0] ?? 1;
+
         // 4. Try Decoding with Fallback
         
         let finalImage: HTMLImageElement | null = null;
+        let linear: LinearImage | null = null;
+        let color: DNGColorInfo | null = null;
         let lastError = null;
 
         for (const ifd of candidates) {
@@ -316,6 +593,15 @@ export const loadDNG = async (file: File): Promise<HTMLImageElement> => {
             const photo = getVal(ifd["t" + TAG_PHOTOMETRIC]);
             
             console.log(`RAW: Attempting decode ${w}x${h} (Type:${photo}, Comp:${comp})...`);
+
+            if (isRawIFD(ifd)) {
+               const developed = developRawIFD(buffer, ifd, ifds[0], options);
+               const upright = orientLinear(developed.linear, orientation);
+               finalImage = await renderToImage(linearToRGBA8(upright), upright.width, upright.height);
+               linear = upright;
+               color = developed.color;
+               break;
+            }
             
             // UTIF.decodeImage parses data offsets. 
             UTIF.decodeImage(buffer, ifd); 
@@ -330,7 +616,8 @@ export const loadDNG = async (file: File): Promise<HTMLImageElement> => {
                }
                
                // This call will throw if image is black/invalid
-               finalImage = await renderToImage(rgba, ifd.width, ifd.height);
+               const upright = applyOrientation(rgba, ifd.width, ifd.height, 4, orientation);
+               finalImage = await renderToImage(upright.data, upright.width, upright.height);
                console.log("RAW: Decode success!");
                break; 
             } else {
@@ -344,7 +631,7 @@ export const loadDNG = async (file: File): Promise<HTMLImageElement> => {
         }
 
         if (finalImage) {
-          resolve(finalImage);
+          resolve({ image: finalImage, linear, color });
         } else {
           reject(lastError || new Error("Could not decode any valid frames (all candidates failed or were black)."));
         }
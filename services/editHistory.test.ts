@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { EditorState, MaskLayer } from '../types';
+import { applyHistoryStep, createHistoryStep, recordMaskChange } from './editHistory';
+
+const W = 64, H = 48;
+
+const stateWith = (data: Uint8Array | null): EditorState => ({
+    adjustments: {} as EditorState['adjustments'],
+    film: 'Provia' as EditorState['film'],
+    intensity: 1,
+    look: null,
+    masks: [{ id: 'm', type: 'brush', data } as MaskLayer]
+});
+
+// Paint a block into a copy of `from`
+const paint = (from: Uint8Array | null, x: number, y: number, size: number) => {
+    const out = from ? from.slice() : new Uint8Array(W * H);
+    for (let j = y; j < y + size; j++) for (let i = x; i < x + size; i++) out[j * W + i] = 200;
+    return out;
+};
+
+describe('mask history diffs', () => {
+    it('diffs only the recorded brush regions and still undoes and redoes exactly', () => {
+        const base = paint(null, 2, 2, 4);
+        const first = paint(base, 10, 10, 5);
+        recordMaskChange(base, first, { x: 10, y: 10, width: 5, height: 5 });
+        const second = paint(first, 40, 30, 6);
+        recordMaskChange(first, second, { x: 40, y: 30, width: 6, height: 6 });
+
+        const step = createHistoryStep(null, stateWith(base), stateWith(second), W, H)!;
+        const diff = step.masks!.diffs.m;
+        expect(diff).toMatchObject({ x: 10, y: 10, width: 36, height: 26 });
+
+        const undone = applyHistoryStep(stateWith(second), step, 'undo', W, H);
+        expect(Array.from(undone.masks[0].data!)).toEqual(Array.from(base));
+        const redone = applyHistoryStep(undone, step, 'redo', W, H);
+        expect(Array.from(redone.masks[0].data!)).toEqual(Array.from(second));
+    });
+
+    it('falls back to a full scan when the chain of changes is unknown', () => {
+        const base = paint(null, 2, 2, 4);
+        const changed = paint(base, 20, 20, 3);
+        const step = createHistoryStep(null, stateWith(base), stateWith(changed), W, H)!;
+        expect(step.masks!.diffs.m).toMatchObject({ x: 20, y: 20, width: 3, height: 3 });
+    });
+});
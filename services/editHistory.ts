@@ -0,0 +1,256 @@
+
+import { Adjustments, EditorState, FilmProfileId, ImageRect, LookSelection, MaskLayer } from '../types';
+import { isBuiltInProfile } from './filmProfiles';
+
+// --- Command-based edit history ---
+// Each step records only what changed between two committed editor states. Adjustments, film, intensity and look are
+// stored as before/after values; mask pixels as an XOR of the two alpha planes, cropped to the changed area and
+// PackBits-compressed. XOR is its own inverse, so one diff serves both undo and redo.
+
+const MAX_STEPS = 200;
+const MAX_DIFF_BYTES = 192 * 1024 * 1024;
+
+type MaskMeta = Omit<MaskLayer, 'data'> & { hasData: boolean };
+
+interface MaskDiff {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    packed: Uint8Array;
+}
+
+export interface HistoryStep {
+    label: string;
+    adjustments?: { before: Adjustments, after: Adjustments };
+    film?: { before: FilmProfileId, after: FilmProfileId };
+    intensity?: { before: number, after: number };
+    look?: { before: LookSelection | null, after: LookSelection | null };
+    masks?: { before: MaskMeta[], after: MaskMeta[], diffs: Record<string, MaskDiff> };
+    bytes: number; // Size of the mask diffs
+}
+
+export interface EditHistory {
+    steps: HistoryStep[];
+    index: number; // Number of steps applied; 0 is the state before the first step
+}
+
+export const createEmptyHistory = (): EditHistory => ({ steps: [], index: 0 });
+
+const ADJUSTMENT_LABELS: Record<keyof Adjustments, string> = {
+    brightness: '亮度 (Brightness)',
+    contrast: '对比度 (Contrast)',
+    saturation: '饱和度 (Saturation)',
+    highlights: '高光 (Highlights)',
+    shadows: '阴影 (Shadows)',
+    clarity: '清晰度 (Clarity)',
+    curves: '曲线 (Curves)',
+    whiteBalance: '白平衡 (WB)',
+    grading: '色彩分级 (Grading)',
+    colorChrome: '色彩效果 (Color Chrome)',
+    colorChromeBlue: '蓝色效果 (Color Chrome Blue)',
+    monoWarmCool: '冷暖色调 (Warm/Cool)',
+    monoMagentaGreen: '品绿色调 (Magenta/Green)',
+    grainAmount: '颗粒 (Grain)',
+    grainSize: '颗粒大小 (Grain Size)',
+    grainChroma: '彩色颗粒 (Grain Chroma)',
+    grainResponse: '颗粒响应 (Grain Response)',
+    vignette: '暗角 (Vignette)',
+    sharpening: '锐化 (Sharpening)',
+    halation: '光晕 (Halation)',
+    hsl: 'HSL'
+};
+
+// --- PackBits: control n < 128 -> n + 1 literal bytes; n >= 128 -> next byte repeated n - 126 times ---
+const packBits = (src: Uint8Array): Uint8Array => {
+    const out = new Uint8Array(src.length + Math.ceil(src.length / 128) + 1);
+    let o = 0, i = 0;
+    while (i < src.length) {
+        let run = 1;
+        while (i + run < src.length && run < 129 && src[i + run] === src[i]) run++;
+        if (run >= 2) {
+            out[o++] = run + 126;
+            out[o++] = src[i];
+            i += run;
+            continue;
+        }
+        const start = i;
+        while (i < src.length && i - start < 128 && !(i + 1 < src.length && src[i + 1] === src[i])) i++;
+        out[o++] = i - start - 1;
+        out.set(src.subarray(start, i), o);
+        o += i - start;
+    }
+    return out.slice(0, o);
+};
+
+const unpackBits = (src: Uint8Array, length: number): Uint8Array => {
+    const out = new Uint8Array(length);
+    let o = 0, i = 0;
+    while (i < src.length && o < length) {
+        const n = src[i++];
+        if (n < 128) {
+            out.set(src.subarray(i, i + n + 1), o);
+            o += n + 1;
+            i += n + 1;
+        } else {
+            out.fill(src[i++], o, o + n - 126);
+            o += n - 126;
+        }
+    }
+    return out;
+};
+
+// Region each brushed mask buffer differs from the buffer it was painted over, so a step can diff just that region
+// instead of scanning the frame. Buffers without a record (operations, restored steps) get the full scan.
+const maskChanges = new WeakMap<Uint8Array, { from: Uint8Array | null, rect: ImageRect }>();
+
+export const recordMaskChange = (from: Uint8Array | null, to: Uint8Array, rect: ImageRect) => {
+    maskChanges.set(to, { from, rect });
+};
+
+// Union of the recorded regions leading from `before` to `after`; null when the chain is not known
+const changedRegion = (before: Uint8Array | null, after: Uint8Array | null): ImageRect | null => {
+    let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+    let current = after;
+    while (current && current !== before) {
+        const change = maskChanges.get(current);
+        if (!change) return null;
+        const { rect } = change;
+        x0 = Math.min(x0, rect.x); y0 = Math.min(y0, rect.y);
+        x1 = Math.max(x1, rect.x + rect.width); y1 = Math.max(y1, rect.y + rect.height);
+        current = change.from;
+    }
+    if (current !== before || x1 < x0) return null;
+    return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+};
+
+const diffMaskData = (before: Uint8Array | null, after: Uint8Array | null, width: number, height: number): MaskDiff | null => {
+    if (before === after) return null;
+    const region = changedRegion(before, after) || { x: 0, y: 0, width, height };
+    let x0 = width, y0 = height, x1 = -1, y1 = -1;
+    for (let y = region.y; y < region.y + region.height; y++) {
+        for (let x = region.x; x < region.x + region.width; x++) {
+            const i = y * width + x;
+            if ((before ? before[i] : 0) !== (after ? after[i] : 0)) {
+                if (x < x0) x0 = x;
+                if (x > x1) x1 = x;
+                if (y < y0) y0 = y;
+                y1 = y;
+            }
+        }
+    }
+    if (x1 < 0) return null;
+    const w = x1 - x0 + 1, h = y1 - y0 + 1;
+    const xor = new Uint8Array(w * h);
+    for (let y = 0; y < h; y++) {
+        for (let x = 0; x < w; x++) {
+            const i = (y + y0) * width + x + x0;
+            xor[y * w + x] = (before ? before[i] : 0) ^ (after ? after[i] : 0);
+        }
+    }
+    return { x: x0, y: y0, width: w, height: h, packed: packBits(xor) };
+};
+
+const applyMaskDiff = (data: Uint8Array | null, diff: MaskDiff, width: number, height: number): Uint8Array => {
+    const out = data ? data.slice() : new Uint8Array(width * height);
+    const xor = unpackBits(diff.packed, diff.width * diff.height);
+    for (let y = 0; y < diff.height; y++) {
+        for (let x = 0; x < diff.width; x++) {
+            out[(y + diff.y) * width + x + diff.x] ^= xor[y * diff.width + x];
+        }
+    }
+    return out;
+};
+
+const toMeta = ({ data, ...rest }: MaskLayer): MaskMeta => ({ ...rest, hasData: !!data });
+
+const describeStep = (step: HistoryStep): string => {
+    const parts: string[] = [];
+    if (step.film) parts.push(`胶片 · ${isBuiltInProfile(step.film.after) ? step.film.after.split(' / ')[0] : '自定义 (Custom)'}`);
+    if (step.intensity) parts.push('强度 (Intensity)');
+    if (step.look) parts.push('自定义 LUT (Look)');
+    if (step.adjustments) {
+        const { before, after } = step.adjustments;
+        (Object.keys(after) as (keyof Adjustments)[])
+            .filter(k => JSON.stringify(before[k]) !== JSON.stringify(after[k]))
+            .forEach(k => parts.push(ADJUSTMENT_LABELS[k] || k));
+    }
+    if (step.masks) {
+        const layersChanged = JSON.stringify(step.masks.before) !== JSON.stringify(step.masks.after);
+        parts.push(layersChanged ? '蒙版 (Mask)' : '画笔 (Brush)');
+    }
+    if (parts.length > 2) return `${parts.slice(0, 2).join('、')} +${parts.length - 2}`;
+    return parts.join('、');
+};
+
+// Step from one committed state to the next, or null when nothing changed. Without a label one is derived from the change.
+export const createHistoryStep = (label: string | null, before: EditorState, after: EditorState, width: number, height: number): HistoryStep | null => {
+    const step: HistoryStep = { label: '', bytes: 0 };
+    if (JSON.stringify(before.adjustments) !== JSON.stringify(after.adjustments)) {
+        step.adjustments = { before: before.adjustments, after: after.adjustments };
+    }
+    if (before.film !== after.film) step.film = { before: before.film, after: after.film };
+    if (before.intensity !== after.intensity) step.intensity = { before: before.intensity, after: after.intensity };
+    if (JSON.stringify(before.look) !== JSON.stringify(after.look)) step.look = { before: before.look, after: after.look };
+
+    if (before.masks !== after.masks) {
+        const metaBefore = before.masks.map(toMeta), metaAfter = after.masks.map(toMeta);
+        const diffs: Record<string, MaskDiff> = {};
+        const ids = new Set([...before.masks, ...after.masks].map(m => m.id));
+        ids.forEach(id => {
+            const diff = diffMaskData(
+                before.masks.find(m => m.id === id)?.data || null,
+                after.masks.find(m => m.id === id)?.data || null,
+                width, height
+            );
+            if (diff) {
+                diffs[id] = diff;
+                step.bytes += diff.packed.length;
+            }
+        });
+        if (Object.keys(diffs).length > 0 || JSON.stringify(metaBefore) !== JSON.stringify(metaAfter)) {
+            step.masks = { before: metaBefore, after: metaAfter, diffs };
+        }
+    }
+
+    if (!step.adjustments && !step.film && !step.intensity && !step.look && !step.masks) return null;
+    step.label = label || describeStep(step);
+    return step;
+};
+
+// Append after the current position (dropping any redo steps), then trim the oldest steps to the budget
+export const pushHistoryStep = (history: EditHistory, step: HistoryStep): EditHistory => {
+    const steps = [...history.steps.slice(0, history.index), step];
+    let bytes = steps.reduce((sum, s) => sum + s.bytes, 0);
+    while (steps.length > 1 && (steps.length > MAX_STEPS || bytes > MAX_DIFF_BYTES)) {
+        bytes -= steps[0].bytes;
+        steps.shift();
+    }
+    return { steps, index: steps.length };
+};
+
+// Apply a step forwards (redo) or backwards (undo) to the state it borders
+export const applyHistoryStep = (state: EditorState, step: HistoryStep, direction: 'undo' | 'redo', width: number, height: number): EditorState => {
+    const pick = <T,>(change: { before: T, after: T } | undefined, current: T): T =>
+        change ? (direction === 'undo' ? change.before : change.after) : current;
+
+    let masks = state.masks;
+    if (step.masks) {
+        const { diffs } = step.masks;
+        const target = direction === 'undo' ? step.masks.before : step.masks.after;
+        masks = target.map(({ hasData, ...meta }) => {
+            const current = state.masks.find(m => m.id === meta.id)?.data || null;
+            const diff = diffs[meta.id];
+            const data = diff ? applyMaskDiff(current, diff, width, height) : current || (hasData ? new Uint8Array(width * height) : null);
+            return { ...meta, data: hasData ? data : null };
+        });
+    }
+
+    return {
+        adjustments: pick(step.adjustments, state.adjustments),
+        film: pick(step.film, state.film),
+        intensity: pick(step.intensity, state.intensity),
+        look: pick(step.look, state.look),
+        masks
+    };
+};
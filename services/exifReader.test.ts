@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { readExif } from './exifReader';
+
+const bufferOf = (bytes: number[]) => new Uint8Array(bytes).buffer;
+
+describe('readExif', () => {
+    it('returns null for an APP1 segment whose length is too short to hold EXIF', () => {
+        const jpeg = [0xFF, 0xD8, 0xFF, 0xE1, 0x00, 0x04, 0x45, 0x78, 0x69, 0x66, 0, 0, 0xFF, 0xDA, 0, 2, 0xFF, 0xD9];
+        expect(readExif(bufferOf(jpeg))).toBeNull();
+    });
+
+    it('returns null for a truncated RAF header', () => {
+        const raf = Array.from('FUJIFILMCCD-RAW 0201', c => c.charCodeAt(0));
+        expect(readExif(bufferOf(raf))).toBeNull();
+    });
+});
@@ -0,0 +1,220 @@
+
+// --- EXIF: locate the TIFF structure holding camera metadata and read its IFDs ---
+// JPEG keeps it in the APP1 "Exif" segment, TIFF/DNG files are the structure themselves, and RAF carries it in
+// its embedded JPEG. Entries keep their raw value bytes so they can be written back unchanged.
+
+export interface ExifEntry {
+    type: number;
+    count: number;
+    value: number[] | string; // Numbers (rationals as [num, den] pairs) or text
+    bytes: Uint8Array;        // Value bytes in the source byte order
+}
+
+export type ExifIFD = Map<number, ExifEntry>;
+
+export interface ExifData {
+    littleEndian: boolean;
+    ifd0: ExifIFD;
+    exif: ExifIFD;
+    gps: ExifIFD;
+    makerNote: Uint8Array | null; // Raw MakerNote block, decoded per vendor
+}
+
+// IFD0
+export const TAG_IMAGE_DESCRIPTION = 0x010E;
+export const TAG_MAKE = 0x010F;
+export const TAG_MODEL = 0x0110;
+export const TAG_ORIENTATION = 0x0112;
+export const TAG_SOFTWARE = 0x0131;
+export const TAG_DATE_TIME = 0x0132;
+export const TAG_ARTIST = 0x013B;
+export const TAG_COPYRIGHT = 0x8298;
+export const TAG_EXIF_IFD = 0x8769;
+export const TAG_GPS_IFD = 0x8825;
+// Exif IFD
+const TAG_EXPOSURE_TIME = 0x829A;
+const TAG_F_NUMBER = 0x829D;
+const TAG_ISO = 0x8827;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_EXPOSURE_BIAS = 0x9204;
+const TAG_FOCAL_LENGTH = 0x920A;
+export const TAG_MAKER_NOTE = 0x927C;
+const TAG_FOCAL_LENGTH_35MM = 0xA405;
+const TAG_LENS_MODEL = 0xA434;
+// GPS IFD
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+const TAG_GPS_ALTITUDE_REF = 0x0005;
+const TAG_GPS_ALTITUDE = 0x0006;
+
+const RAF_MAGIC = 'FUJIFILMCCD-RAW ';
+const RAF_JPEG_OFFSET = 84;
+
+export const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4 };
+
+// Start and length of the TIFF structure in a JPEG's APP1 segment
+const findJpegExif = (bytes: Uint8Array, start: number, end: number): [number, number] | null => {
+    if (bytes[start] !== 0xFF || bytes[start + 1] !== 0xD8) return null;
+    let p = start + 2;
+    while (p + 4 <= end && bytes[p] === 0xFF) {
+        const marker = bytes[p + 1];
+        // Start of scan: no metadata segments after this
+        if (marker === 0xDA) break;
+        const length = (bytes[p + 2] << 8) | bytes[p + 3];
+        if (length < 2) break;
+        if (marker === 0xE1 && length >= 8 && String.fromCharCode(...bytes.subarray(p + 4, p + 10)) === 'Exif\0\0') {
+            return [p + 10, length - 8];
+        }
+        p += 2 + length;
+    }
+    return null;
+};
+
+// Where the EXIF TIFF structure sits in a file, whatever the container
+export const locateExif = (buffer: ArrayBuffer): [number, number] | null => {
+    const bytes = new Uint8Array(buffer);
+    if (bytes.length < 16) return null;
+    if (bytes[0] === 0xFF && bytes[1] === 0xD8) return findJpegExif(bytes, 0, bytes.length);
+    if ((bytes[0] === 0x49 && bytes[1] === 0x49) || (bytes[0] === 0x4D && bytes[1] === 0x4D)) return [0, bytes.length];
+    if (bytes.length >= RAF_JPEG_OFFSET + 8 && String.fromCharCode(...bytes.subarray(0, RAF_MAGIC.length)) === RAF_MAGIC) {
+        const view = new DataView(buffer);
+        const offset = view.getUint32(RAF_JPEG_OFFSET), length = view.getUint32(RAF_JPEG_OFFSET + 4);
+        if (offset + length <= bytes.length) return findJpegExif(bytes, offset, offset + length);
+    }
+    return null;
+};
+
+// One IFD; offsets in it are relative to `base` (the TIFF header, or a MakerNote start)
+export const readIFD = (view: DataView, base: number, offset: number, littleEndian: boolean): ExifIFD => {
+    const ifd: ExifIFD = new Map();
+    const at = base + offset;
+    if (offset <= 0 || at + 2 > view.byteLength) return ifd;
+    const count = view.getUint16(at, littleEndian);
+    for (let i = 0; i < count; i++) {
+        const entry = at + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        const tag = view.getUint16(entry, littleEndian);
+        const type = view.getUint16(entry + 2, littleEndian);
+        const n = view.getUint32(entry + 4, littleEndian);
+        const size = (TYPE_SIZES[type] || 0) * n;
+        if (size === 0) continue;
+        const valueAt = size > 4 ? base + view.getUint32(entry + 8, littleEndian) : entry + 8;
+        if (valueAt + size > view.byteLength) continue;
+        const bytes = new Uint8Array(view.buffer, view.byteOffset + valueAt, size);
+
+        let value: number[] | string;
+        if (type === 2) {
+            value = String.fromCharCode(...bytes).replace(/\0+$/, '').trim();
+        } else {
+            const values: number[] = [];
+            for (let k = 0; k < n; k++) {
+                const o = valueAt + k * TYPE_SIZES[type];
+                switch (type) {
+                    case 3: values.push(view.getUint16(o, littleEndian)); break;
+                    case 8: values.push(view.getInt16(o, littleEndian)); break;
+                    case 4: case 13: values.push(view.getUint32(o, littleEndian)); break;
+                    case 9: values.push(view.getInt32(o, littleEndian)); break;
+                    case 5: values.push(view.getUint32(o, littleEndian), view.getUint32(o + 4, littleEndian)); break;
+                    case 10: values.push(view.getInt32(o, littleEndian), view.getInt32(o + 4, littleEndian)); break;
+                    case 6: values.push(view.getInt8(o)); break;
+                    case 11: values.push(view.getFloat32(o, littleEndian)); break;
+                    case 12: values.push(view.getFloat64(o, littleEndian)); break;
+                    default: values.push(view.getUint8(o));
+                }
+            }
+            value = values;
+        }
+        ifd.set(tag, { type, count: n, value, bytes });
+    }
+    return ifd;
+};
+
+export const readExif = (buffer: ArrayBuffer): ExifData | null => {
+    const located = locateExif(buffer);
+    if (!located) return null;
+    const [start, length] = located;
+    if (length < 8 || start + 8 > buffer.byteLength) return null;
+    const view = new DataView(buffer, start, Math.min(length, buffer.byteLength - start));
+    const order = view.getUint16(0);
+    if (order !== 0x4949 && order !== 0x4D4D) return null;
+    const littleEndian = order === 0x4949;
+
+    const ifd0 = readIFD(view, 0, view.getUint32(4, littleEndian), littleEndian);
+    const pointer = (tag: number) => {
+        const v = ifd0.get(tag)?.value;
+        return Array.isArray(v) ? v[0] : 0;
+    };
+    const exif = readIFD(view, 0, pointer(TAG_EXIF_IFD), littleEndian);
+    const gps = readIFD(view, 0, pointer(TAG_GPS_IFD), littleEndian);
+    return { littleEndian, ifd0, exif, gps, makerNote: exif.get(TAG_MAKER_NOTE)?.bytes || null };
+};
+
+export const exifString = (ifd: ExifIFD, tag: number): string | null => {
+    const v = ifd.get(tag)?.value;
+    return typeof v === 'string' ? v : null;
+};
+
+// Numbers of a tag with rationals divided out
+export const exifNumbers = (ifd: ExifIFD, tag: number): number[] | null => {
+    const entry = ifd.get(tag);
+    if (!entry || !Array.isArray(entry.value)) return null;
+    if (entry.type !== 5 && entry.type !== 10) return entry.value;
+    const out = [];
+    for (let i = 0; i + 1 < entry.value.length; i += 2) out.push(entry.value[i + 1] ? entry.value[i] / entry.value[i + 1] : 0);
+    return out;
+};
+
+export interface ExifField {
+    label: string;
+    value: string;
+}
+
+const round = (v: number, digits: number) => String(Number(v.toFixed(digits)));
+
+// Degrees, minutes, seconds and the N/S (E/W) reference as signed decimal degrees
+const gpsCoordinate = (gps: ExifIFD, tag: number, refTag: number, negative: string): number | null => {
+    const dms = exifNumbers(gps, tag);
+    if (!dms || dms.length < 3) return null;
+    const degrees = dms[0] + dms[1] / 60 + dms[2] / 3600;
+    return exifString(gps, refTag)?.toUpperCase() === negative ? -degrees : degrees;
+};
+
+// The fields worth showing, in display order; missing tags are left out
+export const describeExif = (exif: ExifData): ExifField[] => {
+    const fields: ExifField[] = [];
+    const add = (label: string, value: string | null | undefined) => { if (value) fields.push({ label, value }); };
+    const { ifd0, exif: sub, gps } = exif;
+
+    const make = exifString(ifd0, TAG_MAKE), model = exifString(ifd0, TAG_MODEL);
+    // Most models already start with the make ("Canon EOS R5")
+    add('相机 (Camera)', model && make && !model.toLowerCase().startsWith(make.split(' ')[0].toLowerCase()) ? `${make} ${model}` : model || make);
+    add('镜头 (Lens)', exifString(sub, TAG_LENS_MODEL));
+    add('拍摄时间 (Taken)', exifString(sub, TAG_DATE_TIME_ORIGINAL) || exifString(ifd0, TAG_DATE_TIME));
+
+    const exposure = exifNumbers(sub, TAG_EXPOSURE_TIME)?.[0];
+    if (exposure) add('快门 (Shutter)', exposure < 1 ? `1/${Math.round(1 / exposure)} s` : `${round(exposure, 1)} s`);
+    const fNumber = exifNumbers(sub, TAG_F_NUMBER)?.[0];
+    if (fNumber) add('光圈 (Aperture)', `f/${round(fNumber, 1)}`);
+    const iso = exifNumbers(sub, TAG_ISO)?.[0];
+    if (iso) add('ISO', String(iso));
+    const bias = exifNumbers(sub, TAG_EXPOSURE_BIAS)?.[0];
+    if (bias !== undefined) add('曝光补偿 (Exp. Comp.)', `${bias > 0 ? '+' : ''}${round(bias, 1)} EV`);
+    const focal = exifNumbers(sub, TAG_FOCAL_LENGTH)?.[0], focal35 = exifNumbers(sub, TAG_FOCAL_LENGTH_35MM)?.[0];
+    if (focal) add('焦距 (Focal Length)', `${round(focal, 1)} mm${focal35 && Math.round(focal35) !== Math.round(focal) ? ` (${focal35} mm eq.)` : ''}`);
+
+    const orientation = exifNumbers(ifd0, TAG_ORIENTATION)?.[0];
+    if (orientation && orientation !== 1) add('方向 (Orientation)', String(orientation));
+    add('软件 (Software)', exifString(ifd0, TAG_SOFTWARE));
+    add('作者 (Artist)', exifString(ifd0, TAG_ARTIST));
+    add('版权 (Copyright)', exifString(ifd0, TAG_COPYRIGHT));
+
+    const lat = gpsCoordinate(gps, TAG_GPS_LATITUDE, TAG_GPS_LATITUDE_REF, 'S');
+    const lon = gpsCoordinate(gps, TAG_GPS_LONGITUDE, TAG_GPS_LONGITUDE_REF, 'W');
+    if (lat !== null && lon !== null) add('位置 (GPS)', `${lat.toFixed(5)}, ${lon.toFixed(5)}`);
+    const altitude = exifNumbers(gps, TAG_GPS_ALTITUDE)?.[0];
+    // Altitude ref 1 means below sea level
+    if (altitude !== undefined) add('海拔 (Altitude)', `${exifNumbers(gps, TAG_GPS_ALTITUDE_REF)?.[0] === 1 ? '-' : ''}${round(altitude, 1)} m`);
+    return fields;
+};
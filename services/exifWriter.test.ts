@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import {
+    ExifData, ExifEntry, ExifIFD, exifNumbers, exifString, readExif,
+    TAG_ARTIST, TAG_MAKE, TAG_MAKER_NOTE, TAG_ORIENTATION, TAG_SOFTWARE
+} from './exifReader';
+import { buildExifTIFF, embedExif, MetadataExportMode } from './exifWriter';
+
+const TAG_ISO = 0x8827;
+const TAG_PIXEL_X = 0xA002;
+const TAG_PIXEL_Y = 0xA003;
+const TAG_BODY_SERIAL = 0xA431;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+
+const ascii = (text: string): ExifEntry => {
+    const bytes = Uint8Array.from([...text, '\0'].map(c => c.charCodeAt(0)));
+    return { type: 2, count: bytes.length, value: text, bytes };
+};
+
+const short = (value: number, le: boolean): ExifEntry => {
+    const bytes = new Uint8Array(2);
+    new DataView(bytes.buffer).setUint16(0, value, le);
+    return { type: 3, count: 1, value: [value], bytes };
+};
+
+const long = (value: number, le: boolean): ExifEntry => {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value, le);
+    return { type: 4, count: 1, value: [value], bytes };
+};
+
+// A rotated camera file with personal data, GPS and a Fujifilm MakerNote
+const source = (le: boolean, makerNote = Uint8Array.from('FUJIFILM\x0c\0\0\0', c => c.charCodeAt(0))): ExifData => ({
+    littleEndian: le,
+    ifd0: new Map([[TAG_MAKE, ascii('FUJIFILM')], [TAG_ARTIST, ascii('A. Photographer')], [TAG_ORIENTATION, short(6, le)], [TAG_SOFTWARE, ascii('Camera 1.0')]]),
+    exif: new Map([[TAG_ISO, short(400, le)], [TAG_PIXEL_X, long(6000, le)], [TAG_PIXEL_Y, long(4000, le)], [TAG_BODY_SERIAL, ascii('12345')]]),
+    gps: new Map([[TAG_GPS_LATITUDE_REF, ascii('N')]]),
+    makerNote
+});
+
+// Minimal JPEG stream: SOI, optional JFIF APP0, EOI
+const SOI_EOI = new Uint8Array([0xFF, 0xD8, 0xFF, 0xD9]).buffer;
+const JFIF = new Uint8Array([0xFF, 0xD8, 0xFF, 0xE0, 0, 16, 0x4A, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0, 0xFF, 0xD9]).buffer;
+
+const roundTrip = (exif: ExifData, mode: MetadataExportMode) => {
+    const tiff = buildExifTIFF(exif, { mode, width: 3000, height: 2000 })!;
+    return readExif(embedExif(SOI_EOI, tiff).slice().buffer)!;
+};
+
+const tags = (ifd: ExifIFD) => [...ifd.keys()].sort((a, b) => a - b);
+
+describe('buildExifTIFF and embedExif', () => {
+    it.each([true, false])('reads back what it writes (little endian: %s)', le => {
+        const back = roundTrip(source(le), 'all');
+        expect(back.littleEndian).toBe(le);
+        expect(exifString(back.ifd0, TAG_MAKE)).toBe('FUJIFILM');
+        expect(exifString(back.ifd0, TAG_ARTIST)).toBe('A. Photographer');
+        expect(exifNumbers(back.exif, TAG_ISO)).toEqual([400]);
+        expect(exifString(back.gps, TAG_GPS_LATITUDE_REF)).toBe('N');
+        expect(Array.from(back.makerNote!)).toEqual(Array.from(source(le).makerNote!));
+    });
+
+    it('writes an upright orientation, this editor as the software and the exported size', () => {
+        const back = roundTrip(source(true), 'all');
+        expect(exifNumbers(back.ifd0, TAG_ORIENTATION)).toEqual([1]);
+        expect(exifString(back.ifd0, TAG_SOFTWARE)).toBe('ProGrade Ultra');
+        expect(exifNumbers(back.exif, TAG_PIXEL_X)).toEqual([3000]);
+        expect(exifNumbers(back.exif, TAG_PIXEL_Y)).toEqual([2000]);
+    });
+
+    it('drops GPS without location', () => {
+        const back = roundTrip(source(true), 'no-gps');
+        expect(back.gps.size).toBe(0);
+        expect(exifString(back.ifd0, TAG_ARTIST)).toBe('A. Photographer');
+        expect(back.makerNote).not.toBeNull();
+    });
+
+    it('drops GPS, the MakerNote and who took the photo without personal data', () => {
+        const back = roundTrip(source(true), 'no-personal');
+        expect(back.gps.size).toBe(0);
+        expect(back.makerNote).toBeNull();
+        expect(tags(back.ifd0)).toEqual([TAG_MAKE, TAG_ORIENTATION, TAG_SOFTWARE, 0x8769]);
+        expect(tags(back.exif)).toEqual([TAG_ISO, TAG_PIXEL_X, TAG_PIXEL_Y]);
+    });
+
+    it('keeps only a Fujifilm MakerNote', () => {
+        const other = Uint8Array.from('Nikon\0\x02\x10', c => c.charCodeAt(0));
+        expect(roundTrip(source(true, other), 'all').makerNote).toBeNull();
+    });
+
+    it('leaves out a MakerNote that does not fit in one segment, then the whole block', () => {
+        const note = new Uint8Array(70000);
+        note.set(Uint8Array.from('FUJIFILM', c => c.charCodeAt(0)));
+        const back = roundTrip(source(true, note), 'all');
+        expect(back.makerNote).toBeNull();
+        expect(back.exif.has(TAG_MAKER_NOTE)).toBe(false);
+        expect(exifString(back.ifd0, TAG_MAKE)).toBe('FUJIFILM');
+
+        const large = source(true);
+        large.ifd0.set(TAG_ARTIST, ascii('x'.repeat(70000)));
+        expect(buildExifTIFF(large, { mode: 'all', width: 1, height: 1 })).toBeNull();
+    });
+
+    it('places the segment after a JFIF APP0', () => {
+        const out = embedExif(JFIF, buildExifTIFF(source(true), { mode: 'all', width: 1, height: 1 })!);
+        expect(Array.from(out.subarray(0, 4))).toEqual([0xFF, 0xD8, 0xFF, 0xE0]);
+        expect(Array.from(out.subarray(20, 22))).toEqual([0xFF, 0xE1]);
+        expect(Array.from(out.subarray(out.length - 2))).toEqual([0xFF, 0xD9]);
+        expect(exifString(readExif(out.slice().buffer)!.ifd0, TAG_MAKE)).toBe('FUJIFILM');
+    });
+
+    it('rejects a stream that is not a JPEG', () => {
+        expect(() => embedExif(new Uint8Array([0x89, 0x50, 0x4E, 0x47]).buffer, new Uint8Array(8))).toThrow();
+    });
+});
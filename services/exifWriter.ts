@@ -0,0 +1,165 @@
+
+import {
+    ExifData, ExifEntry, ExifIFD, TYPE_SIZES,
+    TAG_IMAGE_DESCRIPTION, TAG_MAKE, TAG_MODEL, TAG_ORIENTATION, TAG_SOFTWARE, TAG_DATE_TIME, TAG_ARTIST, TAG_COPYRIGHT,
+    TAG_EXIF_IFD, TAG_GPS_IFD, TAG_MAKER_NOTE
+} from './exifReader';
+
+// --- EXIF export: rebuild the source metadata as an APP1 segment for the exported JPEG ---
+// Only descriptive tags are carried over: the source's image structure (strips, tiles, DNG tags, thumbnails) does
+// not describe the new file. Entries keep the source byte order so their value bytes are copied unchanged.
+
+export type MetadataExportMode = 'all' | 'no-gps' | 'no-personal';
+
+const EXPORT_SOFTWARE = 'ProGrade Ultra';
+
+// IFD0 tags that still hold for the exported image
+const IFD0_TAGS = [TAG_IMAGE_DESCRIPTION, TAG_MAKE, TAG_MODEL, 0x011A, 0x011B, 0x0128, TAG_DATE_TIME, TAG_ARTIST, TAG_COPYRIGHT];
+
+// Exif IFD tags that describe the old file's layout (interoperability pointer, pixel dimensions)
+const EXIF_STRUCTURE_TAGS = [0xA005, 0xA002, 0xA003];
+
+// Who took the photo and with which body: removed with "no personal data", along with GPS and the MakerNote
+const PERSONAL_IFD0_TAGS = [TAG_IMAGE_DESCRIPTION, TAG_ARTIST, TAG_COPYRIGHT];
+const PERSONAL_EXIF_TAGS = [0x9286, 0xA420, 0xA430, 0xA431, 0xA435]; // UserComment, ImageUniqueID, owner, body and lens serials
+
+// APP1 segment length is a 16-bit field that counts itself and the "Exif\0\0" header
+const MAX_TIFF_BYTES = 0xFFFF - 2 - 6;
+
+interface WriteEntry {
+    tag: number;
+    type: number;
+    count: number;
+    bytes: Uint8Array;
+}
+
+export interface ExifExportOptions {
+    mode: MetadataExportMode;
+    width: number;
+    height: number;
+}
+
+const entryOf = (tag: number, entry: ExifEntry): WriteEntry => ({ tag, type: entry.type, count: entry.count, bytes: entry.bytes });
+
+const shortEntry = (tag: number, value: number, le: boolean): WriteEntry => {
+    const bytes = new Uint8Array(2);
+    new DataView(bytes.buffer).setUint16(0, value, le);
+    return { tag, type: 3, count: 1, bytes };
+};
+
+const longEntry = (tag: number, value: number, le: boolean): WriteEntry => {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value, le);
+    return { tag, type: 4, count: 1, bytes };
+};
+
+const asciiEntry = (tag: number, text: string): WriteEntry => {
+    const bytes = new Uint8Array(text.length + 1);
+    for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0x7F;
+    return { tag, type: 2, count: bytes.length, bytes };
+};
+
+const copyTags = (ifd: ExifIFD, keep: (tag: number) => boolean): WriteEntry[] => {
+    const out: WriteEntry[] = [];
+    ifd.forEach((entry, tag) => { if (keep(tag) && TYPE_SIZES[entry.type]) out.push(entryOf(tag, entry)); });
+    return out;
+};
+
+// Bytes an IFD takes: entry table, next-IFD link, then out-of-line values (word aligned)
+const ifdSize = (entries: WriteEntry[]) =>
+    2 + entries.length * 12 + 4 + entries.reduce((sum, e) => sum + (e.bytes.length > 4 ? e.bytes.length + (e.bytes.length & 1) : 0), 0);
+
+// Serialise IFDs back to back after the 8-byte header; `pointers` fills in the offsets of the later IFDs
+const writeTIFF = (ifds: WriteEntry[][], le: boolean, pointers: (offsets: number[]) => void): Uint8Array => {
+    const offsets: number[] = [];
+    let total = 8;
+    for (const ifd of ifds) { offsets.push(total); total += ifdSize(ifd); }
+    pointers(offsets);
+
+    const out = new Uint8Array(total);
+    const view = new DataView(out.buffer);
+    view.setUint16(0, le ? 0x4949 : 0x4D4D);
+    view.setUint16(2, 42, le);
+    view.setUint32(4, 8, le);
+    ifds.forEach((ifd, n) => {
+        const entries = [...ifd].sort((a, b) => a.tag - b.tag);
+        let p = offsets[n];
+        let data = p + 2 + entries.length * 12 + 4;
+        view.setUint16(p, entries.length, le);
+        p += 2;
+        for (const e of entries) {
+            view.setUint16(p, e.tag, le);
+            view.setUint16(p + 2, e.type, le);
+            view.setUint32(p + 4, e.count, le);
+            if (e.bytes.length <= 4) {
+                out.set(e.bytes, p + 8);
+            } else {
+                view.setUint32(p + 8, data, le);
+                out.set(e.bytes, data);
+                data += e.bytes.length + (e.bytes.length & 1);
+            }
+            p += 12;
+        }
+        // Next-IFD link stays 0: no thumbnail IFD
+    });
+    return out;
+};
+
+// The source metadata as the TIFF body of an APP1 segment, or null when it does not fit in one
+export const buildExifTIFF = (exif: ExifData, options: ExifExportOptions): Uint8Array | null => {
+    const le = exif.littleEndian;
+    const personal = options.mode === 'no-personal';
+    const withGPS = options.mode === 'all' && exif.gps.size > 0;
+
+    const ifd0 = copyTags(exif.ifd0, tag => IFD0_TAGS.includes(tag) && !(personal && PERSONAL_IFD0_TAGS.includes(tag)));
+    // Every source is upright by the time it is edited (the browser turns JPEGs, the RAW loaders turn developed
+    // and preview frames), so the export's orientation is 1; the Software tag names this editor
+    ifd0.push(shortEntry(TAG_ORIENTATION, 1, le), asciiEntry(TAG_SOFTWARE, EXPORT_SOFTWARE));
+
+    const exifIFD = copyTags(exif.exif, tag =>
+        tag !== TAG_MAKER_NOTE && !EXIF_STRUCTURE_TAGS.includes(tag) && !(personal && PERSONAL_EXIF_TAGS.includes(tag)));
+    exifIFD.push(longEntry(0xA002, options.width, le), longEntry(0xA003, options.height, le));
+    // Only a Fujifilm MakerNote survives relocation: its offsets are relative to the note, other vendors' point into the old file
+    const note = exif.makerNote;
+    const fujiNote = note && !personal && String.fromCharCode(...note.subarray(0, 8)) === 'FUJIFILM' ? note : null;
+
+    const gps = withGPS ? copyTags(exif.gps, () => true) : [];
+
+    const build = (makerNote: Uint8Array | null) => {
+        const exifEntries = makerNote ? [...exifIFD, { tag: TAG_MAKER_NOTE, type: 7, count: makerNote.length, bytes: makerNote }] : exifIFD;
+        const exifPointer = longEntry(TAG_EXIF_IFD, 0, le);
+        const gpsPointer = longEntry(TAG_GPS_IFD, 0, le);
+        const ifds = [[...ifd0, exifPointer, ...(withGPS ? [gpsPointer] : [])], exifEntries, ...(withGPS ? [gps] : [])];
+        return writeTIFF(ifds, le, offsets => {
+            new DataView(exifPointer.bytes.buffer).setUint32(0, offsets[1], le);
+            if (withGPS) new DataView(gpsPointer.bytes.buffer).setUint32(0, offsets[2], le);
+        });
+    };
+
+    let tiff = build(fujiNote);
+    if (tiff.length > MAX_TIFF_BYTES && fujiNote) tiff = build(null);
+    if (tiff.length > MAX_TIFF_BYTES) {
+        console.warn("EXIF: Metadata does not fit in one APP1 segment, exporting without it.");
+        return null;
+    }
+    return tiff;
+};
+
+// Insert an APP1 "Exif" segment after SOI (and after a JFIF APP0, which must come first)
+export const embedExif = (jpeg: ArrayBuffer, tiff: Uint8Array): Uint8Array => {
+    const bytes = new Uint8Array(jpeg);
+    if (bytes[0] !== 0xFF || bytes[1] !== 0xD8) throw new Error("Not a JPEG stream");
+    let at = 2;
+    if (bytes[2] === 0xFF && bytes[3] === 0xE0) at = 4 + ((bytes[4] << 8) | bytes[5]);
+
+    const length = 2 + 6 + tiff.length;
+    const segment = new Uint8Array(2 + length);
+    segment.set([0xFF, 0xE1, length >> 8, length & 0xFF, 0x45, 0x78, 0x69, 0x66, 0, 0]);
+    segment.set(tiff, 10);
+
+    const out = new Uint8Array(bytes.length + segment.length);
+    out.set(bytes.subarray(0, at));
+    out.set(segment, at);
+    out.set(bytes.subarray(at), at + segment.length);
+    return out;
+};
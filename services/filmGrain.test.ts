@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { GRAIN_PROFILES, grainClumpSize, grainResponseAt, sampleGrain } from './filmGrain';
+
+// Mean, standard deviation and neighbour correlation of the grain field over a square
+const stats = (clump: number, seed: number, size = 200) => {
+    let sum = 0, sumSq = 0, sumNext = 0, min = Infinity, max = -Infinity;
+    const n = size * size;
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            const v = sampleGrain(x, y, clump, seed);
+            sum += v; sumSq += v * v; sumNext += v * sampleGrain(x + 1, y, clump, seed);
+            min = Math.min(min, v); max = Math.max(max, v);
+        }
+    }
+    const mean = sum / n, variance = sumSq / n - mean * mean;
+    return { mean, std: Math.sqrt(variance), correlation: (sumNext / n - mean * mean) / variance, min, max };
+};
+
+describe('grainClumpSize', () => {
+    it('scales with the long edge relative to a 6000px frame', () => {
+        expect(grainClumpSize(2, 6000, 4000)).toBe(4);
+        expect(grainClumpSize(2, 4000, 6000)).toBe(4);
+        expect(grainClumpSize(3, 1500, 1000)).toBe(1.5);
+    });
+
+    it('never drops below half a pixel', () => {
+        expect(grainClumpSize(1, 600, 400)).toBe(0.5);
+    });
+});
+
+describe('grainResponseAt', () => {
+    const response = { shadows: 60, midtones: 100, highlights: 40 };
+
+    it('uses the shadow and highlight weights at the ends and blends them in between', () => {
+        expect(grainResponseAt(0, response)).toBeCloseTo(0.6, 6);
+        expect(grainResponseAt(1, response)).toBeCloseTo(0.4, 6);
+        // 1/4 shadows + 1/2 midtones + 1/4 highlights
+        expect(grainResponseAt(0.5, response)).toBeCloseTo(0.75, 6);
+    });
+
+    it('clamps luma outside 0-1', () => {
+        expect(grainResponseAt(-0.5, response)).toBeCloseTo(0.6, 6);
+        expect(grainResponseAt(2, response)).toBeCloseTo(0.4, 6);
+    });
+});
+
+describe('sampleGrain', () => {
+    it('is white noise centred on 0 at pixel scale', () => {
+        const s = stats(1, 7);
+        expect(Math.abs(s.mean)).toBeLessThan(0.01);
+        expect(s.std).toBeCloseTo(1 / Math.sqrt(12), 2);
+        expect(Math.abs(s.correlation)).toBeLessThan(0.05);
+        expect(s.min).toBeGreaterThanOrEqual(-0.5);
+        expect(s.max).toBeLessThan(0.5);
+    });
+
+    it('clumps above pixel scale with a comparable spread', () => {
+        const s = stats(8, 7);
+        expect(Math.abs(s.mean)).toBeLessThan(0.02);
+        expect(s.std).toBeGreaterThan(0.18);
+        expect(s.std).toBeLessThan(0.3);
+        expect(s.correlation).toBeGreaterThan(0.9);
+    });
+
+    it('depends only on position and seed', () => {
+        expect(sampleGrain(1234, 567, 4, 1)).toBe(sampleGrain(1234, 567, 4, 1));
+        expect(sampleGrain(1234, 567, 4, 1)).not.toBe(sampleGrain(1234, 567, 4, 2));
+    });
+});
+
+describe('GRAIN_PROFILES', () => {
+    it('has unique ids and an off profile without grain', () => {
+        expect(new Set(GRAIN_PROFILES.map(p => p.id)).size).toBe(GRAIN_PROFILES.length);
+        expect(GRAIN_PROFILES.find(p => p.id === 'off')?.amount).toBe(0);
+    });
+});
@@ -0,0 +1,69 @@
+
+import { GrainResponse } from '../types';
+
+export interface GrainProfile {
+  id: string;
+  name: string;
+  amount: number; // 0 - 100
+  size: number;   // 1 - 5
+  chroma: number; // 0 - 100
+  response: GrainResponse;
+}
+
+// Fujifilm "Grain Effect" (Weak/Strong x Small/Large) followed by a few classic film stocks
+export const GRAIN_PROFILES: GrainProfile[] = [
+  { id: 'off', name: '关闭 (Off)', amount: 0, size: 2, chroma: 0, response: { shadows: 60, midtones: 100, highlights: 40 } },
+  { id: 'weak-small', name: 'Grain Effect: Weak / Small', amount: 25, size: 1, chroma: 5, response: { shadows: 60, midtones: 100, highlights: 40 } },
+  { id: 'weak-large', name: 'Grain Effect: Weak / Large', amount: 25, size: 3, chroma: 5, response: { shadows: 60, midtones: 100, highlights: 40 } },
+  { id: 'strong-small', name: 'Grain Effect: Strong / Small', amount: 50, size: 1, chroma: 5, response: { shadows: 60, midtones: 100, highlights: 40 } },
+  { id: 'strong-large', name: 'Grain Effect: Strong / Large', amount: 50, size: 3, chroma: 5, response: { shadows: 60, midtones: 100, highlights: 40 } },
+  { id: 'acros-100', name: 'ACROS 100', amount: 30, size: 2, chroma: 0, response: { shadows: 40, midtones: 100, highlights: 60 } },
+  { id: 'tri-x-400', name: 'Tri-X 400', amount: 55, size: 3, chroma: 0, response: { shadows: 70, midtones: 100, highlights: 50 } },
+  { id: 'neopan-1600', name: 'Neopan 1600', amount: 70, size: 4, chroma: 0, response: { shadows: 80, midtones: 100, highlights: 60 } },
+  { id: 'portra-400', name: 'Portra 400', amount: 25, size: 2, chroma: 25, response: { shadows: 80, midtones: 70, highlights: 30 } },
+  { id: 'superia-400', name: 'Superia 400', amount: 35, size: 2, chroma: 40, response: { shadows: 90, midtones: 80, highlights: 40 } },
+  { id: 'cinestill-800t', name: 'CineStill 800T', amount: 40, size: 3, chroma: 35, response: { shadows: 90, midtones: 80, highlights: 40 } }
+];
+
+// Integer hash of a lattice coordinate -> [0, 1)
+const hash2 = (x: number, y: number, seed: number): number => {
+  let h = Math.imul(x, 0x27d4eb2d) ^ Math.imul(y, 0x165667b1) ^ Math.imul(seed, 0x9e3779b9);
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+};
+
+// Smoothly interpolated lattice noise, centered on 0
+const valueNoise = (fx: number, fy: number, seed: number): number => {
+  const x0 = Math.floor(fx), y0 = Math.floor(fy);
+  let tx = fx - x0, ty = fy - y0;
+  tx = tx * tx * (3 - 2 * tx);
+  ty = ty * ty * (3 - 2 * ty);
+  const a = hash2(x0, y0, seed), b = hash2(x0 + 1, y0, seed);
+  const c = hash2(x0, y0 + 1, seed), d = hash2(x0 + 1, y0 + 1, seed);
+  return a + (b - a) * tx + (c - a) * ty + (a - b - c + d) * tx * ty - 0.5;
+};
+
+// Interpolation lowers the spread of value noise; this brings it back to that of white noise
+const VALUE_NOISE_GAIN = 1.35;
+
+// Grain clump diameter in pixels for a given size setting, relative to a 6000px-wide (24MP) frame,
+// so the grain covers the same share of the picture at any resolution or proxy scale.
+export const grainClumpSize = (grainSize: number, fullWidth: number, fullHeight: number): number => {
+  return Math.max(0.5, grainSize * Math.max(fullWidth, fullHeight) / 3000);
+};
+
+// Grain sample at an image position: clumped coarse noise plus a finer octave, or white noise at pixel scale.
+// Position-based, so stripes and regions rendered separately line up.
+export const sampleGrain = (x: number, y: number, clump: number, seed: number): number => {
+  if (clump <= 1) return hash2(x, y, seed) - 0.5;
+  const fx = x / clump, fy = y / clump;
+  return (valueNoise(fx, fy, seed) * 0.75 + valueNoise(fx * 2.1, fy * 2.1, seed + 101) * 0.25) * VALUE_NOISE_GAIN;
+};
+
+// Grain visibility by tone (0-1 display luma), blended from the shadow/midtone/highlight weights
+export const grainResponseAt = (luma: number, response: GrainResponse): number => {
+  const l = Math.max(0, Math.min(1, luma));
+  const ws = (1 - l) * (1 - l), wm = 2 * l * (1 - l), wh = l * l;
+  return (response.shadows * ws + response.midtones * wm + response.highlights * wh) / 100;
+};
@@ -0,0 +1,192 @@
+
+import { FilmProfile, FilmProfileId, FilmSimulation, ProfileCurve, ProfileTint } from '../types';
+
+// --- Film profiles: each simulation as data (matrix, channel curves, tints, rolloff) ---
+// Profiles are exchanged as JSON; `version` lets older files be upgraded as the format grows.
+
+export const FILM_PROFILE_VERSION = 1;
+
+export class FilmProfileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FilmProfileError';
+    }
+}
+
+const IDENTITY_MATRIX = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+const NO_TINT: ProfileTint = { gain: [1, 1, 1], threshold: 128, softness: 0 };
+
+const curve = (contrast: number, offset = 0, black = 0, white = 255): ProfileCurve => ({ contrast, offset, black, white });
+
+// Same mix for all three rows: a B&W conversion
+const greyMatrix = (r: number, g: number, b: number) => [r, g, b, r, g, b, r, g, b];
+
+const builtIn = (film: FilmSimulation, matrix: number[], c: ProfileCurve, extra: Partial<FilmProfile> = {}): FilmProfile => ({
+    version: FILM_PROFILE_VERSION,
+    id: film,
+    name: film,
+    matrix,
+    curves: { r: c, g: { ...c }, b: { ...c } },
+    shadowTint: NO_TINT,
+    highlightTint: NO_TINT,
+    saturationRolloff: { start: 1, amount: 0 },
+    monochrome: false,
+    ...extra
+});
+
+// Approximations of each simulation's look
+export const BUILT_IN_PROFILES: FilmProfile[] = [
+    // Standard S-Curve
+    builtIn(FilmSimulation.Provia, IDENTITY_MATRIX, curve(4.5)),
+    // Vivid: Boost saturation and separation, very high contrast
+    builtIn(FilmSimulation.Velvia, [
+        1.15, -0.05, -0.1,
+        -0.05, 1.15, -0.1,
+        -0.1, -0.1, 1.20
+    ], curve(6.5)),
+    // Soft, skin tone friendly (Boost Red/Yellow slightly)
+    builtIn(FilmSimulation.Astia, [
+        1.05, 0.05, -0.1,
+        0.00, 1.00, 0.00,
+        -0.05, 0.00, 1.05
+    ], curve(4.5)),
+    // Muted colors, Cyan skies, Earthy reds; hard shadows
+    builtIn(FilmSimulation.ClassicChrome, [
+        0.75, 0.20, 0.05,
+        0.10, 0.85, 0.05,
+        0.00, 0.10, 0.90
+    ], curve(5.5, 0.05)),
+    // High fidelity, punchy
+    builtIn(FilmSimulation.RealaAce, [
+        1.05, 0.00, -0.05,
+        -0.02, 1.04, -0.02,
+        -0.05, 0.00, 1.05
+    ], curve(4.5)),
+    // Portrait film, punchier: restrained saturation, warm skin, medium-hard
+    builtIn(FilmSimulation.ProNegHi, [
+        0.94, 0.08, -0.02,
+        0.03, 0.93, 0.04,
+        -0.02, 0.07, 0.95
+    ], curve(5.0)),
+    // Portrait film, soft: lower saturation than Hi, neutral greens, open shadows
+    builtIn(FilmSimulation.ProNegStd, [
+        0.88, 0.10, 0.02,
+        0.05, 0.89, 0.06,
+        0.02, 0.08, 0.90
+    ], curve(3.8, -0.02)),
+    // High contrast colors. Red -> Orange/Magenta, Blue -> Cyan/Green; cool shadows, warm highlights
+    builtIn(FilmSimulation.ClassicNeg, [
+        0.95, 0.05, 0.00,
+        0.00, 1.05, 0.00,
+        0.00, 0.10, 0.90
+    ], curve(6.0), {
+        shadowTint: { gain: [1, 1, 1.05], threshold: 100, softness: 0 },
+        highlightTint: { gain: [1.05, 1, 1], threshold: 150, softness: 0 }
+    }),
+    // Amber shift
+    builtIn(FilmSimulation.NostalgicNeg, [
+        1.10, 0.10, -0.2,
+        0.05, 0.95, 0.00,
+        -0.1, 0.10, 1.00
+    ], curve(4.5)),
+    // Cinema: Low saturation, flat, lifted blacks
+    builtIn(FilmSimulation.Eterna, [
+        0.90, 0.10, 0.00,
+        0.05, 0.90, 0.05,
+        0.00, 0.10, 0.90
+    ], curve(3.5, 0, 10, 239.5)),
+    // Silver retained in the print: 40% of the colour, slightly cool, very hard with dense shadows
+    builtIn(FilmSimulation.EternaBleach, [
+        0.5794, 0.3522, 0.0684,
+        0.1794, 0.7522, 0.0684,
+        0.182988, 0.359244, 0.477768
+    ], curve(7.5, 0.04)),
+    // Punchy B&W with the filter's channel mix
+    builtIn(FilmSimulation.Acros, greyMatrix(0.3, 0.6, 0.1), curve(5.0), { monochrome: true }),
+    builtIn(FilmSimulation.AcrosYe, greyMatrix(0.4, 0.55, 0.05), curve(5.0), { monochrome: true }),
+    builtIn(FilmSimulation.AcrosR, greyMatrix(0.5, 0.45, 0.05), curve(5.0), { monochrome: true }),
+    builtIn(FilmSimulation.AcrosG, greyMatrix(0.2, 0.7, 0.1), curve(5.0), { monochrome: true }),
+    // Plain panchromatic B&W (luma weights), softer than ACROS
+    builtIn(FilmSimulation.Monochrome, greyMatrix(0.299, 0.587, 0.114), curve(4.5), { monochrome: true }),
+    // Strong warm tone with a touch of magenta
+    builtIn(FilmSimulation.Sepia, greyMatrix(0.299, 0.587, 0.114), curve(4.2), { toning: { warmCool: 14, magentaGreen: 3 } })
+];
+
+export const isBuiltInProfile = (id: FilmProfileId) => BUILT_IN_PROFILES.some(p => p.id === id);
+
+// The profile for a film selection; null for None (and for a custom profile that no longer exists)
+export const resolveFilmProfile = (id: FilmProfileId, custom: FilmProfile[]): FilmProfile | null =>
+    BUILT_IN_PROFILES.find(p => p.id === id) || custom.find(p => p.id === id) || null;
+
+// Editable copy of a profile under a new id
+export const cloneProfile = (profile: FilmProfile, name: string): FilmProfile => ({
+    ...JSON.parse(JSON.stringify(profile)),
+    version: FILM_PROFILE_VERSION,
+    id: `profile-${Date.now()}`,
+    name,
+    createdAt: Date.now()
+});
+
+export const serializeProfile = (profile: FilmProfile): string => {
+    const { createdAt, ...data } = profile;
+    return JSON.stringify({ ...data, version: FILM_PROFILE_VERSION }, null, 2) + '\n';
+};
+
+// --- JSON import: validate field by field so a bad file names what is wrong ---
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const readNumbers = (v: unknown, length: number, field: string): number[] => {
+    if (!Array.isArray(v) || v.length !== length || !v.every(isNumber)) throw new FilmProfileError(`${field} must be ${length} numbers`);
+    return v;
+};
+
+const readCurve = (v: any, field: string): ProfileCurve => {
+    if (!v || typeof v !== 'object') throw new FilmProfileError(`${field} is missing`);
+    const c = { ...curve(4.5), ...v };
+    for (const key of ['contrast', 'offset', 'black', 'white'] as const) {
+        if (!isNumber(c[key])) throw new FilmProfileError(`${field}.${key} must be a number`);
+    }
+    if (c.contrast <= 0) throw new FilmProfileError(`${field}.contrast must be positive`);
+    return { contrast: c.contrast, offset: c.offset, black: c.black, white: c.white };
+};
+
+const readTint = (v: any, field: string): ProfileTint => {
+    if (v === undefined) return NO_TINT;
+    const gain = readNumbers(v.gain, 3, `${field}.gain`) as [number, number, number];
+    if (!isNumber(v.threshold)) throw new FilmProfileError(`${field}.threshold must be a number`);
+    return { gain, threshold: v.threshold, softness: isNumber(v.softness) ? Math.max(0, v.softness) : 0 };
+};
+
+export const parseProfileJSON = (text: string): FilmProfile => {
+    let json: any;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        throw new FilmProfileError('Not a JSON file');
+    }
+    if (!json || typeof json !== 'object') throw new FilmProfileError('Not a film profile');
+    if (!isNumber(json.version)) throw new FilmProfileError('version is missing');
+    if (json.version > FILM_PROFILE_VERSION) throw new FilmProfileError(`Profile version ${json.version} is newer than supported (${FILM_PROFILE_VERSION})`);
+    if (typeof json.name !== 'string' || !json.name.trim()) throw new FilmProfileError('name is missing');
+    if (!json.curves || typeof json.curves !== 'object') throw new FilmProfileError('curves is missing');
+
+    const rolloff = json.saturationRolloff || {};
+    return {
+        version: FILM_PROFILE_VERSION,
+        id: typeof json.id === 'string' && json.id ? json.id : `profile-${Date.now()}`,
+        name: json.name.trim(),
+        matrix: readNumbers(json.matrix, 9, 'matrix'),
+        curves: { r: readCurve(json.curves.r, 'curves.r'), g: readCurve(json.curves.g, 'curves.g'), b: readCurve(json.curves.b, 'curves.b') },
+        shadowTint: readTint(json.shadowTint, 'shadowTint'),
+        highlightTint: readTint(json.highlightTint, 'highlightTint'),
+        saturationRolloff: {
+            start: isNumber(rolloff.start) ? Math.max(0, Math.min(1, rolloff.start)) : 1,
+            amount: isNumber(rolloff.amount) ? Math.max(0, Math.min(1, rolloff.amount)) : 0
+        },
+        monochrome: json.monochrome === true,
+        toning: json.toning && isNumber(json.toning.warmCool) && isNumber(json.toning.magentaGreen)
+            ? { warmCool: json.toning.warmCool, magentaGreen: json.toning.magentaGreen }
+            : undefined
+    };
+};
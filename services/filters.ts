@@ -0,0 +1,57 @@
+
+// --- Separable neighbourhood filters shared by the renderer and mask tools ---
+
+// Separable box blur with clamped edges, repeated `passes` times
+export const boxBlur = (src: Float32Array, width: number, height: number, radius: number, passes: number): Float32Array => {
+    let a = src.slice();
+    let b = new Float32Array(src.length);
+    const norm = 1 / (radius * 2 + 1);
+    for (let pass = 0; pass < passes; pass++) {
+        // Horizontal: a -> b
+        for (let y = 0; y < height; y++) {
+            const row = y * width;
+            let sum = 0;
+            for (let k = -radius; k <= radius; k++) sum += a[row + Math.max(0, Math.min(width - 1, k))];
+            for (let x = 0; x < width; x++) {
+                b[row + x] = sum * norm;
+                sum += a[row + Math.min(width - 1, x + radius + 1)] - a[row + Math.max(0, x - radius)];
+            }
+        }
+        // Vertical: b -> a
+        for (let x = 0; x < width; x++) {
+            let sum = 0;
+            for (let k = -radius; k <= radius; k++) sum += b[Math.max(0, Math.min(height - 1, k)) * width + x];
+            for (let y = 0; y < height; y++) {
+                a[y * width + x] = sum * norm;
+                sum += b[Math.min(height - 1, y + radius + 1) * width + x] - b[Math.max(0, y - radius) * width + x];
+            }
+        }
+    }
+    return a;
+};
+
+// Sliding-window max (dilate) or min (erode) along one axis, O(n) per line with a monotonic deque
+const extremeLine = (src: Uint8Array, dst: Uint8Array, start: number, stride: number, length: number, radius: number, isMax: boolean, deque: Int32Array) => {
+    let head = 0, tail = 0;
+    let next = 0; // Next source index to enter the window
+    for (let i = 0; i < length; i++) {
+        const reach = Math.min(length - 1, i + radius);
+        while (next <= reach) {
+            const v = src[start + next * stride];
+            while (tail > head && (isMax ? src[start + deque[tail - 1] * stride] <= v : src[start + deque[tail - 1] * stride] >= v)) tail--;
+            deque[tail++] = next++;
+        }
+        while (deque[head] < i - radius) head++;
+        dst[start + i * stride] = src[start + deque[head] * stride];
+    }
+};
+
+// Square-window grey dilation (isMax) or erosion of an 8-bit plane
+export const extremeFilter = (src: Uint8Array, width: number, height: number, radius: number, isMax: boolean): Uint8Array => {
+    const tmp = new Uint8Array(src.length);
+    const out = new Uint8Array(src.length);
+    const deque = new Int32Array(Math.max(width, height));
+    for (let y = 0; y < height; y++) extremeLine(src, tmp, y * width, 1, width, radius, isMax, deque);
+    for (let x = 0; x < width; x++) extremeLine(tmp, out, x, width, height, radius, isMax, deque);
+    return out;
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { FilmSimulation } from '../types';
+import { ExifData } from './exifReader';
+import { readFujiMakerNote } from './fujiMakerNote';
+
+// A "FUJIFILM" MakerNote holding one IFD of SHORT / SLONG entries, little-endian and note-relative
+const makerNote = (entries: [tag: number, type: 3 | 9, value: number][]): Uint8Array => {
+    const ifdOffset = 12;
+    const bytes = new Uint8Array(ifdOffset + 2 + entries.length * 12 + 4);
+    const view = new DataView(bytes.buffer);
+    'FUJIFILM'.split('').forEach((c, i) => { bytes[i] = c.charCodeAt(0); });
+    view.setUint32(8, ifdOffset, true);
+    view.setUint16(ifdOffset, entries.length, true);
+    entries.forEach(([tag, type, value], i) => {
+        const p = ifdOffset + 2 + i * 12;
+        view.setUint16(p, tag, true);
+        view.setUint16(p + 2, type, true);
+        view.setUint32(p + 4, 1, true);
+        if (type === 3) view.setUint16(p + 8, value, true);
+        else view.setInt32(p + 8, value, true);
+    });
+    return bytes;
+};
+
+const exifWith = (note: Uint8Array): ExifData => ({ littleEndian: true, ifd0: new Map(), exif: new Map(), gps: new Map(), makerNote: note });
+
+describe('readFujiMakerNote', () => {
+    it('reads the film simulation and dynamic range from their own tags', () => {
+        const recipe = readFujiMakerNote(exifWith(makerNote([
+            [0x1401, 3, 0x600], // FilmMode: Classic Chrome
+            [0x1402, 3, 0x000], // DynamicRangeSetting: Auto
+            [0x1403, 3, 200],   // DevelopmentDynamicRange
+            [0x1404, 3, 0x200]  // MinFocalLength, must not be read as anything
+        ])))!;
+        expect(recipe.filmSimulation).toBe(FilmSimulation.ClassicChrome);
+        expect(recipe.dynamicRange).toBe(200);
+    });
+
+    it('falls back to the dynamic range setting when no development range is recorded', () => {
+        const recipe = readFujiMakerNote(exifWith(makerNote([
+            [0x1401, 3, 0x800], // Classic Neg.
+            [0x1402, 3, 0x201]  // Wide2 (400%)
+        ])))!;
+        expect(recipe.filmSimulation).toBe(FilmSimulation.ClassicNeg);
+        expect(recipe.dynamicRange).toBe(400);
+    });
+
+    it('takes monochrome films from the saturation tag and tone steps from the effect tags', () => {
+        const recipe = readFujiMakerNote(exifWith(makerNote([
+            [0x1003, 3, 0x502], // Acros + Ye
+            [0x1040, 9, -32],   // Shadow Tone +2
+            [0x1041, 9, 8],     // Highlight Tone -0.5
+            [0x1047, 9, 32],    // Grain weak
+            [0x104C, 9, 32]     // Grain large
+        ])))!;
+        expect(recipe.filmSimulation).toBe(FilmSimulation.AcrosYe);
+        expect(recipe.shadowTone).toBe(2);
+        expect(recipe.highlightTone).toBe(-0.5);
+        expect(recipe.grainEffect).toEqual({ strength: 'weak', size: 'large' });
+    });
+
+    it('ignores notes from other makers', () => {
+        const note = makerNote([[0x1401, 3, 0x600]]);
+        note[0] = 0x4E;
+        expect(readFujiMakerNote(exifWith(note))).toBeNull();
+    });
+});
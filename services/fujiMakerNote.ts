@@ -0,0 +1,152 @@
+
+import { FilmSimulation, FujiRecipe, RecipeDynamicRange, RecipeEffectLevel } from '../types';
+import { ExifData, TAG_MAKE, TAG_MODEL, exifString, readIFD } from './exifReader';
+import { createDefaultRecipe } from './fujiRecipe';
+
+// --- Fujifilm MakerNote: the camera's own film simulation and image-quality settings ---
+// Layout: "FUJIFILM", then a little-endian offset to an IFD; all offsets are relative to the note start and
+// the note is little-endian even when the surrounding EXIF is not. Codes follow ExifTool's FujiFilm tables.
+
+const MAKER_NOTE_MAGIC = 'FUJIFILM';
+
+const TAG_SHARPNESS = 0x1001;
+const TAG_WHITE_BALANCE = 0x1002;
+const TAG_SATURATION = 0x1003;        // Color, or the monochrome film when it is one
+const TAG_COLOR_TEMPERATURE = 0x1005;
+const TAG_WB_FINE_TUNE = 0x100A;      // Red, blue; 20 units per shift step
+const TAG_NOISE_REDUCTION = 0x100E;
+const TAG_CLARITY = 0x100F;           // 1000 per step
+const TAG_SHADOW_TONE = 0x1040;       // -16 per step
+const TAG_HIGHLIGHT_TONE = 0x1041;
+const TAG_GRAIN_ROUGHNESS = 0x1047;
+const TAG_COLOR_CHROME = 0x1048;
+const TAG_BW_WARM_COOL = 0x1049;
+const TAG_BW_MAGENTA_GREEN = 0x104B;
+const TAG_GRAIN_SIZE = 0x104C;
+const TAG_COLOR_CHROME_BLUE = 0x104E;
+const TAG_FILM_MODE = 0x1401;
+const TAG_DYNAMIC_RANGE_SETTING = 0x1402;
+const TAG_DEVELOPMENT_DYNAMIC_RANGE = 0x1403;
+
+const FILM_MODES: Record<number, FilmSimulation> = {
+    0x000: FilmSimulation.Provia,
+    0x120: FilmSimulation.Astia,
+    0x200: FilmSimulation.Velvia,
+    0x400: FilmSimulation.Velvia,
+    0x500: FilmSimulation.ProNegStd,
+    0x501: FilmSimulation.ProNegHi,
+    0x600: FilmSimulation.ClassicChrome,
+    0x700: FilmSimulation.Eterna,
+    0x800: FilmSimulation.ClassicNeg,
+    0x900: FilmSimulation.EternaBleach,
+    0xA00: FilmSimulation.NostalgicNeg,
+    0xB00: FilmSimulation.RealaAce
+};
+
+// Saturation codes that select a monochrome film instead of a colour level
+const MONOCHROME_MODES: Record<number, FilmSimulation> = {
+    0x300: FilmSimulation.Monochrome,
+    0x301: FilmSimulation.Monochrome, // Red filter
+    0x302: FilmSimulation.Monochrome, // Yellow filter
+    0x303: FilmSimulation.Monochrome, // Green filter
+    0x310: FilmSimulation.Sepia,
+    0x500: FilmSimulation.Acros,
+    0x501: FilmSimulation.AcrosR,
+    0x502: FilmSimulation.AcrosYe,
+    0x503: FilmSimulation.AcrosG
+};
+
+const SATURATION_LEVELS: Record<number, number> = {
+    0x000: 0, 0x080: 1, 0x100: 2, 0x0C0: 3, 0x0E0: 4,
+    0x180: -1, 0x200: -2, 0x400: -2, 0x4C0: -3, 0x4E0: -4
+};
+
+const SHARPNESS_LEVELS: Record<number, number> = {
+    0x00: -4, 0x01: -3, 0x02: -2, 0x82: -1, 0x03: 0, 0x84: 1, 0x04: 2, 0x05: 3, 0x06: 4
+};
+
+const NOISE_REDUCTION_LEVELS: Record<number, number> = {
+    0x000: 0, 0x180: 1, 0x100: 2, 0x1C0: 3, 0x1E0: 4,
+    0x280: -1, 0x200: -2, 0x2C0: -3, 0x2E0: -4
+};
+
+const WHITE_BALANCE_MODES: Record<number, string> = {
+    0x000: 'Auto', 0x001: 'Auto (White Priority)', 0x002: 'Auto (Ambience Priority)',
+    0x100: 'Daylight', 0x200: 'Shade',
+    0x300: 'Fluorescent 1', 0x301: 'Fluorescent 2', 0x302: 'Fluorescent 3', 0x303: 'Fluorescent 4',
+    0x400: 'Incandescent', 0x500: 'Flash', 0x600: 'Underwater',
+    0xF00: 'Custom', 0xF01: 'Custom 2', 0xF02: 'Custom 3', 0xF03: 'Custom 4', 0xF04: 'Custom 5',
+    0xFF0: 'Kelvin'
+};
+
+const DYNAMIC_RANGE_SETTINGS: Record<number, RecipeDynamicRange> = { 0x100: 100, 0x200: 200, 0x201: 400 };
+
+const EFFECT_LEVELS: Record<number, RecipeEffectLevel> = { 0: 'off', 32: 'weak', 64: 'strong' };
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+// Settings as the camera recorded them; fields the body did not write stay at the recipe defaults
+export const readFujiMakerNote = (exif: ExifData): FujiRecipe | null => {
+    const note = exif.makerNote;
+    if (!note || note.length < 12) return null;
+    if (String.fromCharCode(...note.subarray(0, MAKER_NOTE_MAGIC.length)) !== MAKER_NOTE_MAGIC) return null;
+    const view = new DataView(note.buffer, note.byteOffset, note.byteLength);
+    const ifd = readIFD(view, 0, view.getUint32(8, true), true);
+    if (ifd.size === 0) return null;
+
+    const num = (tag: number, index = 0): number | null => {
+        const v = ifd.get(tag)?.value;
+        return Array.isArray(v) && v.length > index ? v[index] : null;
+    };
+    const recipe = createDefaultRecipe();
+
+    const saturation = num(TAG_SATURATION);
+    const film = num(TAG_FILM_MODE);
+    if (saturation !== null && MONOCHROME_MODES[saturation]) {
+        recipe.filmSimulation = MONOCHROME_MODES[saturation];
+        recipe.monochromaticColor = {
+            warmCool: clamp(num(TAG_BW_WARM_COOL) ?? 0, -18, 18),
+            magentaGreen: clamp(num(TAG_BW_MAGENTA_GREEN) ?? 0, -18, 18)
+        };
+    } else {
+        if (film !== null && FILM_MODES[film]) recipe.filmSimulation = FILM_MODES[film];
+        if (saturation !== null && SATURATION_LEVELS[saturation] !== undefined) recipe.color = SATURATION_LEVELS[saturation];
+    }
+
+    // Newer bodies record the applied range directly; older ones only the menu setting (Auto leaves DR100)
+    const developed = num(TAG_DEVELOPMENT_DYNAMIC_RANGE);
+    const drSetting = num(TAG_DYNAMIC_RANGE_SETTING);
+    if (developed === 200 || developed === 400) recipe.dynamicRange = developed;
+    else if (drSetting !== null && DYNAMIC_RANGE_SETTINGS[drSetting]) recipe.dynamicRange = DYNAMIC_RANGE_SETTINGS[drSetting];
+
+    const highlight = num(TAG_HIGHLIGHT_TONE), shadow = num(TAG_SHADOW_TONE);
+    if (highlight !== null) recipe.highlightTone = clamp(-highlight / 16, -2, 4);
+    if (shadow !== null) recipe.shadowTone = clamp(-shadow / 16, -2, 4);
+
+    const sharpness = num(TAG_SHARPNESS), nr = num(TAG_NOISE_REDUCTION), clarity = num(TAG_CLARITY);
+    if (sharpness !== null && SHARPNESS_LEVELS[sharpness] !== undefined) recipe.sharpness = SHARPNESS_LEVELS[sharpness];
+    if (nr !== null && NOISE_REDUCTION_LEVELS[nr] !== undefined) recipe.noiseReduction = NOISE_REDUCTION_LEVELS[nr];
+    if (clarity !== null) recipe.clarity = clamp(Math.round(clarity / 1000), -5, 5);
+
+    // Grain: roughness is the strength; size is 0 when grain is off
+    const roughness = num(TAG_GRAIN_ROUGHNESS);
+    if (roughness !== null && EFFECT_LEVELS[roughness]) {
+        recipe.grainEffect = { strength: EFFECT_LEVELS[roughness], size: num(TAG_GRAIN_SIZE) === 32 ? 'large' : 'small' };
+    }
+    const chrome = num(TAG_COLOR_CHROME), chromeBlue = num(TAG_COLOR_CHROME_BLUE);
+    if (chrome !== null && EFFECT_LEVELS[chrome]) recipe.colorChrome = EFFECT_LEVELS[chrome];
+    if (chromeBlue !== null && EFFECT_LEVELS[chromeBlue]) recipe.colorChromeBlue = EFFECT_LEVELS[chromeBlue];
+
+    const wb = num(TAG_WHITE_BALANCE);
+    if (wb !== null) recipe.whiteBalance.mode = WHITE_BALANCE_MODES[wb] || 'Auto';
+    const kelvin = num(TAG_COLOR_TEMPERATURE);
+    if (wb === 0xFF0 && kelvin) recipe.whiteBalance.kelvin = kelvin;
+    const red = num(TAG_WB_FINE_TUNE, 0), blue = num(TAG_WB_FINE_TUNE, 1);
+    if (red !== null && blue !== null) {
+        recipe.whiteBalance.red = clamp(Math.round(red / 20), -9, 9);
+        recipe.whiteBalance.blue = clamp(Math.round(blue / 20), -9, 9);
+    }
+
+    recipe.name = exifString(exif.ifd0, TAG_MODEL) || exifString(exif.ifd0, TAG_MAKE) || 'FUJIFILM';
+    return recipe;
+};
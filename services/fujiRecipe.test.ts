@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { Adjustments, FilmSimulation } from '../types';
+import { createDefaultRecipe, matchFilmSimulation, parseRecipeText, recipeToAdjustments } from './fujiRecipe';
+
+const base = { clarity: 0, curves: { parametric: {} } } as unknown as Adjustments;
+
+describe('recipeToAdjustments', () => {
+    it('turns negative sharpness into softening instead of dropping it', () => {
+        const soft = recipeToAdjustments({ ...createDefaultRecipe(), sharpness: -2 }, base);
+        const neutral = recipeToAdjustments(createDefaultRecipe(), base);
+        expect(soft.sharpening).toBe(0);
+        expect(soft.clarity).toBeLessThan(neutral.clarity);
+    });
+
+    it('keeps positive sharpness on the sharpening slider', () => {
+        const sharp = recipeToAdjustments({ ...createDefaultRecipe(), sharpness: 2 }, base);
+        expect(sharp.sharpening).toBe(25);
+        expect(sharp.clarity).toBe(0);
+    });
+});
+
+describe('recipe film simulations', () => {
+    it('recognises the PRO Neg., Bleach Bypass and Monochrome names', () => {
+        expect(matchFilmSimulation('PRO Neg. Hi')).toBe(FilmSimulation.ProNegHi);
+        expect(matchFilmSimulation('Pro Negative Standard')).toBe(FilmSimulation.ProNegStd);
+        expect(matchFilmSimulation('Eterna Bleach Bypass')).toBe(FilmSimulation.EternaBleach);
+        expect(matchFilmSimulation('Eterna')).toBe(FilmSimulation.Eterna);
+        expect(matchFilmSimulation('Monochrome')).toBe(FilmSimulation.Monochrome);
+    });
+
+    it('reads Monochromatic Color onto the toning sliders, clamped to ±18', () => {
+        const recipe = parseRecipeText(['Film Simulation: Acros', 'Monochromatic Color: WC +3 & MG -20'].join('\n'));
+        expect(recipe.filmSimulation).toBe(FilmSimulation.Acros);
+        expect(recipe.monochromaticColor).toEqual({ warmCool: 3, magentaGreen: -18 });
+        const adjustments = recipeToAdjustments(recipe, base);
+        expect(adjustments.monoWarmCool).toBe(3);
+        expect(adjustments.monoMagentaGreen).toBe(-18);
+    });
+});
@@ -0,0 +1,221 @@
+
+import { Adjustments, FilmSimulation, FujiRecipe, RecipeDynamicRange, RecipeEffectLevel } from '../types';
+import { GRAIN_PROFILES } from './filmGrain';
+
+// --- Fujifilm in-camera recipes ---
+// A recipe holds the camera's own settings; recipeToAdjustments maps them onto the editor's sliders,
+// curves and LUT options. Noise Reduction has no counterpart here and is only kept with the recipe.
+
+export const createDefaultRecipe = (): FujiRecipe => ({
+  name: '',
+  filmSimulation: FilmSimulation.Provia,
+  dynamicRange: 100,
+  highlightTone: 0,
+  shadowTone: 0,
+  color: 0,
+  sharpness: 0,
+  noiseReduction: 0,
+  clarity: 0,
+  grainEffect: { strength: 'off', size: 'small' },
+  colorChrome: 'off',
+  colorChromeBlue: 'off',
+  monochromaticColor: { warmCool: 0, magentaGreen: 0 },
+  whiteBalance: { mode: 'Auto', red: 0, blue: 0 }
+});
+
+const EFFECT_AMOUNT: Record<RecipeEffectLevel, number> = { off: 0, weak: 50, strong: 100 };
+
+// Negative Sharpness softens: the editor's sharpening stops at 0, so each step below takes some local contrast away
+const SOFTENING_CLARITY_STEP = 5;
+
+// Highlight protection the camera gets from DR200/DR400 (one and two stops)
+const DR_HIGHLIGHTS: Record<RecipeDynamicRange, number> = { 100: 0, 200: -25, 400: -50 };
+
+// Reference colour temperature for Kelvin white balance; the edited image is assumed balanced for daylight
+const DAYLIGHT_KELVIN = 5500;
+// Gain per white balance shift step
+const WB_SHIFT_STEP = 0.02;
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+// Camera white balance (Kelvin + R/B shift) as the temp/tint gains of the LUT generator.
+// The shift scales red and blue against green; temp/tint reproduce that ratio.
+const recipeWhiteBalance = (wb: FujiRecipe['whiteBalance']): Adjustments['whiteBalance'] => {
+  const redGain = 1 + wb.red * WB_SHIFT_STEP, blueGain = 1 + wb.blue * WB_SHIFT_STEP;
+  const greenGain = 2 / (redGain + blueGain);
+  let temp = (redGain * greenGain - 1) * 100;
+  const tint = (1 - greenGain) * 100;
+  // Kelvin above daylight renders warmer (mired difference, roughly 1 temp step per 4 mired)
+  if (wb.kelvin) temp += (1e6 / DAYLIGHT_KELVIN - 1e6 / wb.kelvin) / 4;
+  return { temp: Math.round(clamp(temp, -50, 50)), tint: Math.round(clamp(tint, -50, 50)) };
+};
+
+// Apply a recipe over base adjustments (usually the defaults)
+export const recipeToAdjustments = (recipe: FujiRecipe, base: Adjustments): Adjustments => {
+  const grain = GRAIN_PROFILES.find(p => p.id === (recipe.grainEffect.strength === 'off' ? 'off' : `${recipe.grainEffect.strength}-${recipe.grainEffect.size}`))!;
+  return {
+    ...base,
+    highlights: DR_HIGHLIGHTS[recipe.dynamicRange],
+    saturation: recipe.color * 10,
+    sharpening: Math.max(0, recipe.sharpness * 12.5),
+    clarity: clamp(recipe.clarity * 12 + Math.min(0, recipe.sharpness) * SOFTENING_CLARITY_STEP, -100, 100),
+    curves: {
+      ...base.curves,
+      // Highlight Tone bends the top of the curve (+ brighter), Shadow Tone the bottom (+ darker)
+      parametric: {
+        ...base.curves.parametric,
+        highlights: recipe.highlightTone * 15,
+        lights: recipe.highlightTone * 7,
+        darks: -recipe.shadowTone * 7,
+        shadows: -recipe.shadowTone * 15
+      }
+    },
+    whiteBalance: recipeWhiteBalance(recipe.whiteBalance),
+    grainAmount: grain.amount,
+    grainSize: grain.size,
+    grainChroma: grain.chroma,
+    grainResponse: { ...grain.response },
+    colorChrome: EFFECT_AMOUNT[recipe.colorChrome],
+    colorChromeBlue: EFFECT_AMOUNT[recipe.colorChromeBlue],
+    monoWarmCool: recipe.monochromaticColor.warmCool,
+    monoMagentaGreen: recipe.monochromaticColor.magentaGreen
+  };
+};
+
+// --- Plain-text import (recipe cards: "Film Simulation: Classic Chrome", "Highlight: -1", ...) ---
+
+const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9+]/g, '');
+
+// Camera menu names (and common shorthand) for each film simulation
+const FILM_ALIASES: [FilmSimulation, string[]][] = [
+  [FilmSimulation.Provia, ['provia', 'standard', 'proviastandard']],
+  [FilmSimulation.Velvia, ['velvia', 'vivid', 'velviavivid']],
+  [FilmSimulation.Astia, ['astia', 'soft', 'astiasoft']],
+  [FilmSimulation.ClassicChrome, ['classicchrome', 'cc']],
+  [FilmSimulation.RealaAce, ['realaace', 'reala']],
+  [FilmSimulation.ProNegHi, ['proneghi', 'pronegativehi', 'pronegativehigh', 'proneghigh']],
+  [FilmSimulation.ProNegStd, ['pronegstd', 'pronegativestd', 'pronegativestandard', 'pronegstandard']],
+  [FilmSimulation.ClassicNeg, ['classicnegative', 'classicneg', 'cn']],
+  [FilmSimulation.NostalgicNeg, ['nostalgicnegative', 'nostalgicneg', 'nn']],
+  [FilmSimulation.EternaBleach, ['eternableachbypass', 'bleachbypass', 'ebb']],
+  [FilmSimulation.Eterna, ['eterna', 'eternacinema', 'cinema']],
+  [FilmSimulation.AcrosYe, ['acros+ye', 'acrosye', 'acros+y', 'acrosyellow', 'acros+yellow']],
+  [FilmSimulation.AcrosR, ['acros+r', 'acrosr', 'acrosred', 'acros+red']],
+  [FilmSimulation.AcrosG, ['acros+g', 'acrosg', 'acrosgreen', 'acros+green']],
+  [FilmSimulation.Acros, ['acros', 'acrosstd']],
+  [FilmSimulation.Monochrome, ['monochrome', 'mono', 'bw', 'blackandwhite']],
+  [FilmSimulation.Sepia, ['sepia']]
+];
+
+export const matchFilmSimulation = (text: string): FilmSimulation | null => {
+  const key = normalize(text.replace(/\(.*?\)/g, ''));
+  if (!key) return null;
+  for (const [film, aliases] of FILM_ALIASES) if (aliases.includes(key)) return film;
+  // Longer names such as "Classic Negative film simulation": first alias contained in the text
+  for (const [film, aliases] of FILM_ALIASES) if (aliases.some(a => a.length > 3 && key.includes(a))) return film;
+  return null;
+};
+
+// "+1", "-1.5", "+½", "0 (Standard)" -> number; null when there is none
+const parseSigned = (value: string): number | null => {
+  const m = value.replace(/½/g, '.5').replace(/\s+/g, '').match(/^[+\-−]?\d*\.?\d+/);
+  return m ? parseFloat(m[0].replace('−', '-')) : null;
+};
+
+const parseLevel = (value: string): RecipeEffectLevel => /strong|high/i.test(value) ? 'strong' : /weak|low/i.test(value) ? 'weak' : 'off';
+
+const roundHalf = (v: number) => Math.round(v * 2) / 2;
+
+// White balance text: "5200K, +2 Red & -4 Blue", "Auto, R+3 B-5", "Daylight, Red +1, Blue -2"
+const parseWhiteBalance = (value: string, wb: FujiRecipe['whiteBalance']) => {
+  const kelvin = value.match(/(\d{4,5})\s*K\b/i);
+  if (kelvin) { wb.mode = 'Kelvin'; wb.kelvin = parseInt(kelvin[1]); }
+  else {
+    const mode = value.split(/[,;&]/)[0].replace(/[+\-−]?\d+\s*(red|blue|r|b)\b.*$/i, '').trim();
+    if (mode && !/^(red|blue|r|b)\b/i.test(mode)) wb.mode = mode;
+  }
+  parseShift(value, wb);
+};
+
+const parseShift = (value: string, wb: FujiRecipe['whiteBalance']) => {
+  const shift = (channel: string) => {
+    const after = value.match(new RegExp(`\\b(?:${channel})\\s*:?\\s*([+\\-−]?\\d+)`, 'i'));
+    const before = value.match(new RegExp(`([+\\-−]?\\d+)\\s*(?:${channel})\\b`, 'i'));
+    const m = after || before;
+    return m ? clamp(parseInt(m[1].replace('−', '-')), -9, 9) : null;
+  };
+  const red = shift('red|r'), blue = shift('blue|b');
+  if (red !== null) wb.red = red;
+  if (blue !== null) wb.blue = blue;
+};
+
+// Monochromatic Color text: "WC +2 & MG -1", "Warm 3, Magenta -2"
+const parseMonochromaticColor = (value: string, tone: FujiRecipe['monochromaticColor']) => {
+  const axis = (names: string) => {
+    const m = value.match(new RegExp(`\\b(?:${names})\\s*:?\\s*([+\\-−]?\\d+)`, 'i'));
+    return m ? clamp(parseInt(m[1].replace('−', '-')), -18, 18) : null;
+  };
+  const wc = axis('wc|warm|warmcool|warm/cool'), mg = axis('mg|magenta|magentagreen|magenta/green');
+  if (wc !== null) tone.warmCool = wc;
+  if (mg !== null) tone.magentaGreen = mg;
+};
+
+// Parse a recipe card. Unknown lines (ISO, exposure compensation, notes) are ignored; a line without
+// a "key: value" form is taken as the film simulation if it names one, otherwise as the recipe name.
+export const parseRecipeText = (text: string): FujiRecipe => {
+  const recipe = createDefaultRecipe();
+  let filmFound = false;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/^[\s\-*•]+/, '').trim();
+    if (!line) continue;
+    const colon = line.indexOf(':');
+    if (colon === -1) {
+      const film = matchFilmSimulation(line);
+      if (film && !filmFound) { recipe.filmSimulation = film; filmFound = true; }
+      else if (!recipe.name) recipe.name = line;
+      continue;
+    }
+
+    const key = normalize(line.slice(0, colon));
+    const value = line.slice(colon + 1).trim();
+    const number = parseSigned(value);
+
+    if (['filmsimulation', 'filmsim', 'film', 'simulation'].includes(key)) {
+      const film = matchFilmSimulation(value);
+      if (film) { recipe.filmSimulation = film; filmFound = true; }
+    } else if (['name', 'recipe', 'title'].includes(key)) {
+      recipe.name = value;
+    } else if (['dynamicrange', 'dr', 'drange'].includes(key)) {
+      const dr = value.match(/(100|200|400)/);
+      recipe.dynamicRange = dr ? parseInt(dr[1]) as RecipeDynamicRange : 100;
+    } else if (['highlight', 'highlights', 'highlighttone', 'ht'].includes(key) && number !== null) {
+      recipe.highlightTone = clamp(roundHalf(number), -2, 4);
+    } else if (['shadow', 'shadows', 'shadowtone', 'st'].includes(key) && number !== null) {
+      recipe.shadowTone = clamp(roundHalf(number), -2, 4);
+    } else if (['color', 'colour', 'saturation'].includes(key) && number !== null) {
+      recipe.color = clamp(Math.round(number), -4, 4);
+    } else if (['sharpness', 'sharpening', 'sharp'].includes(key) && number !== null) {
+      recipe.sharpness = clamp(Math.round(number), -4, 4);
+    } else if (['noisereduction', 'highisonr', 'nr', 'isonr'].includes(key) && number !== null) {
+      recipe.noiseReduction = clamp(Math.round(number), -4, 4);
+    } else if (key === 'clarity' && number !== null) {
+      recipe.clarity = clamp(Math.round(number), -5, 5);
+    } else if (['graineffect', 'grain'].includes(key)) {
+      recipe.grainEffect = { strength: parseLevel(value), size: /large|big/i.test(value) ? 'large' : 'small' };
+    } else if (['colorchromeeffect', 'colorchrome', 'cce', 'colourchromeeffect'].includes(key)) {
+      recipe.colorChrome = parseLevel(value);
+    } else if (['colorchromefxblue', 'colorchromeeffectblue', 'colorchromeblue', 'ccfxb', 'fxblue', 'colourchromefxblue'].includes(key)) {
+      recipe.colorChromeBlue = parseLevel(value);
+    } else if (['monochromaticcolor', 'monochromecolor', 'monochromaticcolour', 'toning'].includes(key)) {
+      parseMonochromaticColor(value, recipe.monochromaticColor);
+    } else if (['whitebalance', 'wb'].includes(key)) {
+      parseWhiteBalance(value, recipe.whiteBalance);
+    } else if (['wbshift', 'whitebalanceshift', 'shift'].includes(key)) {
+      parseShift(value, recipe.whiteBalance);
+    }
+  }
+
+  if (!recipe.name) recipe.name = recipe.filmSimulation.split(' / ')[0];
+  return recipe;
+};
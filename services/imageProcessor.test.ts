@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Adjustments, LocalAdjustments, LUTContainer, MaskLayer } from '../types';
+import { applyLUT, createGlobalColorTransform, getStripeHalo, STRIPE_HALO } from './imageProcessor';
+import { createDefaultToneCurves } from './toneCurve';
+import { encodeSRGB, srgbToLinear } from './colorSpace';
+
+// applyLUT hands back ImageData, which only browsers provide
+class TestImageData {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+    constructor(a: number | Uint8ClampedArray, b: number, c?: number) {
+        if (typeof a === 'number') { this.width = a; this.height = b; this.data = new Uint8ClampedArray(a * b * 4); }
+        else { this.data = a; this.width = b; this.height = c!; }
+    }
+}
+vi.stubGlobal('ImageData', TestImageData);
+
+const IDENTITY: LUTContainer = { size: 2, data: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0, 0, 0, 1, 1, 0, 1, 0, 1, 1, 1, 1, 1]) };
+
+const adjustmentsWith = (overrides: Partial<Adjustments>): Adjustments => ({
+    brightness: 0, contrast: 0, saturation: 0, highlights: 0, shadows: 0,
+    hsl: {}, curves: createDefaultToneCurves(),
+    ...overrides
+} as Adjustments);
+
+describe('createGlobalColorTransform', () => {
+    it('hands linear light back unchanged when nothing is adjusted', () => {
+        const transform = createGlobalColorTransform(IDENTITY, adjustmentsWith({}), 1);
+        const out = [0, 0, 0];
+        transform(0.02, 0.18, 0.7, out);
+        expect(out[0]).toBeCloseTo(0.02, 3);
+        expect(out[1]).toBeCloseTo(0.18, 3);
+        expect(out[2]).toBeCloseTo(0.7, 3);
+    });
+
+    it('keeps the display-value response of the tone sliders', () => {
+        const out = [0, 0, 0];
+        // Brightness adds its value / 255 to the encoded value
+        createGlobalColorTransform(IDENTITY, adjustmentsWith({ brightness: 51 }), 1)(srgbToLinear(0.5), 0, 0, out);
+        expect(out[0]).toBeCloseTo(srgbToLinear(0.7), 4);
+        // Contrast pivots on encoded mid grey
+        createGlobalColorTransform(IDENTITY, adjustmentsWith({ contrast: 50 }), 1)(srgbToLinear(0.5), srgbToLinear(0.6), 0, out);
+        expect(out[0]).toBeCloseTo(srgbToLinear(0.5), 4);
+        expect(out[1]).toBeGreaterThan(srgbToLinear(0.6));
+    });
+
+    it('does not clamp between stages', () => {
+        const out = [0, 0, 0];
+        createGlobalColorTransform(IDENTITY, adjustmentsWith({ brightness: 100 }), 0)(1, 1, 1, out);
+        expect(out[0]).toBeGreaterThan(1);
+    });
+});
+
+const grey = (width: number, height: number, value: number) => {
+    const image = new ImageData(width, height);
+    for (let i = 0; i < image.data.length; i += 4) image.data.fill(value, i, i + 3).fill(255, i + 3, i + 4);
+    return image;
+};
+
+const localAdjustments = (overrides: Partial<LocalAdjustments>): LocalAdjustments => ({
+    exposure: 0, contrast: 0, saturation: 0, temperature: 0, tint: 0,
+    highlights: 0, shadows: 0, clarity: 0, dehaze: 0, sharpness: 0,
+    ...overrides
+});
+
+const brushMask = (data: Uint8Array, adjustments: Partial<LocalAdjustments>, opacity = 1) => ({
+    id: 'mask', name: 'mask', type: 'brush', visible: true, opacity, data, gradient: null,
+    luminanceRange: { enabled: false, min: 0, max: 100, feather: 20 },
+    colorRange: { enabled: false, color: null, tolerance: 30, feather: 30 },
+    adjustments: localAdjustments(adjustments)
+} as MaskLayer);
+
+// Left half of a width x height frame
+const leftHalf = (width: number, height: number) => Uint8Array.from({ length: width * height }, (_, p) => p % width < width / 2 ? 255 : 0);
+
+const renderAdjustments = () => adjustmentsWith({ clarity: 0, vignette: 0, sharpening: 0, grainAmount: 0, grainSize: 2, grainChroma: 0 });
+
+// 8-bit output of a linear value; the render dithers by up to one code value
+const expectCode = (actual: number, linear: number) => expect(Math.abs(actual - Math.round(encodeSRGB(linear) * 255))).toBeLessThanOrEqual(1);
+
+describe('applyLUT local adjustments', () => {
+    it('scales linear light by the mask exposure only where the mask is painted', () => {
+        const { imageData } = applyLUT(grey(8, 2, 100), IDENTITY, renderAdjustments(), 1, [brushMask(leftHalf(8, 2), { exposure: 50 })]);
+        const base = srgbToLinear(100 / 255);
+        expectCode(imageData.data[0], 2 * base);
+        expectCode(imageData.data[7 * 4], base);
+    });
+
+    it('blends by mask opacity in linear light', () => {
+        const { imageData } = applyLUT(grey(8, 2, 100), IDENTITY, renderAdjustments(), 1, [brushMask(leftHalf(8, 2), { exposure: 50 }, 0.5)]);
+        expectCode(imageData.data[0], 1.5 * srgbToLinear(100 / 255));
+    });
+
+    it('removes the dark-channel veil with dehaze', () => {
+        const full = new Uint8Array(16 * 16).fill(255);
+        const { imageData } = applyLUT(grey(16, 16, 180), IDENTITY, renderAdjustments(), 1, [brushMask(full, { dehaze: 100 })]);
+        const v = srgbToLinear(180 / 255), h = 0.5 * v;
+        expectCode(imageData.data[(8 * 16 + 8) * 4], (v - h) / (1 - h));
+    });
+
+    it('steepens an edge with clarity and leaves a flat frame alone', () => {
+        const edge = new ImageData(32, 4);
+        for (let p = 0; p < 32 * 4; p++) edge.data.fill(p % 32 < 16 ? 60 : 160, p * 4, p * 4 + 3).fill(255, p * 4 + 3, p * 4 + 4);
+        const full = new Uint8Array(32 * 4).fill(255);
+        const { imageData } = applyLUT(edge, IDENTITY, renderAdjustments(), 1, [brushMask(full, { clarity: 100 })]);
+        expect(imageData.data[(32 + 15) * 4]).toBeLessThan(59);
+        expect(imageData.data[(32 + 16) * 4]).toBeGreaterThan(161);
+
+        const flat = applyLUT(grey(32, 4, 120), IDENTITY, renderAdjustments(), 1, [brushMask(full, { clarity: 100 })]).imageData;
+        expectCode(flat.data[(32 + 16) * 4], srgbToLinear(120 / 255));
+    });
+
+    it('widens the stripe halo for clarity and sharpness', () => {
+        const mask = (adjustments: Partial<LocalAdjustments>) => [brushMask(new Uint8Array(1), adjustments)];
+        // 4000px: the wide radius is 10 (three passes), the fine radius 1 (two passes)
+        expect(getStripeHalo(mask({ clarity: 20 }), 4000, 3000)).toBe(STRIPE_HALO + 30);
+        expect(getStripeHalo(mask({ sharpness: 20 }), 4000, 3000)).toBe(STRIPE_HALO + 2);
+        expect(getStripeHalo(mask({ exposure: 20 }), 4000, 3000)).toBe(STRIPE_HALO);
+    });
+});
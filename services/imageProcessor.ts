@@ -1,5 +1,35 @@
 
-import { Adjustments, LUTContainer, HistogramData, HSLAdjustments, HSLChannel, MaskLayer } from '../types';
+import { Adjustments, LUTContainer, HistogramData, HSLAdjustments, HSLChannel, LocalAdjustments, MaskLayer, RenderFrame } from '../types';
+import { decodeSRGB, encodeSRGB, SRGB8_TO_LINEAR } from './colorSpace';
+import { prepareToneCurves, evalCurve } from './toneCurve';
+import { grainClumpSize, sampleGrain, grainResponseAt } from './filmGrain';
+import { isMaskActive, rasterizeGradient, applyMaskRange } from './maskingService';
+import { boxBlur } from './filters';
+import { createLUTSampler } from './lutSampler';
+
+// Rows of neighbouring context a stripe needs so the sharpen kernel sees across stripe seams
+export const STRIPE_HALO = 1;
+
+// Box blur passes for the local detail planes (three passes approximate a gaussian)
+const CLARITY_PASSES = 3;
+const FINE_PASSES = 2;
+
+// Local detail radii scale with the full image so proxies and full renders look alike
+const detailRadii = (fullWidth: number, fullHeight: number) => {
+    const edge = Math.max(fullWidth, fullHeight);
+    return { wide: Math.max(1, Math.round(edge / 400)), fine: Math.max(1, Math.round(edge / 3000)) };
+};
+
+const needsWideDetail = (adj: LocalAdjustments) => adj.clarity !== 0 || adj.dehaze !== 0;
+
+// Halo rows for a render: clarity/dehaze/sharpness read further than the global sharpen kernel
+export const getStripeHalo = (masks: MaskLayer[], fullWidth: number, fullHeight: number, adjustments?: Adjustments): number => {
+    const active = masks.filter(isMaskActive);
+    const radii = detailRadii(fullWidth, fullHeight);
+    if (adjustments?.clarity || active.some(m => needsWideDetail(m.adjustments))) return STRIPE_HALO + radii.wide * CLARITY_PASSES;
+    if (active.some(m => m.adjustments.sharpness !== 0)) return STRIPE_HALO + radii.fine * FINE_PASSES;
+    return STRIPE_HALO;
+};
 
 const mulberry32 = (a: number) => {
     return () => {
@@ -17,11 +47,14 @@ const overlayBlend = (base: number, blend: number): number => {
         : (1.0 - 2.0 * (1.0 - base) * (1.0 - blend));
 };
 
+const lerp = (a: number, b: number, t: number) => a + t * (b - a);
+
 // Helper: Get Rec.709 Luma
 const getLuma = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
 
 // --- Combined Texture Pass (Smart Sharpen -> Grain) ---
-export const applyTexture = (imageData: ImageData, adjustments: Adjustments) => {
+// Works in place on display-encoded float RGB (3 floats per pixel, nominally 0-1)
+export const applyTexture = (buf: Float32Array, width: number, height: number, adjustments: Adjustments, frame?: RenderFrame) => {
     const amount = adjustments.sharpening;
     const grainAmount = adjustments.grainAmount / 100; // Normalized 0-1
     const grainSize = Math.max(1, adjustments.grainSize);
@@ -30,68 +63,67 @@ export const applyTexture = (imageData: ImageData, adjustments: Adjustments) =>
 
     if (!hasGrain && !hasSharpen) return;
 
-    const width = imageData.width;
-    const height = imageData.height;
-    const data = imageData.data;
-    const random = mulberry32(1337);
+    // Grain is sampled in full-image coordinates so stripes, proxies and regions agree
+    const offsetX = frame ? frame.offsetX : 0, offsetY = frame ? frame.offsetY : 0;
+    const clump = grainClumpSize(grainSize, frame ? frame.fullWidth : width, frame ? frame.fullHeight : height);
+    const grainChroma = adjustments.grainChroma / 100;
 
-    let src: Uint8ClampedArray | null = null;
-    if (hasSharpen) src = new Uint8ClampedArray(data);
+    // Sharpening reads neighbours, so take the luma plane before any pixel is modified
+    let lumaPlane: Float32Array | null = null;
+    if (hasSharpen) {
+        lumaPlane = new Float32Array(width * height);
+        for (let p = 0; p < width * height; p++) lumaPlane[p] = getLuma(buf[p * 3], buf[p * 3 + 1], buf[p * 3 + 2]);
+    }
 
     const sharpStrength = (amount / 100) * 1.5;
-    const noiseThreshold = 6; 
+    const noiseThreshold = 6 / 255; 
+    const shadowProtect = 40 / 255;
     
     for (let y = 0; y < height; y++) {
         for (let x = 0; x < width; x++) {
-            const idx = (y * width + x) * 4;
-            let r = data[idx], g = data[idx + 1], b = data[idx + 2];
+            const p = y * width + x;
+            const idx = p * 3;
+            let r = buf[idx], g = buf[idx + 1], b = buf[idx + 2];
 
-            if (hasSharpen && src) {
+            if (hasSharpen && lumaPlane) {
                 if (x > 0 && x < width - 1 && y > 0 && y < height - 1) {
-                    const iU = ((y - 1) * width + x) * 4;
-                    const iD = ((y + 1) * width + x) * 4;
-                    const iL = (y * width + (x - 1)) * 4;
-                    const iR = (y * width + (x + 1)) * 4;
-
-                    const lumaC = getLuma(src[idx], src[idx+1], src[idx+2]);
-                    const lU = getLuma(src[iU], src[iU+1], src[iU+2]);
-                    const lD = getLuma(src[iD], src[iD+1], src[iD+2]);
-                    const lL = getLuma(src[iL], src[iL+1], src[iL+2]);
-                    const lR = getLuma(src[iR], src[iR+1], src[iR+2]);
-                    
-                    const lumaAvg = (lU + lD + lL + lR) * 0.25;
+                    const lumaC = lumaPlane[p];
+                    const lumaAvg = (lumaPlane[p - width] + lumaPlane[p + width] + lumaPlane[p - 1] + lumaPlane[p + 1]) * 0.25;
                     const detail = lumaC - lumaAvg;
 
                     if (Math.abs(detail) > noiseThreshold) {
                         let protection = 1.0;
-                        if (lumaC < 40) protection = Math.max(0, lumaC / 40);
+                        if (lumaC < shadowProtect) protection = Math.max(0, lumaC / shadowProtect);
                         const amount = detail * sharpStrength * protection;
-                        r = Math.min(255, Math.max(0, r + amount));
-                        g = Math.min(255, Math.max(0, g + amount));
-                        b = Math.min(255, Math.max(0, b + amount));
+                        r += amount; g += amount; b += amount;
                     }
                 }
             }
 
             if (hasGrain) {
-                let noise = random(); 
-                const luma = getLuma(r, g, b) / 255;
-                const filmGrainCurve = Math.max(0.2, 1.0 - luma * luma); 
-                const strength = grainAmount * filmGrainCurve * 0.4; 
-                const noiseVal = 0.5 + (noise - 0.5) * strength * 2.0;
+                // Luminance grain, optionally mixed with independent per-channel (chroma) grain
+                const gx = x + offsetX, gy = y + offsetY;
+                const lumNoise = sampleGrain(gx, gy, clump, 1);
+                let nr = lumNoise, ng = lumNoise, nb = lumNoise;
+                if (grainChroma > 0) {
+                    nr = lerp(lumNoise, sampleGrain(gx, gy, clump, 2), grainChroma);
+                    ng = lerp(lumNoise, sampleGrain(gx, gy, clump, 3), grainChroma);
+                    nb = lerp(lumNoise, sampleGrain(gx, gy, clump, 4), grainChroma);
+                }
+                const strength = grainAmount * grainResponseAt(getLuma(r, g, b), adjustments.grainResponse) * 0.4;
                 
-                r = overlayBlend(r / 255, noiseVal) * 255;
-                g = overlayBlend(g / 255, noiseVal) * 255;
-                b = overlayBlend(b / 255, noiseVal) * 255;
+                r = overlayBlend(r, 0.5 + nr * strength * 2.0);
+                g = overlayBlend(g, 0.5 + ng * strength * 2.0);
+                b = overlayBlend(b, 0.5 + nb * strength * 2.0);
             }
 
-            data[idx] = r; data[idx + 1] = g; data[idx + 2] = b;
+            buf[idx] = r; buf[idx + 1] = g; buf[idx + 2] = b;
         }
     }
 };
 
+// HSL helpers take and return RGB normalized to 0-1
 function rgbToHsl(r: number, g: number, b: number, out: number[]) {
-  r /= 255; g /= 255; b /= 255;
   const max = Math.max(r, g, b), min = Math.min(r, g, b);
   let h = 0, s = 0, l = (max + min) / 2;
   if (max !== min) {
@@ -126,7 +158,7 @@ function hslToRgb(h: number, s: number, l: number, out: number[]) {
     g = hue2rgb(p, q, h / 360);
     b = hue2rgb(p, q, h / 360 - 1/3);
   }
-  out[0] = r * 255; out[1] = g * 255; out[2] = b * 255;
+  out[0] = r; out[1] = g; out[2] = b;
 }
 
 function getHueWeight(hue: number, target: number, range: number = 45): number {
@@ -172,36 +204,46 @@ function applyHSL(r: number, g: number, b: number, hslAdj: HSLAdjustments, hslCa
   return [r, g, b];
 }
 
-const lerp = (a: number, b: number, t: number) => a + t * (b - a);
+// Scene mid grey in linear light, the pivot for local contrast
+const MID_GREY = 0.18;
 
 // --- LOCAL ADJUSTMENT HELPER ---
-const applyLocalAdj = (r: number, g: number, b: number, adj: any): [number, number, number] => {
+// Operates on linear-light RGB
+const applyLocalAdj = (r: number, g: number, b: number, adj: LocalAdjustments): [number, number, number] => {
     let nr = r, ng = g, nb = b;
 
-    // 1. Exposure
+    // 1. Exposure (+-100 = +-2 EV)
     if (adj.exposure !== 0) {
-        const factor = Math.pow(2, adj.exposure / 33); // Soft exposure curve
+        const factor = Math.pow(2, adj.exposure / 50);
         nr *= factor; ng *= factor; nb *= factor;
     }
 
-    // 2. Contrast
+    // 2. Contrast (power curve around mid grey)
     if (adj.contrast !== 0) {
-        const factor = (259 * (adj.contrast + 255)) / (255 * (259 - adj.contrast));
-        nr = factor * (nr - 128) + 128;
-        ng = factor * (ng - 128) + 128;
-        nb = factor * (nb - 128) + 128;
+        const k = (259 * (adj.contrast + 255)) / (255 * (259 - adj.contrast));
+        nr = MID_GREY * Math.pow(Math.max(0, nr) / MID_GREY, k);
+        ng = MID_GREY * Math.pow(Math.max(0, ng) / MID_GREY, k);
+        nb = MID_GREY * Math.pow(Math.max(0, nb) / MID_GREY, k);
     }
 
-    // 3. Saturation
+    // 3. Highlights / Shadows (+-100 = +-1 EV, weighted by perceptual tone)
+    if (adj.highlights !== 0 || adj.shadows !== 0) {
+        const tone = Math.max(0, Math.min(1, encodeSRGB(getLuma(nr, ng, nb))));
+        const ev = (adj.highlights / 100) * tone * tone + (adj.shadows / 100) * (1 - tone) * (1 - tone);
+        const factor = Math.pow(2, ev);
+        nr *= factor; ng *= factor; nb *= factor;
+    }
+
+    // 4. Saturation
     if (adj.saturation !== 0) {
-        const luma = 0.299 * nr + 0.587 * ng + 0.114 * nb;
+        const luma = getLuma(nr, ng, nb);
         const sFactor = 1 + (adj.saturation / 100);
         nr = luma + (nr - luma) * sFactor;
         ng = luma + (ng - luma) * sFactor;
         nb = luma + (nb - luma) * sFactor;
     }
 
-    // 4. Temp/Tint (Simplified)
+    // 5. Temp/Tint (Simplified)
     if (adj.temperature !== 0 || adj.tint !== 0) {
         const t = adj.temperature / 100;
         const tn = adj.tint / 100;
@@ -210,107 +252,210 @@ const applyLocalAdj = (r: number, g: number, b: number, adj: any): [number, numb
         ng *= (1 - tn);
     }
 
-    return [Math.max(0, Math.min(255, nr)), Math.max(0, Math.min(255, ng)), Math.max(0, Math.min(255, nb))];
+    return [nr, ng, nb];
 };
 
+// Keeps luma ratios finite in black areas
+const DETAIL_EPSILON = 1e-4;
+
+// A mask layer as the detail stage sees it; null data covers the whole frame (global clarity)
+type DetailLayer = Pick<MaskLayer, 'data' | 'opacity' | 'adjustments'>;
+
+const globalClarityLayer = (clarity: number): DetailLayer => ({
+    data: null,
+    opacity: 1,
+    adjustments: { exposure: 0, contrast: 0, saturation: 0, temperature: 0, tint: 0, highlights: 0, shadows: 0, clarity, dehaze: 0, sharpness: 0 }
+});
+
+// --- LOCAL DETAIL (dehaze, clarity, sharpness) ---
+// Neighbourhood stage on the linear working buffer, after the per-pixel local adjustments
+const applyLocalDetail = (work: Float32Array, width: number, height: number, masks: DetailLayer[], fullWidth: number, fullHeight: number) => {
+    const detailMasks = masks.filter(m => m.adjustments.clarity !== 0 || m.adjustments.dehaze !== 0 || m.adjustments.sharpness !== 0);
+    if (detailMasks.length === 0) return;
+
+    const count = width * height;
+    const radii = detailRadii(fullWidth, fullHeight);
+    const luma = new Float32Array(count);
+    for (let p = 0; p < count; p++) luma[p] = getLuma(work[p * 3], work[p * 3 + 1], work[p * 3 + 2]);
+
+    const needWide = detailMasks.some(m => needsWideDetail(m.adjustments));
+    const wideLuma = needWide ? boxBlur(luma, width, height, radii.wide, CLARITY_PASSES) : null;
+    const fineLuma = detailMasks.some(m => m.adjustments.sharpness !== 0) ? boxBlur(luma, width, height, radii.fine, FINE_PASSES) : null;
+
+    // Dark channel: the local minimum of R, G, B rises with haze
+    let haze: Float32Array | null = null;
+    if (detailMasks.some(m => m.adjustments.dehaze !== 0)) {
+        const dark = new Float32Array(count);
+        for (let p = 0; p < count; p++) dark[p] = Math.max(0, Math.min(work[p * 3], work[p * 3 + 1], work[p * 3 + 2]));
+        haze = boxBlur(dark, width, height, radii.wide, CLARITY_PASSES);
+    }
+
+    for (let p = 0; p < count; p++) {
+        const w = p * 3;
+        let r = work[w], g = work[w + 1], b = work[w + 2];
+        const l = luma[p] + DETAIL_EPSILON;
+
+        for (const mask of detailMasks) {
+            const alpha = mask.data ? mask.data[p] : 255;
+            if (alpha === 0) continue;
+            const weight = (alpha / 255) * mask.opacity;
+            const adj = mask.adjustments;
+
+            // Dehaze: remove (or add) a veil estimated from the dark channel
+            if (adj.dehaze !== 0 && haze) {
+                const amt = adj.dehaze / 100;
+                let nr: number, ng: number, nb: number;
+                if (amt > 0) {
+                    const h = Math.min(0.9, amt * 0.5 * haze[p]);
+                    nr = Math.max(0, (r - h) / (1 - h)); ng = Math.max(0, (g - h) / (1 - h)); nb = Math.max(0, (b - h) / (1 - h));
+                } else {
+                    const t = -amt * 0.5, veil = wideLuma![p];
+                    nr = lerp(r, veil, t); ng = lerp(g, veil, t); nb = lerp(b, veil, t);
+                }
+                r = lerp(r, nr, weight); g = lerp(g, ng, weight); b = lerp(b, nb, weight);
+            }
+
+            // Clarity: scale luma against its wide neighbourhood, strongest in the midtones
+            if (adj.clarity !== 0 && wideLuma) {
+                const tone = Math.max(0, Math.min(1, encodeSRGB(luma[p])));
+                const k = (adj.clarity / 100) * 0.6 * 4 * tone * (1 - tone);
+                const factor = Math.pow(l / (wideLuma[p] + DETAIL_EPSILON), k);
+                const f = lerp(1, factor, weight);
+                r *= f; g *= f; b *= f;
+            }
+
+            // Sharpness: same against the fine neighbourhood; -100 flattens the luma to its blur
+            if (adj.sharpness !== 0 && fineLuma) {
+                const k = adj.sharpness > 0 ? (adj.sharpness / 100) * 1.5 : adj.sharpness / 100;
+                const factor = Math.pow(l / (fineLuma[p] + DETAIL_EPSILON), k);
+                const f = lerp(1, Math.min(4, factor), weight);
+                r *= f; g *= f; b *= f;
+            }
+        }
+        work[w] = r; work[w + 1] = g; work[w + 2] = b;
+    }
+};
+
+// Stages 1-3: everything global and spatially invariant, as one color transform from and to linear-light floats.
+// The sliders, curves and film LUTs are defined as responses on display values, so the transform evaluates them
+// on the encoded value (in float, unclamped) and hands linear light back.
+// Shared by the renderer and the LUT exporter; the result is written into out.
+export const createGlobalColorTransform = (lutContainer: LUTContainer, adjustments: Adjustments, intensity: number) => {
+  const lookup = createLUTSampler(lutContainer);
+
+  const brightness = adjustments.brightness / 255;
+  const contrastFactor = (259 * (adjustments.contrast + 255)) / (255 * (259 - adjustments.contrast));
+  const saturationFactor = 1 + (adjustments.saturation / 100);
+  const shadowLift = adjustments.shadows * 0.5 / 255;
+  const highlightDrop = adjustments.highlights * 0.5 / 255;
+  const hasHSL = Object.values(adjustments.hsl).some(c => c.h !== 0 || c.s !== 0 || c.l !== 0);
+  const hslCache = [0,0,0], rgbCache = [0,0,0];
+  const curves = prepareToneCurves(adjustments.curves);
+
+  return (r: number, g: number, b: number, out: number[]): void => {
+    r = encodeSRGB(r); g = encodeSRGB(g); b = encodeSRGB(b);
+
+    // 1. Global HSL
+    if (hasHSL) {
+      const newRgb = applyHSL(r, g, b, adjustments.hsl, hslCache, rgbCache);
+      r = newRgb[0]; g = newRgb[1]; b = newRgb[2];
+    }
+
+    // 2. Global Tone
+    if (brightness !== 0) { r += brightness; g += brightness; b += brightness; }
+    if (contrastFactor !== 1) {
+      r = contrastFactor * (r - 0.5) + 0.5;
+      g = contrastFactor * (g - 0.5) + 0.5;
+      b = contrastFactor * (b - 0.5) + 0.5;
+    }
+
+    let luma = 0.299 * r + 0.587 * g + 0.114 * b;
+    if (saturationFactor !== 1) {
+      r = luma + (r - luma) * saturationFactor;
+      g = luma + (g - luma) * saturationFactor;
+      b = luma + (b - luma) * saturationFactor;
+    }
+    if (shadowLift !== 0) { const lift = Math.max(0, 1 - luma) * shadowLift; r += lift; g += lift; b += lift; }
+    if (highlightDrop !== 0) { const drop = Math.max(0, (luma - 0.5) / 0.5) * highlightDrop; r += drop; g += drop; b += drop; }
+
+    // 2b. Tone Curves
+    if (curves) {
+      r = evalCurve(curves.r, r); g = evalCurve(curves.g, g); b = evalCurve(curves.b, b);
+      if (curves.luma) {
+        const l = 0.299 * r + 0.587 * g + 0.114 * b;
+        const dl = evalCurve(curves.luma, l) - l;
+        r += dl; g += dl; b += dl;
+      }
+    }
+
+    // 3. LUT Lookup
+    lookup(r, g, b, out);
+    let lr = out[0], lg = out[1], lb = out[2];
+
+    if (intensity !== 1) {
+      lr = lerp(r, lr, intensity); lg = lerp(g, lg, intensity); lb = lerp(b, lb, intensity);
+    }
+    out[0] = decodeSRGB(lr); out[1] = decodeSRGB(lg); out[2] = decodeSRGB(lb);
+  };
+};
+
+// Processing order and the domain each stage runs in:
+//   0.   8-bit input is decoded once into the Float32 linear-light working buffer; developed RAW hands its linear data over instead
+//   1-3. HSL, tone, curves and the film LUT keep their display-value responses (see createGlobalColorTransform)
+//   4-5. masks (per-pixel, then global clarity and local detail) and vignette work on linear light
+//   6.   texture (sharpen, grain) on the re-encoded float buffer
+//   7.   the only quantization to 8 bits, with dither
+// Nothing is clamped between stages; the LUT clamps only its lookup coordinates.
 export const applyLUT = (
   pixelData: ImageData, 
   lutContainer: LUTContainer, 
   adjustments: Adjustments,
   intensity: number,
-  masks: MaskLayer[] = [] // Add masks support
+  masks: MaskLayer[] = [], // Add masks support
+  frame?: RenderFrame, // Set when rendering a stripe of a larger image
+  linear?: Float32Array // Linear sRGB of the same pixels, RGB interleaved, when the source has more than 8 bits
 ): { imageData: ImageData, histogram: HistogramData } => {
   const width = pixelData.width;
   const height = pixelData.height;
   const data = pixelData.data; 
-  const output = new ImageData(new Uint8ClampedArray(data), width, height);
+  const output = new ImageData(width, height);
   const outData = output.data;
+  const work = new Float32Array(width * height * 3); // Linear-light working buffer
 
   const histR = new Array(256).fill(0);
   const histG = new Array(256).fill(0);
   const histB = new Array(256).fill(0);
 
-  const lutSize = lutContainer.size;
-  const lutData = lutContainer.data;
-  const lutSizeSq = lutSize * lutSize;
-  const lutMax = lutSize - 1;
-  const scale = lutMax / 255;
-
-  const brightness = adjustments.brightness;
-  const contrastFactor = (259 * (adjustments.contrast + 255)) / (255 * (259 - adjustments.contrast));
-  const saturationFactor = 1 + (adjustments.saturation / 100);
-  const shadowLift = adjustments.shadows * 0.5;
-  const highlightDrop = adjustments.highlights * 0.5;
+  const globalColor = createGlobalColorTransform(lutContainer, adjustments, intensity);
+  const colorOut = [0, 0, 0];
   const vignetteStr = adjustments.vignette / 100;
-  const centerX = width / 2; const centerY = height / 2;
+  const offsetX = frame ? frame.offsetX : 0, offsetY = frame ? frame.offsetY : 0;
+  const centerX = (frame ? frame.fullWidth : width) / 2; const centerY = (frame ? frame.fullHeight : height) / 2;
   const maxDist = Math.sqrt(centerX * centerX + centerY * centerY);
-  const random = mulberry32(1337);
-  const hasHSL = Object.values(adjustments.hsl).some(c => c.h !== 0 || c.s !== 0 || c.l !== 0);
-  const hslCache = [0,0,0], rgbCache = [0,0,0];
+  const histStart = frame ? frame.haloTop : 0, histEnd = height - (frame ? frame.haloBottom : 0);
+  const random = mulberry32(1337 + offsetY);
 
-  // Filter active masks to avoid iteration overhead
-  const activeMasks = masks.filter(m => m.visible && m.data && m.opacity > 0);
+  // Filter active masks to avoid iteration overhead; gradient masks get their alpha generated for this block,
+  // then luminance/color ranges (measured on the original pixels) refine it
+  const maskFrame = { offsetX, offsetY, fullWidth: frame ? frame.fullWidth : width, fullHeight: frame ? frame.fullHeight : height };
+  const activeMasks = masks.filter(isMaskActive).map(m => {
+      const alpha = m.type === 'brush' ? m.data! : rasterizeGradient(m.type, m.gradient!, width, height, maskFrame);
+      return { ...m, data: applyMaskRange(m, alpha, data) };
+  });
 
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
       const i = (y * width + x) * 4;
       const pixelIndex = y * width + x;
 
-      let r = data[i], g = data[i + 1], b = data[i + 2]; const a = data[i + 3];
-
-      // 1. Global HSL
-      if (hasHSL) {
-        const newRgb = applyHSL(r, g, b, adjustments.hsl, hslCache, rgbCache);
-        r = newRgb[0]; g = newRgb[1]; b = newRgb[2];
-      }
-
-      // 2. Global Tone
-      if (brightness !== 0) { r += brightness; g += brightness; b += brightness; }
-      if (contrastFactor !== 1) {
-        r = contrastFactor * (r - 128) + 128;
-        g = contrastFactor * (g - 128) + 128;
-        b = contrastFactor * (b - 128) + 128;
-      }
-      r = Math.max(0, Math.min(255, r)); g = Math.max(0, Math.min(255, g)); b = Math.max(0, Math.min(255, b));
+      const l = pixelIndex * 3;
+      const r = linear ? linear[l] : SRGB8_TO_LINEAR[data[i]];
+      const g = linear ? linear[l + 1] : SRGB8_TO_LINEAR[data[i + 1]];
+      const b = linear ? linear[l + 2] : SRGB8_TO_LINEAR[data[i + 2]];
 
-      let luma = 0.299 * r + 0.587 * g + 0.114 * b;
-      if (saturationFactor !== 1) {
-        r = luma + (r - luma) * saturationFactor;
-        g = luma + (g - luma) * saturationFactor;
-        b = luma + (b - luma) * saturationFactor;
-      }
-      if (shadowLift !== 0) { const lift = Math.max(0, 1 - (luma / 255)) * shadowLift; r += lift; g += lift; b += lift; }
-      if (highlightDrop !== 0) { const drop = Math.max(0, (luma - 128) / 128) * highlightDrop; r += drop; g += drop; b += drop; }
-      
-      r = Math.max(0, Math.min(255, r)); g = Math.max(0, Math.min(255, g)); b = Math.max(0, Math.min(255, b));
-
-      // 3. LUT Lookup
-      const rPos = r * scale, gPos = g * scale, bPos = b * scale;
-      const r0 = Math.floor(rPos), g0 = Math.floor(gPos), b0 = Math.floor(bPos);
-      const r1 = Math.min(lutMax, r0 + 1), g1 = Math.min(lutMax, g0 + 1), b1 = Math.min(lutMax, b0 + 1);
-      const dr = rPos - r0, dg = gPos - g0, db = bPos - b0;
-
-      const getV = (ri: number, gi: number, bi: number) => {
-          const idxCorrect = (ri + gi * lutSize + bi * lutSizeSq) * 3;
-          return { r: lutData[idxCorrect], g: lutData[idxCorrect + 1], b: lutData[idxCorrect + 2] };
-      };
-
-      const c000 = getV(r0, g0, b0); const c100 = getV(r1, g0, b0);
-      const c010 = getV(r0, g1, b0); const c110 = getV(r1, g1, b0);
-      const c001 = getV(r0, g0, b1); const c101 = getV(r1, g0, b1);
-      const c011 = getV(r0, g1, b1); const c111 = getV(r1, g1, b1);
-
-      const lerpColor = (c1: any, c2: any, t: number) => ({
-          r: lerp(c1.r, c2.r, t), g: lerp(c1.g, c2.g, t), b: lerp(c1.b, c2.b, t)
-      });
-      const c00 = lerpColor(c000, c100, dr); const c10 = lerpColor(c010, c110, dr);
-      const c01 = lerpColor(c001, c101, dr); const c11 = lerpColor(c011, c111, dr);
-      const c0 = lerpColor(c00, c10, dg); const c1 = lerpColor(c01, c11, dg);
-      let {r: lr, g: lg, b: lb} = lerpColor(c0, c1, db);
-
-      if (intensity !== 1) {
-        lr = lerp(r, lr, intensity); lg = lerp(g, lg, intensity); lb = lerp(b, lb, intensity);
-      }
+      // 1-3. HSL, tone, curves, film LUT
+      globalColor(r, g, b, colorOut);
+      let lr = colorOut[0], lg = colorOut[1], lb = colorOut[2];
 
       // 4. LOCAL ADJUSTMENTS (Masks)
       // Iterate active masks and blend adjustments
@@ -328,24 +473,49 @@ export const applyLUT = (
           }
       }
 
-      // 5. Vignette & Dither
+      const w = pixelIndex * 3;
+      work[w] = lr; work[w + 1] = lg; work[w + 2] = lb;
+    }
+  }
+
+  // 4b. Global clarity, then local detail (needs the whole buffer, so it runs as its own pass)
+  const detailLayers: DetailLayer[] = adjustments.clarity ? [globalClarityLayer(adjustments.clarity), ...activeMasks] : activeMasks;
+  applyLocalDetail(work, width, height, detailLayers, maskFrame.fullWidth, maskFrame.fullHeight);
+
+  // 5. Vignette (light falloff), then back to display encoding for texture and output
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = (y * width + x) * 3;
+      let falloff = 1;
       if (vignetteStr > 0) {
-        const dx = x - centerX, dy = y - centerY;
+        const dx = x + offsetX - centerX, dy = y + offsetY - centerY;
         const vFactor = Math.sqrt(dx * dx + dy * dy) / maxDist;
-        const darkening = vFactor * vFactor * vFactor * vignetteStr * 255;
-        lr -= darkening; lg -= darkening; lb -= darkening;
+        falloff = Math.max(0, 1 - vFactor * vFactor * vFactor * vignetteStr);
       }
-      const dither = (random() - 0.5);
-      lr += dither; lg += dither; lb += dither;
+      work[w] = encodeSRGB(work[w] * falloff);
+      work[w + 1] = encodeSRGB(work[w + 1] * falloff);
+      work[w + 2] = encodeSRGB(work[w + 2] * falloff);
+    }
+  }
+
+  // 6. Texture
+  applyTexture(work, width, height, adjustments, frame);
 
-      lr = Math.max(0, Math.min(255, lr)); lg = Math.max(0, Math.min(255, lg)); lb = Math.max(0, Math.min(255, lb));
+  // 7. Quantize once, with dither
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixelIndex = y * width + x;
+      const i = pixelIndex * 4, w = pixelIndex * 3;
+      const dither = (random() - 0.5);
+      const lr = Math.max(0, Math.min(255, work[w] * 255 + dither));
+      const lg = Math.max(0, Math.min(255, work[w + 1] * 255 + dither));
+      const lb = Math.max(0, Math.min(255, work[w + 2] * 255 + dither));
 
-      outData[i] = lr; outData[i + 1] = lg; outData[i + 2] = lb; outData[i + 3] = a;
+      outData[i] = lr; outData[i + 1] = lg; outData[i + 2] = lb; outData[i + 3] = data[i + 3];
 
-      histR[lr | 0]++; histG[lg | 0]++; histB[lb | 0]++;
+      if (y >= histStart && y < histEnd) { histR[lr | 0]++; histG[lg | 0]++; histB[lb | 0]++; }
     }
   }
 
-  applyTexture(output, adjustments);
   return { imageData: output, histogram: { r: histR, g: histG, b: histB } };
 };
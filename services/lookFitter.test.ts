@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { LookFitError, fitLUTFromPair } from './lookFitter';
+import { createLUTSampler } from './lutSampler';
+
+// 64x64 pixels covering the RGB cube on a 16-step grid, each channel mapped through `f`
+const cubeImage = (f: (v: number, c: number) => number) => {
+    const data = new Uint8ClampedArray(64 * 64 * 4);
+    for (let p = 0; p < 4096; p++) {
+        const rgb = [p % 16, (p >> 4) % 16, p >> 8].map(v => v * 17);
+        for (let c = 0; c < 3; c++) data[p * 4 + c] = f(rgb[c], c);
+        data[p * 4 + 3] = 255;
+    }
+    return { data, width: 64, height: 64 } as ImageData;
+};
+
+describe('fitLUTFromPair', () => {
+    it('learns an identity LUT from an unchanged pair', () => {
+        const image = cubeImage(v => v);
+        const result = fitLUTFromPair(image, image, { size: 17, smoothness: 0.1 });
+        expect(result.samples).toBe(4096);
+        expect(result.meanError).toBeLessThan(0.01);
+        expect(result.coverage.nodeCoverage).toBe(1);
+        const out = [0, 0, 0];
+        createLUTSampler(result.lut)(0.3, 0.6, 0.9, out);
+        expect(out[0]).toBeCloseTo(0.3, 3);
+        expect(out[1]).toBeCloseTo(0.6, 3);
+        expect(out[2]).toBeCloseTo(0.9, 3);
+    });
+
+    it('recovers a per-channel grade', () => {
+        const before = cubeImage(v => v);
+        const after = cubeImage((v, c) => c === 2 ? v * 0.5 : v);
+        const result = fitLUTFromPair(before, after, { size: 17, smoothness: 0.1 });
+        const out = [0, 0, 0];
+        createLUTSampler(result.lut)(0.4, 0.4, 0.8, out);
+        expect(out[0]).toBeCloseTo(0.4, 2);
+        expect(out[2]).toBeCloseTo(0.4, 2);
+        expect(result.meanError).toBeLessThan(1);
+    });
+
+    it('rejects images of different sizes', () => {
+        const a = cubeImage(v => v);
+        expect(() => fitLUTFromPair(a, { ...a, width: 32 } as ImageData, { size: 17, smoothness: 0.5 })).toThrow(LookFitError);
+    });
+});
@@ -0,0 +1,264 @@
+
+import { LUTContainer } from '../types';
+import { createLUTSampler } from './lutSampler';
+import { SRGB8_TO_LINEAR, decodeSRGB, linearToOklab } from './colorSpace';
+
+// --- Learn a look: fit a 3D LUT that maps a neutral render onto a graded version of the same frame ---
+// Every pixel pair is splatted onto the lattice (trilinear weights) as a colour displacement, then the displacement
+// field is solved with a smoothness term so colours the pair never shows are interpolated from their neighbours and
+// fade back to identity far from any data. Solved coarse to fine so large empty regions converge quickly.
+
+export type LookFitSize = 17 | 33;
+
+export interface LookFitOptions {
+    size: LookFitSize;
+    smoothness: number; // 0-1; higher trades fit accuracy for a smoother LUT
+}
+
+export interface LookFitRegion {
+    id: string;
+    label: string;
+    samples: number;
+    meanError: number; // ΔE (OKLab × 100)
+    p95Error: number;
+}
+
+// Sample counts over the colours of the before image: column 0 is neutrals, then hue bins; rows are lightness bins
+export interface LookFitCoverage {
+    columns: number;
+    rows: number;
+    counts: Float32Array;
+    nodeCoverage: number; // Share of LUT nodes that received samples, 0-1
+}
+
+export interface LookFitResult {
+    lut: LUTContainer;
+    samples: number;
+    meanError: number;
+    regions: LookFitRegion[];
+    coverage: LookFitCoverage;
+}
+
+export class LookFitError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LookFitError';
+    }
+}
+
+const SOLVE_LEVELS = [9, 17, 33];
+const SOLVE_ITERATIONS = 80;
+// Pull toward identity relative to the smoothness weight, only felt where there is no data
+const IDENTITY_PRIOR = 1e-3;
+// Fewest opaque pixel pairs worth fitting
+const MIN_SAMPLES = 1000;
+
+const NEUTRAL_CHROMA = 0.03;
+const HUE_BINS = 24;
+const LIGHTNESS_BINS = 10;
+
+// OKLab hue angles (degrees) of the sRGB primaries and secondaries; each region spans halfway to its neighbours
+const HUE_REGIONS: { id: string, label: string, hue: number }[] = [
+    { id: 'red', label: '红 (Red)', hue: 29 },
+    { id: 'yellow', label: '黄 (Yellow)', hue: 110 },
+    { id: 'green', label: '绿 (Green)', hue: 142 },
+    { id: 'cyan', label: '青 (Cyan)', hue: 195 },
+    { id: 'blue', label: '蓝 (Blue)', hue: 264 },
+    { id: 'magenta', label: '洋红 (Magenta)', hue: 328 }
+];
+
+const TONE_REGIONS = [
+    { id: 'shadows', label: '暗部 (Shadows)', max: 0.45 },
+    { id: 'midtones', label: '中间调 (Midtones)', max: 0.75 },
+    { id: 'highlights', label: '高光 (Highlights)', max: Infinity }
+];
+
+const hueDistance = (a: number, b: number) => {
+    const d = Math.abs(a - b) % 360;
+    return d > 180 ? 360 - d : d;
+};
+
+const nearestHueRegion = (hue: number): number => {
+    let best = 0;
+    for (let i = 1; i < HUE_REGIONS.length; i++) {
+        if (hueDistance(hue, HUE_REGIONS[i].hue) < hueDistance(hue, HUE_REGIONS[best].hue)) best = i;
+    }
+    return best;
+};
+
+// Accumulate sample displacements onto an N³ lattice
+const splat = (before: Float32Array, delta: Float32Array, count: number, size: number) => {
+    const sumW = new Float64Array(size * size * size);
+    const sumD = new Float64Array(size * size * size * 3);
+    const max = size - 1, sg = size, sb = size * size;
+    for (let s = 0; s < count; s++) {
+        const i = s * 3;
+        const pr = before[i] * max, pg = before[i + 1] * max, pb = before[i + 2] * max;
+        const r0 = Math.min(max - 1, pr | 0), g0 = Math.min(max - 1, pg | 0), b0 = Math.min(max - 1, pb | 0);
+        const fr = pr - r0, fg = pg - g0, fb = pb - b0;
+        for (let c = 0; c < 8; c++) {
+            const dr = c & 1, dg = (c >> 1) & 1, db = (c >> 2) & 1;
+            const w = (dr ? fr : 1 - fr) * (dg ? fg : 1 - fg) * (db ? fb : 1 - fb);
+            if (w <= 0) continue;
+            const n = (r0 + dr) + (g0 + dg) * sg + (b0 + db) * sb;
+            sumW[n] += w;
+            sumD[n * 3] += w * delta[i];
+            sumD[n * 3 + 1] += w * delta[i + 1];
+            sumD[n * 3 + 2] += w * delta[i + 2];
+        }
+    }
+    return { sumW, sumD };
+};
+
+// Trilinear upsample of a displacement lattice to a finer size, as the starting point for the next level
+const upsample = (d: Float64Array, from: number, to: number): Float64Array => {
+    const sample = createLUTSampler({ size: from, data: Float32Array.from(d) }, 'trilinear');
+    const out = new Float64Array(to * to * to * 3);
+    const px = [0, 0, 0];
+    for (let b = 0; b < to; b++) {
+        for (let g = 0; g < to; g++) {
+            for (let r = 0; r < to; r++) {
+                sample(r / (to - 1), g / (to - 1), b / (to - 1), px);
+                const n = (r + g * to + b * to * to) * 3;
+                out[n] = px[0]; out[n + 1] = px[1]; out[n + 2] = px[2];
+            }
+        }
+    }
+    return out;
+};
+
+// Gauss-Seidel on: Σ w (d - δ)² + λ Σ (d - d_neighbour)² + ε d²
+const solve = (sumW: Float64Array, sumD: Float64Array, d: Float64Array, size: number, lambda: number) => {
+    const eps = lambda * IDENTITY_PRIOR;
+    const sg = size, sb = size * size, max = size - 1;
+    for (let it = 0; it < SOLVE_ITERATIONS; it++) {
+        for (let b = 0; b < size; b++) {
+            for (let g = 0; g < size; g++) {
+                for (let r = 0; r < size; r++) {
+                    const n = r + g * sg + b * sb;
+                    let k = 0, s0 = 0, s1 = 0, s2 = 0;
+                    const add = (m: number) => { k++; s0 += d[m * 3]; s1 += d[m * 3 + 1]; s2 += d[m * 3 + 2]; };
+                    if (r > 0) add(n - 1);
+                    if (r < max) add(n + 1);
+                    if (g > 0) add(n - sg);
+                    if (g < max) add(n + sg);
+                    if (b > 0) add(n - sb);
+                    if (b < max) add(n + sb);
+                    const den = sumW[n] + lambda * k + eps;
+                    d[n * 3] = (sumD[n * 3] + lambda * s0) / den;
+                    d[n * 3 + 1] = (sumD[n * 3 + 1] + lambda * s1) / den;
+                    d[n * 3 + 2] = (sumD[n * 3 + 2] + lambda * s2) / den;
+                }
+            }
+        }
+    }
+};
+
+const toOklab = (r: number, g: number, b: number, out: number[]) => linearToOklab(decodeSRGB(r), decodeSRGB(g), decodeSRGB(b), out);
+
+// Fit a LUT from two aligned images of the same size. Transparent pixels are skipped.
+export const fitLUTFromPair = (before: ImageData, after: ImageData, options: LookFitOptions, name?: string): LookFitResult => {
+    if (before.width !== after.width || before.height !== after.height) throw new LookFitError('Images must be the same size');
+
+    // Samples: before colour and the displacement to the after colour, both 0-1
+    const total = before.width * before.height;
+    const src = new Float32Array(total * 3), delta = new Float32Array(total * 3);
+    let count = 0;
+    for (let p = 0; p < total; p++) {
+        const i = p * 4;
+        if (before.data[i + 3] < 128 || after.data[i + 3] < 128) continue;
+        const o = count * 3;
+        for (let c = 0; c < 3; c++) {
+            src[o + c] = before.data[i + c] / 255;
+            delta[o + c] = (after.data[i + c] - before.data[i + c]) / 255;
+        }
+        count++;
+    }
+    if (count < MIN_SAMPLES) throw new LookFitError('Not enough overlapping pixels to fit');
+
+    // Coarse to fine up to the requested size
+    const levels = SOLVE_LEVELS.filter(s => s <= options.size);
+    let d: Float64Array | null = null, prev = 0;
+    let nodeCoverage = 0; // Share of nodes with data, at the finest level
+    for (const size of levels) {
+        const acc = splat(src, delta, count, size);
+        const sumW = acc.sumW;
+        d = d ? upsample(d, prev, size) : new Float64Array(size * size * size * 3);
+        let observed = 0, weight = 0;
+        for (let n = 0; n < sumW.length; n++) if (sumW[n] > 0) { observed++; weight += sumW[n]; }
+        nodeCoverage = observed / sumW.length;
+        // Smoothness relative to the typical data weight of an observed node
+        const lambda = (weight / Math.max(1, observed)) * Math.max(0.01, options.smoothness);
+        solve(sumW, acc.sumD, d, size, lambda);
+        prev = size;
+    }
+
+    const size = options.size;
+    const data = new Float32Array(size * size * size * 3);
+    const max = size - 1;
+    for (let b = 0; b < size; b++) {
+        for (let g = 0; g < size; g++) {
+            for (let r = 0; r < size; r++) {
+                const n = (r + g * size + b * size * size) * 3;
+                data[n] = Math.max(0, Math.min(1, r / max + d[n]));
+                data[n + 1] = Math.max(0, Math.min(1, g / max + d[n + 1]));
+                data[n + 2] = Math.max(0, Math.min(1, b / max + d[n + 2]));
+            }
+        }
+    }
+    const lut: LUTContainer = { size, data, name, interpolation: 'tetrahedral' };
+
+    // --- Report: ΔE per region and gamut coverage, both by the before colour ---
+    const sample = createLUTSampler(lut, 'tetrahedral');
+    const regionIds = [...TONE_REGIONS.map(r => r.id), 'neutral', ...HUE_REGIONS.map(r => r.id)];
+    const errors: number[][] = regionIds.map(() => []);
+    const counts = new Float32Array((HUE_BINS + 1) * LIGHTNESS_BINS);
+    const fit = [0, 0, 0], labIn = [0, 0, 0], labFit = [0, 0, 0], labOut = [0, 0, 0];
+    let sumError = 0;
+    for (let s = 0; s < count; s++) {
+        const i = s * 3;
+        const r = src[i], g = src[i + 1], b = src[i + 2];
+        sample(r, g, b, fit);
+        toOklab(r, g, b, labIn);
+        toOklab(fit[0], fit[1], fit[2], labFit);
+        linearToOklab(
+            SRGB8_TO_LINEAR[Math.round((r + delta[i]) * 255)],
+            SRGB8_TO_LINEAR[Math.round((g + delta[i + 1]) * 255)],
+            SRGB8_TO_LINEAR[Math.round((b + delta[i + 2]) * 255)],
+            labOut
+        );
+        const e = Math.hypot(labFit[0] - labOut[0], labFit[1] - labOut[1], labFit[2] - labOut[2]) * 100;
+        sumError += e;
+
+        const L = labIn[0], chroma = Math.hypot(labIn[1], labIn[2]);
+        const hue = (Math.atan2(labIn[2], labIn[1]) * 180 / Math.PI + 360) % 360;
+        errors[TONE_REGIONS.findIndex(t => L < t.max)].push(e);
+        if (chroma < NEUTRAL_CHROMA) errors[TONE_REGIONS.length].push(e);
+        else errors[TONE_REGIONS.length + 1 + nearestHueRegion(hue)].push(e);
+
+        const row = Math.min(LIGHTNESS_BINS - 1, Math.max(0, Math.floor(L * LIGHTNESS_BINS)));
+        const column = chroma < NEUTRAL_CHROMA ? 0 : 1 + Math.min(HUE_BINS - 1, Math.floor(hue / 360 * HUE_BINS));
+        counts[row * (HUE_BINS + 1) + column]++;
+    }
+
+    const labels = [...TONE_REGIONS.map(r => r.label), '中性色 (Neutrals)', ...HUE_REGIONS.map(r => r.label)];
+    const regions: LookFitRegion[] = regionIds.map((id, k) => {
+        const list = errors[k].sort((a, b) => a - b);
+        const n = list.length;
+        return {
+            id,
+            label: labels[k],
+            samples: n,
+            meanError: n ? list.reduce((a, b) => a + b, 0) / n : 0,
+            p95Error: n ? list[Math.min(n - 1, Math.floor(n * 0.95))] : 0
+        };
+    });
+
+    return {
+        lut,
+        samples: count,
+        meanError: sumError / count,
+        regions,
+        coverage: { columns: HUE_BINS + 1, rows: LIGHTNESS_BINS, counts, nodeCoverage }
+    };
+};
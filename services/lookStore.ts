@@ -0,0 +1,68 @@
+
+import { CustomLook, FilmProfile } from '../types';
+
+// --- Custom look library and custom film profiles, persisted in IndexedDB (LUT data is stored as its Float32Array) ---
+
+const DB_NAME = 'fujisim-looks';
+const DB_VERSION = 2;
+const LOOK_STORE = 'looks';
+const PROFILE_STORE = 'profiles'; // Added in version 2
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                for (const store of [LOOK_STORE, PROFILE_STORE]) {
+                    if (!request.result.objectStoreNames.contains(store)) request.result.createObjectStore(store, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a retry after a failed open (e.g. private browsing)
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const run = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDB();
+    return new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = action(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+// All saved looks, oldest first
+export const loadCustomLooks = async (): Promise<CustomLook[]> => {
+    const looks = await run<CustomLook[]>(LOOK_STORE, 'readonly', store => store.getAll());
+    return looks.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveCustomLook = async (look: CustomLook): Promise<void> => {
+    await run(LOOK_STORE, 'readwrite', store => store.put(look));
+};
+
+export const deleteCustomLook = async (id: string): Promise<void> => {
+    await run(LOOK_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Saved film profiles, oldest first
+export const loadCustomProfiles = async (): Promise<FilmProfile[]> => {
+    const profiles = await run<FilmProfile[]>(PROFILE_STORE, 'readonly', store => store.getAll());
+    return profiles.sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0));
+};
+
+export const saveCustomProfile = async (profile: FilmProfile): Promise<void> => {
+    await run(PROFILE_STORE, 'readwrite', store => store.put(profile));
+};
+
+export const deleteCustomProfile = async (id: string): Promise<void> => {
+    await run(PROFILE_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,57 @@
+
+import { Adjustments, LUTContainer, LUTInterpolation, LUTSize, MaskLayer } from '../types';
+import { renderInPool } from './renderPool';
+import { createLUTSampler } from './lutSampler';
+
+export const LUT_SIZES: LUTSize[] = [17, 33, 65];
+export const LUT_INTERPOLATIONS: LUTInterpolation[] = ['trilinear', 'tetrahedral'];
+
+export interface LUTBenchmarkResult {
+    size: LUTSize;
+    interpolation: LUTInterpolation;
+    buildMs: number;  // Generating the LUT (once per size)
+    lookupMs: number; // The lookup alone over every pixel, on the main thread
+    frameMs: number;  // A full pipeline render across the worker pool
+}
+
+// Frames timed per option, after one untimed warm-up render
+const BENCHMARK_FRAMES = 3;
+
+const now = () => performance.now();
+
+// Time every LUT size / interpolation combination on the same frame. Renders are awaited one at a time;
+// anything else rendering in the pool meanwhile inflates the frame times.
+export const runLUTBenchmark = async (
+    pixels: ImageData,
+    buildLUT: (size: LUTSize) => LUTContainer,
+    adjustments: Adjustments,
+    intensity: number,
+    masks: MaskLayer[] = []
+): Promise<LUTBenchmarkResult[]> => {
+    const results: LUTBenchmarkResult[] = [];
+    const { data } = pixels;
+    const out = [0, 0, 0];
+
+    for (const size of LUT_SIZES) {
+        let t0 = now();
+        const base = buildLUT(size);
+        const buildMs = now() - t0;
+
+        for (const interpolation of LUT_INTERPOLATIONS) {
+            const lut = { ...base, interpolation };
+
+            const sample = createLUTSampler(lut);
+            t0 = now();
+            for (let i = 0; i < data.length; i += 4) sample(data[i] / 255, data[i + 1] / 255, data[i + 2] / 255, out);
+            const lookupMs = now() - t0;
+
+            await renderInPool(pixels, lut, adjustments, intensity, masks);
+            t0 = now();
+            for (let f = 0; f < BENCHMARK_FRAMES; f++) await renderInPool(pixels, lut, adjustments, intensity, masks);
+            const frameMs = (now() - t0) / BENCHMARK_FRAMES;
+
+            results.push({ size, interpolation, buildMs, lookupMs, frameMs });
+        }
+    }
+    return results;
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { Adjustments, LUTContainer } from '../types';
+import { bakeLookLUT, format3dl, formatCube } from './lutExporter';
+import { createDefaultToneCurves } from './toneCurve';
+
+const IDENTITY: LUTContainer = { size: 2, data: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0, 0, 0, 1, 1, 0, 1, 0, 1, 1, 1, 1, 1]) };
+
+const adjustmentsWith = (overrides: Partial<Adjustments>): Adjustments => ({
+    brightness: 0, contrast: 0, saturation: 0, highlights: 0, shadows: 0,
+    hsl: {}, curves: createDefaultToneCurves(),
+    ...overrides
+} as Adjustments);
+
+describe('bakeLookLUT', () => {
+    it('bakes an unadjusted identity look to an identity table of the requested size', () => {
+        const lut = bakeLookLUT(IDENTITY, adjustmentsWith({}), 1, 33, 'look');
+        expect(lut.size).toBe(33);
+        expect(lut.name).toBe('look');
+        const i = (8 + 16 * 33 + 24 * 33 * 33) * 3;
+        expect(lut.data[i]).toBeCloseTo(8 / 32, 4);
+        expect(lut.data[i + 1]).toBeCloseTo(16 / 32, 4);
+        expect(lut.data[i + 2]).toBeCloseTo(24 / 32, 4);
+    });
+
+    it('maps display values to display values and clips at white', () => {
+        // Brightness 51 adds 0.2 to the display value
+        const lut = bakeLookLUT(IDENTITY, adjustmentsWith({ brightness: 51 }), 1, 33);
+        expect(lut.data[16 * 3]).toBeCloseTo(0.7, 4);
+        expect(lut.data[32 * 3]).toBe(1);
+    });
+});
+
+describe('formatCube', () => {
+    it('writes the header and one red-fastest row per node', () => {
+        expect(formatCube(IDENTITY, 'My "look"')).toBe([
+            `TITLE "My 'look'"`,
+            '# Created by FujiSim Web',
+            'LUT_3D_SIZE 2',
+            'DOMAIN_MIN 0.0 0.0 0.0',
+            'DOMAIN_MAX 1.0 1.0 1.0',
+            '0.000000 0.000000 0.000000',
+            '1.000000 0.000000 0.000000',
+            '0.000000 1.000000 0.000000',
+            '1.000000 1.000000 0.000000',
+            '0.000000 0.000000 1.000000',
+            '1.000000 0.000000 1.000000',
+            '0.000000 1.000000 1.000000',
+            '1.000000 1.000000 1.000000',
+            ''
+        ].join('\n'));
+    });
+});
+
+describe('format3dl', () => {
+    it('writes a 10-bit input mesh and 12-bit rows with blue fastest', () => {
+        const lines = format3dl(IDENTITY, 'look').split('\n');
+        expect(lines.slice(2, 5)).toEqual(['3DMESH', 'Mesh 0 12', '0 1023']);
+        expect(lines.slice(5, 13)).toEqual([
+            '0 0 0', '0 0 4095', '0 4095 0', '0 4095 4095',
+            '4095 0 0', '4095 0 4095', '4095 4095 0', '4095 4095 4095'
+        ]);
+    });
+
+    it('spaces a 33-point mesh evenly over the 10-bit input range', () => {
+        const lut = bakeLookLUT(IDENTITY, adjustmentsWith({}), 1, 33);
+        const lines = format3dl(lut, 'look').trim().split('\n');
+        expect(lines[3]).toBe('Mesh 5 12');
+        const mesh = lines[4].split(' ').map(Number);
+        expect(mesh.length).toBe(33);
+        expect(mesh[16]).toBe(512);
+        expect(mesh[32]).toBe(1023);
+        expect(lines.length).toBe(5 + 33 * 33 * 33);
+    });
+});
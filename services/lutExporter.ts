@@ -0,0 +1,71 @@
+
+import { Adjustments, LUTContainer } from '../types';
+import { createGlobalColorTransform } from './imageProcessor';
+import { decodeSRGB, encodeSRGB } from './colorSpace';
+
+export type LUTExportFormat = 'cube' | '3dl';
+export type LUTExportSize = 33 | 65;
+
+// .3dl stores integer code values: 10-bit input mesh, 12-bit output
+const MESH_INPUT_MAX = 1023;
+const MESH_OUTPUT_MAX = 4095;
+const MESH_OUTPUT_BITS = 12;
+
+// Bake the spatially invariant part of the pipeline (HSL, tone, curves, film LUT at intensity) into a 3D LUT.
+// Masks, vignette, sharpening and grain depend on pixel position and can't be expressed as a LUT.
+export const bakeLookLUT = (filmLUT: LUTContainer, adjustments: Adjustments, intensity: number, size: LUTExportSize, name?: string): LUTContainer => {
+    const transform = createGlobalColorTransform(filmLUT, adjustments, intensity);
+    const data = new Float32Array(size * size * size * 3);
+    const out = [0, 0, 0];
+    const max = size - 1;
+    for (let b = 0; b < size; b++) {
+        for (let g = 0; g < size; g++) {
+            for (let r = 0; r < size; r++) {
+                // The transform works in linear light; the exported table maps display values to display values
+                transform(decodeSRGB(r / max), decodeSRGB(g / max), decodeSRGB(b / max), out);
+                const i = (r + g * size + b * size * size) * 3;
+                data[i] = Math.max(0, Math.min(1, encodeSRGB(out[0])));
+                data[i + 1] = Math.max(0, Math.min(1, encodeSRGB(out[1])));
+                data[i + 2] = Math.max(0, Math.min(1, encodeSRGB(out[2])));
+            }
+        }
+    }
+    return { size, data, name };
+};
+
+// Adobe/Resolve .cube: red varies fastest
+export const formatCube = (lut: LUTContainer, title: string): string => {
+    const lines = [
+        `TITLE "${title.replace(/"/g, "'")}"`,
+        `# Created by FujiSim Web`,
+        `LUT_3D_SIZE ${lut.size}`,
+        `DOMAIN_MIN 0.0 0.0 0.0`,
+        `DOMAIN_MAX 1.0 1.0 1.0`
+    ];
+    for (let i = 0; i < lut.data.length; i += 3) {
+        lines.push(`${lut.data[i].toFixed(6)} ${lut.data[i + 1].toFixed(6)} ${lut.data[i + 2].toFixed(6)}`);
+    }
+    return lines.join('\n') + '\n';
+};
+
+// Autodesk/Lustre .3dl: mesh header, the input code values along each axis, then one row per node with blue fastest
+export const format3dl = (lut: LUTContainer, title: string): string => {
+    const { size, data } = lut;
+    const meshBits = Math.round(Math.log2(size - 1));
+    const lines = [
+        `# ${title}`,
+        `# Created by FujiSim Web`,
+        `3DMESH`,
+        `Mesh ${meshBits} ${MESH_OUTPUT_BITS}`,
+        Array.from({ length: size }, (_, i) => Math.round(i * MESH_INPUT_MAX / (size - 1))).join(' ')
+    ];
+    for (let r = 0; r < size; r++) {
+        for (let g = 0; g < size; g++) {
+            for (let b = 0; b < size; b++) {
+                const i = (r + g * size + b * size * size) * 3;
+                lines.push(`${Math.round(data[i] * MESH_OUTPUT_MAX)} ${Math.round(data[i + 1] * MESH_OUTPUT_MAX)} ${Math.round(data[i + 2] * MESH_OUTPUT_MAX)}`);
+            }
+        }
+    }
+    return lines.join('\n') + '\n';
+};
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { LUTContainer } from '../types';
+import { LUTParseError, parse3dl, parseCsp, parseCube, parseHald } from './lutFormats';
+
+const IDENTITY_2 = [
+    '0 0 0', '1 0 0', '0 1 0', '1 1 0',
+    '0 0 1', '1 0 1', '0 1 1', '1 1 1'
+];
+
+// Node (r, g, b) of a red-fastest table
+const node = (lut: LUTContainer, r: number, g: number, b: number) => {
+    const i = (r + g * lut.size + b * lut.size * lut.size) * 3;
+    return Array.from(lut.data.subarray(i, i + 3));
+};
+
+const expectClose = (actual: number[], expected: number[]) => expected.forEach((v, c) => expect(actual[c]).toBeCloseTo(v, 4));
+
+describe('parseCube', () => {
+    it('scales a table by its domain', () => {
+        const lut = parseCube(['LUT_3D_SIZE 2', 'DOMAIN_MIN 0 0 0', 'DOMAIN_MAX 2 2 2', ...IDENTITY_2].join('\n'), 'test');
+        // Inputs 0-1 only reach the lower half of a 0-2 domain
+        expect(lut.size).toBe(33);
+        expectClose(node(lut, 32, 0, 0), [0.5, 0, 0]);
+        expectClose(node(lut, 16, 32, 0), [0.25, 0.5, 0]);
+    });
+
+    it('passes a plain 0-1 table through and names it after its TITLE', () => {
+        const rows = [...IDENTITY_2];
+        rows[1] = '0.8 0.1 0';
+        const lut = parseCube(['TITLE "Warm # 1"', 'LUT_3D_SIZE 2', ...rows].join('\n'), 'file-name');
+        expect(lut.name).toBe('Warm # 1');
+        expect(lut.size).toBe(2);
+        expectClose(node(lut, 1, 0, 0), [0.8, 0.1, 0]);
+        expectClose(node(lut, 1, 1, 1), [1, 1, 1]);
+    });
+
+    it('applies a LUT_1D_SIZE shaper before the 3D table', () => {
+        const text = ['LUT_1D_SIZE 3', 'LUT_3D_SIZE 2', '0 0 0', '0.25 0.5 0.5', '0.5 1 1', ...IDENTITY_2].join('\n');
+        const lut = parseCube(text, 'test');
+        expectClose(node(lut, 32, 32, 32), [0.5, 1, 1]);
+        expectClose(node(lut, 16, 16, 0), [0.25, 0.5, 0]);
+    });
+
+    it('bakes a 1D-only file into a 3D table', () => {
+        const lut = parseCube(['LUT_1D_SIZE 2', '0 0 0', '1 0.5 0'].join('\n'), 'test');
+        expect(lut.size).toBe(33);
+        expectClose(node(lut, 32, 32, 32), [1, 0.5, 0]);
+        expectClose(node(lut, 16, 16, 16), [0.5, 0.25, 0]);
+    });
+
+    it('rejects a domain whose maximum equals its minimum', () => {
+        const text = ['LUT_3D_SIZE 2', 'DOMAIN_MIN 0 0 0', 'DOMAIN_MAX 1 0 1', ...IDENTITY_2].join('\n');
+        expect(() => parseCube(text, 'test')).toThrow(LUTParseError);
+        expect(() => parseCube(text, 'test')).toThrow(/Line 3/);
+    });
+
+    it('rejects an inverted input range', () => {
+        const text = ['LUT_3D_SIZE 2', 'LUT_3D_INPUT_RANGE 1 0', ...IDENTITY_2].join('\n');
+        expect(() => parseCube(text, 'test')).toThrow(LUTParseError);
+    });
+});
+
+// A 2-point .3dl whose rows are written blue fastest, with distinct code values per channel
+const rows3dl = (scale: number) => {
+    const rows: string[] = [];
+    for (let r = 0; r < 2; r++) for (let g = 0; g < 2; g++) for (let b = 0; b < 2; b++) {
+        rows.push(`${r * scale} ${g * scale / 2} ${b * scale / 4}`);
+    }
+    return rows;
+};
+
+describe('parse3dl', () => {
+    it('reads rows blue fastest into a red-fastest table, 12-bit under an input mesh', () => {
+        const lut = parse3dl(['3DMESH', '0 1023', ...rows3dl(1000)].join('\n'), 'test');
+        expect(lut.size).toBe(2);
+        expectClose(node(lut, 1, 0, 0), [1000 / 4095, 0, 0]);
+        expectClose(node(lut, 0, 1, 0), [0, 500 / 4095, 0]);
+        expectClose(node(lut, 0, 0, 1), [0, 0, 250 / 4095]);
+    });
+
+    it('takes the output depth from the Mesh line', () => {
+        const lut = parse3dl(['3DMESH', 'Mesh 1 10', '0 1023', ...rows3dl(1020)].join('\n'), 'test');
+        expectClose(node(lut, 1, 1, 1), [1020 / 1023, 510 / 1023, 255 / 1023]);
+    });
+
+    it('reads values above 12 bits as 16-bit', () => {
+        const lut = parse3dl(rows3dl(65532).join('\n'), 'test');
+        expectClose(node(lut, 1, 0, 0), [65532 / 65535, 0, 0]);
+    });
+
+    it('rejects rows whose output depth cannot be told', () => {
+        expect(() => parse3dl(rows3dl(1000).join('\n'), 'test')).toThrow(/ambiguous/);
+    });
+
+    it('turns an uneven input mesh into a shaper', () => {
+        const identity: string[] = [];
+        for (let r = 0; r < 4; r++) for (let g = 0; g < 4; g++) for (let b = 0; b < 4; b++) {
+            identity.push(`${r * 1365} ${g * 1365} ${b * 1365}`);
+        }
+        // Node 2 sits at input 512 instead of 682: mid grey already reaches it
+        const lut = parse3dl(['0 128 512 1023', ...identity].join('\n'), 'test');
+        expect(lut.size).toBe(33);
+        expect(node(lut, 16, 16, 16)[0]).toBeCloseTo(2 / 3, 2);
+        expect(node(lut, 32, 32, 32)[0]).toBeCloseTo(1, 4);
+    });
+});
+
+describe('parseCsp', () => {
+    const prelut = (lo: number, hi: number) => ['2', `${lo} ${hi}`, '0 1'];
+
+    it('maps the prelut input range onto the 3D table', () => {
+        const text = ['CSPLUTV100', '3D', ...prelut(0, 2), ...prelut(0, 2), ...prelut(0, 2), '2 2 2', ...IDENTITY_2].join('\n');
+        const lut = parseCsp(text, 'test');
+        expectClose(node(lut, 32, 32, 0), [0.5, 0.5, 0]);
+        expectClose(node(lut, 16, 0, 0), [0.25, 0, 0]);
+    });
+
+    it('passes an identity prelut and 3D table straight through', () => {
+        const text = ['CSPLUTV100', '3D', 'BEGIN METADATA', 'anything', 'END METADATA', ...prelut(0, 1), ...prelut(0, 1), ...prelut(0, 1), '2 2 2', ...IDENTITY_2].join('\n');
+        const lut = parseCsp(text, 'test');
+        expect(lut.size).toBe(2);
+        expectClose(node(lut, 1, 0, 1), [1, 0, 1]);
+    });
+
+    it('reads a 1D table', () => {
+        const text = ['CSPLUTV100', '1D', ...prelut(0, 1), ...prelut(0, 1), ...prelut(0, 1), '2', '0 0 0', '0.5 1 0.25'].join('\n');
+        const lut = parseCsp(text, 'test');
+        expectClose(node(lut, 32, 32, 32), [0.5, 1, 0.25]);
+    });
+
+    it('rejects prelut inputs that do not increase', () => {
+        const text = ['CSPLUTV100', '3D', ...prelut(1, 1), ...prelut(0, 1), ...prelut(0, 1), '2 2 2', ...IDENTITY_2].join('\n');
+        expect(() => parseCsp(text, 'test')).toThrow(LUTParseError);
+    });
+});
+
+describe('parseHald', () => {
+    it('reads a level-2 Hald image as a 4-point cube, red fastest in reading order', () => {
+        const pixels = new Uint8ClampedArray(8 * 8 * 4);
+        for (let p = 0; p < 64; p++) {
+            pixels[p * 4] = (p % 4) * 85;
+            pixels[p * 4 + 1] = (Math.floor(p / 4) % 4) * 85;
+            pixels[p * 4 + 2] = Math.floor(p / 16) * 85;
+            pixels[p * 4 + 3] = 255;
+        }
+        const lut = parseHald(pixels, 8, 8, 'hald');
+        expect(lut.size).toBe(4);
+        expectClose(node(lut, 3, 0, 0), [1, 0, 0]);
+        expectClose(node(lut, 1, 2, 3), [1 / 3, 2 / 3, 1]);
+    });
+
+    it('rejects images that are not level³ squares', () => {
+        expect(() => parseHald(new Uint8ClampedArray(10 * 10 * 4), 10, 10, 'hald')).toThrow(LUTParseError);
+    });
+});
@@ -0,0 +1,404 @@
+
+import { LUTContainer } from '../types';
+
+// --- LUT import: .cube (1D and/or 3D), Autodesk .3dl, Cinespace .csp and Hald CLUT images ---
+// Every format is parsed into an optional per-channel 1D shaper followed by an optional 3D table, each with its
+// own input domain, then baked into the plain 0-1 3D LUTContainer the renderer uses.
+
+export type LUTFileFormat = 'cube' | '3dl' | 'csp' | 'hald';
+
+export class LUTParseError extends Error {
+    line?: number;
+    constructor(message: string, line?: number) {
+        super(line !== undefined ? `Line ${line}: ${message}` : message);
+        this.name = 'LUTParseError';
+        this.line = line;
+    }
+}
+
+type Triplet = [number, number, number];
+
+interface Table1D {
+    size: number;
+    data: Float32Array; // RGB triplets
+    min: Triplet;
+    max: Triplet;
+}
+
+interface Table3D {
+    size: number;
+    data: Float32Array; // RGB triplets, red fastest
+    min: Triplet;
+    max: Triplet;
+}
+
+interface ParsedLUT {
+    shaper: Table1D | null;
+    cube: Table3D | null;
+}
+
+// Grid size used when a file has no 3D table, or its shaper has to be folded into one
+const BAKE_SIZE = 33;
+// Resolution of shapers resampled from piecewise-linear prelut/mesh points
+const SHAPER_SIZE = 1024;
+const MAX_3D_SIZE = 256;
+const MAX_1D_SIZE = 65536;
+
+const unitDomain = (): { min: Triplet, max: Triplet } => ({ min: [0, 0, 0], max: [1, 1, 1] });
+
+const sample1D = (t: Table1D, c: number, v: number): number => {
+    const pos = Math.max(0, Math.min(1, (v - t.min[c]) / (t.max[c] - t.min[c]))) * (t.size - 1);
+    const i = Math.min(t.size - 2, Math.floor(pos));
+    const f = pos - i;
+    return t.data[i * 3 + c] + (t.data[(i + 1) * 3 + c] - t.data[i * 3 + c]) * f;
+};
+
+const sample3D = (t: Table3D, r: number, g: number, b: number, out: number[]) => {
+    const { size, data } = t;
+    const max = size - 1;
+    const pos = [r, g, b].map((v, c) => Math.max(0, Math.min(1, (v - t.min[c]) / (t.max[c] - t.min[c]))) * max);
+    const [r0, g0, b0] = pos.map(p => Math.min(max - 1, Math.floor(p)));
+    const dr = pos[0] - r0, dg = pos[1] - g0, db = pos[2] - b0;
+    for (let c = 0; c < 3; c++) {
+        const at = (ri: number, gi: number, bi: number) => data[(ri + gi * size + bi * size * size) * 3 + c];
+        const c00 = at(r0, g0, b0) + (at(r0 + 1, g0, b0) - at(r0, g0, b0)) * dr;
+        const c10 = at(r0, g0 + 1, b0) + (at(r0 + 1, g0 + 1, b0) - at(r0, g0 + 1, b0)) * dr;
+        const c01 = at(r0, g0, b0 + 1) + (at(r0 + 1, g0, b0 + 1) - at(r0, g0, b0 + 1)) * dr;
+        const c11 = at(r0, g0 + 1, b0 + 1) + (at(r0 + 1, g0 + 1, b0 + 1) - at(r0, g0 + 1, b0 + 1)) * dr;
+        const c0 = c00 + (c10 - c00) * dg, c1 = c01 + (c11 - c01) * dg;
+        out[c] = c0 + (c1 - c0) * db;
+    }
+};
+
+const isUnitDomain = (t: { min: Triplet, max: Triplet }) => t.min.every(v => v === 0) && t.max.every(v => v === 1);
+
+// Fold shaper and domains into a 0-1 3D LUT. A plain 0-1 3D table is passed through untouched.
+const bakeParsedLUT = (parsed: ParsedLUT, name: string): LUTContainer => {
+    const { shaper, cube } = parsed;
+    if (cube && !shaper && isUnitDomain(cube)) return { size: cube.size, data: cube.data, name };
+
+    const size = cube ? Math.max(cube.size, BAKE_SIZE) : BAKE_SIZE;
+    const max = size - 1;
+    const data = new Float32Array(size * size * size * 3);
+    const v = [0, 0, 0], out = [0, 0, 0];
+    for (let b = 0; b < size; b++) {
+        for (let g = 0; g < size; g++) {
+            for (let r = 0; r < size; r++) {
+                v[0] = r / max; v[1] = g / max; v[2] = b / max;
+                if (shaper) for (let c = 0; c < 3; c++) v[c] = sample1D(shaper, c, v[c]);
+                if (cube) sample3D(cube, v[0], v[1], v[2], out);
+                else { out[0] = v[0]; out[1] = v[1]; out[2] = v[2]; }
+                const i = (r + g * size + b * size * size) * 3;
+                data[i] = out[0]; data[i + 1] = out[1]; data[i + 2] = out[2];
+            }
+        }
+    }
+    return { size, data, name };
+};
+
+// Piecewise-linear curve through (input, output) points, resampled to an even shaper over the input range
+const resampleCurves = (curves: { input: number[], output: number[] }[]): Table1D => {
+    const data = new Float32Array(SHAPER_SIZE * 3);
+    const min: Triplet = [0, 0, 0], max: Triplet = [1, 1, 1];
+    curves.forEach(({ input, output }, c) => {
+        min[c] = input[0];
+        max[c] = input[input.length - 1];
+        let k = 0;
+        for (let i = 0; i < SHAPER_SIZE; i++) {
+            const x = min[c] + (max[c] - min[c]) * i / (SHAPER_SIZE - 1);
+            while (k < input.length - 2 && x > input[k + 1]) k++;
+            const span = input[k + 1] - input[k];
+            const f = span > 0 ? Math.max(0, Math.min(1, (x - input[k]) / span)) : 0;
+            data[i * 3 + c] = output[k] + (output[k + 1] - output[k]) * f;
+        }
+    });
+    return { size: SHAPER_SIZE, data, min, max };
+};
+
+const parseNumbers = (parts: string[], lineNo: number): number[] => parts.map(p => {
+    const v = Number(p);
+    if (!Number.isFinite(v)) throw new LUTParseError(`"${p}" is not a number`, lineNo);
+    return v;
+});
+
+const parseSize = (value: string | undefined, lineNo: number, keyword: string, limit: number): number => {
+    const size = Number(value);
+    if (!Number.isInteger(size) || size < 2 || size > limit) throw new LUTParseError(`${keyword} must be an integer from 2 to ${limit}, got "${value ?? ''}"`, lineNo);
+    return size;
+};
+
+// --- .cube (Adobe / Resolve): optional 1D section first, then 3D; red fastest ---
+export const parseCube = (text: string, name: string): LUTContainer => {
+    const lines = text.split(/\r?\n/);
+    let title = '';
+    let size1D = 0, size3D = 0;
+    let domain: { min: Triplet, max: Triplet } | null = null;
+    let domainLine = 0;
+    let range1D: [number, number] | null = null, range3D: [number, number] | null = null;
+    const rows: number[] = [];
+    let lastDataLine = 0;
+
+    lines.forEach((raw, index) => {
+        const lineNo = index + 1;
+        const trimmed = raw.trim();
+        // Titles may contain '#'; elsewhere it starts a comment
+        const line = trimmed.startsWith('TITLE') ? trimmed : trimmed.replace(/#.*$/, '').trim();
+        if (line === '') return;
+        const parts = line.split(/\s+/);
+        const keyword = parts[0];
+
+        if (/^[A-Za-z_]/.test(keyword)) {
+            if (rows.length > 0) throw new LUTParseError(`keyword ${keyword} after table data`, lineNo);
+            switch (keyword) {
+                case 'TITLE': title = line.slice(5).trim().replace(/^"|"$/g, ''); break;
+                case 'LUT_1D_SIZE': size1D = parseSize(parts[1], lineNo, keyword, MAX_1D_SIZE); break;
+                case 'LUT_3D_SIZE': size3D = parseSize(parts[1], lineNo, keyword, MAX_3D_SIZE); break;
+                case 'DOMAIN_MIN':
+                case 'DOMAIN_MAX': {
+                    if (parts.length !== 4) throw new LUTParseError(`${keyword} needs 3 values`, lineNo);
+                    const v = parseNumbers(parts.slice(1), lineNo) as Triplet;
+                    domain = domain || unitDomain();
+                    if (keyword === 'DOMAIN_MIN') domain.min = v; else domain.max = v;
+                    domainLine = lineNo;
+                    break;
+                }
+                case 'LUT_1D_INPUT_RANGE':
+                case 'LUT_3D_INPUT_RANGE': {
+                    if (parts.length !== 3) throw new LUTParseError(`${keyword} needs 2 values`, lineNo);
+                    const [lo, hi] = parseNumbers(parts.slice(1), lineNo);
+                    if (hi <= lo) throw new LUTParseError(`${keyword} maximum must be greater than its minimum`, lineNo);
+                    if (keyword === 'LUT_1D_INPUT_RANGE') range1D = [lo, hi]; else range3D = [lo, hi];
+                    break;
+                }
+                default: break; // Vendor keywords (e.g. LUT_IN_VIDEO_RANGE) don't change the table
+            }
+            return;
+        }
+
+        if (size1D === 0 && size3D === 0) throw new LUTParseError('table data before LUT_1D_SIZE or LUT_3D_SIZE', lineNo);
+        if (parts.length !== 3) throw new LUTParseError(`expected 3 values per row, got ${parts.length}`, lineNo);
+        if (rows.length / 3 >= size1D + size3D ** 3) throw new LUTParseError(`more rows than LUT_1D_SIZE / LUT_3D_SIZE declare`, lineNo);
+        rows.push(...parseNumbers(parts, lineNo));
+        lastDataLine = lineNo;
+    });
+
+    if (size1D === 0 && size3D === 0) throw new LUTParseError('missing LUT_1D_SIZE or LUT_3D_SIZE');
+    // An empty or inverted domain would divide by zero (or flip the table) when the LUT is sampled
+    const d = domain as { min: Triplet, max: Triplet } | null;
+    if (d && d.max.some((v, c) => v <= d.min[c])) throw new LUTParseError('DOMAIN_MAX must be greater than DOMAIN_MIN', domainLine);
+    const expected = size1D + size3D ** 3;
+    if (rows.length / 3 < expected) {
+        throw new LUTParseError(`expected ${expected} rows, found ${rows.length / 3}`, lastDataLine || lines.length);
+    }
+
+    // DOMAIN_* describes the single section, or the 3D one when a 1D shaper is also present
+    const domainFor = (range: [number, number] | null, useDomain: boolean) =>
+        range ? { min: [range[0], range[0], range[0]] as Triplet, max: [range[1], range[1], range[1]] as Triplet }
+        : useDomain && domain ? domain : unitDomain();
+
+    const values = Float32Array.from(rows);
+    const parsed: ParsedLUT = {
+        shaper: size1D ? { size: size1D, data: values.subarray(0, size1D * 3), ...domainFor(range1D, size3D === 0) } : null,
+        cube: size3D ? { size: size3D, data: values.subarray(size1D * 3), ...domainFor(range3D, true) } : null
+    };
+    return bakeParsedLUT(parsed, title || name);
+};
+
+// --- .3dl (Autodesk / Lustre): input mesh line, then integer rows with blue fastest ---
+export const parse3dl = (text: string, name: string): LUTContainer => {
+    const lines = text.split(/\r?\n/);
+    let mesh: number[] | null = null;
+    let outputBits = 0;
+    const rows: number[] = [];
+    let lastDataLine = 0;
+
+    lines.forEach((raw, index) => {
+        const lineNo = index + 1;
+        const line = raw.replace(/#.*$/, '').trim();
+        if (line === '') return;
+        const parts = line.split(/\s+/);
+        if (/^(\d+D)?[A-Za-z]/.test(parts[0])) {
+            if (parts[0] === 'Mesh') {
+                if (parts.length !== 3) throw new LUTParseError('Mesh needs input and output bit depths', lineNo);
+                outputBits = parseNumbers(parts.slice(1), lineNo)[1];
+            }
+            return; // 3DMESH, LUT8, gamma and similar header words
+        }
+        const values = parseNumbers(parts, lineNo);
+        // The input mesh is the first numeric line that is not a row (a 3-point mesh reads as a row)
+        if (!mesh && rows.length === 0 && values.length !== 3) {
+            mesh = values;
+            return;
+        }
+        if (values.length !== 3) throw new LUTParseError(`expected 3 values per row, got ${values.length}`, lineNo);
+        rows.push(...values);
+        lastDataLine = lineNo;
+    });
+
+    const count = rows.length / 3;
+    const size = mesh ? mesh.length : Math.round(Math.cbrt(count));
+    if (size < 2 || size > MAX_3D_SIZE) throw new LUTParseError(`unsupported mesh size ${size}`);
+    if (count !== size ** 3) {
+        throw new LUTParseError(`expected ${size ** 3} rows for a ${size}-point mesh, found ${count}`, lastDataLine || lines.length);
+    }
+
+    // Output depth: from the Mesh line, else 16-bit when the values need it, else the 12-bit output that goes
+    // with an input mesh line. Without either, a brightest value under 4096 could be 10- or 12-bit.
+    const depthMax = (v: number) => [1023, 4095, 65535].find(d => v <= d) ?? v;
+    const brightest = rows.reduce((m, v) => Math.max(m, v), 0);
+    let outMax: number;
+    if (outputBits) outMax = 2 ** outputBits - 1;
+    else if (brightest > 65535) throw new LUTParseError(`output value ${brightest} exceeds 16 bits`, lastDataLine);
+    else if (brightest > 4095) outMax = 65535;
+    else if (mesh) outMax = 4095;
+    else throw new LUTParseError('output bit depth is ambiguous: add an input mesh line or "Mesh <in> <out>"');
+    const data = new Float32Array(count * 3);
+    for (let r = 0, src = 0; r < size; r++) {
+        for (let g = 0; g < size; g++) {
+            for (let b = 0; b < size; b++, src += 3) {
+                const i = (r + g * size + b * size * size) * 3;
+                data[i] = rows[src] / outMax; data[i + 1] = rows[src + 1] / outMax; data[i + 2] = rows[src + 2] / outMax;
+            }
+        }
+    }
+
+    // An unevenly spaced mesh becomes a shaper onto the evenly spaced table
+    let shaper: Table1D | null = null;
+    if (mesh) {
+        const points: number[] = mesh;
+        const inMax = depthMax(points[size - 1]);
+        const even = points.every((v, i) => Math.abs(v - i * inMax / (size - 1)) <= 1);
+        if (!even) {
+            const curve = { input: points.map(v => v / inMax), output: points.map((_, i) => i / (size - 1)) };
+            shaper = resampleCurves([curve, curve, curve]);
+        }
+    }
+    return bakeParsedLUT({ shaper, cube: { size, data, ...unitDomain() } }, name);
+};
+
+// --- .csp (Cinespace): per-channel prelut, then a 1D or 3D table (red fastest) ---
+export const parseCsp = (text: string, name: string): LUTContainer => {
+    // Token stream that keeps line numbers; the metadata block is skipped
+    const tokens: { value: string, line: number }[] = [];
+    let inMetadata = false;
+    text.split(/\r?\n/).forEach((raw, index) => {
+        const line = raw.trim();
+        if (line === 'BEGIN METADATA') { inMetadata = true; return; }
+        if (line === 'END METADATA') { inMetadata = false; return; }
+        if (inMetadata || line === '') return;
+        line.split(/\s+/).forEach(value => tokens.push({ value, line: index + 1 }));
+    });
+    let pos = 0;
+    const lastLine = () => tokens.length ? tokens[tokens.length - 1].line : 1;
+    const next = (what: string) => {
+        const token = tokens[pos++];
+        if (!token) throw new LUTParseError(`unexpected end of file, expected ${what}`, lastLine());
+        return token;
+    };
+    const nextNumber = (what: string) => {
+        const token = next(what);
+        const v = Number(token.value);
+        if (!Number.isFinite(v)) throw new LUTParseError(`expected ${what}, got "${token.value}"`, token.line);
+        return v;
+    };
+    const nextCount = (what: string, limit: number) => {
+        const token = next(what);
+        return parseSize(token.value, token.line, what, limit);
+    };
+
+    const header = next('CSPLUTV100');
+    if (header.value !== 'CSPLUTV100') throw new LUTParseError('not a Cinespace LUT (missing CSPLUTV100)', header.line);
+    const kind = next('1D or 3D');
+    if (kind.value !== '1D' && kind.value !== '3D') throw new LUTParseError(`expected 1D or 3D, got "${kind.value}"`, kind.line);
+
+    const curves = [0, 1, 2].map(() => {
+        const n = nextCount('prelut point count', MAX_1D_SIZE);
+        const inputLine = tokens[pos]?.line;
+        const input = Array.from({ length: n }, () => nextNumber('prelut input value'));
+        if (input[n - 1] <= input[0]) throw new LUTParseError('prelut input values must increase', inputLine);
+        const output = Array.from({ length: n }, () => nextNumber('prelut output value'));
+        return { input, output };
+    });
+    const identityPrelut = curves.every(({ input, output }) => input.every((v, i) => v === output[i]) && input[0] === 0 && input[input.length - 1] === 1);
+    const prelut = identityPrelut ? null : resampleCurves(curves);
+
+    if (kind.value === '3D') {
+        const sizeToken = tokens[pos];
+        const sizes = [0, 1, 2].map(() => nextCount('3D size', MAX_3D_SIZE));
+        if (sizes[1] !== sizes[0] || sizes[2] !== sizes[0]) throw new LUTParseError(`non-cubic 3D size ${sizes.join(' ')}`, sizeToken.line);
+        const size = sizes[0];
+        const data = Float32Array.from({ length: size ** 3 * 3 }, () => nextNumber('3D table value'));
+        if (pos < tokens.length) throw new LUTParseError('unexpected data after the 3D table', tokens[pos].line);
+        return bakeParsedLUT({ shaper: prelut, cube: { size, data, ...unitDomain() } }, name);
+    }
+
+    const size = nextCount('1D size', MAX_1D_SIZE);
+    const table: Table1D = { size, data: Float32Array.from({ length: size * 3 }, () => nextNumber('1D table value')), ...unitDomain() };
+    if (pos < tokens.length) throw new LUTParseError('unexpected data after the 1D table', tokens[pos].line);
+    if (!prelut) return bakeParsedLUT({ shaper: table, cube: null }, name);
+    // Prelut then 1D table, composed into one shaper
+    const composed = new Float32Array(SHAPER_SIZE * 3);
+    for (let i = 0; i < SHAPER_SIZE; i++) {
+        for (let c = 0; c < 3; c++) {
+            const x = prelut.min[c] + (prelut.max[c] - prelut.min[c]) * i / (SHAPER_SIZE - 1);
+            composed[i * 3 + c] = sample1D(table, c, sample1D(prelut, c, x));
+        }
+    }
+    return bakeParsedLUT({ shaper: { size: SHAPER_SIZE, data: composed, min: prelut.min, max: prelut.max }, cube: null }, name);
+};
+
+// --- Hald CLUT: a level³ × level³ image holding a level² cube, red fastest in reading order ---
+export const parseHald = (pixels: Uint8ClampedArray, width: number, height: number, name: string): LUTContainer => {
+    const level = Math.round(Math.cbrt(width));
+    if (width !== height || level ** 3 !== width || level < 2) {
+        throw new LUTParseError(`Hald CLUT must be a square image with a side of level³ (e.g. 512×512), got ${width}×${height}`);
+    }
+    const size = level * level;
+    const data = new Float32Array(size ** 3 * 3);
+    for (let p = 0; p < size ** 3; p++) {
+        data[p * 3] = pixels[p * 4] / 255;
+        data[p * 3 + 1] = pixels[p * 4 + 1] / 255;
+        data[p * 3 + 2] = pixels[p * 4 + 2] / 255;
+    }
+    return { size, data, name };
+};
+
+export const detectLUTFormat = (fileName: string, head: string): LUTFileFormat => {
+    const ext = fileName.toLowerCase().split('.').pop();
+    if (ext === 'png') return 'hald';
+    if (ext === 'cube' || ext === '3dl' || ext === 'csp') return ext;
+    if (head.startsWith('CSPLUTV100')) return 'csp';
+    if (/LUT_(1D|3D)_SIZE/.test(head)) return 'cube';
+    return '3dl';
+};
+
+const readImagePixels = (file: File): Promise<ImageData> => new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+        URL.revokeObjectURL(url);
+        const canvas = document.createElement('canvas');
+        canvas.width = img.width;
+        canvas.height = img.height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return reject(new Error('Canvas 2D context unavailable'));
+        ctx.drawImage(img, 0, 0);
+        resolve(ctx.getImageData(0, 0, img.width, img.height));
+    };
+    img.onerror = () => { URL.revokeObjectURL(url); reject(new LUTParseError('image could not be decoded')); };
+    img.src = url;
+});
+
+// Load any supported LUT file; the name defaults to the file name without its extension
+export const loadLUTFile = async (file: File): Promise<LUTContainer> => {
+    const name = file.name.replace(/\.[^.]+$/, '');
+    if (detectLUTFormat(file.name, '') === 'hald' || file.type === 'image/png') {
+        const image = await readImagePixels(file);
+        return parseHald(image.data, image.width, image.height, name);
+    }
+    const text = await file.text();
+    const format = detectLUTFormat(file.name, text.slice(0, 4096));
+    if (format === 'csp') return parseCsp(text, name);
+    if (format === '3dl') return parse3dl(text, name);
+    return parseCube(text, name);
+};
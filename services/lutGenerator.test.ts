@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { GradingAdjustments, LUTContainer } from '../types';
+import { DEFAULT_LUT_SIZE, generateFilmStyleLUT, LookLayer } from './lutGenerator';
+
+const NEUTRAL_WB = { temp: 0, tint: 0 };
+const NEUTRAL_GRADING: GradingAdjustments = { shadows: { h: 0, s: 0 }, midtones: { h: 0, s: 0 }, highlights: { h: 0, s: 0 } };
+
+// 2-point look tables, red fastest
+const IDENTITY_LOOK: LUTContainer = { size: 2, data: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0, 0, 0, 1, 1, 0, 1, 0, 1, 1, 1, 1, 1]) };
+const HALF_RED_LOOK: LUTContainer = { size: 2, data: new Float32Array([0, 0, 0, 0.5, 0, 0, 0, 1, 0, 0.5, 1, 0, 0, 0, 1, 0.5, 0, 1, 0, 1, 1, 0.5, 1, 1]) };
+
+const node = (lut: LUTContainer, r: number, g: number, b: number) => {
+    const i = (r + g * lut.size + b * lut.size * lut.size) * 3;
+    return Array.from(lut.data.subarray(i, i + 3));
+};
+
+const look = (lut: LUTContainer, intensity: number): LookLayer => ({ lut, intensity, stackOnFilm: false });
+
+describe('generateFilmStyleLUT with a custom look', () => {
+    it('passes every node through an identity look', () => {
+        const lut = generateFilmStyleLUT(null, NEUTRAL_WB, NEUTRAL_GRADING, look(IDENTITY_LOOK, 1));
+        const max = lut.size - 1;
+        [[0, 0, 0], [max, 0, 0], [3, 7, 11], [max, max, max]].forEach(([r, g, b]) => {
+            node(lut, r, g, b).forEach((v, c) => expect(v).toBeCloseTo([r, g, b][c] / max, 4));
+        });
+    });
+
+    it('applies the look table between its nodes', () => {
+        const lut = generateFilmStyleLUT(null, NEUTRAL_WB, NEUTRAL_GRADING, look(HALF_RED_LOOK, 1));
+        const max = lut.size - 1;
+        expect(node(lut, max, 0, 0)[0]).toBeCloseTo(0.5, 4);
+        expect(node(lut, 10, 5, 0)[0]).toBeCloseTo(0.5 * 10 / max, 4);
+        expect(node(lut, 10, 5, 0)[1]).toBeCloseTo(5 / max, 4);
+    });
+
+    it('blends the look by its intensity', () => {
+        const lut = generateFilmStyleLUT(null, NEUTRAL_WB, NEUTRAL_GRADING, look(HALF_RED_LOOK, 0.5));
+        const max = lut.size - 1;
+        expect(node(lut, max, 0, 0)[0]).toBeCloseTo(0.75, 4);
+        expect(node(lut, max, max, max)[2]).toBeCloseTo(1, 4);
+    });
+});
+
+describe('generateFilmStyleLUT size', () => {
+    it('builds the requested number of nodes, 33 by default', () => {
+        expect(DEFAULT_LUT_SIZE).toBe(33);
+        expect(generateFilmStyleLUT(null, NEUTRAL_WB, NEUTRAL_GRADING, look(IDENTITY_LOOK, 1)).size).toBe(33);
+        const large = generateFilmStyleLUT(null, NEUTRAL_WB, NEUTRAL_GRADING, look(IDENTITY_LOOK, 1), 65);
+        expect(large.size).toBe(65);
+        expect(large.data.length).toBe(65 * 65 * 65 * 3);
+        expect(large.data[(32 + 32 * 65 + 32 * 65 * 65) * 3]).toBeCloseTo(0.5, 4);
+    });
+});
@@ -1,7 +1,8 @@
 
-import { FilmSimulation, LUTContainer, GradingAdjustments } from '../types';
+import { FilmProfile, LUTContainer, LUTSize, GradingAdjustments, MonochromeToning, ProfileCurve, ProfileTint } from '../types';
+import { createLUTSampler, LUTSampler } from './lutSampler';
 
-const TARGET_SIZE = 32;
+export const DEFAULT_LUT_SIZE: LUTSize = 33;
 
 // --- Math Helpers ---
 const clamp = (v: number) => Math.max(0, Math.min(255, v));
@@ -108,172 +109,139 @@ const applyCurve = (val: number, contrast: number, offset: number = 0): number =
     return normalized * 255;
 };
 
-const applyFilmMath = (r: number, g: number, b: number, type: FilmSimulation): [number, number, number] => {
-    if (type === FilmSimulation.None) return [r, g, b];
-
-    // 1. Color Matrices (Simulate spectral sensitivity & dye characteristics)
-    // These are approximations of the "Look"
-    let m: number[] = [1,0,0, 0,1,0, 0,0,1]; // Identity
-    let rM = r, gM = g, bM = b;
-
-    switch (type) {
-        case FilmSimulation.ClassicChrome:
-            // Muted colors, Cyan skies, Earthy reds
-            // Desaturate R, Shift B->G
-            m = [
-                0.75, 0.20, 0.05, 
-                0.10, 0.85, 0.05, 
-                0.00, 0.10, 0.90
-            ];
-            [rM, gM, bM] = applyMatrix(r, g, b, m);
-            break;
-
-        case FilmSimulation.ClassicNeg:
-            // High contrast colors. Red -> Orange/Magenta, Blue -> Cyan/Green
-            m = [
-                0.95, 0.05, 0.00, 
-                0.00, 1.05, 0.00, // Boost Green
-                0.00, 0.10, 0.90  // Blue shift
-            ];
-            [rM, gM, bM] = applyMatrix(r, g, b, m);
-            // Unique Classic Neg separation: 
-            // If it's dark, push Blue (Cool shadows). If it's bright, push Red (Warm highlights).
-            const luma = (rM + gM + bM) / 3;
-            if (luma < 100) bM *= 1.05; // Cool shadows
-            if (luma > 150) rM *= 1.05; // Warm highlights
-            break;
-
-        case FilmSimulation.Velvia:
-            // Vivid: Boost saturation and separation
-            m = [
-                1.15, -0.05, -0.1, 
-                -0.05, 1.15, -0.1, 
-                -0.1, -0.1, 1.20
-            ];
-            [rM, gM, bM] = applyMatrix(r, g, b, m);
-            break;
-
-        case FilmSimulation.Astia:
-            // Soft, skin tone friendly (Boost Red/Yellow slightly)
-            m = [
-                1.05, 0.05, -0.1, 
-                0.00, 1.00, 0.00, 
-                -0.05, 0.00, 1.05
-            ];
-            [rM, gM, bM] = applyMatrix(r, g, b, m);
-            break;
-
-        case FilmSimulation.Eterna:
-            // Cinema: Low saturation, flat
-            m = [
-                0.90, 0.10, 0.00, 
-                0.05, 0.90, 0.05, 
-                0.00, 0.10, 0.90
-            ];
-            [rM, gM, bM] = applyMatrix(r, g, b, m);
-            break;
-        
-        case FilmSimulation.NostalgicNeg:
-            // Amber shift
-            m = [
-                1.10, 0.10, -0.2, 
-                0.05, 0.95, 0.00, 
-                -0.1, 0.10, 1.00
-            ];
-            [rM, gM, bM] = applyMatrix(r, g, b, m);
-            break;
-
-        case FilmSimulation.RealaAce:
-            // High fidelity, punchy
-            m = [
-                1.05, 0.00, -0.05, 
-                -0.02, 1.04, -0.02, 
-                -0.05, 0.00, 1.05
-            ];
-            [rM, gM, bM] = applyMatrix(r, g, b, m);
-            break;
-
-        case FilmSimulation.Acros:
-        case FilmSimulation.AcrosG:
-        case FilmSimulation.AcrosR:
-        case FilmSimulation.AcrosYe:
-             // B&W Mixer
-             let gray = 0;
-             if (type === FilmSimulation.AcrosR) gray = 0.5 * r + 0.45 * g + 0.05 * b;
-             else if (type === FilmSimulation.AcrosG) gray = 0.2 * r + 0.7 * g + 0.1 * b;
-             else if (type === FilmSimulation.AcrosYe) gray = 0.4 * r + 0.55 * g + 0.05 * b;
-             else gray = 0.3 * r + 0.6 * g + 0.1 * b; // Standard
-             
-             rM = gM = bM = gray;
-             break;
+// Curve, then output levels (black/white lift or compress the result)
+const applyProfileCurve = (val: number, c: ProfileCurve): number => {
+    const y = applyCurve(val, c.contrast, c.offset);
+    return c.black === 0 && c.white === 255 ? y : c.black + y * (c.white - c.black) / 255;
+};
+
+// 0-1 weight of a luma against a tint threshold; softness 0 is a hard step
+const tintWeight = (luma: number, tint: ProfileTint, above: boolean): number => {
+    if (tint.softness <= 0) return (above ? luma > tint.threshold : luma < tint.threshold) ? 1 : 0;
+    const t = Math.max(0, Math.min(1, (luma - tint.threshold + tint.softness) / (2 * tint.softness)));
+    const s = t * t * (3 - 2 * t);
+    return above ? s : 1 - s;
+};
+
+const applyTint = (rgb: [number, number, number], tint: ProfileTint, weight: number) => {
+    if (weight <= 0) return;
+    rgb[0] *= 1 + (tint.gain[0] - 1) * weight;
+    rgb[1] *= 1 + (tint.gain[1] - 1) * weight;
+    rgb[2] *= 1 + (tint.gain[2] - 1) * weight;
+};
+
+const isNeutralTint = (tint: ProfileTint) => tint.gain[0] === 1 && tint.gain[1] === 1 && tint.gain[2] === 1;
+
+// --- Monochrome toning (Monochromatic Color: WC / MG, -18 to +18) ---
+// Tint per step at mid grey (0-255 units)
+const TONE_STEP = 1.1;
+
+// Tint a grey value. The tint fades to zero at black and white so the paper white and the blacks stay neutral;
+// R/B and G offsets are balanced so luma is unchanged.
+const toneMonochrome = (gray: number, warmCool: number, magentaGreen: number): [number, number, number] => {
+    const x = Math.max(0, Math.min(1, gray / 255));
+    const w = 4 * x * (1 - x) * TONE_STEP;
+    const wc = warmCool * w, mg = magentaGreen * w;
+    return [
+        gray + wc + mg * 0.5,
+        gray - mg * 0.35 - wc * 0.15,
+        gray - wc * 1.8 + mg * 0.5
+    ];
+};
+
+const applyToning = (r: number, g: number, b: number, toning: MonochromeToning): [number, number, number] =>
+  toneMonochrome(0.299 * r + 0.587 * g + 0.114 * b, toning.warmCool, toning.magentaGreen);
+
+// Film simulation from its profile: matrix (spectral sensitivity & dye characteristics), luma-dependent tints,
+// per-channel curves, fixed toning, then saturation rolloff toward white
+const applyFilmProfile = (r: number, g: number, b: number, profile: FilmProfile): [number, number, number] => {
+    const rgb = applyMatrix(r, g, b, profile.matrix);
+
+    const { shadowTint, highlightTint } = profile;
+    if (!isNeutralTint(shadowTint) || !isNeutralTint(highlightTint)) {
+        const luma = (rgb[0] + rgb[1] + rgb[2]) / 3;
+        if (!isNeutralTint(shadowTint)) applyTint(rgb, shadowTint, tintWeight(luma, shadowTint, false));
+        if (!isNeutralTint(highlightTint)) applyTint(rgb, highlightTint, tintWeight(luma, highlightTint, true));
     }
 
-    // 2. Tone Curves (Sigmoid)
-    switch (type) {
-        case FilmSimulation.ClassicChrome:
-            // Hard shadows
-            rM = applyCurve(rM, 5.5, 0.05); // Offset to crush shadows
-            gM = applyCurve(gM, 5.5, 0.05);
-            bM = applyCurve(bM, 5.5, 0.05);
-            break;
-            
-        case FilmSimulation.ClassicNeg:
-            // High contrast
-            rM = applyCurve(rM, 6.0);
-            gM = applyCurve(gM, 6.0);
-            bM = applyCurve(bM, 6.0);
-            break;
-
-        case FilmSimulation.Velvia:
-            // Very High contrast
-            rM = applyCurve(rM, 6.5);
-            gM = applyCurve(gM, 6.5);
-            bM = applyCurve(bM, 6.5);
-            break;
-
-        case FilmSimulation.Eterna:
-            // Low contrast (Flat)
-            rM = applyCurve(rM, 3.5);
-            gM = applyCurve(gM, 3.5);
-            bM = applyCurve(bM, 3.5);
-            // Lift blacks
-            rM = rM * 0.9 + 10; gM = gM * 0.9 + 10; bM = bM * 0.9 + 10;
-            break;
-        
-        case FilmSimulation.Acros:
-        case FilmSimulation.AcrosR:
-        case FilmSimulation.AcrosG:
-        case FilmSimulation.AcrosYe:
-             // Punchy B&W
-             rM = applyCurve(rM, 5.0);
-             gM = rM; bM = rM;
-             break;
-
-        case FilmSimulation.Provia:
-        default:
-             // Standard S-Curve
-             rM = applyCurve(rM, 4.5);
-             gM = applyCurve(gM, 4.5);
-             bM = applyCurve(bM, 4.5);
-             break;
+    let rM = applyProfileCurve(rgb[0], profile.curves.r);
+    let gM = applyProfileCurve(rgb[1], profile.curves.g);
+    let bM = applyProfileCurve(rgb[2], profile.curves.b);
+
+    if (profile.toning) [rM, gM, bM] = applyToning(rM, gM, bM, profile.toning);
+    // Monochrome is grey whatever the matrix and curves do; Monochromatic Color toning then tints that grey
+    else if (profile.monochrome) rM = gM = bM = 0.299 * rM + 0.587 * gM + 0.114 * bM;
+
+    const { start, amount } = profile.saturationRolloff;
+    if (amount > 0) {
+        const luma = 0.299 * rM + 0.587 * gM + 0.114 * bM;
+        const x = luma / 255;
+        if (x > start) {
+            const t = Math.min(1, (x - start) / Math.max(1e-6, 1 - start));
+            const k = amount * t * t;
+            rM = lerp(rM, luma, k); gM = lerp(gM, luma, k); bM = lerp(bM, luma, k);
+        }
     }
 
     return [clamp(rM), clamp(gM), clamp(bM)];
 };
 
 
+// --- 3b. Color Chrome Effect / FX Blue ---
+// Deepens the tone of strongly saturated colours (FX Blue: blue hues only) so they keep gradation instead of
+// clipping. Both strengths are 0-1.
+export interface ColorChromeSettings {
+    effect: number;
+    blue: number;
+}
+
+const applyColorChrome = (r: number, g: number, b: number, chrome: ColorChromeSettings): [number, number, number] => {
+  const max = Math.max(r, g, b), min = Math.min(r, g, b);
+  if (max <= 0) return [r, g, b];
+  const sat = (max - min) / max;
+  // Strongest in the bright, saturated colours that clip first
+  let darken = chrome.effect * 0.25 * sat * sat * (max / 255);
+  if (chrome.blue > 0) {
+    const blueness = Math.max(0, b - Math.max(r, g)) / max;
+    darken += chrome.blue * 0.3 * blueness * sat;
+  }
+  const f = 1 - Math.min(0.5, darken);
+  return [r * f, g * f, b * f];
+};
+
+// --- 4. Custom Look (imported LUT on 0-255 values) ---
+export interface LookLayer {
+    lut: LUTContainer;
+    intensity: number; // 0-1
+    stackOnFilm: boolean;
+}
+
+const applyLook = (r: number, g: number, b: number, look: LookLayer, sample: LUTSampler, out: number[]): [number, number, number] => {
+  sample(r / 255, g / 255, b / 255, out);
+  return [lerp(r, out[0] * 255, look.intensity), lerp(g, out[1] * 255, look.intensity), lerp(b, out[2] * 255, look.intensity)];
+};
+
 // --- MAIN GENERATOR ---
 export const generateFilmStyleLUT = (
-    type: FilmSimulation, 
+    profile: FilmProfile | null,
     wb: { temp: number, tint: number },
-    grading: GradingAdjustments
+    grading: GradingAdjustments,
+    look: LookLayer | null = null,
+    size: LUTSize = DEFAULT_LUT_SIZE,
+    chrome: ColorChromeSettings | null = null,
+    toning: MonochromeToning | null = null
 ): LUTContainer => {
-  const data = new Uint8Array(TARGET_SIZE * TARGET_SIZE * TARGET_SIZE * 3);
-  const step = 255 / (TARGET_SIZE - 1);
-
-  for (let bIdx = 0; bIdx < TARGET_SIZE; bIdx++) {
-    for (let gIdx = 0; gIdx < TARGET_SIZE; gIdx++) {
-      for (let rIdx = 0; rIdx < TARGET_SIZE; rIdx++) {
+  // A look that doesn't stack replaces the film simulation
+  const film = look && !look.stackOnFilm ? null : profile;
+  const tone = toning && film?.monochrome && (toning.warmCool !== 0 || toning.magentaGreen !== 0) ? toning : null;
+  const lookSampler = look ? createLUTSampler(look.lut, 'tetrahedral') : null;
+  const lookOut = [0, 0, 0];
+  const data = new Float32Array(size * size * size * 3);
+  const step = 255 / (size - 1);
+
+  for (let bIdx = 0; bIdx < size; bIdx++) {
+    for (let gIdx = 0; gIdx < size; gIdx++) {
+      for (let rIdx = 0; rIdx < size; rIdx++) {
         const rBase = rIdx * step;
         const gBase = gIdx * step;
         const bBase = bIdx * step;
@@ -281,23 +249,28 @@ export const generateFilmStyleLUT = (
         // 1. White Balance
         let [r, g, b] = applyWB(rBase, gBase, bBase, wb.temp, wb.tint);
 
-        // 2. Film Simulation (Standard Matrix + Curve)
-        [r, g, b] = applyFilmMath(r, g, b, type);
+        // 2. Film Simulation (profile: Matrix + Curves)
+        if (film) [r, g, b] = applyFilmProfile(r, g, b, film);
+        if (tone) [r, g, b] = applyToning(r, g, b, tone);
+        if (chrome && (chrome.effect > 0 || chrome.blue > 0)) [r, g, b] = applyColorChrome(r, g, b, chrome);
+
+        // 2b. Custom Look
+        if (look) [r, g, b] = applyLook(clamp(r), clamp(g), clamp(b), look, lookSampler, lookOut);
 
         // 3. Color Grading
         [r, g, b] = applyGrading(r, g, b, grading);
 
-        // 4. Store
-        const index = (rIdx + gIdx * TARGET_SIZE + bIdx * TARGET_SIZE * TARGET_SIZE) * 3;
-        data[index] = Math.round(clamp(r));
-        data[index + 1] = Math.round(clamp(g));
-        data[index + 2] = Math.round(clamp(b));
+        // 4. Store (normalized float, no rounding)
+        const index = (rIdx + gIdx * size + bIdx * size * size) * 3;
+        data[index] = clamp(r) / 255;
+        data[index + 1] = clamp(g) / 255;
+        data[index + 2] = clamp(b) / 255;
       }
     }
   }
 
   return {
-      size: TARGET_SIZE,
+      size: size,
       data: data
   };
 };
\ No newline at end of file
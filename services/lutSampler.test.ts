@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { LUTContainer } from '../types';
+import { createLUTSampler } from './lutSampler';
+
+// Table of size^3 nodes from a function of the node's input (red fastest)
+const tableOf = (size: number, f: (r: number, g: number, b: number) => number[]): LUTContainer => {
+    const data = new Float32Array(size * size * size * 3);
+    const max = size - 1;
+    for (let b = 0; b < size; b++) for (let g = 0; g < size; g++) for (let r = 0; r < size; r++) {
+        data.set(f(r / max, g / max, b / max), (r + g * size + b * size * size) * 3);
+    }
+    return { size, data };
+};
+
+const sample = (lut: LUTContainer, mode: 'trilinear' | 'tetrahedral', r: number, g: number, b: number) => {
+    const out = [0, 0, 0];
+    createLUTSampler(lut, mode)(r, g, b, out);
+    return out;
+};
+
+const expectClose = (actual: number[], expected: number[]) => expected.forEach((v, c) => expect(actual[c]).toBeCloseTo(v, 5));
+
+describe('createLUTSampler', () => {
+    const affine = tableOf(5, (r, g, b) => [0.5 * r + 0.25 * g + 0.1, g - 0.2 * b, 0.8 * b + 0.1 * r]);
+
+    it.each(['trilinear', 'tetrahedral'] as const)('reproduces an affine table exactly (%s)', mode => {
+        expectClose(sample(affine, mode, 0.3, 0.62, 0.91), [0.5 * 0.3 + 0.25 * 0.62 + 0.1, 0.62 - 0.2 * 0.91, 0.8 * 0.91 + 0.1 * 0.3]);
+    });
+
+    it('weights the four corners of the tetrahedron the input falls in', () => {
+        // r > g > b: corners 000, 100, 110, 111 with weights 1 - r, r - g, g - b, b
+        const lut = tableOf(2, (r, g, b) => [r * 4 + g * 2 + b, 0, 0]);
+        expect(sample(lut, 'tetrahedral', 0.6, 0.3, 0.1)[0]).toBeCloseTo(0.3 * 4 + 0.2 * 6 + 0.1 * 7, 6);
+    });
+
+    it('reads only neutral nodes for a neutral input with tetrahedral interpolation', () => {
+        // Every node off the grey diagonal is pushed to red
+        const lut = tableOf(2, (r, g, b) => r === g && g === b ? [r, g, b] : [1, 0, 0]);
+        expectClose(sample(lut, 'tetrahedral', 0.3, 0.3, 0.3), [0.3, 0.3, 0.3]);
+        const trilinear = sample(lut, 'trilinear', 0.3, 0.3, 0.3);
+        expect(trilinear[0]).toBeGreaterThan(trilinear[1]);
+    });
+
+    it('clamps inputs outside 0-1 to the table edge', () => {
+        const lut = tableOf(3, (r, g, b) => [r, g, b]);
+        expectClose(sample(lut, 'tetrahedral', -0.5, 1.5, 1), [0, 1, 1]);
+        expectClose(sample(lut, 'trilinear', -0.5, 1.5, 1), [0, 1, 1]);
+    });
+
+    it('defaults to the interpolation the table asks for', () => {
+        const lut = { ...tableOf(2, (r, g, b) => r === g && g === b ? [r, g, b] : [1, 0, 0]), interpolation: 'tetrahedral' as const };
+        const out = [0, 0, 0];
+        createLUTSampler(lut)(0.3, 0.3, 0.3, out);
+        expectClose(out, [0.3, 0.3, 0.3]);
+    });
+});
@@ -0,0 +1,61 @@
+
+import { LUTContainer, LUTInterpolation } from '../types';
+
+// --- 3D LUT lookup on typed arrays, no allocation per sample ---
+// Inputs are clamped to 0-1; the result is written into out.
+// Trilinear blends all 8 corners of the cell. Tetrahedral splits the cell into 6 tetrahedra along the
+// black-white diagonal and blends 4 corners, so neutral inputs only ever read neutral nodes (no hue drift on grey).
+
+export type LUTSampler = (r: number, g: number, b: number, out: number[]) => void;
+
+export const createLUTSampler = (lut: LUTContainer, mode: LUTInterpolation = lut.interpolation || 'trilinear'): LUTSampler => {
+    const { size, data } = lut;
+    const max = size - 1;
+    const sg = size * 3, sb = size * size * 3; // Strides along green and blue; red is 3
+
+    // Cell origin (clamped so the +1 corner exists) and fractional position along one axis
+    const cell = (v: number): number => {
+        const p = (v <= 0 ? 0 : v >= 1 ? 1 : v) * max;
+        const i = p | 0;
+        return i >= max ? max - 1 : i;
+    };
+
+    if (mode === 'tetrahedral') {
+        return (r, g, b, out) => {
+            const pr = (r <= 0 ? 0 : r >= 1 ? 1 : r) * max, pg = (g <= 0 ? 0 : g >= 1 ? 1 : g) * max, pb = (b <= 0 ? 0 : b >= 1 ? 1 : b) * max;
+            const r0 = cell(r), g0 = cell(g), b0 = cell(b);
+            const fr = pr - r0, fg = pg - g0, fb = pb - b0;
+            const i000 = r0 * 3 + g0 * sg + b0 * sb, i111 = i000 + 3 + sg + sb;
+            // Corners walked from 000 to 111 in order of decreasing fraction, with their weights
+            let i1: number, i2: number, w0: number, w1: number, w2: number, w3: number;
+            if (fr > fg) {
+                if (fg > fb) { i1 = i000 + 3; i2 = i000 + 3 + sg; w0 = 1 - fr; w1 = fr - fg; w2 = fg - fb; w3 = fb; }
+                else if (fr > fb) { i1 = i000 + 3; i2 = i000 + 3 + sb; w0 = 1 - fr; w1 = fr - fb; w2 = fb - fg; w3 = fg; }
+                else { i1 = i000 + sb; i2 = i000 + 3 + sb; w0 = 1 - fb; w1 = fb - fr; w2 = fr - fg; w3 = fg; }
+            } else {
+                if (fb > fg) { i1 = i000 + sb; i2 = i000 + sg + sb; w0 = 1 - fb; w1 = fb - fg; w2 = fg - fr; w3 = fr; }
+                else if (fb > fr) { i1 = i000 + sg; i2 = i000 + sg + sb; w0 = 1 - fg; w1 = fg - fb; w2 = fb - fr; w3 = fr; }
+                else { i1 = i000 + sg; i2 = i000 + 3 + sg; w0 = 1 - fg; w1 = fg - fr; w2 = fr - fb; w3 = fb; }
+            }
+            out[0] = w0 * data[i000] + w1 * data[i1] + w2 * data[i2] + w3 * data[i111];
+            out[1] = w0 * data[i000 + 1] + w1 * data[i1 + 1] + w2 * data[i2 + 1] + w3 * data[i111 + 1];
+            out[2] = w0 * data[i000 + 2] + w1 * data[i1 + 2] + w2 * data[i2 + 2] + w3 * data[i111 + 2];
+        };
+    }
+
+    return (r, g, b, out) => {
+        const pr = (r <= 0 ? 0 : r >= 1 ? 1 : r) * max, pg = (g <= 0 ? 0 : g >= 1 ? 1 : g) * max, pb = (b <= 0 ? 0 : b >= 1 ? 1 : b) * max;
+        const r0 = cell(r), g0 = cell(g), b0 = cell(b);
+        const fr = pr - r0, fg = pg - g0, fb = pb - b0;
+        const i000 = r0 * 3 + g0 * sg + b0 * sb;
+        for (let c = 0; c < 3; c++) {
+            const i = i000 + c;
+            const c00 = data[i] + (data[i + 3] - data[i]) * fr;
+            const c10 = data[i + sg] + (data[i + sg + 3] - data[i + sg]) * fr;
+            const c01 = data[i + sb] + (data[i + sb + 3] - data[i + sb]) * fr;
+            const c11 = data[i + sg + sb] + (data[i + sg + sb + 3] - data[i + sg + sb]) * fr;
+            const c0 = c00 + (c10 - c00) * fg, c1 = c01 + (c11 - c01) * fg;
+            out[c] = c0 + (c1 - c0) * fb;
+        }
+    };
+};
@@ -0,0 +1,217 @@
+import { describe, expect, it } from 'vitest';
+import { GradientMaskParams, MaskLayer } from '../types';
+import {
+    applyMaskOperation, applyMaskRange, createDefaultColorRange, createDefaultGradient, createDefaultLuminanceRange,
+    createRangeEvaluator, gradientAlphaAt, hasMaskRange, rasterizeGradient
+} from './maskingService';
+
+const gradient = (overrides: Partial<GradientMaskParams>): GradientMaskParams => ({
+    x: 0.5, y: 0.5, angle: 0, radiusX: 0.25, radiusY: 0.25, feather: 20, invert: false,
+    ...overrides
+});
+
+const layer = (overrides: Partial<MaskLayer>): MaskLayer => ({
+    id: 'a', name: 'a', type: 'brush', visible: true, opacity: 1, data: null, gradient: null,
+    luminanceRange: createDefaultLuminanceRange(), colorRange: createDefaultColorRange(),
+    adjustments: { exposure: 0, contrast: 0, saturation: 0, temperature: 0, tint: 0, highlights: 0, shadows: 0, clarity: 0, dehaze: 0, sharpness: 0 },
+    ...overrides
+});
+
+describe('gradientAlphaAt', () => {
+    it('ramps a linear gradient across a feather band centred on its origin', () => {
+        // 100px long edge, feather 20: a 20px band from x = 40 to 60
+        const g = gradient({});
+        expect(gradientAlphaAt('linear', g, 40, 10, 100, 100)).toBe(0);
+        expect(gradientAlphaAt('linear', g, 50, 10, 100, 100)).toBeCloseTo(0.5, 6);
+        expect(gradientAlphaAt('linear', g, 55, 90, 100, 100)).toBeCloseTo(0.84375, 6);
+        expect(gradientAlphaAt('linear', g, 60, 10, 100, 100)).toBe(1);
+    });
+
+    it('points the default linear gradient at the sky', () => {
+        const g = createDefaultGradient('linear');
+        expect(gradientAlphaAt('linear', g, 50, 0, 100, 100)).toBe(1);
+        expect(gradientAlphaAt('linear', g, 50, 100, 100, 100)).toBe(0);
+    });
+
+    it('fades a radial gradient from an inner ellipse to its edge', () => {
+        // 200px long edge: radius 50px, full strength to 25px, half at 37.5px
+        const g = gradient({ feather: 50 });
+        expect(gradientAlphaAt('radial', g, 100, 100, 200, 200)).toBe(1);
+        expect(gradientAlphaAt('radial', g, 125, 100, 200, 200)).toBe(1);
+        expect(gradientAlphaAt('radial', g, 100, 137.5, 200, 200)).toBeCloseTo(0.5, 6);
+        expect(gradientAlphaAt('radial', g, 150, 100, 200, 200)).toBe(0);
+    });
+
+    it('rotates the ellipse with the angle', () => {
+        const g = gradient({ radiusX: 0.4, radiusY: 0.1, feather: 0, angle: 90 });
+        // The long axis now runs vertically
+        expect(gradientAlphaAt('radial', g, 100, 170, 200, 200)).toBe(1);
+        expect(gradientAlphaAt('radial', g, 170, 100, 200, 200)).toBe(0);
+    });
+
+    it('inverts', () => {
+        const g = gradient({ invert: true });
+        expect(gradientAlphaAt('linear', g, 55, 10, 100, 100)).toBeCloseTo(1 - 0.84375, 6);
+    });
+});
+
+describe('rasterizeGradient', () => {
+    it('rasterizes a stripe the same as the matching rows of the whole frame', () => {
+        const g = gradient({ angle: 30, feather: 60 });
+        const full = rasterizeGradient('linear', g, 40, 30, { offsetX: 0, offsetY: 0, fullWidth: 40, fullHeight: 30 });
+        const stripe = rasterizeGradient('linear', g, 40, 10, { offsetX: 0, offsetY: 12, fullWidth: 40, fullHeight: 30 });
+        expect(Array.from(stripe)).toEqual(Array.from(full.subarray(12 * 40, 22 * 40)));
+    });
+
+    it('samples pixel centres', () => {
+        const out = rasterizeGradient('linear', gradient({}), 100, 1, { offsetX: 0, offsetY: 0, fullWidth: 100, fullHeight: 100 });
+        expect(out[49]).toBe(Math.round(gradientAlphaAt('linear', gradient({}), 49.5, 0.5, 100, 100) * 255));
+        expect(out[0]).toBe(0);
+        expect(out[99]).toBe(255);
+    });
+});
+
+describe('createRangeEvaluator', () => {
+    it('has nothing to evaluate until a range is enabled with a colour picked', () => {
+        expect(createRangeEvaluator(layer({}))).toBeNull();
+        const unpicked = layer({ colorRange: { ...createDefaultColorRange(), enabled: true } });
+        expect(hasMaskRange(unpicked)).toBe(false);
+        expect(createRangeEvaluator(unpicked)).toBeNull();
+    });
+
+    it('weights luminance inside the range fully and feathers it outside', () => {
+        // Luma 20-60 with a 10 point feather; code value 2.55 is one luma point
+        const evaluate = createRangeEvaluator(layer({ luminanceRange: { enabled: true, min: 20, max: 60, feather: 10 } }))!;
+        expect(evaluate(102, 102, 102)).toBe(1);
+        expect(evaluate(38.25, 38.25, 38.25)).toBeCloseTo(0.5, 6);
+        expect(evaluate(165.75, 165.75, 165.75)).toBeCloseTo(0.5, 6);
+        expect(evaluate(255, 255, 255)).toBe(0);
+        expect(evaluate(0, 0, 0)).toBe(0);
+    });
+
+    it('weights colours by their OKLab distance from the picked one', () => {
+        const evaluate = createRangeEvaluator(layer({ colorRange: { enabled: true, color: { r: 200, g: 40, b: 30 }, tolerance: 30, feather: 30 } }))!;
+        expect(evaluate(200, 40, 30)).toBe(1);
+        expect(evaluate(205, 45, 35)).toBe(1);
+        expect(evaluate(30, 60, 200)).toBe(0);
+        const near = evaluate(200, 110, 30);
+        expect(near).toBeGreaterThan(0);
+        expect(near).toBeLessThan(1);
+    });
+
+    it('multiplies luminance and colour weights', () => {
+        const evaluate = createRangeEvaluator(layer({
+            luminanceRange: { enabled: true, min: 80, max: 100, feather: 0 },
+            colorRange: { enabled: true, color: { r: 200, g: 40, b: 30 }, tolerance: 30, feather: 30 }
+        }))!;
+        expect(evaluate(200, 40, 30)).toBe(0);
+    });
+});
+
+describe('applyMaskRange', () => {
+    it('scales the painted alpha by the weight of the original pixel', () => {
+        const m = layer({ luminanceRange: { enabled: true, min: 0, max: 50, feather: 0 } });
+        const source = new Uint8ClampedArray([
+            60, 60, 60, 255,
+            200, 200, 200, 255,
+            60, 60, 60, 255
+        ]);
+        expect(Array.from(applyMaskRange(m, new Uint8Array([200, 200, 0]), source))).toEqual([200, 0, 0]);
+    });
+
+    it('returns the alpha untouched without a range', () => {
+        const alpha = new Uint8Array([1, 2, 3]);
+        expect(applyMaskRange(layer({}), alpha, new Uint8ClampedArray(12))).toBe(alpha);
+    });
+});
+
+// Grey source pixels for the operations, which only read the original when refining
+const source = (width: number, height: number, value: (x: number, y: number) => number) => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const v = value(x, y);
+            data.set([v, v, v, 255], (y * width + x) * 4);
+        }
+    }
+    return { width, height, data } as ImageData;
+};
+
+const blank = (width: number, height: number) => source(width, height, () => 0);
+
+describe('applyMaskOperation', () => {
+    it('keeps an inverted gradient parametric', () => {
+        const g = layer({ type: 'radial', gradient: createDefaultGradient('radial') });
+        const inverted = applyMaskOperation(g, { kind: 'invert' }, [g], blank(4, 4));
+        expect(inverted.type).toBe('radial');
+        expect(inverted.gradient!.invert).toBe(true);
+        expect(inverted.data).toBeNull();
+    });
+
+    it('inverts painted alpha', () => {
+        const m = layer({ data: new Uint8Array([0, 55, 255, 100]) });
+        expect(Array.from(applyMaskOperation(m, { kind: 'invert' }, [m], blank(2, 2)).data!)).toEqual([255, 200, 0, 155]);
+    });
+
+    it('rasterizes a gradient into a brush layer for anything but invert', () => {
+        const g = layer({ type: 'linear', gradient: createDefaultGradient('linear') });
+        const expanded = applyMaskOperation(g, { kind: 'expand', amount: 0 }, [g], blank(4, 8));
+        expect(expanded.type).toBe('brush');
+        expect(expanded.gradient).toBeNull();
+        expect(expanded.data![0]).toBe(255);
+        expect(expanded.data![31]).toBe(0);
+    });
+
+    it('expands and contracts by whole pixels', () => {
+        const dot = new Uint8Array(25);
+        dot[12] = 255;
+        const grown = applyMaskOperation(layer({ data: dot }), { kind: 'expand', amount: 1 }, [], blank(5, 5)).data!;
+        expect(Array.from(grown)).toEqual([
+            0, 0, 0, 0, 0,
+            0, 255, 255, 255, 0,
+            0, 255, 255, 255, 0,
+            0, 255, 255, 255, 0,
+            0, 0, 0, 0, 0
+        ]);
+        const shrunk = applyMaskOperation(layer({ data: grown }), { kind: 'expand', amount: -1 }, [], blank(5, 5)).data!;
+        expect(Array.from(shrunk)).toEqual(Array.from(dot));
+    });
+
+    it('feathers symmetrically and keeps the coverage', () => {
+        const dot = new Uint8Array(49);
+        dot[24] = 255;
+        const out = applyMaskOperation(layer({ data: dot }), { kind: 'feather', radius: 3 }, [], blank(7, 7)).data!;
+        expect(Math.max(...out)).toBe(out[24]);
+        expect(out[24]).toBeLessThan(255);
+        expect(out[23]).toBe(out[25]);
+        expect(out[17]).toBe(out[31]);
+        expect(Math.abs(out.reduce((sum, v) => sum + v, 0) - 255)).toBeLessThan(10);
+    });
+
+    it('combines with another layer by soft boolean logic', () => {
+        const a = layer({ id: 'a', data: new Uint8Array([255, 255, 0, 128]) });
+        const b = layer({ id: 'b', data: new Uint8Array([255, 0, 0, 128]) });
+        const half = 128 / 255;
+        const combine = (mode: 'union' | 'intersect' | 'subtract') =>
+            Array.from(applyMaskOperation(a, { kind: 'combine', mode, otherId: 'b' }, [a, b], blank(2, 2)).data!);
+        expect(combine('union')).toEqual([255, 255, 0, Math.round((half + half - half * half) * 255)]);
+        expect(combine('intersect')).toEqual([255, 0, 0, Math.round(half * half * 255)]);
+        expect(combine('subtract')).toEqual([0, 255, 0, Math.round(half * (1 - half) * 255)]);
+    });
+
+    it('leaves the layer alone when the other layer is gone', () => {
+        const a = layer({ data: new Uint8Array(4) });
+        expect(applyMaskOperation(a, { kind: 'combine', mode: 'union', otherId: 'missing' }, [a], blank(2, 2))).toBe(a);
+    });
+
+    it('pulls a rough edge towards the edge in the original', () => {
+        // The mask spills two columns over the dark side of an edge at x = 8
+        const rough = Uint8Array.from({ length: 16 * 4 }, (_, p) => p % 16 >= 6 ? 255 : 0);
+        const out = applyMaskOperation(layer({ data: rough }), { kind: 'refine', radius: 2 }, [], source(16, 4, x => x >= 8 ? 220 : 30)).data!;
+        const row = Array.from(out.subarray(16, 32));
+        expect(row.slice(8)).toEqual(new Array(8).fill(255));
+        expect(row[0]).toBe(0);
+        expect(row[6]).toBeLessThan(200);
+        expect(row[7]).toBeLessThan(255);
+    });
+});
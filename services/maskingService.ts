@@ -1,40 +1,103 @@
 
-import { BrushSettings } from "../types";
-
-// Helper to draw a brush stroke onto a canvas context
-export const drawStroke = (
-    ctx: CanvasRenderingContext2D,
-    x: number,
-    y: number,
-    lastX: number,
-    lastY: number,
-    settings: BrushSettings
-) => {
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-    ctx.lineWidth = settings.size;
-    
-    // Hardness simulation via shadowBlur (simplified)
-    // A lower hardness means a blurrier edge
-    const blur = settings.size * (1 - settings.hardness / 100) * 0.5;
-    ctx.shadowBlur = blur;
-    ctx.shadowColor = settings.isEraser ? 'black' : 'white';
-    
-    ctx.globalCompositeOperation = settings.isEraser ? 'destination-out' : 'source-over';
-    ctx.strokeStyle = settings.isEraser ? 'rgba(0,0,0,1)' : `rgba(255,255,255,${settings.opacity / 100})`;
-    
-    // To make shadowBlur work with stroke, we need consistent color
-    // Note: destination-out with shadow is tricky in canvas, simplified here to standard composition
-    
-    ctx.beginPath();
-    if (lastX === -1) {
-        ctx.moveTo(x, y);
-        ctx.lineTo(x + 0.01, y); // Dot
-    } else {
-        ctx.moveTo(lastX, lastY);
-        ctx.lineTo(x, y);
-    }
-    ctx.stroke();
+import { BrushPoint, BrushSettings, ColorRange, GradientMaskParams, ImageRect, LuminanceRange, MaskLayer, MaskOperation, MaskType, RenderFrame } from "../types";
+import { SRGB8_TO_LINEAR, linearToOklab } from "./colorSpace";
+import { boxBlur, extremeFilter } from "./filters";
+
+const smoothstep = (e0: number, e1: number, x: number) => {
+    if (e1 <= e0) return x < e0 ? 0 : 1;
+    const t = Math.max(0, Math.min(1, (x - e0) / (e1 - e0)));
+    return t * t * (3 - 2 * t);
+};
+
+// --- Brush engine ---
+// A stroke stamps round dabs along the pointer path into a stroke buffer. Flow builds coverage per dab, capped at
+// the stroke opacity, and the stroke is composited over the mask it started from (painting) or cut out of it (erasing).
+// Coverage is kept in tiles allocated as the stroke reaches them, so memory follows the painted area, not the image.
+
+export interface BrushStroke {
+    data: Uint8Array; // Mask with the stroke so far composited in
+    addPoint: (p: BrushPoint) => ImageRect | null; // Returns the region that changed
+    changed: () => ImageRect | null;               // Region the whole stroke has changed so far
+}
+
+// Tilting a pen lays the tip over; widen the dab by up to half again
+const TILT_SIZE_GAIN = 0.5;
+
+const COVERAGE_TILE_SHIFT = 6; // 64x64 tiles
+const COVERAGE_TILE = 1 << COVERAGE_TILE_SHIFT;
+
+export const createBrushStroke = (base: Uint8Array | null, width: number, height: number, settings: BrushSettings): BrushStroke => {
+    // The stroke's own copy of the mask: `base` stays unchanged for undo
+    const data = base ? base.slice() : createEmptyMaskData(width, height);
+    const tilesX = Math.ceil(width / COVERAGE_TILE);
+    const coverageTiles: (Float32Array | undefined)[] = new Array(tilesX * Math.ceil(height / COVERAGE_TILE));
+    const cap = settings.opacity / 100;
+    const hardness = Math.max(0, Math.min(0.99, settings.hardness / 100));
+    let last: BrushPoint | null = null;
+    let carry = 0; // Path length since the last dab
+    const bounds = { x0: Infinity, y0: Infinity, x1: -Infinity, y1: -Infinity };
+
+    const stamp = (p: BrushPoint, dirty: { x0: number, y0: number, x1: number, y1: number }) => {
+        const tilt = Math.min(1, Math.hypot(p.tiltX, p.tiltY) / 90);
+        const radius = Math.max(0.5, (settings.size / 2) * (settings.pressureSize ? p.pressure : 1) * (1 + tilt * TILT_SIZE_GAIN));
+        const flow = (settings.flow / 100) * (settings.pressureFlow ? p.pressure : 1);
+        const inner = radius * hardness;
+        const x0 = Math.max(0, Math.floor(p.x - radius)), x1 = Math.min(width - 1, Math.ceil(p.x + radius));
+        const y0 = Math.max(0, Math.floor(p.y - radius)), y1 = Math.min(height - 1, Math.ceil(p.y + radius));
+        for (let y = y0; y <= y1; y++) {
+            const tileRow = (y >> COVERAGE_TILE_SHIFT) * tilesX;
+            const rowInTile = (y & (COVERAGE_TILE - 1)) << COVERAGE_TILE_SHIFT;
+            for (let x = x0; x <= x1; x++) {
+                const d = Math.hypot(x + 0.5 - p.x, y + 0.5 - p.y);
+                if (d >= radius) continue;
+                const falloff = 1 - smoothstep(inner, radius, d);
+                const t = tileRow + (x >> COVERAGE_TILE_SHIFT);
+                const tile = coverageTiles[t] || (coverageTiles[t] = new Float32Array(COVERAGE_TILE * COVERAGE_TILE));
+                const j = rowInTile | (x & (COVERAGE_TILE - 1));
+                const c = tile[j] + (cap - tile[j]) * falloff * flow;
+                tile[j] = c;
+                const i = y * width + x;
+                const original = base ? base[i] : 0;
+                data[i] = settings.isEraser ? Math.round(original * (1 - c)) : Math.round(original + (255 - original) * c);
+            }
+        }
+        dirty.x0 = Math.min(dirty.x0, x0); dirty.y0 = Math.min(dirty.y0, y0);
+        dirty.x1 = Math.max(dirty.x1, x1); dirty.y1 = Math.max(dirty.y1, y1);
+    };
+
+    const addPoint = (p: BrushPoint): ImageRect | null => {
+        const dirty = { x0: Infinity, y0: Infinity, x1: -Infinity, y1: -Infinity };
+        if (!last) {
+            stamp(p, dirty);
+        } else {
+            // Dabs every `spacing` along the segment, pressure and tilt interpolated between samples
+            const step = Math.max(1, (settings.spacing / 100) * settings.size * (settings.pressureSize ? Math.max(0.1, p.pressure) : 1));
+            const length = Math.hypot(p.x - last.x, p.y - last.y);
+            let t = step - carry;
+            while (t <= length) {
+                const k = t / length;
+                stamp({
+                    x: last.x + (p.x - last.x) * k,
+                    y: last.y + (p.y - last.y) * k,
+                    pressure: last.pressure + (p.pressure - last.pressure) * k,
+                    tiltX: last.tiltX + (p.tiltX - last.tiltX) * k,
+                    tiltY: last.tiltY + (p.tiltY - last.tiltY) * k
+                }, dirty);
+                t += step;
+            }
+            carry = length - (t - step);
+        }
+        last = p;
+        if (dirty.x1 < dirty.x0) return null;
+        bounds.x0 = Math.min(bounds.x0, dirty.x0); bounds.y0 = Math.min(bounds.y0, dirty.y0);
+        bounds.x1 = Math.max(bounds.x1, dirty.x1); bounds.y1 = Math.max(bounds.y1, dirty.y1);
+        return { x: dirty.x0, y: dirty.y0, width: dirty.x1 - dirty.x0 + 1, height: dirty.y1 - dirty.y0 + 1 };
+    };
+
+    const changed = (): ImageRect | null => bounds.x1 < bounds.x0 ? null
+        : { x: bounds.x0, y: bounds.y0, width: bounds.x1 - bounds.x0 + 1, height: bounds.y1 - bounds.y0 + 1 };
+
+    return { data, addPoint, changed };
 };
 
 // Initialize a blank mask buffer
@@ -42,22 +105,221 @@ export const createEmptyMaskData = (width: number, height: number): Uint8Array =
     return new Uint8Array(width * height).fill(0);
 };
 
-// Convert Canvas content to Uint8Array (Alpha channel only)
-export const canvasToMaskData = (canvas: HTMLCanvasElement): Uint8Array => {
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return new Uint8Array(0);
-    
-    const width = canvas.width;
-    const height = canvas.height;
-    const imageData = ctx.getImageData(0, 0, width, height);
-    const pixels = imageData.data;
-    const maskData = new Uint8Array(width * height);
-    
-    // Extract Alpha (or Red, since we draw white on transparent)
-    for (let i = 0; i < width * height; i++) {
-        // Alpha channel is index i*4 + 3
-        maskData[i] = pixels[i * 4 + 3]; 
-    }
-    
-    return maskData;
+// --- Gradient masks ---
+
+export const createDefaultGradient = (type: MaskType): GradientMaskParams => type === 'linear'
+    ? { x: 0.5, y: 0.4, angle: -90, radiusX: 0, radiusY: 0, feather: 40, invert: false } // Sky: affects the top
+    : { x: 0.5, y: 0.5, angle: 0, radiusX: 0.25, radiusY: 0.2, feather: 50, invert: false };
+
+// Whether a layer contributes to the render at all
+export const isMaskActive = (m: MaskLayer): boolean =>
+    m.visible && m.opacity > 0 && (m.type === 'brush' ? !!m.data : !!m.gradient);
+
+// Gradient alpha (0-1) at a position in full-image pixels
+export const gradientAlphaAt = (type: MaskType, g: GradientMaskParams, px: number, py: number, fullWidth: number, fullHeight: number): number => {
+    const longEdge = Math.max(fullWidth, fullHeight);
+    const dx = px - g.x * fullWidth, dy = py - g.y * fullHeight;
+    const a = g.angle * Math.PI / 180;
+    const cos = Math.cos(a), sin = Math.sin(a);
+    let alpha: number;
+    if (type === 'linear') {
+        // Signed distance along the gradient direction; the feather is the width of the transition band
+        const d = dx * cos + dy * sin;
+        const half = Math.max(0.5, (g.feather / 100) * longEdge / 2);
+        alpha = smoothstep(-half, half, d);
+    } else {
+        // Normalized elliptical distance; the feather fades in from an inner ellipse
+        const u = (dx * cos + dy * sin) / Math.max(1, g.radiusX * longEdge);
+        const v = (-dx * sin + dy * cos) / Math.max(1, g.radiusY * longEdge);
+        const r = Math.sqrt(u * u + v * v);
+        alpha = 1 - smoothstep(1 - g.feather / 100, 1, r);
+    }
+    return g.invert ? 1 - alpha : alpha;
+};
+
+// Rasterize a gradient for a block of pixels placed within the full image (a stripe, proxy or region)
+export const rasterizeGradient = (
+    type: MaskType,
+    g: GradientMaskParams,
+    width: number,
+    height: number,
+    frame: Pick<RenderFrame, 'offsetX' | 'offsetY' | 'fullWidth' | 'fullHeight'>
+): Uint8Array => {
+    const out = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const alpha = gradientAlphaAt(type, g, x + frame.offsetX + 0.5, y + frame.offsetY + 0.5, frame.fullWidth, frame.fullHeight);
+            out[y * width + x] = Math.round(alpha * 255);
+        }
+    }
+    return out;
+};
+
+// --- Range refinement ---
+
+export const createDefaultLuminanceRange = (): LuminanceRange => ({ enabled: false, min: 0, max: 100, feather: 20 });
+export const createDefaultColorRange = (): ColorRange => ({ enabled: false, color: null, tolerance: 30, feather: 30 });
+
+export const hasMaskRange = (m: MaskLayer): boolean => m.luminanceRange.enabled || (m.colorRange.enabled && !!m.colorRange.color);
+
+// OKLab distance that tolerance 100 reaches; lightness counts for less than hue/chroma
+const COLOR_RANGE_SPAN = 0.25;
+const COLOR_RANGE_L_WEIGHT = 0.5;
+
+// Weight (0-1) of an original-image pixel (0-255 sRGB) under the layer's range constraints, or null without any
+export const createRangeEvaluator = (m: MaskLayer): ((r: number, g: number, b: number) => number) | null => {
+    if (!hasMaskRange(m)) return null;
+    const lum = m.luminanceRange.enabled ? m.luminanceRange : null;
+    const col = m.colorRange.enabled ? m.colorRange : null;
+    const target = [0, 0, 0], lab = [0, 0, 0];
+    if (col && col.color) linearToOklab(SRGB8_TO_LINEAR[col.color.r | 0], SRGB8_TO_LINEAR[col.color.g | 0], SRGB8_TO_LINEAR[col.color.b | 0], target);
+    const tolerance = col ? (col.tolerance / 100) * COLOR_RANGE_SPAN : 0;
+    const colorFeather = col ? (col.feather / 100) * COLOR_RANGE_SPAN : 0;
+
+    return (r, g, b) => {
+        let w = 1;
+        if (lum) {
+            const l = (0.2126 * r + 0.7152 * g + 0.0722 * b) / 2.55;
+            w *= smoothstep(lum.min - lum.feather, lum.min, l) * (1 - smoothstep(lum.max, lum.max + lum.feather, l));
+        }
+        if (col && col.color && w > 0) {
+            linearToOklab(SRGB8_TO_LINEAR[r], SRGB8_TO_LINEAR[g], SRGB8_TO_LINEAR[b], lab);
+            const dl = (lab[0] - target[0]) * COLOR_RANGE_L_WEIGHT, da = lab[1] - target[1], db = lab[2] - target[2];
+            w *= 1 - smoothstep(tolerance, tolerance + colorFeather, Math.sqrt(dl * dl + da * da + db * db));
+        }
+        return w;
+    };
+};
+
+// Multiply a layer's alpha by its range weight over the matching original pixels (RGBA)
+export const applyMaskRange = (m: MaskLayer, alpha: Uint8Array, source: Uint8ClampedArray): Uint8Array => {
+    const evaluate = createRangeEvaluator(m);
+    if (!evaluate) return alpha;
+    const out = new Uint8Array(alpha.length);
+    for (let p = 0; p < alpha.length; p++) {
+        if (alpha[p] === 0) continue;
+        const i = p * 4;
+        out[p] = Math.round(alpha[p] * evaluate(source[i], source[i + 1], source[i + 2]));
+    }
+    return out;
+};
+
+// --- Mask operations ---
+
+// A layer's own alpha at full resolution (ranges not applied); gradients are rasterized
+export const getMaskAlpha = (m: MaskLayer, width: number, height: number): Uint8Array => {
+    if (m.type !== 'brush') return rasterizeGradient(m.type, m.gradient!, width, height, { offsetX: 0, offsetY: 0, fullWidth: width, fullHeight: height });
+    return m.data || createEmptyMaskData(width, height);
+};
+
+// Gaussian-like feather: three box passes
+const featherAlpha = (alpha: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+    const r = Math.max(1, Math.round(radius / 3));
+    const blurred = boxBlur(Float32Array.from(alpha), width, height, r, 3);
+    return Uint8Array.from(blurred, v => Math.round(v));
+};
+
+// Soft boolean logic, so feathered edges combine smoothly
+const combineAlpha = (a: Uint8Array, b: Uint8Array, mode: 'union' | 'intersect' | 'subtract'): Uint8Array => {
+    const out = new Uint8Array(a.length);
+    for (let i = 0; i < a.length; i++) {
+        const x = a[i] / 255, y = b[i] / 255;
+        const v = mode === 'union' ? x + y - x * y : mode === 'intersect' ? x * y : x * (1 - y);
+        out[i] = Math.round(v * 255);
+    }
+    return out;
+};
+
+// Work resolution cap for the guided filter (long edge); coefficients are smooth, so they upsample well
+const REFINE_WORK_EDGE = 1536;
+const REFINE_EPSILON = 1e-3;
+
+// Edge-aware refine: fast guided filter (He & Sun) with the original's luma as guide
+const refineAlpha = (alpha: Uint8Array, source: ImageData, radius: number): Uint8Array => {
+    const { width, height } = source;
+    const step = Math.max(1, Math.ceil(Math.max(width, height) / REFINE_WORK_EDGE));
+    const sw = Math.ceil(width / step), sh = Math.ceil(height / step);
+    const r = Math.max(1, Math.round(radius / step));
+
+    // Full-resolution guide and box-averaged low-resolution guide/input
+    const guide = new Float32Array(width * height);
+    for (let p = 0; p < guide.length; p++) {
+        const i = p * 4;
+        guide[p] = (0.2126 * source.data[i] + 0.7152 * source.data[i + 1] + 0.0722 * source.data[i + 2]) / 255;
+    }
+    const I = new Float32Array(sw * sh), P = new Float32Array(sw * sh);
+    const count = new Float32Array(sw * sh);
+    for (let y = 0; y < height; y++) {
+        const row = ((y / step) | 0) * sw;
+        for (let x = 0; x < width; x++) {
+            const q = row + ((x / step) | 0);
+            I[q] += guide[y * width + x];
+            P[q] += alpha[y * width + x] / 255;
+            count[q]++;
+        }
+    }
+    const II = new Float32Array(sw * sh), IP = new Float32Array(sw * sh);
+    for (let q = 0; q < I.length; q++) {
+        I[q] /= count[q]; P[q] /= count[q];
+        II[q] = I[q] * I[q]; IP[q] = I[q] * P[q];
+    }
+
+    const meanI = boxBlur(I, sw, sh, r, 1), meanP = boxBlur(P, sw, sh, r, 1);
+    const meanII = boxBlur(II, sw, sh, r, 1), meanIP = boxBlur(IP, sw, sh, r, 1);
+    const A = new Float32Array(sw * sh), B = new Float32Array(sw * sh);
+    for (let q = 0; q < A.length; q++) {
+        const variance = meanII[q] - meanI[q] * meanI[q];
+        A[q] = (meanIP[q] - meanI[q] * meanP[q]) / (variance + REFINE_EPSILON);
+        B[q] = meanP[q] - A[q] * meanI[q];
+    }
+    const meanA = boxBlur(A, sw, sh, r, 1), meanB = boxBlur(B, sw, sh, r, 1);
+
+    // Bilinear upsample of the coefficients, applied to the full-resolution guide
+    const out = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+        const fy = Math.max(0, Math.min(sh - 1, (y + 0.5) / step - 0.5));
+        const y0 = fy | 0, y1 = Math.min(sh - 1, y0 + 1), ty = fy - y0;
+        for (let x = 0; x < width; x++) {
+            const fx = Math.max(0, Math.min(sw - 1, (x + 0.5) / step - 0.5));
+            const x0 = fx | 0, x1 = Math.min(sw - 1, x0 + 1), tx = fx - x0;
+            const q00 = y0 * sw + x0, q10 = y0 * sw + x1, q01 = y1 * sw + x0, q11 = y1 * sw + x1;
+            const a = (meanA[q00] * (1 - tx) + meanA[q10] * tx) * (1 - ty) + (meanA[q01] * (1 - tx) + meanA[q11] * tx) * ty;
+            const b = (meanB[q00] * (1 - tx) + meanB[q10] * tx) * (1 - ty) + (meanB[q01] * (1 - tx) + meanB[q11] * tx) * ty;
+            const p = y * width + x;
+            out[p] = Math.round(Math.max(0, Math.min(1, a * guide[p] + b)) * 255);
+        }
+    }
+    return out;
+};
+
+// Apply an operation to a layer. Gradient layers stay parametric when inverted; anything else rasterizes them into brush layers.
+export const applyMaskOperation = (mask: MaskLayer, op: MaskOperation, masks: MaskLayer[], source: ImageData): MaskLayer => {
+    const { width, height } = source;
+    if (op.kind === 'invert' && mask.type !== 'brush' && mask.gradient) {
+        return { ...mask, gradient: { ...mask.gradient, invert: !mask.gradient.invert } };
+    }
+
+    const alpha = getMaskAlpha(mask, width, height);
+    let data: Uint8Array;
+    switch (op.kind) {
+        case 'invert':
+            data = Uint8Array.from(alpha, v => 255 - v);
+            break;
+        case 'feather':
+            data = featherAlpha(alpha, width, height, op.radius);
+            break;
+        case 'expand':
+            data = op.amount === 0 ? alpha : extremeFilter(alpha, width, height, Math.abs(Math.round(op.amount)), op.amount > 0);
+            break;
+        case 'combine': {
+            const other = masks.find(m => m.id === op.otherId);
+            if (!other) return mask;
+            data = combineAlpha(alpha, getMaskAlpha(other, width, height), op.mode);
+            break;
+        }
+        case 'refine':
+            data = refineAlpha(alpha, source, op.radius);
+            break;
+    }
+    return { ...mask, type: 'brush', gradient: null, data };
 };
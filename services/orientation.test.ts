@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { applyOrientation } from './orientation';
+
+// Stored 3 x 2:  0 1 2
+//                3 4 5
+const STORED = new Uint8Array([0, 1, 2, 3, 4, 5]);
+
+describe('applyOrientation', () => {
+    it.each([
+        [2, 3, 2, [2, 1, 0, 5, 4, 3]],
+        [3, 3, 2, [5, 4, 3, 2, 1, 0]],
+        [4, 3, 2, [3, 4, 5, 0, 1, 2]],
+        [5, 2, 3, [0, 3, 1, 4, 2, 5]],
+        [6, 2, 3, [3, 0, 4, 1, 5, 2]],
+        [7, 2, 3, [5, 2, 4, 1, 3, 0]],
+        [8, 2, 3, [2, 5, 1, 4, 0, 3]]
+    ])('turns orientation %i upright', (orientation, width, height, expected) => {
+        const out = applyOrientation(STORED, 3, 2, 1, orientation);
+        expect(out.width).toBe(width);
+        expect(out.height).toBe(height);
+        expect(Array.from(out.data)).toEqual(expected);
+    });
+
+    it('returns the input for upright and invalid values', () => {
+        expect(applyOrientation(STORED, 3, 2, 1, 1).data).toBe(STORED);
+        expect(applyOrientation(STORED, 3, 2, 1, 0).data).toBe(STORED);
+        expect(applyOrientation(STORED, 3, 2, 1, 9).data).toBe(STORED);
+    });
+
+    it('moves all channels of a pixel together and keeps the array type', () => {
+        const rgb = new Float32Array([0.1, 0.2, 0.3, 0.4, 0.5, 0.6]); // 2 x 1
+        const out = applyOrientation(rgb, 2, 1, 3, 8);
+        expect(out.data).toBeInstanceOf(Float32Array);
+        expect([out.width, out.height]).toEqual([1, 2]);
+        expect(Array.from(out.data)).toEqual(Array.from(new Float32Array([0.4, 0.5, 0.6, 0.1, 0.2, 0.3])));
+    });
+});
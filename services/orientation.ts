@@ -0,0 +1,37 @@
+// --- EXIF Orientation (0x0112): turn stored pixels upright ---
+// Browsers already apply it when decoding a JPEG, but RAW data is developed as the sensor stored it.
+// Values: 1 upright, 2 mirrored, 3 rotated 180°, 4 flipped, 5 transposed, 6 needs 90° clockwise, 7 transversed, 8 needs 90° anticlockwise.
+
+type Pixels = Float32Array | Uint8Array | Uint8ClampedArray;
+
+export const isValidOrientation = (orientation: number | null | undefined): orientation is number =>
+    typeof orientation === 'number' && Number.isInteger(orientation) && orientation >= 1 && orientation <= 8;
+
+// Displayed dimensions of a stored width x height image
+export const orientedSize = (width: number, height: number, orientation: number): { width: number, height: number } =>
+    orientation >= 5 && orientation <= 8 ? { width: height, height: width } : { width, height };
+
+// Interleaved pixels with `channels` values each, rearranged upright. Orientation 1 (or an invalid value) returns the input.
+export const applyOrientation = <T extends Pixels>(data: T, width: number, height: number, channels: number, orientation: number): { data: T, width: number, height: number } => {
+    if (!isValidOrientation(orientation) || orientation === 1) return { data, width, height };
+    const size = orientedSize(width, height, orientation);
+    const out = new (data.constructor as { new(length: number): T })(data.length);
+    for (let y = 0; y < size.height; y++) {
+        for (let x = 0; x < size.width; x++) {
+            // Stored pixel that lands on (x, y)
+            let sx: number, sy: number;
+            switch (orientation) {
+                case 2: sx = width - 1 - x; sy = y; break;
+                case 3: sx = width - 1 - x; sy = height - 1 - y; break;
+                case 4: sx = x; sy = height - 1 - y; break;
+                case 5: sx = y; sy = x; break;
+                case 6: sx = y; sy = height - 1 - x; break;
+                case 7: sx = width - 1 - y; sy = height - 1 - x; break;
+                default: sx = width - 1 - y; sy = x; break;
+            }
+            const o = (y * size.width + x) * channels, s = (sy * width + sx) * channels;
+            for (let c = 0; c < channels; c++) out[o + c] = data[s + c];
+        }
+    }
+    return { data: out, ...size };
+};
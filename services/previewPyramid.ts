@@ -0,0 +1,139 @@
+
+import { ImageRect } from '../types';
+
+// Smallest proxy level we bother building (longest edge, in pixels)
+const MIN_LEVEL_EDGE = 256;
+
+// Halve an RGBA image with a 2x2 box filter
+const downsampleHalf = (src: ImageData): ImageData => {
+    const w = Math.max(1, src.width >> 1);
+    const h = Math.max(1, src.height >> 1);
+    const out = new ImageData(w, h);
+    const s = src.data, d = out.data;
+    const sw = src.width;
+    const xMax = src.width - 1, yMax = src.height - 1;
+
+    for (let y = 0; y < h; y++) {
+        const y0 = Math.min(yMax, y * 2), y1 = Math.min(yMax, y * 2 + 1);
+        for (let x = 0; x < w; x++) {
+            const x0 = Math.min(xMax, x * 2), x1 = Math.min(xMax, x * 2 + 1);
+            const i00 = (y0 * sw + x0) * 4, i10 = (y0 * sw + x1) * 4;
+            const i01 = (y1 * sw + x0) * 4, i11 = (y1 * sw + x1) * 4;
+            const o = (y * w + x) * 4;
+            for (let c = 0; c < 4; c++) {
+                d[o + c] = (s[i00 + c] + s[i10 + c] + s[i01 + c] + s[i11 + c] + 2) >> 2;
+            }
+        }
+    }
+    return out;
+};
+
+// Halve interleaved linear RGB the same way; averaging linear light needs no rounding
+const downsampleLinearHalf = (src: Float32Array, sw: number, sh: number): Float32Array => {
+    const w = Math.max(1, sw >> 1);
+    const h = Math.max(1, sh >> 1);
+    const out = new Float32Array(w * h * 3);
+    const xMax = sw - 1, yMax = sh - 1;
+
+    for (let y = 0; y < h; y++) {
+        const y0 = Math.min(yMax, y * 2), y1 = Math.min(yMax, y * 2 + 1);
+        for (let x = 0; x < w; x++) {
+            const x0 = Math.min(xMax, x * 2), x1 = Math.min(xMax, x * 2 + 1);
+            const i00 = (y0 * sw + x0) * 3, i10 = (y0 * sw + x1) * 3;
+            const i01 = (y1 * sw + x0) * 3, i11 = (y1 * sw + x1) * 3;
+            const o = (y * w + x) * 3;
+            for (let c = 0; c < 3; c++) {
+                out[o + c] = (src[i00 + c] + src[i10 + c] + src[i01 + c] + src[i11 + c]) * 0.25;
+            }
+        }
+    }
+    return out;
+};
+
+// Level 0 is the full resolution image, each following level is half the size of the previous
+export const buildPyramid = (full: ImageData): ImageData[] => {
+    const levels = [full];
+    let current = full;
+    while (Math.max(current.width, current.height) / 2 >= MIN_LEVEL_EDGE) {
+        current = downsampleHalf(current);
+        levels.push(current);
+    }
+    return levels;
+};
+
+// Linear RGB levels matching the given RGBA pyramid level for level
+export const buildLinearPyramid = (full: Float32Array, levels: ImageData[]): Float32Array[] => {
+    const linear = [full];
+    for (let i = 1; i < levels.length; i++) {
+        linear.push(downsampleLinearHalf(linear[i - 1], levels[i - 1].width, levels[i - 1].height));
+    }
+    return linear;
+};
+
+// Pick the smallest level that still has at least one pixel per displayed device pixel
+export const pickPyramidLevel = (levels: ImageData[], displayScale: number): number => {
+    const needed = levels[0].width * displayScale;
+    let best = 0;
+    for (let i = 1; i < levels.length; i++) {
+        if (levels[i].width >= needed) best = i;
+    }
+    return best;
+};
+
+// Area-average resample of a single channel alpha map
+export const resampleMask = (data: Uint8Array, srcW: number, srcH: number, dstW: number, dstH: number): Uint8Array => {
+    if (srcW === dstW && srcH === dstH) return data;
+    const out = new Uint8Array(dstW * dstH);
+    const sx = srcW / dstW, sy = srcH / dstH;
+
+    for (let y = 0; y < dstH; y++) {
+        const y0 = Math.floor(y * sy), y1 = Math.max(y0 + 1, Math.min(srcH, Math.floor((y + 1) * sy)));
+        for (let x = 0; x < dstW; x++) {
+            const x0 = Math.floor(x * sx), x1 = Math.max(x0 + 1, Math.min(srcW, Math.floor((x + 1) * sx)));
+            let sum = 0;
+            for (let yy = y0; yy < y1; yy++) {
+                const row = yy * srcW;
+                for (let xx = x0; xx < x1; xx++) sum += data[row + xx];
+            }
+            out[y * dstW + x] = sum / ((y1 - y0) * (x1 - x0));
+        }
+    }
+    return out;
+};
+
+export const cropImageData = (src: ImageData, rect: ImageRect): ImageData => {
+    const out = new ImageData(rect.width, rect.height);
+    for (let y = 0; y < rect.height; y++) {
+        const start = ((rect.y + y) * src.width + rect.x) * 4;
+        out.data.set(src.data.subarray(start, start + rect.width * 4), y * rect.width * 4);
+    }
+    return out;
+};
+
+export const cropMask = (data: Uint8Array, srcW: number, rect: ImageRect): Uint8Array => {
+    const out = new Uint8Array(rect.width * rect.height);
+    for (let y = 0; y < rect.height; y++) {
+        const start = (rect.y + y) * srcW + rect.x;
+        out.set(data.subarray(start, start + rect.width), y * rect.width);
+    }
+    return out;
+};
+
+export const cropLinear = (data: Float32Array, srcW: number, rect: ImageRect): Float32Array => {
+    const out = new Float32Array(rect.width * rect.height * 3);
+    for (let y = 0; y < rect.height; y++) {
+        const start = ((rect.y + y) * srcW + rect.x) * 3;
+        out.set(data.subarray(start, start + rect.width * 3), y * rect.width * 3);
+    }
+    return out;
+};
+
+// Grow a rect by `margin` pixels on every side, clamped to the image
+export const expandRect = (rect: ImageRect, margin: number, width: number, height: number): ImageRect => {
+    const x = Math.max(0, rect.x - margin), y = Math.max(0, rect.y - margin);
+    return {
+        x, y,
+        width: Math.min(width, rect.x + rect.width + margin) - x,
+        height: Math.min(height, rect.y + rect.height + margin) - y
+    };
+};
@@ -0,0 +1,234 @@
+
+import { LinearImage } from '../types';
+import { CFAPattern, demosaic, shiftCFAPattern } from './demosaic';
+import { RawLoadOptions, RawLoadResult, balanceCameraRGB, linearToRGBA8, orientLinear, renderToImage, scanTIFFStructure, tagNumbers } from './dngLoader';
+import { TAG_ORIENTATION, exifNumbers, readExif } from './exifReader';
+
+// --- Fujifilm RAF: not a TIFF, but a fixed big-endian header pointing at three blocks ---
+// 1. A full-size JPEG rendered in camera (film simulation applied)
+// 2. A record directory with the sensor geometry, the X-Trans layout and the as-shot white balance
+// 3. The CFA block: a small TIFF whose Fuji IFD (tag 0xF000) holds dimensions, black levels and the strip
+
+const RAF_MAGIC = 'FUJIFILMCCD-RAW ';
+
+// Header fields (big-endian)
+const HEADER_MODEL = 28, MODEL_LENGTH = 32;
+const HEADER_JPEG_OFFSET = 84;
+const HEADER_DIRECTORY_OFFSET = 92;
+const HEADER_CFA_OFFSET = 100;
+const HEADER_SIZE = 108;
+
+// Directory records
+const RECORD_RAW_FULL_SIZE = 0x100;     // height, width
+const RECORD_RAW_CROP_TOP_LEFT = 0x110; // top, left
+const RECORD_RAW_CROPPED_SIZE = 0x111;  // height, width
+const RECORD_XTRANS_LAYOUT = 0x131;     // 36 colours, stored last to first
+const RECORD_WB_GRGB_LEVELS = 0x2FF0;   // As-shot white balance, G R G B
+
+// Fuji IFD tags inside the CFA block
+const TAG_RAW_WIDTH = 0xF001;
+const TAG_RAW_HEIGHT = 0xF002;
+const TAG_RAW_BITS = 0xF003;
+const TAG_RAW_STRIP_OFFSET = 0xF007;
+const TAG_RAW_STRIP_BYTES = 0xF008;
+const TAG_RAW_BLACK_LEVEL = 0xF00A;
+
+export interface RAFHeader {
+    model: string;
+    jpeg: { offset: number, length: number };
+    directory: { offset: number, length: number };
+    cfa: { offset: number, length: number };
+    records: Map<number, DataView>;
+}
+
+// Sensor data as found in the file, before normalisation
+export interface RAFSensorData {
+    width: number;                   // Stored raster, in photosites
+    height: number;
+    samples: Uint16Array;
+    bitsPerSample: number;
+    blackLevel: number[];            // One value, or one per position of the 6x6 (or 2x2) repeat
+    crop: { top: number, left: number, width: number, height: number };
+    pattern: CFAPattern;             // Relative to the stored raster origin
+    whiteBalance: [number, number, number] | null; // As-shot R, G, B multipliers (G = 1)
+}
+
+export const isRAF = (buffer: ArrayBuffer) => {
+    if (buffer.byteLength < HEADER_SIZE) return false;
+    const bytes = new Uint8Array(buffer, 0, RAF_MAGIC.length);
+    return String.fromCharCode(...bytes) === RAF_MAGIC;
+};
+
+const readString = (view: DataView, offset: number, length: number) => {
+    let s = '';
+    for (let i = 0; i < length; i++) {
+        const c = view.getUint8(offset + i);
+        if (c === 0) break;
+        s += String.fromCharCode(c);
+    }
+    return s.trim();
+};
+
+export const parseRAFHeader = (buffer: ArrayBuffer): RAFHeader => {
+    if (!isRAF(buffer)) throw new Error("Not a Fujifilm RAF file");
+    const view = new DataView(buffer);
+    const block = (at: number) => {
+        const offset = view.getUint32(at), length = view.getUint32(at + 4);
+        if (offset + length > buffer.byteLength) throw new Error("RAF block points past the end of the file");
+        return { offset, length };
+    };
+    const header: RAFHeader = {
+        model: readString(view, HEADER_MODEL, MODEL_LENGTH),
+        jpeg: block(HEADER_JPEG_OFFSET),
+        directory: block(HEADER_DIRECTORY_OFFSET),
+        cfa: block(HEADER_CFA_OFFSET),
+        records: new Map()
+    };
+
+    // Directory: record count, then (tag, size, data) records
+    const { offset, length } = header.directory;
+    if (length >= 4) {
+        const count = view.getUint32(offset);
+        let p = offset + 4;
+        for (let i = 0; i < count && p + 4 <= offset + length; i++) {
+            const tag = view.getUint16(p), size = view.getUint16(p + 2);
+            if (p + 4 + size > offset + length) break;
+            header.records.set(tag, new DataView(buffer, p + 4, size));
+            p += 4 + size;
+        }
+    }
+    return header;
+};
+
+export const extractRAFJpeg = (buffer: ArrayBuffer, header: RAFHeader = parseRAFHeader(buffer)): Blob => {
+    if (header.jpeg.length === 0) throw new Error("RAF has no embedded JPEG");
+    return new Blob([new Uint8Array(buffer, header.jpeg.offset, header.jpeg.length)], { type: 'image/jpeg' });
+};
+
+const recordShorts = (header: RAFHeader, tag: number): number[] | null => {
+    const view = header.records.get(tag);
+    if (!view) return null;
+    const out = [];
+    for (let i = 0; i + 1 < view.byteLength; i += 2) out.push(view.getUint16(i));
+    return out;
+};
+
+// X-Trans layout in reading order; the file stores the 36 colours last to first
+const readXTransPattern = (header: RAFHeader): CFAPattern | null => {
+    const view = header.records.get(RECORD_XTRANS_LAYOUT);
+    if (!view || view.byteLength < 36) return null;
+    const colors = new Array(36);
+    for (let i = 0; i < 36; i++) colors[35 - i] = view.getUint8(i) & 3;
+    if (colors.some(c => c > 2)) return null;
+    return { rows: 6, cols: 6, colors };
+};
+
+// Locate and read the sensor data. Throws for layouts we cannot develop (compressed RAF, Bayer and SuperCCD sensors,
+// whose colour layout the header does not record), so the caller can fall back to the embedded JPEG.
+export const readRAFSensorData = (buffer: ArrayBuffer, header: RAFHeader = parseRAFHeader(buffer)): RAFSensorData => {
+    const pattern = readXTransPattern(header);
+    if (!pattern) throw new Error("RAF has no X-Trans layout");
+
+    // The CFA block is a TIFF of its own; it is read in place, its offsets relative to the block
+    const { offset, length } = header.cfa;
+    if (length < 8) throw new Error("RAF CFA block is too short");
+    const order = new Uint8Array(buffer, offset, 2);
+    if (!((order[0] === 0x49 && order[1] === 0x49) || (order[0] === 0x4D && order[1] === 0x4D))) {
+        throw new Error("RAF CFA block is not in the TIFF layout");
+    }
+    const rawIFD = scanTIFFStructure(buffer, offset, length).find(ifd => ifd["t" + TAG_RAW_WIDTH] && ifd["t" + TAG_RAW_STRIP_OFFSET]);
+    if (!rawIFD) throw new Error("RAF raw IFD not found");
+
+    const width = tagNumbers(rawIFD, TAG_RAW_WIDTH)![0];
+    const height = tagNumbers(rawIFD, TAG_RAW_HEIGHT)?.[0] || 0;
+    const bitsPerSample = tagNumbers(rawIFD, TAG_RAW_BITS)?.[0] || 14;
+    const stripOffset = tagNumbers(rawIFD, TAG_RAW_STRIP_OFFSET)![0];
+    const stripBytes = tagNumbers(rawIFD, TAG_RAW_STRIP_BYTES)?.[0] || 0;
+    if (!width || !height) throw new Error("RAF raw size is missing");
+    // Uncompressed RAF stores one 16-bit word per photosite, in the CFA block's byte order; anything smaller is
+    // Fuji's lossless compression
+    if (stripBytes < width * height * 2 || stripOffset + width * height * 2 > length) {
+        throw new Error("Compressed RAF data is not supported");
+    }
+    const view = new DataView(buffer, offset + stripOffset, width * height * 2);
+    const samples = new Uint16Array(width * height);
+    for (let i = 0; i < samples.length; i++) samples[i] = view.getUint16(i * 2, rawIFD.littleEndian);
+
+    const fullSize = recordShorts(header, RECORD_RAW_FULL_SIZE);
+    const topLeft = recordShorts(header, RECORD_RAW_CROP_TOP_LEFT) || [0, 0];
+    const cropped = recordShorts(header, RECORD_RAW_CROPPED_SIZE) || fullSize || [height, width];
+    const crop = {
+        top: topLeft[0], left: topLeft[1],
+        height: Math.min(cropped[0], height - topLeft[0]), width: Math.min(cropped[1], width - topLeft[1])
+    };
+
+    const wb = recordShorts(header, RECORD_WB_GRGB_LEVELS);
+    return {
+        width, height, samples, bitsPerSample,
+        blackLevel: tagNumbers(rawIFD, TAG_RAW_BLACK_LEVEL) || [0],
+        crop,
+        pattern,
+        whiteBalance: wb && wb.length >= 4 && wb[0] > 0 ? [wb[1] / wb[0], 1, wb[3] / wb[0]] : null
+    };
+};
+
+// Normalise, demosaic and white balance the cropped sensor area. RAF carries no colour matrix, so the result is
+// balanced camera RGB, the same as a DNG without one: close to sRGB for Fuji sensors, but not a calibrated conversion.
+export const developRAF = (sensor: RAFSensorData, options: RawLoadOptions): LinearImage => {
+    const { crop, samples, blackLevel } = sensor;
+    const white = 2 ** sensor.bitsPerSample - 1;
+    const repeat = blackLevel.length === 36 ? 6 : blackLevel.length === 4 ? 2 : 1;
+    const mosaic = new Float32Array(crop.width * crop.height);
+    for (let y = 0; y < crop.height; y++) {
+        const sy = y + crop.top;
+        for (let x = 0; x < crop.width; x++) {
+            const sx = x + crop.left;
+            const black = blackLevel[(sy % repeat) * repeat + (sx % repeat)];
+            mosaic[y * crop.width + x] = Math.min(1, Math.max(0, (samples[sy * sensor.width + sx] - black) / (white - black)));
+        }
+    }
+
+    const image = demosaic(mosaic, crop.width, crop.height, shiftCFAPattern(sensor.pattern, crop.top, crop.left), options.demosaic);
+    balanceCameraRGB(image.data, sensor.whiteBalance || [1, 1, 1]);
+    image.space = 'camera';
+    return image;
+};
+
+// The sensor data is stored as shot; the embedded JPEG's EXIF says how the camera was held
+const readRAFOrientation = (buffer: ArrayBuffer): number => {
+    try {
+        const exif = readExif(buffer);
+        return (exif && exifNumbers(exif.ifd0, TAG_ORIENTATION)?.[0]) || 1;
+    } catch {
+        return 1;
+    }
+};
+
+const blobToImage = (blob: Blob): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+    img.onerror = (err) => { URL.revokeObjectURL(url); reject(err); };
+    img.src = url;
+});
+
+export interface RAFLoadOptions extends RawLoadOptions {
+    developSensor: boolean; // Develop the sensor data instead of showing the embedded JPEG
+}
+
+// The camera's own JPEG by default: without a camera matrix the developed colours are only approximate.
+// Sensor development is opt-in and falls back to the JPEG when the data is not usable.
+export const loadRAF = async (file: File, options: RAFLoadOptions): Promise<RawLoadResult> => {
+    const buffer = await file.arrayBuffer();
+    const header = parseRAFHeader(buffer);
+    if (options.developSensor) {
+        try {
+            const linear = orientLinear(developRAF(readRAFSensorData(buffer, header), options), readRAFOrientation(buffer));
+            const image = await renderToImage(linearToRGBA8(linear), linear.width, linear.height);
+            return { image, linear, color: null };
+        } catch (err) {
+            console.warn("RAF: Sensor data not usable, using the embedded JPEG.", err);
+        }
+    }
+    return { image: await blobToImage(extractRAFJpeg(buffer, header)), linear: null, color: null };
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { planStripes } from './renderPool';
+
+describe('planStripes', () => {
+    it('splits the rows into stripes per worker and clamps the halo to the image', () => {
+        const stripes = planStripes(1000, 10, 3);
+        expect(stripes).toHaveLength(12);
+        expect(stripes[0]).toEqual({ y0: 0, y1: 84, inY0: 0, inY1: 94 });
+        expect(stripes[1]).toEqual({ y0: 84, y1: 168, inY0: 74, inY1: 178 });
+        expect(stripes[11]).toEqual({ y0: 924, y1: 1000, inY0: 914, inY1: 1000 });
+    });
+
+    it('covers every row exactly once', () => {
+        const stripes = planStripes(517, 3, 7);
+        let next = 0;
+        for (const s of stripes) {
+            expect(s.y0).toBe(next);
+            next = s.y1;
+        }
+        expect(next).toBe(517);
+    });
+
+    it('grows stripes to twice the halo so wide local detail does not dominate the work', () => {
+        const stripes = planStripes(1000, 100, 3);
+        expect(stripes.map(s => s.y1 - s.y0)).toEqual([200, 200, 200, 200, 200]);
+        expect(stripes[2]).toEqual({ y0: 400, y1: 600, inY0: 300, inY1: 700 });
+    });
+});
@@ -0,0 +1,250 @@
+
+import { Adjustments, HistogramData, LUTContainer, MaskLayer } from '../types';
+import { applyLUT, getStripeHalo } from './imageProcessor';
+import { isMaskActive } from './maskingService';
+import type { StripeResult, StripeTask } from './renderWorker';
+
+export class RenderCancelledError extends Error {
+    constructor() {
+        super('Render cancelled by a newer request');
+        this.name = 'RenderCancelledError';
+    }
+}
+
+export interface RenderOptions {
+    signal?: AbortSignal;
+    // Linear sRGB of the same pixels, RGB interleaved (developed RAW): rendered instead of the 8-bit values
+    linear?: Float32Array;
+    // Where the rendered pixels sit inside the full image (defaults to the whole image)
+    placement?: { offsetX: number, offsetY: number, fullWidth: number, fullHeight: number };
+}
+
+export interface RenderOutput {
+    imageData: ImageData;
+    histogram: HistogramData;
+}
+
+interface RenderJob {
+    width: number;
+    height: number;
+    source: Uint8ClampedArray;
+    linear: Float32Array | null;
+    output: Uint8ClampedArray;
+    histogram: HistogramData;
+    lut: LUTContainer;
+    lutKey: number;
+    adjustments: Adjustments;
+    intensity: number;
+    masks: MaskLayer[];
+    placement: NonNullable<RenderOptions['placement']>;
+    remaining: number;
+    settled: boolean;
+    signal?: AbortSignal;
+    onAbort?: () => void;
+    resolve: (out: RenderOutput) => void;
+    reject: (err: unknown) => void;
+}
+
+export interface StripeRows {
+    y0: number; // First output row
+    y1: number; // End output row (exclusive)
+    inY0: number; // First input row, including the halo above
+    inY1: number; // End input row (exclusive), including the halo below
+}
+
+interface Stripe extends StripeRows {
+    job: RenderJob;
+}
+
+interface PoolWorker {
+    worker: Worker;
+    lutKey: number;
+    current: { taskId: number, stripe: Stripe } | null;
+}
+
+// Stripes per worker: more stripes means a cancelled job frees the pool sooner
+const STRIPES_PER_WORKER = 4;
+const MIN_STRIPE_ROWS = 64;
+
+let workers: PoolWorker[] | null = null;
+let queue: Stripe[] = [];
+let nextTaskId = 1;
+let nextLUTKey = 1;
+const lutKeys = new WeakMap<LUTContainer, number>();
+
+const getLUTKey = (lut: LUTContainer): number => {
+    let key = lutKeys.get(lut);
+    if (key === undefined) {
+        key = nextLUTKey++;
+        lutKeys.set(lut, key);
+    }
+    return key;
+};
+
+// Split a render into horizontal stripes; each reads `halo` extra rows on both sides, clamped to the image
+export const planStripes = (height: number, halo: number, workerCount: number): StripeRows[] => {
+    // Keep the halo overhead in check when local detail needs wide context
+    const stripeRows = Math.max(MIN_STRIPE_ROWS, halo * 2, Math.ceil(height / (workerCount * STRIPES_PER_WORKER)));
+    const stripes: StripeRows[] = [];
+    for (let y0 = 0; y0 < height; y0 += stripeRows) {
+        const y1 = Math.min(height, y0 + stripeRows);
+        stripes.push({ y0, y1, inY0: Math.max(0, y0 - halo), inY1: Math.min(height, y1 + halo) });
+    }
+    return stripes;
+};
+
+const settle = (job: RenderJob, err?: unknown) => {
+    if (job.settled) return;
+    job.settled = true;
+    if (job.onAbort) job.signal?.removeEventListener('abort', job.onAbort);
+    queue = queue.filter(s => s.job !== job);
+    if (err) job.reject(err);
+    else job.resolve({ imageData: new ImageData(job.output, job.width, job.height), histogram: job.histogram });
+};
+
+const handleResult = (pw: PoolWorker, result: StripeResult) => {
+    const current = pw.current;
+    pw.current = null;
+    if (current && current.taskId === result.taskId && !current.stripe.job.settled) {
+        const { job, y0, y1, inY0 } = current.stripe;
+        // Result rows start at the halo; copy only the stripe's own rows
+        const haloTop = y0 - inY0;
+        const rowBytes = job.width * 4;
+        job.output.set(result.pixels.subarray(haloTop * rowBytes, (haloTop + y1 - y0) * rowBytes), y0 * rowBytes);
+        for (let i = 0; i < 256; i++) {
+            job.histogram.r[i] += result.histogram.r[i];
+            job.histogram.g[i] += result.histogram.g[i];
+            job.histogram.b[i] += result.histogram.b[i];
+        }
+        if (--job.remaining === 0) settle(job);
+    }
+    pump();
+};
+
+const handleError = (pw: PoolWorker, e: ErrorEvent) => {
+    const current = pw.current;
+    pw.current = null;
+    if (current) settle(current.stripe.job, new Error(`Render worker failed: ${e.message}`));
+    pump();
+};
+
+const createPool = (): PoolWorker[] => {
+    const count = Math.max(1, Math.min(8, (navigator.hardwareConcurrency || 4) - 1));
+    const pool: PoolWorker[] = [];
+    for (let i = 0; i < count; i++) {
+        const worker = new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' });
+        const pw: PoolWorker = { worker, lutKey: 0, current: null };
+        worker.onmessage = (e: MessageEvent<StripeResult>) => handleResult(pw, e.data);
+        worker.onerror = (e) => { e.preventDefault(); handleError(pw, e); };
+        pool.push(pw);
+    }
+    return pool;
+};
+
+const dispatch = (pw: PoolWorker, stripe: Stripe) => {
+    const { job, y0, y1, inY0, inY1 } = stripe;
+    const transfer: Transferable[] = [];
+
+    const pixels = job.source.slice(inY0 * job.width * 4, inY1 * job.width * 4);
+    transfer.push(pixels.buffer);
+    let linear: Float32Array | undefined;
+    if (job.linear) {
+        linear = job.linear.slice(inY0 * job.width * 3, inY1 * job.width * 3);
+        transfer.push(linear.buffer);
+    }
+
+    const masks = job.masks.map(m => {
+        if (!m.data) return m; // Gradient masks are generated in the worker
+        const data = m.data.slice(inY0 * job.width, inY1 * job.width);
+        transfer.push(data.buffer);
+        return { ...m, data };
+    });
+
+    let lut: LUTContainer | undefined;
+    if (pw.lutKey !== job.lutKey) {
+        lut = { ...job.lut, data: job.lut.data.slice() };
+        transfer.push(lut.data.buffer);
+        pw.lutKey = job.lutKey;
+    }
+
+    const task: StripeTask = {
+        taskId: nextTaskId++,
+        lutKey: job.lutKey,
+        lut,
+        pixels,
+        linear,
+        width: job.width,
+        height: inY1 - inY0,
+        frame: {
+            offsetX: job.placement.offsetX, offsetY: job.placement.offsetY + inY0,
+            fullWidth: job.placement.fullWidth, fullHeight: job.placement.fullHeight,
+            haloTop: y0 - inY0, haloBottom: inY1 - y1
+        },
+        adjustments: job.adjustments,
+        intensity: job.intensity,
+        masks
+    };
+    pw.current = { taskId: task.taskId, stripe };
+    pw.worker.postMessage(task, transfer);
+};
+
+const pump = () => {
+    if (!workers) return;
+    for (const pw of workers) {
+        if (pw.current) continue;
+        const stripe = queue.shift();
+        if (!stripe) return;
+        dispatch(pw, stripe);
+    }
+};
+
+// Render the full pipeline across the worker pool in horizontal stripes.
+// Aborting options.signal drops queued stripes and rejects with RenderCancelledError.
+export const renderInPool = (
+    pixelData: ImageData,
+    lut: LUTContainer,
+    adjustments: Adjustments,
+    intensity: number,
+    masks: MaskLayer[] = [],
+    options: RenderOptions = {}
+): Promise<RenderOutput> => {
+    const { signal } = options;
+    const { width, height } = pixelData;
+    const placement = options.placement || { offsetX: 0, offsetY: 0, fullWidth: width, fullHeight: height };
+    if (signal?.aborted) return Promise.reject(new RenderCancelledError());
+
+    // No worker support (e.g. old browsers): fall back to the synchronous path
+    if (typeof Worker === 'undefined') {
+        const frame = { ...placement, haloTop: 0, haloBottom: 0 };
+        return Promise.resolve(applyLUT(pixelData, lut, adjustments, intensity, masks, frame, options.linear));
+    }
+    if (!workers) workers = createPool();
+
+    const activeMasks = masks.filter(isMaskActive);
+    const halo = getStripeHalo(activeMasks, placement.fullWidth, placement.fullHeight, adjustments);
+    const stripes = planStripes(height, halo, workers.length);
+
+    return new Promise<RenderOutput>((resolve, reject) => {
+        const job: RenderJob = {
+            width, height,
+            source: pixelData.data,
+            linear: options.linear || null,
+            output: new Uint8ClampedArray(width * height * 4),
+            histogram: { r: new Array(256).fill(0), g: new Array(256).fill(0), b: new Array(256).fill(0) },
+            lut, lutKey: getLUTKey(lut),
+            adjustments, intensity,
+            masks: activeMasks,
+            placement,
+            remaining: stripes.length,
+            settled: false,
+            resolve, reject
+        };
+        for (const rows of stripes) queue.push({ job, ...rows });
+        if (signal) {
+            job.signal = signal;
+            job.onAbort = () => settle(job, new RenderCancelledError());
+            signal.addEventListener('abort', job.onAbort, { once: true });
+        }
+        pump();
+    });
+};
@@ -0,0 +1,41 @@
+
+import { Adjustments, HistogramData, LUTContainer, MaskLayer, RenderFrame } from '../types';
+import { applyLUT } from './imageProcessor';
+
+// Messages exchanged between renderPool (main thread) and this worker
+export interface StripeTask {
+    taskId: number;
+    lutKey: number;
+    lut?: LUTContainer; // Only sent when this worker has not cached lutKey yet
+    pixels: Uint8ClampedArray; // RGBA rows of the stripe, including halo rows
+    linear?: Float32Array; // The same rows as linear RGB, for sources with more than 8 bits
+    width: number;
+    height: number;
+    frame: RenderFrame;
+    adjustments: Adjustments;
+    intensity: number;
+    masks: MaskLayer[]; // Mask data already sliced to the stripe rows
+}
+
+export interface StripeResult {
+    taskId: number;
+    pixels: Uint8ClampedArray;
+    histogram: HistogramData;
+}
+
+const scope = self as any;
+
+// The LUT is transferred once per render job, then reused for every stripe of that job
+let cachedLUT: { key: number, lut: LUTContainer } | null = null;
+
+scope.onmessage = (e: MessageEvent<StripeTask>) => {
+    const task = e.data;
+    if (task.lut) cachedLUT = { key: task.lutKey, lut: task.lut };
+    if (!cachedLUT || cachedLUT.key !== task.lutKey) throw new Error(`LUT ${task.lutKey} not available in worker`);
+
+    const input = new ImageData(task.pixels, task.width, task.height);
+    const { imageData, histogram } = applyLUT(input, cachedLUT.lut, task.adjustments, task.intensity, task.masks, task.frame, task.linear);
+
+    const result: StripeResult = { taskId: task.taskId, pixels: imageData.data, histogram };
+    scope.postMessage(result, [imageData.data.buffer]);
+};
@@ -0,0 +1,139 @@
+
+import { CurvePoint, ParametricCurve, ToneCurves } from '../types';
+
+const TABLE_SIZE = 1024;
+
+const identityPoints = (): CurvePoint[] => [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+export const createDefaultToneCurves = (): ToneCurves => ({
+    rgb: identityPoints(),
+    red: identityPoints(),
+    green: identityPoints(),
+    blue: identityPoints(),
+    luma: identityPoints(),
+    parametric: { highlights: 0, lights: 0, darks: 0, shadows: 0, splits: [25, 50, 75] }
+});
+
+const isIdentityPoints = (points: CurvePoint[]) => points.every(p => Math.abs(p.x - p.y) < 0.5);
+
+const isNeutralParametric = (p: ParametricCurve) => p.highlights === 0 && p.lights === 0 && p.darks === 0 && p.shadows === 0;
+
+// Monotone cubic interpolation (Fritsch-Carlson) through the control points, so curves never overshoot.
+// Input and output are normalized 0-1; outside the first/last point the curve is flat.
+export const createSpline = (points: CurvePoint[]): ((x: number) => number) => {
+    const pts = [...points].sort((a, b) => a.x - b.x).map(p => ({ x: p.x / 255, y: p.y / 255 }));
+    if (pts.length === 0) return (x) => x;
+    if (pts.length === 1) return () => pts[0].y;
+
+    const n = pts.length;
+    const dx: number[] = [], slope: number[] = [];
+    for (let i = 0; i < n - 1; i++) {
+        dx[i] = Math.max(1e-6, pts[i + 1].x - pts[i].x);
+        slope[i] = (pts[i + 1].y - pts[i].y) / dx[i];
+    }
+
+    const tangent: number[] = new Array(n);
+    tangent[0] = slope[0];
+    tangent[n - 1] = slope[n - 2];
+    for (let i = 1; i < n - 1; i++) {
+        tangent[i] = slope[i - 1] * slope[i] <= 0 ? 0 : (slope[i - 1] + slope[i]) / 2;
+    }
+    for (let i = 0; i < n - 1; i++) {
+        if (slope[i] === 0) { tangent[i] = 0; tangent[i + 1] = 0; continue; }
+        const a = tangent[i] / slope[i], b = tangent[i + 1] / slope[i];
+        const h = a * a + b * b;
+        if (h > 9) {
+            const t = 3 / Math.sqrt(h);
+            tangent[i] = t * a * slope[i];
+            tangent[i + 1] = t * b * slope[i];
+        }
+    }
+
+    return (x: number) => {
+        if (x <= pts[0].x) return pts[0].y;
+        if (x >= pts[n - 1].x) return pts[n - 1].y;
+        let i = 0;
+        while (i < n - 2 && x > pts[i + 1].x) i++;
+        const h = dx[i];
+        const t = (x - pts[i].x) / h;
+        const t2 = t * t, t3 = t2 * t;
+        return (2 * t3 - 3 * t2 + 1) * pts[i].y + (t3 - 2 * t2 + t) * h * tangent[i]
+             + (-2 * t3 + 3 * t2) * pts[i + 1].y + (t3 - t2) * h * tangent[i + 1];
+    };
+};
+
+// Region curve: each slider pushes a smooth bump over its tonal range, the splits move the range boundaries
+export const createParametricCurve = (p: ParametricCurve): ((x: number) => number) => {
+    const [s1, s2, s3] = p.splits.map(v => v / 100);
+    const regions = [
+        { amount: p.shadows, from: 0, to: s1 },
+        { amount: p.darks, from: s1, to: s2 },
+        { amount: p.lights, from: s2, to: s3 },
+        { amount: p.highlights, from: s3, to: 1 }
+    ];
+    return (x: number) => {
+        let y = x;
+        for (const region of regions) {
+            if (region.amount === 0) continue;
+            // Bump is centered on its region and fades out one region-width to either side
+            const half = (region.to - region.from);
+            const center = (region.from + region.to) / 2;
+            const d = Math.abs(x - center) / half;
+            if (d >= 1) continue;
+            const w = Math.cos(d * Math.PI / 2);
+            y += (region.amount / 100) * 0.12 * w * w;
+        }
+        // Pin black and white points
+        const pin = Math.min(1, x / 0.1, (1 - x) / 0.1);
+        return x + (y - x) * pin;
+    };
+};
+
+export interface PreparedToneCurves {
+    r: Float32Array;
+    g: Float32Array;
+    b: Float32Array;
+    luma: Float32Array | null;
+}
+
+const tabulate = (fn: (x: number) => number): Float32Array => {
+    const table = new Float32Array(TABLE_SIZE + 1);
+    let prev = -Infinity;
+    for (let i = 0; i <= TABLE_SIZE; i++) {
+        // Keep the response monotonic even when parametric bumps overlap
+        const v = Math.max(prev, Math.max(0, Math.min(1, fn(i / TABLE_SIZE))));
+        table[i] = v;
+        prev = v;
+    }
+    return table;
+};
+
+// Evaluate a curve table. Values outside 0-1 keep the offset of the nearest end so float headroom survives.
+export const evalCurve = (table: Float32Array, v: number): number => {
+    if (v <= 0) return v + table[0];
+    if (v >= 1) return v - 1 + table[TABLE_SIZE];
+    const p = v * TABLE_SIZE;
+    const i = p | 0;
+    return table[i] + (table[i + 1] - table[i]) * (p - i);
+};
+
+// Bake parametric -> master RGB -> per-channel curves into one table per channel. Null when all curves are neutral.
+export const prepareToneCurves = (curves: ToneCurves | undefined): PreparedToneCurves | null => {
+    if (!curves) return null;
+    const neutralRGB = isIdentityPoints(curves.rgb) && isNeutralParametric(curves.parametric);
+    const neutralChannels = isIdentityPoints(curves.red) && isIdentityPoints(curves.green) && isIdentityPoints(curves.blue);
+    const neutralLuma = isIdentityPoints(curves.luma);
+    if (neutralRGB && neutralChannels && neutralLuma) return null;
+
+    const parametric = createParametricCurve(curves.parametric);
+    const master = createSpline(curves.rgb);
+    const base = (x: number) => master(parametric(x));
+    const red = createSpline(curves.red), green = createSpline(curves.green), blue = createSpline(curves.blue);
+
+    return {
+        r: tabulate(x => red(base(x))),
+        g: tabulate(x => green(base(x))),
+        b: tabulate(x => blue(base(x))),
+        luma: neutralLuma ? null : tabulate(createSpline(curves.luma))
+    };
+};
@@ -6,16 +6,85 @@ export enum FilmSimulation {
   Astia = 'ASTIA / 柔和模式',
   ClassicChrome = 'CLASSIC CHROME / 经典正片',
   RealaAce = 'REALA ACE / 真实负片',
+  ProNegHi = 'PRO Neg. Hi / 人像高反差',
+  ProNegStd = 'PRO Neg. Std / 人像标准',
   ClassicNeg = 'Classic Neg. / 经典负片',
   NostalgicNeg = 'Nostalgic Neg. / 怀旧负片',
   Eterna = 'ETERNA / 电影模式',
+  EternaBleach = 'ETERNA BLEACH BYPASS / 漂白效果',
   Acros = 'ACROS / 黑白',
   AcrosYe = 'ACROS + 黄滤镜 (强反差)',
   AcrosR = 'ACROS + 红滤镜 (风景)',
   AcrosG = 'ACROS + 绿滤镜 (人像)',
+  Monochrome = 'MONOCHROME / 单色',
   Sepia = 'Sepia / 怀旧棕褐'
 }
 
+// Monochromatic Color toning, -18 to +18 on each axis
+export interface MonochromeToning {
+  warmCool: number;     // + Warm, - Cool
+  magentaGreen: number; // + Magenta, - Green
+}
+
+// --- Film profiles (data-driven film simulations, stored and exchanged as JSON) ---
+// Built-in profiles use their FilmSimulation value as id; custom profiles get a generated id.
+export type FilmProfileId = FilmSimulation | string;
+
+// Sigmoid contrast curve for one channel, followed by output levels
+export interface ProfileCurve {
+  contrast: number; // Sigmoid steepness, typically 3 - 8
+  offset: number;   // Midpoint shift, -0.5 to 0.5 (+ crushes shadows)
+  black: number;    // Output level for black, 0 - 255
+  white: number;    // Output level for white, 0 - 255
+}
+
+// Per-channel gain for the shadows (below threshold) or highlights (above threshold)
+export interface ProfileTint {
+  gain: [number, number, number];
+  threshold: number; // Luma 0 - 255
+  softness: number;  // Transition half-width in luma; 0 = hard edge
+}
+
+export interface FilmProfile {
+  version: number;
+  id: FilmProfileId;
+  name: string;
+  matrix: number[];  // 3x3 row-major, applied first
+  curves: { r: ProfileCurve, g: ProfileCurve, b: ProfileCurve };
+  shadowTint: ProfileTint;
+  highlightTint: ProfileTint;
+  saturationRolloff: { start: number, amount: number }; // Desaturation toward white: from luma start (0-1), amount at white (0-1)
+  monochrome: boolean;        // Grey output; enables Monochromatic Color toning
+  toning?: MonochromeToning;  // Fixed toning baked into the profile (Sepia)
+  createdAt?: number;
+}
+
+// --- Fujifilm in-camera recipe ---
+export type RecipeDynamicRange = 100 | 200 | 400;
+export type RecipeEffectLevel = 'off' | 'weak' | 'strong';
+
+export interface FujiRecipe {
+  name: string;
+  filmSimulation: FilmSimulation;
+  dynamicRange: RecipeDynamicRange;
+  highlightTone: number;  // -2 to +4, half steps
+  shadowTone: number;     // -2 to +4, half steps
+  color: number;          // -4 to +4
+  sharpness: number;      // -4 to +4
+  noiseReduction: number; // -4 to +4
+  clarity: number;        // -5 to +5
+  grainEffect: { strength: RecipeEffectLevel, size: 'small' | 'large' };
+  colorChrome: RecipeEffectLevel;
+  colorChromeBlue: RecipeEffectLevel;
+  monochromaticColor: { warmCool: number, magentaGreen: number }; // -18 to +18, monochrome films only
+  whiteBalance: {
+    mode: string;   // e.g. Auto, Daylight, Kelvin
+    kelvin?: number;
+    red: number;    // Shift, -9 to +9
+    blue: number;   // Shift, -9 to +9
+  };
+}
+
 export interface HSLChannel {
   h: number; // Hue shift (-30 to 30 degrees)
   s: number; // Saturation (-100 to 100)
@@ -42,29 +111,122 @@ export interface GradingAdjustments {
   highlights: ColorGrade;
 }
 
+// Grain visibility per tonal range, 0 - 100
+export interface GrainResponse {
+  shadows: number;
+  midtones: number;
+  highlights: number;
+}
+
+export interface CurvePoint {
+  x: number; // Input 0 - 255
+  y: number; // Output 0 - 255
+}
+
+export interface ParametricCurve {
+  highlights: number; // -100 to 100
+  lights: number;     // -100 to 100
+  darks: number;      // -100 to 100
+  shadows: number;    // -100 to 100
+  splits: [number, number, number]; // Region boundaries, 0 - 100
+}
+
+// Parametric regions are applied first, then the master RGB curve, then the per-channel curves.
+// The luma curve changes luminance only and keeps color.
+export interface ToneCurves {
+  rgb: CurvePoint[];
+  red: CurvePoint[];
+  green: CurvePoint[];
+  blue: CurvePoint[];
+  luma: CurvePoint[];
+  parametric: ParametricCurve;
+}
+
+export type CurveChannel = 'rgb' | 'red' | 'green' | 'blue' | 'luma';
+
 export interface LocalAdjustments {
     exposure: number; // -100 to 100
     contrast: number; // -100 to 100
     saturation: number; // -100 to 100
     temperature: number; // -100 to 100
     tint: number; // -100 to 100
-    sharpness: number; // 0 to 100
+    highlights: number; // -100 to 100
+    shadows: number; // -100 to 100
+    clarity: number; // -100 to 100
+    dehaze: number; // -100 to 100
+    sharpness: number; // -100 (soften) to 100
+}
+
+export type MaskType = 'brush' | 'linear' | 'radial';
+
+// Parametric gradient, resolution independent: positions are fractions of the image, lengths fractions of its long edge
+export interface GradientMaskParams {
+    x: number; // Center (radial) or a point on the midline (linear), 0 to 1 of width
+    y: number; // 0 to 1 of height
+    angle: number; // Degrees, screen space. Linear: direction toward the affected side. Radial: ellipse rotation
+    radiusX: number; // Radial only
+    radiusY: number; // Radial only
+    feather: number; // 0 to 100
+    invert: boolean;
+}
+
+// Restricts a mask to a tonal range of the original image (0-100 luma, feather widens both edges)
+export interface LuminanceRange {
+    enabled: boolean;
+    min: number; // 0 to 100
+    max: number; // 0 to 100
+    feather: number; // 0 to 100
+}
+
+// Restricts a mask to colors near one picked from the original image
+export interface ColorRange {
+    enabled: boolean;
+    color: { r: number, g: number, b: number } | null; // Eyedropper sample (0-255), null until picked
+    tolerance: number; // 0 to 100
+    feather: number; // 0 to 100
 }
 
 export interface MaskLayer {
     id: string;
     name: string;
+    type: MaskType;
     visible: boolean;
     opacity: number; // 0 to 1
-    data: Uint8Array | null; // Alpha map (0-255), null means empty/transparent
+    data: Uint8Array | null; // Brush alpha map (0-255), null means empty/transparent
+    gradient: GradientMaskParams | null; // Linear/radial masks; alpha is generated at render time
+    luminanceRange: LuminanceRange; // Multiplies the painted/gradient alpha
+    colorRange: ColorRange; // Multiplies the painted/gradient alpha
     adjustments: LocalAdjustments;
 }
 
+export type MaskCombineMode = 'union' | 'intersect' | 'subtract';
+
+// Per-layer operations; radii and amounts are in full-resolution pixels
+export type MaskOperation =
+    | { kind: 'invert' }
+    | { kind: 'feather', radius: number }
+    | { kind: 'expand', amount: number } // Negative contracts
+    | { kind: 'combine', mode: MaskCombineMode, otherId: string }
+    | { kind: 'refine', radius: number };
+
 export interface BrushSettings {
-    size: number; // 1 to 500
-    hardness: number; // 0 to 100 (Not fully implemented in canvas stroke, simplified to blur)
-    opacity: number; // 0 to 100 (Flow)
+    size: number; // 1 to 500, diameter in image pixels
+    hardness: number; // 0 to 100, share of the radius at full strength
+    flow: number; // 0 to 100, how much each dab adds
+    opacity: number; // 0 to 100, ceiling a single stroke can build up to
+    spacing: number; // 1 to 100, dab distance as % of the diameter
     isEraser: boolean;
+    pressureSize: boolean; // Pen pressure scales the diameter
+    pressureFlow: boolean; // Pen pressure scales the flow
+}
+
+// One pointer sample of a stroke, in image pixels
+export interface BrushPoint {
+    x: number;
+    y: number;
+    pressure: number; // 0 to 1; 1 for devices without pressure
+    tiltX: number; // Degrees, -90 to 90
+    tiltY: number; // Degrees, -90 to 90
 }
 
 export interface Adjustments {
@@ -74,6 +236,10 @@ export interface Adjustments {
   saturation: number; // -100 to 100
   highlights: number; // -100 to 100
   shadows: number;    // -100 to 100
+  clarity: number;    // -100 to 100 (Midtone local contrast)
+
+  // Tone Curves
+  curves: ToneCurves;
   
   // White Balance
   whiteBalance: {
@@ -84,9 +250,19 @@ export interface Adjustments {
   // Color Grading (Split Toning)
   grading: GradingAdjustments;
 
+  // Color Chrome Effect / FX Blue: deeper tones in saturated (or blue) colours
+  colorChrome: number;     // 0 to 100
+  colorChromeBlue: number; // 0 to 100
+
+  // Monochromatic Color: toning of ACROS / MONOCHROME
+  monoWarmCool: number;      // -18 (Cool) to 18 (Warm)
+  monoMagentaGreen: number;  // -18 (Green) to 18 (Magenta)
+
   // Texture & Detail
   grainAmount: number; // 0 to 100
-  grainSize: number;   // 1 to 5 (Roughness)
+  grainSize: number;   // 1 to 5 (Clump size, relative to the frame)
+  grainChroma: number; // 0 to 100 (Colour grain share; 0 = luminance only)
+  grainResponse: GrainResponse;
   vignette: number;    // 0 to 100
   sharpening: number;  // 0 to 100 (Unsharp Mask)
   
@@ -97,6 +273,38 @@ export interface Adjustments {
   hsl: HSLAdjustments;
 }
 
+// Everything an edit can change; the unit of undo/redo
+export interface EditorState {
+  adjustments: Adjustments;
+  masks: MaskLayer[];
+  film: FilmProfileId;
+  intensity: number;
+  look: LookSelection | null;
+}
+
+export interface ImageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// What the canvas currently shows, reported by CanvasView
+export interface ViewportState {
+  scale: number;                 // Screen pixels per image pixel
+  visibleRect: ImageRect | null; // Visible part of the image, in image pixels
+}
+
+// Placement of a pixel block (e.g. a worker stripe) within the full image
+export interface RenderFrame {
+  offsetX: number;
+  offsetY: number;
+  fullWidth: number;
+  fullHeight: number;
+  haloTop: number;    // Context rows above the block that are not part of its output
+  haloBottom: number; // Context rows below the block that are not part of its output
+}
+
 export interface ProcessingState {
   isProcessing: boolean;
   filterIntensity: number; // 0 to 1
@@ -109,11 +317,45 @@ export interface HistogramData {
   b: number[];
 }
 
+// RAW development: demosaic algorithm for CFA (Bayer / X-Trans) sensor data
+export type DemosaicMethod = 'bilinear' | 'vng';
+
+// Primaries of a linear image: the sensor's own, white balanced but without a colour matrix, or a standard RGB space
+export type LinearColorSpace = 'camera' | 'srgb' | 'prophoto';
+
+// High bit depth linear image, RGB interleaved; 0 = black level, 1 = sensor white level (scene-referred values may exceed 1)
+export interface LinearImage {
+    width: number;
+    height: number;
+    data: Float32Array;
+    space: LinearColorSpace;
+}
+
 // Flexible LUT Container
+export type LUTInterpolation = 'trilinear' | 'tetrahedral';
+
+export type LUTSize = 17 | 33 | 65;
+
 export interface LUTContainer {
     size: number;
-    data: Float32Array | Uint8Array; // Float for precision source, Uint8 for fast render
+    data: Float32Array; // RGB triplets, red fastest; normalized 0-1 (not clamped)
     name?: string;
+    interpolation?: LUTInterpolation; // Lookup used when rendering; trilinear when unset
 }
 
 export type LUTData = LUTContainer;
+
+// Imported LUT, kept in the browser's look library next to the built-in film simulations
+export interface CustomLook {
+    id: string;
+    name: string;
+    lut: LUTContainer;
+    createdAt: number;
+}
+
+// Custom look applied to the current edit
+export interface LookSelection {
+    id: string;
+    intensity: number; // 0-1, blend of the look over its input
+    stackOnFilm: boolean; // Apply after the film simulation instead of replacing it
+}